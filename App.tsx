@@ -6,6 +6,7 @@ import {SafeAreaProvider} from 'react-native-safe-area-context';
 import {AuthProvider} from './src/contexts/AuthContext';
 import {OrganizationProvider} from './src/contexts/OrganizationContext';
 import {AppNavigator} from './src/navigation/AppNavigator';
+import {linking} from './src/navigation/linking';
 
 export default function App() {
   return (
@@ -13,7 +14,7 @@ export default function App() {
       <OrganizationProvider>
         <PaperProvider>
           <SafeAreaProvider>
-            <NavigationContainer>
+            <NavigationContainer linking={linking}>
               <AppNavigator />
               <FlashMessage position="top" />
             </NavigationContainer>
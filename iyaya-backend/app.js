@@ -127,8 +127,9 @@ const corsOptions = {
     'X-Dev-Role',
     'X-Refresh-Token',
     'X-Request-ID',
+    'Idempotency-Key',
   ],
-  exposedHeaders: ['Authorization', 'X-Refresh-Token', 'X-Request-ID'],
+  exposedHeaders: ['Authorization', 'X-Refresh-Token', 'X-Request-ID', 'Idempotent-Replayed'],
   credentials: true,
   optionsSuccessStatus: 204,
   maxAge: 86400,
@@ -225,6 +226,7 @@ const mountRoutes = () => {
     apiRouter.use('/privacy', require('./routes/privacy'));
     apiRouter.use('/payments', require('./routes/paymentRoutes'));
     apiRouter.use('/admin', require('./routes/adminRoutes'));
+    apiRouter.use('/cron', require('./routes/cronRoutes'));
     
     // Solana & Points routes (Week 3-5 features)
     apiRouter.use('/points', require('./routes/pointsRoutes'));
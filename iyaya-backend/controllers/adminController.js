@@ -14,6 +14,7 @@ const {
 } = require("../services/supabaseService");
 const auditService = require("../services/auditService");
 const { sendStatusEmail } = require("../services/emailService");
+const { isKnownGrant, matchesGrant } = require("../middleware/permissions");
 
 const normalizeUser = (record) => {
   if (!record) return null;
@@ -30,6 +31,7 @@ const normalizeUser = (record) => {
     deletedAt: record.deleted_at,
     profileImage: record.profile_image,
     createdAt: record.created_at,
+    permissions: Array.isArray(record.permissions) ? record.permissions : [],
     caregiverProfile: record.caregiver_profiles || null,
   };
 };
@@ -134,7 +136,12 @@ const safeString = (str) => (typeof str === "string" ? str.trim() : undefined);
 
 const trimToString = (value) => (typeof value === "string" ? value.trim() : "");
 
-const PAYMENT_STATUS_VALUES = ["pending", "paid", "disputed", "refunded"];
+// partially_refunded can only be restored (e.g. when a dispute is released) on a
+// payment whose ledger already shows a partial refund; refunds themselves go
+// through the refund endpoint.
+const PAYMENT_STATUS_VALUES = ["pending", "paid", "disputed", "refunded", "partially_refunded"];
+
+const roundCurrency = (value) => Math.round(value * 100) / 100;
 
 exports.getSettings = async (_req, res) => {
   try {
@@ -176,6 +183,18 @@ exports.dashboard = async (req, res) => {
   }
 };
 
+// Statuses a job must be in for each workflow action; shared by the single-job
+// endpoints and bulkJobAction. Mirrored in src/services/jobsService.ts.
+const JOB_ACTION_SOURCE_STATUSES = {
+  approve: ["pending", "open", "active"],
+  reject: ["pending", "open", "active"],
+  cancel: ["open", "confirmed", "pending", "active"],
+  complete: ["confirmed", "open", "active"],
+  reopen: ["cancelled", "completed", "inactive"],
+  // Jobs with a caregiver engaged (confirmed or filled) are only deleted one at a time.
+  bulkDelete: ["pending", "open", "active", "cancelled", "completed", "inactive"],
+};
+
 const applyJobStatusChange = async ({
   jobId,
   adminId,
@@ -215,6 +234,30 @@ const applyJobStatusChange = async ({
   return { job: normalizeJob(updatedJob) };
 };
 
+// Mirrors src/config/bookingStateMachine.ts in the admin app.
+const BOOKING_STATUSES = [
+  "pending",
+  "confirmed",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "no_show",
+];
+
+const BOOKING_TRANSITIONS = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["in_progress", "completed", "cancelled", "no_show"],
+  in_progress: ["completed", "cancelled", "no_show"],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+const BOOKING_STATUSES_REQUIRING_REASON = ["cancelled", "no_show"];
+
+const normalizeBookingStatus = (status) =>
+  status === "in-progress" ? "in_progress" : status;
+
 const applyBookingStatusChange = async ({
   bookingId,
   adminId,
@@ -229,14 +272,28 @@ const applyBookingStatusChange = async ({
     return { error: "Booking not found", statusCode: 404 };
   }
 
-  if (
-    allowedCurrentStatuses &&
-    !allowedCurrentStatuses.includes(booking.status)
-  ) {
+  const currentStatus = normalizeBookingStatus(booking.status);
+  const allowedFrom =
+    allowedCurrentStatuses ||
+    Object.keys(BOOKING_TRANSITIONS).filter((status) =>
+      BOOKING_TRANSITIONS[status].includes(targetStatus),
+    );
+
+  if (!allowedFrom.includes(currentStatus)) {
     return {
       error:
         errorHint ||
-        `Cannot transition booking from ${booking.status} to ${targetStatus}`,
+        `Cannot transition booking from ${currentStatus} to ${targetStatus}`,
+      statusCode: 400,
+    };
+  }
+
+  if (
+    BOOKING_STATUSES_REQUIRING_REASON.includes(targetStatus) &&
+    !trimToString(reason)
+  ) {
+    return {
+      error: `A reason is required to mark a booking as ${targetStatus}`,
       statusCode: 400,
     };
   }
@@ -249,9 +306,10 @@ const applyBookingStatusChange = async ({
   await AuditLogService.create({
     admin_id: adminId,
     action: auditAction,
+    target_type: "booking",
     target_id: bookingId,
     metadata: {
-      from: booking.status,
+      from: currentStatus,
       to: targetStatus,
       reason: reason ?? null,
     },
@@ -281,13 +339,32 @@ const ensureNoteProvided = (note, label = "note") => {
 };
 
 // Payments management functions
+const MAX_PAYMENT_BOOKING_IDS = 100;
+
 exports.listPayments = async (req, res) => {
   try {
-    const { page = 1, limit = 25, status, search } = req.query;
+    const { page = 1, limit = 25, status, bookingId, search } = req.query;
+    // Comma-separated list, capped so the filter stays within URL limits
+    const bookingIds =
+      typeof req.query.bookingIds === "string"
+        ? req.query.bookingIds
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean)
+        : [];
+    if (bookingIds.length > MAX_PAYMENT_BOOKING_IDS) {
+      return res.status(400).json({
+        success: false,
+        error: `At most ${MAX_PAYMENT_BOOKING_IDS} booking IDs can be requested at once`,
+      });
+    }
+
     const result = await PaymentService.list({
       page: Number(page),
       limit: Number(limit),
       status,
+      bookingId,
+      bookingIds,
       search,
     });
 
@@ -367,6 +444,16 @@ exports.updatePaymentStatus = async (req, res) => {
       });
     }
 
+    if (
+      normalizedStatus === "partially_refunded" &&
+      !(existing.refundedAmount > 0 && existing.refundedAmount < existing.totalAmount)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Only payments with a partial refund can be marked partially refunded",
+      });
+    }
+
     if (["paid"].includes(normalizedStatus)) {
       const validation = ensureNoteProvided(notes, "notes");
       if (validation.error) {
@@ -415,7 +502,7 @@ exports.refundPayment = async (req, res) => {
   try {
     const { paymentId } = req.params;
     const adminId = req.user.id;
-    const { reason } = req.body || {};
+    const { reason, amount } = req.body || {};
 
     const existing = await PaymentService.findById(paymentId);
     if (!existing) {
@@ -432,6 +519,14 @@ exports.refundPayment = async (req, res) => {
       });
     }
 
+    if (await PaymentService.isPaidOut(paymentId)) {
+      return res.status(409).json({
+        success: false,
+        code: "PAYMENT_PAID_OUT",
+        error: "Payment has been paid out to the caregiver and can no longer be refunded",
+      });
+    }
+
     const validation = ensureNoteProvided(reason, "reason");
     if (validation.error) {
       return res.status(validation.statusCode).json({
@@ -440,7 +535,38 @@ exports.refundPayment = async (req, res) => {
       });
     }
 
-    const updated = await PaymentService.refund(paymentId, validation.value);
+    const remaining = roundCurrency(
+      existing.totalAmount - existing.refundedAmount,
+    );
+    if (remaining <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Payment has no remaining balance to refund",
+      });
+    }
+
+    let refundAmount = remaining;
+    if (amount !== undefined && amount !== null) {
+      refundAmount = roundCurrency(Number(amount));
+      if (!Number.isFinite(refundAmount) || refundAmount <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Refund amount must be a positive number",
+        });
+      }
+      if (refundAmount > remaining) {
+        return res.status(400).json({
+          success: false,
+          error: `Refund amount exceeds the remaining balance of ${remaining.toFixed(2)}`,
+        });
+      }
+    }
+
+    const updated = await PaymentService.refund(paymentId, {
+      amount: refundAmount,
+      reason: validation.value,
+      adminId,
+    });
 
     await AuditLogService.create({
       admin_id: adminId,
@@ -449,6 +575,8 @@ exports.refundPayment = async (req, res) => {
       metadata: {
         from: existing.paymentStatus,
         to: updated.paymentStatus,
+        amount: refundAmount,
+        refundedTotal: updated.refundedAmount,
         reason: validation.value,
         proofStatus: updated.proofStatus,
         proofIssues: updated.proofIssues,
@@ -460,7 +588,10 @@ exports.refundPayment = async (req, res) => {
     res.status(200).json({
       success: true,
       data: updated,
-      message: "Payment refunded successfully",
+      message:
+        updated.paymentStatus === "refunded"
+          ? "Payment refunded successfully"
+          : "Payment partially refunded",
       warnings: warnings || undefined,
     });
   } catch (error) {
@@ -507,7 +638,7 @@ exports.approveJob = async (req, res) => {
       targetStatus: "confirmed",
       auditAction: "APPROVE_JOB",
       reason,
-      allowedCurrentStatuses: ["pending", "open", "active"],
+      allowedCurrentStatuses: JOB_ACTION_SOURCE_STATUSES.approve,
       errorHint: "Only pending or open jobs can be approved",
     });
 
@@ -539,7 +670,7 @@ exports.rejectJob = async (req, res) => {
       targetStatus: "cancelled",
       auditAction: "REJECT_JOB",
       reason,
-      allowedCurrentStatuses: ["pending", "open", "active"],
+      allowedCurrentStatuses: JOB_ACTION_SOURCE_STATUSES.reject,
       errorHint: "Only pending or open jobs can be rejected",
     });
 
@@ -571,7 +702,7 @@ exports.cancelJob = async (req, res) => {
       targetStatus: "cancelled",
       auditAction: "CANCEL_JOB",
       reason,
-      allowedCurrentStatuses: ["open", "confirmed", "pending", "active"],
+      allowedCurrentStatuses: JOB_ACTION_SOURCE_STATUSES.cancel,
       errorHint: "Only active jobs can be cancelled",
     });
 
@@ -601,7 +732,7 @@ exports.completeJob = async (req, res) => {
       adminId,
       targetStatus: "completed",
       auditAction: "COMPLETE_JOB",
-      allowedCurrentStatuses: ["confirmed", "open", "active"],
+      allowedCurrentStatuses: JOB_ACTION_SOURCE_STATUSES.complete,
     });
 
     if (result.error) {
@@ -630,7 +761,7 @@ exports.reopenJob = async (req, res) => {
       adminId,
       targetStatus: "open",
       auditAction: "REOPEN_JOB",
-      allowedCurrentStatuses: ["cancelled", "completed", "inactive"],
+      allowedCurrentStatuses: JOB_ACTION_SOURCE_STATUSES.reopen,
     });
 
     if (result.error) {
@@ -1165,6 +1296,7 @@ exports.updateJob = async (req, res) => {
       hourly_rate,
       parent_id,
       caregiver_id,
+      revision_note,
     } = req.body || {};
     const adminId = req.user.id;
 
@@ -1187,7 +1319,12 @@ exports.updateJob = async (req, res) => {
       updated_at: new Date().toISOString(),
     };
 
-    const updatedJob = await JobService.update(jobId, updates);
+    // Read and cleared by the jobs_record_revision trigger to attribute the revision
+    const updatedJob = await JobService.update(jobId, {
+      ...updates,
+      revision_author_id: adminId,
+      ...(revision_note ? { revision_note } : {}),
+    });
 
     await AuditLogService.create({
       admin_id: adminId,
@@ -1461,14 +1598,147 @@ exports.deleteJob = async (req, res) => {
   }
 };
 
+const BULK_JOB_ACTIONS = {
+  approve: {
+    allowedFrom: JOB_ACTION_SOURCE_STATUSES.approve,
+    run: (jobId) => JobService.approve(jobId),
+  },
+  reject: {
+    allowedFrom: JOB_ACTION_SOURCE_STATUSES.reject,
+    run: (jobId, reason) => JobService.reject(jobId, reason),
+  },
+  cancel: {
+    allowedFrom: JOB_ACTION_SOURCE_STATUSES.cancel,
+    run: (jobId, reason) => JobService.cancel(jobId, reason),
+  },
+  delete: {
+    allowedFrom: JOB_ACTION_SOURCE_STATUSES.bulkDelete,
+    run: (jobId) => JobService.delete(jobId),
+  },
+};
+const MAX_BULK_JOBS = 100;
+
+// Apply one action to many jobs; jobs not in an allowed status are reported as
+// failures and left unchanged. The batch is recorded as a single audit entry
+exports.bulkJobAction = async (req, res) => {
+  try {
+    const { jobIds, action } = req.body || {};
+    const reason = safeString(req.body?.reason);
+    // The app sends large selections in chunks that share one batch ID.
+    const batchId = safeString(req.body?.batchId) || null;
+    const adminId = req.user.id;
+
+    if (!Array.isArray(jobIds) || jobIds.length === 0) {
+      return res
+        .status(400)
+        .json({ success: false, error: "jobIds array is required" });
+    }
+    if (jobIds.length > MAX_BULK_JOBS) {
+      return res.status(400).json({
+        success: false,
+        error: `At most ${MAX_BULK_JOBS} jobs can be updated at once`,
+      });
+    }
+    if (!BULK_JOB_ACTIONS[action]) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid action. Must be one of: ${Object.keys(BULK_JOB_ACTIONS).join(", ")}`,
+      });
+    }
+    if (!reason) {
+      return res
+        .status(400)
+        .json({ success: false, error: "A reason is required for bulk actions" });
+    }
+
+    const succeeded = [];
+    const failures = [];
+    const previousStatuses = {};
+    for (const jobId of [...new Set(jobIds)]) {
+      try {
+        const job = await JobService.findById(jobId);
+        if (!job) {
+          failures.push({ jobId, error: "Job not found" });
+          continue;
+        }
+        if (!BULK_JOB_ACTIONS[action].allowedFrom.includes(job.status)) {
+          failures.push({ jobId, error: `Cannot ${action} a job that is ${job.status}` });
+          continue;
+        }
+        await BULK_JOB_ACTIONS[action].run(jobId, reason);
+        previousStatuses[jobId] = job.status;
+        succeeded.push(jobId);
+      } catch (itemError) {
+        console.error("Bulk job action error for job", jobId, itemError);
+        failures.push({ jobId, error: itemError.message || `Failed to ${action} job` });
+      }
+    }
+
+    await AuditLogService.create({
+      admin_id: adminId,
+      action: "BULK_UPDATE_JOBS",
+      target_type: "job",
+      target_id: null,
+      metadata: {
+        bulkAction: action,
+        batchId,
+        reason,
+        succeeded,
+        failures,
+        from: previousStatuses,
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { succeeded, failures },
+      message: `Bulk ${action} processed for ${succeeded.length} jobs`,
+    });
+  } catch (error) {
+    res.status(500).json(handleSupabaseError(error, "bulkJobAction"));
+  }
+};
+
 // Bookings management functions
 exports.listBookings = async (req, res) => {
   try {
-    const { page = 1, limit = 20, status, search } = req.query;
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      parentId,
+      caregiverId,
+      jobId,
+      from,
+      to,
+      serviceDateFrom,
+      serviceDateTo,
+      minAmount,
+      maxAmount,
+      minChildren,
+      maxChildren,
+      hasOpenReport,
+      search,
+    } = req.query;
+    const toOptionalNumber = (value) =>
+      value === undefined || value === "" ? undefined : Number(value);
     const { bookings, total } = await BookingService.getBookings({
       page: Number(page),
       limit: Number(limit),
       status,
+      parentId,
+      caregiverId,
+      jobId,
+      from,
+      to,
+      serviceDateFrom,
+      serviceDateTo,
+      minAmount: toOptionalNumber(minAmount),
+      maxAmount: toOptionalNumber(maxAmount),
+      minChildren: toOptionalNumber(minChildren),
+      maxChildren: toOptionalNumber(maxChildren),
+      hasOpenReport:
+        hasOpenReport === "true" ? true : hasOpenReport === "false" ? false : undefined,
       search,
     });
 
@@ -1505,6 +1775,85 @@ exports.getBookingById = async (req, res) => {
   }
 };
 
+// Update an admin's permission grants
+exports.updateUserPermissions = async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { permissions } = req.body || {};
+    const adminId = req.user.id;
+
+    if (
+      !Array.isArray(permissions) ||
+      permissions.some((permission) => typeof permission !== "string")
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "permissions must be an array of strings",
+      });
+    }
+
+    if (userId === adminId) {
+      return res.status(403).json({
+        success: false,
+        error: "You cannot change your own permissions",
+      });
+    }
+
+    const next = [...new Set(permissions.map((permission) => permission.trim()))]
+      .filter(Boolean);
+    const unknown = next.filter((permission) => !isKnownGrant(permission));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown permissions: ${unknown.join(", ")}`,
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: "User not found" });
+    }
+
+    if (user.role !== "admin") {
+      return res.status(400).json({
+        success: false,
+        error: "Permissions can only be assigned to admin accounts",
+      });
+    }
+
+    const previous = Array.isArray(user.permissions) ? user.permissions : [];
+    // Grants that let the holder hand out permissions are reserved for superadmins.
+    const touchesManage = [
+      ...next.filter((permission) => !previous.includes(permission)),
+      ...previous.filter((permission) => !next.includes(permission)),
+    ].some((permission) => matchesGrant(permission, "permissions.manage"));
+    if (touchesManage && req.user.role !== "superadmin" && !req.user.bypass) {
+      return res.status(403).json({
+        success: false,
+        error: "Only super admins can grant or revoke permission management",
+      });
+    }
+    const updatedUser = await UserService.update(userId, { permissions: next });
+
+    await AuditLogService.create({
+      admin_id: adminId,
+      action: "UPDATE_USER_PERMISSIONS",
+      target_id: userId,
+      metadata: {
+        granted: next.filter((permission) => !previous.includes(permission)),
+        revoked: previous.filter((permission) => !next.includes(permission)),
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: normalizeUser(updatedUser),
+    });
+  } catch (error) {
+    res.status(500).json(handleSupabaseError(error, "updateUserPermissions"));
+  }
+};
+
 // Delete User
 exports.deleteUser = async (req, res) => {
   try {
@@ -1582,19 +1931,18 @@ exports.updateBookingStatus = async (req, res) => {
     const { status, reason } = req.body || {};
     const adminId = req.user.id;
 
-    // Constrained by DB enum: pending, confirmed, completed, cancelled
-    const validStatuses = ["pending", "confirmed", "completed", "cancelled"];
-    if (!validStatuses.includes(status)) {
+    const targetStatus = normalizeBookingStatus(status);
+    if (!BOOKING_STATUSES.includes(targetStatus)) {
       return res.status(400).json({
         success: false,
-        error: `Invalid status value. Must be one of: ${validStatuses.join(", ")}`,
+        error: `Invalid status value. Must be one of: ${BOOKING_STATUSES.join(", ")}`,
       });
     }
 
     const result = await applyBookingStatusChange({
       bookingId,
       adminId,
-      targetStatus: status,
+      targetStatus,
       auditAction: "UPDATE_BOOKING_STATUS",
       reason,
     });
@@ -1652,14 +2000,11 @@ exports.startBooking = async (req, res) => {
     const { bookingId } = req.params;
     const adminId = req.user.id;
 
-    // We no longer use a separate "in_progress" status at the DB level.
-    // Treat "start" as a no-op for status (or keep as confirmed).
     const result = await applyBookingStatusChange({
       bookingId,
       adminId,
-      targetStatus: "confirmed",
+      targetStatus: "in_progress",
       auditAction: "START_BOOKING",
-      allowedCurrentStatuses: ["confirmed"],
     });
 
     if (result.error) {
@@ -1688,8 +2033,6 @@ exports.completeBooking = async (req, res) => {
       adminId,
       targetStatus: "completed",
       auditAction: "COMPLETE_BOOKING",
-      // Only allow completing confirmed bookings
-      allowedCurrentStatuses: ["confirmed"],
     });
 
     if (result.error) {
@@ -1720,10 +2063,7 @@ exports.cancelBooking = async (req, res) => {
       targetStatus: "cancelled",
       auditAction: "CANCEL_BOOKING",
       reason,
-      // DB enum: pending, confirmed, completed, cancelled
-      // Allow cancelling from pending or confirmed only
-      allowedCurrentStatuses: ["pending", "confirmed"],
-      errorHint: "Only pending or confirmed bookings can be cancelled",
+      errorHint: "Only pending, confirmed or in-progress bookings can be cancelled",
     });
 
     if (result.error) {
@@ -1782,6 +2122,7 @@ module.exports = {
   updateUser: exports.updateUser,
   updateUserStatus: exports.updateUserStatus,
   bulkUpdateUserStatus: exports.bulkUpdateUserStatus,
+  updateUserPermissions: exports.updateUserPermissions,
   deleteUser: exports.deleteUser,
 
   // Bookings
@@ -1811,6 +2152,7 @@ module.exports = {
   completeJob: exports.completeJob,
   reopenJob: exports.reopenJob,
   deleteJob: exports.deleteJob,
+  bulkJobAction: exports.bulkJobAction,
 
   // Audit logs
   listAuditLogs: exports.listAuditLogs,
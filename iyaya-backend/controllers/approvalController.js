@@ -0,0 +1,211 @@
+const { ApprovalService } = require("../services/approvalService");
+const { AuditLogService } = require("../services/supabaseService");
+const ErrorResponse = require("../utils/errorResponse");
+
+const APPROVAL_ACTION_TYPES = [
+  "delete_user",
+  "refund_payment",
+  "delete_child_profile",
+  "bulk_ban_users",
+];
+const DEFAULT_EXPIRY_HOURS = 24;
+const MAX_EXPIRY_HOURS = 72;
+
+// Request approval for a destructive action
+exports.createApproval = async (req, res, next) => {
+  try {
+    const {
+      actionType,
+      targetType,
+      targetId = null,
+      summary,
+      reason,
+      payload = {},
+      diff = [],
+      expiresInHours = DEFAULT_EXPIRY_HOURS,
+    } = req.body;
+
+    if (!APPROVAL_ACTION_TYPES.includes(actionType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid actionType. Must be one of: ${APPROVAL_ACTION_TYPES.join(", ")}`,
+      });
+    }
+
+    if (!targetType || !summary || !reason?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing required fields: targetType, summary, reason",
+      });
+    }
+
+    const hours = Math.min(
+      Math.max(Number(expiresInHours) || DEFAULT_EXPIRY_HOURS, 1),
+      MAX_EXPIRY_HOURS,
+    );
+
+    const approval = await ApprovalService.create({
+      action_type: actionType,
+      target_type: targetType,
+      target_id: targetId,
+      summary,
+      reason: reason.trim(),
+      payload,
+      diff,
+      requested_by: req.user.id,
+      expires_at: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+    });
+
+    await AuditLogService.create({
+      admin_id: req.user.id,
+      action: "APPROVAL_REQUESTED",
+      target_type: targetType,
+      target_id: targetId,
+      metadata: { approval_id: approval.id, action_type: actionType, reason: approval.reason },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: approval,
+    });
+  } catch (error) {
+    console.error("Create approval error:", error);
+    next(new ErrorResponse("Failed to create approval request", 500));
+  }
+};
+
+// List approval requests
+exports.getApprovals = async (req, res, next) => {
+  try {
+    const { page = 1, limit = 20, status, requestedBy } = req.query;
+
+    await ApprovalService.expireStale();
+    const result = await ApprovalService.getApprovals({
+      page: parseInt(page),
+      limit: parseInt(limit),
+      status,
+      requestedBy,
+    });
+
+    res.status(200).json({
+      success: true,
+      ...result,
+      data: result.approvals,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    });
+  } catch (error) {
+    console.error("Get approvals error:", error);
+    next(new ErrorResponse("Failed to fetch approval requests", 500));
+  }
+};
+
+const loadReviewableApproval = async (req, res) => {
+  const approval = await ApprovalService.findById(req.params.id);
+
+  if (!approval) {
+    res.status(404).json({ success: false, error: "Approval request not found" });
+    return null;
+  }
+
+  if (approval.status !== "pending") {
+    res.status(409).json({
+      success: false,
+      error: `Approval request is already ${approval.status}`,
+    });
+    return null;
+  }
+
+  if (new Date(approval.expires_at).getTime() < Date.now()) {
+    await ApprovalService.expireStale();
+    res.status(409).json({ success: false, error: "Approval request has expired" });
+    return null;
+  }
+
+  if (approval.requested_by === req.user.id) {
+    res.status(403).json({
+      success: false,
+      error: "A second admin must review this request",
+    });
+    return null;
+  }
+
+  return approval;
+};
+
+// Approve a pending request; the action itself is executed separately
+exports.approveApproval = async (req, res, next) => {
+  try {
+    const approval = await loadReviewableApproval(req, res);
+    if (!approval) return;
+
+    const updated = await ApprovalService.review(approval.id, {
+      status: "approved",
+      reviewedBy: req.user.id,
+      reviewNote: req.body?.note,
+    });
+
+    await AuditLogService.create({
+      admin_id: req.user.id,
+      action: "APPROVAL_APPROVED",
+      target_type: approval.target_type,
+      target_id: approval.target_id,
+      metadata: {
+        approval_id: approval.id,
+        action_type: approval.action_type,
+        requested_by: approval.requested_by,
+        approved_by: req.user.id,
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error("Approve approval error:", error);
+    next(new ErrorResponse("Failed to approve request", 500));
+  }
+};
+
+// Reject a pending request
+exports.rejectApproval = async (req, res, next) => {
+  try {
+    const approval = await loadReviewableApproval(req, res);
+    if (!approval) return;
+
+    const updated = await ApprovalService.review(approval.id, {
+      status: "rejected",
+      reviewedBy: req.user.id,
+      reviewNote: req.body?.note,
+    });
+
+    await AuditLogService.create({
+      admin_id: req.user.id,
+      action: "APPROVAL_REJECTED",
+      target_type: approval.target_type,
+      target_id: approval.target_id,
+      metadata: {
+        approval_id: approval.id,
+        action_type: approval.action_type,
+        requested_by: approval.requested_by,
+        rejected_by: req.user.id,
+        note: req.body?.note,
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error("Reject approval error:", error);
+    next(new ErrorResponse("Failed to reject request", 500));
+  }
+};
+
+exports.APPROVAL_ACTION_TYPES = APPROVAL_ACTION_TYPES;
@@ -1,4 +1,4 @@
-const { ReportService } = require("../services/reportService");
+const { ReportService, isEscalationDue } = require("../services/reportService");
 const { AuditLogService } = require("../services/supabaseService");
 const ErrorResponse = require("../utils/errorResponse");
 
@@ -68,6 +68,8 @@ exports.getReports = async (req, res, next) => {
       status,
       reportType,
       severity,
+      assignedTo,
+      bookingId,
       search,
     } = req.query;
 
@@ -77,12 +79,21 @@ exports.getReports = async (req, res, next) => {
       status,
       reportType,
       severity,
+      assignedTo,
+      bookingId,
       search,
     });
 
     res.status(200).json({
       success: true,
       ...result,
+      data: result.reports,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total ?? 0,
+        totalPages: Math.max(1, Math.ceil((result.total || 0) / result.limit)),
+      },
     });
   } catch (error) {
     console.error("Get reports error:", error);
@@ -194,9 +205,159 @@ exports.getMyReports = async (req, res, next) => {
     res.status(200).json({
       success: true,
       ...result,
+      data: result.reports,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total ?? 0,
+        totalPages: Math.max(1, Math.ceil((result.total || 0) / result.limit)),
+      },
     });
   } catch (error) {
     console.error("Get my reports error:", error);
     next(new ErrorResponse("Failed to fetch your reports", 500));
   }
 };
+
+// Assign a report to an admin (admin only)
+exports.assignReport = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { assigneeId = null } = req.body;
+
+    const report = await ReportService.assign(id, assigneeId);
+    const comment = await ReportService.addComment(id, {
+      authorId: req.user.id,
+      kind: "assignment",
+      body: assigneeId
+        ? `Assigned to ${report.assignee?.name || assigneeId}`
+        : "Unassigned",
+      metadata: { assigneeId },
+    });
+
+    await AuditLogService.create({
+      admin_id: req.user.id,
+      action: "report_assigned",
+      target_type: "report",
+      target_id: id,
+      metadata: { assigneeId },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: report,
+      comment,
+    });
+  } catch (error) {
+    console.error("Assign report error:", error);
+    next(new ErrorResponse("Failed to assign report", 500));
+  }
+};
+
+// Escalate a report whose SLA deadline has passed (admin only)
+exports.escalateReport = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const current = await ReportService.findById(id);
+    if (!current) {
+      return next(new ErrorResponse("Report not found", 404));
+    }
+    if (!isEscalationDue(current)) {
+      return res.status(409).json({
+        success: false,
+        error: "Report is not past its SLA deadline or was already escalated",
+        code: "SLA_NOT_BREACHED",
+      });
+    }
+
+    const report = await ReportService.escalate(current, { authorId: req.user.id, reason });
+    if (!report) {
+      return res.status(409).json({
+        success: false,
+        error: "Report was escalated by someone else",
+        code: "SLA_NOT_BREACHED",
+      });
+    }
+
+    await AuditLogService.create({
+      admin_id: req.user.id,
+      action: "report_escalated",
+      target_type: "report",
+      target_id: id,
+      metadata: { escalationLevel: report.escalation_level, reason },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error("Escalate report error:", error);
+    next(new ErrorResponse("Failed to escalate report", 500));
+  }
+};
+
+// List the internal comment thread of a report (admin only)
+exports.getReportComments = async (req, res, next) => {
+  try {
+    const comments = await ReportService.getComments(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: comments,
+    });
+  } catch (error) {
+    console.error("Get report comments error:", error);
+    next(new ErrorResponse("Failed to fetch report comments", 500));
+  }
+};
+
+// Add an internal comment or recorded action to a report (admin only)
+exports.addReportComment = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { body, kind = "comment", metadata } = req.body;
+
+    if (!body || !body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "Comment body is required",
+      });
+    }
+
+    const validKinds = ["comment", "action"];
+    if (!validKinds.includes(kind)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid comment kind. Must be one of: ${validKinds.join(", ")}`,
+      });
+    }
+
+    const comment = await ReportService.addComment(id, {
+      authorId: req.user.id,
+      body: body.trim(),
+      kind,
+      metadata: metadata || null,
+    });
+
+    if (kind === "action") {
+      await AuditLogService.create({
+        admin_id: req.user.id,
+        action: "report_action_recorded",
+        target_type: "report",
+        target_id: id,
+        metadata: metadata || null,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    console.error("Add report comment error:", error);
+    next(new ErrorResponse("Failed to add report comment", 500));
+  }
+};
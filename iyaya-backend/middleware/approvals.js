@@ -0,0 +1,111 @@
+// middleware/approvals.js
+// Gates destructive admin routes behind an approved four-eyes request.
+const { ApprovalService } = require("../services/approvalService");
+const { AuditLogService } = require("../services/supabaseService");
+
+const sameIds = (left = [], right = []) =>
+  left.length === right.length &&
+  [...left].sort().every((id, index) => id === [...right].sort()[index]);
+
+const TARGET_MATCHERS = {
+  delete_user: (approval, req) => approval.target_id === req.params.userId,
+  // A missing amount means "refund the remaining balance" on both sides.
+  refund_payment: (approval, req) =>
+    approval.target_id === req.params.paymentId &&
+    (approval.payload?.amount ?? null) === (req.body?.amount ?? null),
+  delete_child_profile: (approval, req) => approval.target_id === req.params.id,
+  bulk_ban_users: (approval, req) =>
+    sameIds(approval.payload?.userIds, req.body?.userIds),
+};
+
+const recordExecution = (approval, adminId) =>
+  ApprovalService.markExecuted(approval.id).then(() =>
+    AuditLogService.create({
+      admin_id: adminId,
+      action: "APPROVED_ACTION_EXECUTED",
+      target_type: approval.target_type,
+      target_id: approval.target_id,
+      metadata: {
+        approval_id: approval.id,
+        action_type: approval.action_type,
+        requested_by: approval.requested_by,
+        approved_by: approval.reviewed_by,
+        reason: approval.reason,
+      },
+    }),
+  );
+
+/**
+ * Requires `approvalId` (query or body) to reference an approved, unexecuted
+ * request for this action and target. The request is claimed atomically
+ * before the handler runs, so concurrent requests cannot execute it twice.
+ * A 2xx response marks it executed and audit-logs both admin IDs; anything
+ * else hands it back as approved so it can be retried.
+ */
+const requireApproval = (actionType, appliesTo) => async (req, res, next) => {
+  if (appliesTo && !appliesTo(req)) {
+    return next();
+  }
+  if (req.user?.bypass) {
+    return next();
+  }
+
+  const approvalId = req.query.approvalId || req.body?.approvalId;
+  if (!approvalId) {
+    return res.status(428).json({
+      success: false,
+      error: "This action requires approval from a second admin",
+      code: "APPROVAL_REQUIRED",
+    });
+  }
+
+  try {
+    const approval = await ApprovalService.findById(approvalId);
+    const matches =
+      approval &&
+      approval.action_type === actionType &&
+      TARGET_MATCHERS[actionType](approval, req);
+
+    if (!matches || approval.status !== "approved") {
+      return res.status(403).json({
+        success: false,
+        error: "No approved request matches this action",
+        code: "APPROVAL_INVALID",
+      });
+    }
+
+    const claimed = await ApprovalService.claim(approval.id, req.user.id);
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        error: "This approval is already being executed",
+        code: "APPROVAL_IN_USE",
+      });
+    }
+
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+
+      const succeeded =
+        res.writableFinished && res.statusCode >= 200 && res.statusCode < 300;
+      const outcome = succeeded
+        ? recordExecution(claimed, req.user.id)
+        : ApprovalService.release(claimed.id);
+
+      outcome.catch((error) =>
+        console.error("Failed to settle approved action execution:", error),
+      );
+    };
+    res.on("finish", settle);
+    res.on("close", settle);
+
+    req.approval = claimed;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = { requireApproval };
@@ -0,0 +1,128 @@
+// middleware/idempotency.js
+// Honours the Idempotency-Key header the admin app generates for each user
+// action, so an offline-queue replay of that action returns the stored
+// response instead of running twice. Repeating the action sends a new key.
+const crypto = require("crypto");
+const { supabase } = require("../config/supabase");
+
+const TABLE = "api_idempotency_keys";
+const MUTATION_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+// A claim older than this belongs to a request that died mid-flight.
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const hashRequest = (req) =>
+  crypto
+    .createHash("sha256")
+    .update(`${req.method} ${req.originalUrl} ${JSON.stringify(req.body ?? null)}`)
+    .digest("hex");
+
+const claimKey = async (userId, key, req, requestHash) => {
+  const { error } = await supabase.from(TABLE).insert({
+    user_id: userId,
+    idempotency_key: key,
+    method: req.method,
+    path: req.originalUrl,
+    request_hash: requestHash,
+    status: "in_progress",
+  });
+
+  if (!error) return null;
+  if (error.code !== "23505") throw error;
+
+  const { data, error: fetchError } = await supabase
+    .from(TABLE)
+    .select("*")
+    .eq("user_id", userId)
+    .eq("idempotency_key", key)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return data;
+};
+
+const releaseKey = (userId, key) =>
+  supabase.from(TABLE).delete().eq("user_id", userId).eq("idempotency_key", key);
+
+const isReclaimable = (row) =>
+  new Date(row.expires_at).getTime() < Date.now() ||
+  (row.status === "in_progress" &&
+    Date.now() - new Date(row.created_at).getTime() > STALE_CLAIM_MS);
+
+/**
+ * Stores the first 2xx response for each (user, Idempotency-Key) pair and
+ * replays it for later requests with the same key and payload. Error
+ * responses release the key so the request can be retried.
+ */
+const idempotency = async (req, res, next) => {
+  const key = req.header("Idempotency-Key");
+  const userId = req.user?.id;
+  if (!key || !userId || !MUTATION_METHODS.has(req.method)) {
+    return next();
+  }
+
+  try {
+    const requestHash = hashRequest(req);
+    let existing = await claimKey(userId, key, req, requestHash);
+
+    if (existing && isReclaimable(existing)) {
+      const { error } = await releaseKey(userId, key);
+      if (error) throw error;
+      existing = await claimKey(userId, key, req, requestHash);
+    }
+
+    if (existing) {
+      if (existing.request_hash !== requestHash) {
+        return res.status(422).json({
+          success: false,
+          error: "Idempotency-Key was already used for a different request",
+          code: "IDEMPOTENCY_KEY_REUSED",
+        });
+      }
+      if (existing.status !== "completed") {
+        return res.status(409).json({
+          success: false,
+          error: "A request with this Idempotency-Key is still being processed",
+          code: "IDEMPOTENCY_IN_PROGRESS",
+        });
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(existing.response_status).json(existing.response_body);
+    }
+
+    let responseBody = null;
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on("finish", () => {
+      const settled =
+        res.statusCode >= 200 && res.statusCode < 300
+          ? supabase
+              .from(TABLE)
+              .update({
+                status: "completed",
+                response_status: res.statusCode,
+                response_body: responseBody,
+              })
+              .eq("user_id", userId)
+              .eq("idempotency_key", key)
+          : releaseKey(userId, key);
+
+      Promise.resolve(settled)
+        .then(({ error }) => {
+          if (error) throw error;
+        })
+        .catch((error) =>
+          console.error("Failed to settle idempotency key:", error),
+        );
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = { idempotency };
@@ -0,0 +1,82 @@
+// middleware/permissions.js
+// Fine-grained admin permissions. Keep in sync with src/config/permissions.ts
+// in the admin app.
+
+const PERMISSION_KEYS = [
+  "users.edit",
+  "users.suspend",
+  "users.ban",
+  "users.delete",
+  "payments.view",
+  "payments.update",
+  "payments.refund",
+  "children.edit",
+  "children.delete",
+  "settings.write",
+  "permissions.manage",
+];
+
+const DEFAULT_ADMIN_PERMISSIONS = [
+  "users.edit",
+  "users.suspend",
+  "payments.view",
+  "payments.update",
+  "children.edit",
+];
+
+const matchesGrant = (grant, permission) => {
+  if (grant === "*" || grant === permission) return true;
+  return grant.endsWith(".*") && permission.startsWith(grant.slice(0, -1));
+};
+
+// A grant is known if it names a catalogue permission, a group wildcard
+// such as `payments.*`, or `*`.
+const isKnownGrant = (grant) =>
+  grant === "*" ||
+  PERMISSION_KEYS.includes(grant) ||
+  (grant.endsWith(".*") &&
+    PERMISSION_KEYS.some((permission) => matchesGrant(grant, permission)));
+
+const hasPermission = (user, permission) => {
+  if (!user) return false;
+  if (user.bypass || user.role === "superadmin") return true;
+  if (user.role !== "admin") return false;
+
+  const granted = Array.isArray(user.profile?.permissions)
+    ? user.profile.permissions
+    : [];
+  return [...DEFAULT_ADMIN_PERMISSIONS, ...granted].some((grant) =>
+    matchesGrant(grant, permission),
+  );
+};
+
+/**
+ * Rejects the request with 403 unless the admin holds `permission`.
+ * `appliesTo(req)` limits the check to matching requests, e.g. only status
+ * changes to "banned" need users.ban.
+ */
+const requirePermission = (permission, appliesTo) => (req, res, next) => {
+  if (appliesTo && !appliesTo(req)) {
+    return next();
+  }
+
+  if (!hasPermission(req.user, permission)) {
+    return res.status(403).json({
+      success: false,
+      error: `Forbidden: missing permission ${permission}`,
+      code: "INSUFFICIENT_PERMISSIONS",
+      required: permission,
+    });
+  }
+
+  next();
+};
+
+module.exports = {
+  PERMISSION_KEYS,
+  DEFAULT_ADMIN_PERMISSIONS,
+  matchesGrant,
+  isKnownGrant,
+  hasPermission,
+  requirePermission,
+};
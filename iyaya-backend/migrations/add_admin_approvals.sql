@@ -0,0 +1,34 @@
+-- Four-eyes approvals for destructive admin actions
+-- Run this in the Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS admin_approval_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action_type VARCHAR(50) NOT NULL CHECK (action_type IN ('delete_user', 'refund_payment', 'delete_child_profile', 'bulk_ban_users')),
+  target_type VARCHAR(30) NOT NULL,
+  target_id TEXT,
+  summary TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  diff JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'executed')),
+  requested_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  review_note TEXT,
+  executed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  executed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT approval_requires_second_admin CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approvals_status ON admin_approval_requests(status);
+CREATE INDEX IF NOT EXISTS idx_approvals_requested_by ON admin_approval_requests(requested_by);
+CREATE INDEX IF NOT EXISTS idx_approvals_target ON admin_approval_requests(action_type, target_id);
+
+ALTER TABLE admin_approval_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view approval requests" ON admin_approval_requests
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
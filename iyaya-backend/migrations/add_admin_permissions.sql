@@ -0,0 +1,5 @@
+-- Fine-grained admin permissions granted by a superadmin
+-- Run this in the Supabase SQL editor
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS permissions TEXT[] NOT NULL DEFAULT '{}';
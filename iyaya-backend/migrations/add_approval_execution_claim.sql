@@ -0,0 +1,10 @@
+-- Lets a request claim an approval before running the gated action, so two
+-- concurrent requests cannot both execute the same approval
+-- Run this in the Supabase SQL editor after add_admin_approvals.sql
+
+ALTER TABLE admin_approval_requests
+  DROP CONSTRAINT IF EXISTS admin_approval_requests_status_check;
+
+ALTER TABLE admin_approval_requests
+  ADD CONSTRAINT admin_approval_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'executing', 'executed'));
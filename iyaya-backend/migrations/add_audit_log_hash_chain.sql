@@ -0,0 +1,172 @@
+-- Tamper-evident audit log: every entry stores a SHA-256 hash chained to the
+-- previous entry, and verify_audit_log_chain() walks the chain for a range.
+-- Run this in the Supabase SQL editor after add_audit_log_search.sql
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS chain_seq BIGINT,
+  ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+  ADD COLUMN IF NOT EXISTS hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_chain_seq ON audit_logs (chain_seq);
+
+-- Single source of truth for the hashed payload; used by both the insert
+-- trigger and the verifier so the serialisation can never drift.
+CREATE OR REPLACE FUNCTION audit_log_entry_hash(entry audit_logs)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT encode(
+    digest(
+      concat_ws(
+        '|',
+        entry.chain_seq::text,
+        coalesce(entry.prev_hash, ''),
+        coalesce(entry.action, ''),
+        coalesce(entry.admin_id::text, ''),
+        coalesce(entry.target_type, ''),
+        coalesce(entry.target_id::text, ''),
+        coalesce(entry.details::text, ''),
+        coalesce(entry.metadata::text, ''),
+        coalesce(entry.ip::text, ''),
+        -- Epoch seconds keep the hash independent of the session time zone.
+        coalesce(extract(epoch FROM entry."timestamp")::text, '')
+      ),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION audit_logs_chain_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  last_entry audit_logs;
+BEGIN
+  -- Serialise writers so two concurrent inserts cannot link to the same parent.
+  PERFORM pg_advisory_xact_lock(hashtext('audit_logs_chain'));
+
+  SELECT * INTO last_entry FROM audit_logs ORDER BY chain_seq DESC NULLS LAST LIMIT 1;
+
+  NEW."timestamp" := coalesce(NEW."timestamp", now());
+  NEW.chain_seq := coalesce(last_entry.chain_seq, 0) + 1;
+  NEW.prev_hash := last_entry.hash;
+  NEW.hash := audit_log_entry_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_chain_entry ON audit_logs;
+CREATE TRIGGER audit_logs_chain_entry
+  BEFORE INSERT ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION audit_logs_chain_entry();
+
+CREATE OR REPLACE FUNCTION audit_logs_reject_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+
+-- Backfill existing rows in chronological order before the append-only guard
+-- is installed.
+DO $$
+DECLARE
+  entry audit_logs;
+  previous_hash TEXT := NULL;
+  seq BIGINT := 0;
+BEGIN
+  FOR entry IN SELECT * FROM audit_logs WHERE chain_seq IS NULL ORDER BY "timestamp", id LOOP
+    seq := seq + 1;
+    entry.chain_seq := seq;
+    entry.prev_hash := previous_hash;
+    entry.hash := audit_log_entry_hash(entry);
+    UPDATE audit_logs
+      SET chain_seq = entry.chain_seq, prev_hash = entry.prev_hash, hash = entry.hash
+      WHERE id = entry.id;
+    previous_hash := entry.hash;
+  END LOOP;
+END;
+$$;
+
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION audit_logs_reject_mutation();
+
+-- Walks the chain for entries recorded between p_from and p_to (inclusive,
+-- either bound optional) and reports hash mismatches, broken links to the
+-- previous entry and missing sequence numbers.
+CREATE OR REPLACE FUNCTION verify_audit_log_chain(p_from TIMESTAMPTZ DEFAULT NULL, p_to TIMESTAMPTZ DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  first_seq BIGINT;
+  last_seq BIGINT;
+  entry audit_logs;
+  previous audit_logs;
+  checked BIGINT := 0;
+  head_hash TEXT := NULL;
+  issues JSONB := '[]'::jsonb;
+  expected TEXT;
+BEGIN
+  SELECT min(chain_seq), max(chain_seq) INTO first_seq, last_seq
+  FROM audit_logs
+  WHERE (p_from IS NULL OR "timestamp" >= p_from)
+    AND (p_to IS NULL OR "timestamp" <= p_to);
+
+  IF first_seq IS NULL THEN
+    RETURN jsonb_build_object('checked', 0, 'first_seq', NULL, 'last_seq', NULL, 'head_hash', NULL, 'issues', issues);
+  END IF;
+
+  SELECT * INTO previous FROM audit_logs WHERE chain_seq = first_seq - 1;
+  IF first_seq > 1 AND previous.id IS NULL THEN
+    issues := issues || jsonb_build_object(
+      'issue', 'sequence_gap', 'chain_seq', first_seq - 1, 'entry_id', NULL,
+      'detail', 'Entry preceding the range is missing');
+  END IF;
+
+  FOR entry IN SELECT * FROM audit_logs WHERE chain_seq BETWEEN first_seq AND last_seq ORDER BY chain_seq LOOP
+    checked := checked + 1;
+
+    IF previous.chain_seq IS NOT NULL AND entry.chain_seq <> previous.chain_seq + 1 THEN
+      issues := issues || jsonb_build_object(
+        'issue', 'sequence_gap', 'chain_seq', previous.chain_seq + 1, 'entry_id', NULL,
+        'detail', format('Entries %s to %s are missing', previous.chain_seq + 1, entry.chain_seq - 1));
+    END IF;
+
+    IF previous.chain_seq IS NOT NULL AND entry.prev_hash IS DISTINCT FROM previous.hash THEN
+      issues := issues || jsonb_build_object(
+        'issue', 'broken_link', 'chain_seq', entry.chain_seq, 'entry_id', entry.id,
+        'expected', previous.hash, 'actual', entry.prev_hash);
+    END IF;
+
+    expected := audit_log_entry_hash(entry);
+    IF entry.hash IS DISTINCT FROM expected THEN
+      issues := issues || jsonb_build_object(
+        'issue', 'hash_mismatch', 'chain_seq', entry.chain_seq, 'entry_id', entry.id,
+        'expected', expected, 'actual', entry.hash);
+    END IF;
+
+    head_hash := entry.hash;
+    previous := entry;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'checked', checked,
+    'first_seq', first_seq,
+    'last_seq', last_seq,
+    'head_hash', head_hash,
+    'issues', issues
+  );
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Full-text search and filtering support for the admin audit log screen
+-- Run this in the Supabase SQL editor
+
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS target_type TEXT;
+
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple',
+      coalesce(action, '') || ' ' || coalesce(details::text, '') || ' ' || coalesce(metadata::text, '')
+    )
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_search_vector ON audit_logs USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_admin_id ON audit_logs (admin_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs (action);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_target ON audit_logs (target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs (timestamp DESC);
@@ -0,0 +1,193 @@
+-- Background check workflow: typed statuses, document review, expiry and
+-- enforcement of SystemSettings.backgroundCheckRequired on assignments
+-- Run this in the Supabase SQL editor
+
+-- Fold legacy free-form statuses into the typed workflow states
+UPDATE caregiver_background_checks SET status = CASE
+  WHEN status IS NULL THEN 'not_started'
+  WHEN lower(status) IN ('pending', 'requested') THEN 'submitted'
+  WHEN lower(status) IN ('in_progress', 'in-progress', 'processing', 'reviewing') THEN 'in_review'
+  WHEN lower(status) IN ('approved', 'verified', 'completed', 'clear', 'cleared') THEN 'passed'
+  WHEN lower(status) IN ('rejected', 'denied') THEN 'failed'
+  ELSE lower(status)
+END;
+
+UPDATE caregiver_background_checks SET status = 'not_started'
+WHERE status NOT IN ('not_started', 'submitted', 'in_review', 'passed', 'failed', 'expired');
+
+ALTER TABLE caregiver_background_checks DROP CONSTRAINT IF EXISTS caregiver_background_checks_status_check;
+ALTER TABLE caregiver_background_checks
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT caregiver_background_checks_status_check
+  CHECK (status IN ('not_started', 'submitted', 'in_review', 'passed', 'failed', 'expired'));
+
+ALTER TABLE caregiver_background_checks
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- BackgroundCheckService.upsert uses onConflict: user_id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_caregiver_background_checks_user_unique
+  ON caregiver_background_checks(user_id);
+CREATE INDEX IF NOT EXISTS idx_caregiver_background_checks_status
+  ON caregiver_background_checks(status, expiry_date);
+
+-- Documents uploaded with category 'background_check' are reviewed individually
+ALTER TABLE caregiver_documents
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (review_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS review_notes TEXT;
+
+UPDATE caregiver_documents SET review_status = 'approved' WHERE verified = true;
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_documents_review
+  ON caregiver_documents(category, review_status);
+
+-- Keep the profile's denormalised status in step with the check, stamp the
+-- reviewer on decisions and clear the reminder once a check is renewed.
+CREATE OR REPLACE FUNCTION sync_background_check_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('passed', 'failed') THEN
+      NEW.verified_by := COALESCE(NEW.verified_by, auth.uid());
+      NEW.verified_at := COALESCE(NEW.verified_at, NOW());
+      NEW.completed_at := NOW();
+    END IF;
+    IF NEW.status = 'submitted' THEN
+      NEW.requested_at := NOW();
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.expiry_date IS DISTINCT FROM OLD.expiry_date THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+
+  NEW.updated_at := NOW();
+
+  UPDATE caregiver_profiles
+  SET background_check_status = NEW.status
+  WHERE user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS caregiver_background_checks_sync ON caregiver_background_checks;
+CREATE TRIGGER caregiver_background_checks_sync
+  BEFORE INSERT OR UPDATE ON caregiver_background_checks
+  FOR EACH ROW EXECUTE FUNCTION sync_background_check_status();
+
+-- Uploading a background check document moves the check to submitted unless it
+-- is already being reviewed or valid.
+CREATE OR REPLACE FUNCTION submit_background_check_on_upload()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.category = 'background_check' THEN
+    INSERT INTO caregiver_background_checks (user_id, status)
+    VALUES (NEW.user_id, 'submitted')
+    ON CONFLICT (user_id) DO UPDATE
+      SET status = 'submitted'
+      WHERE caregiver_background_checks.status IN ('not_started', 'failed', 'expired');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS caregiver_documents_submit_background_check ON caregiver_documents;
+CREATE TRIGGER caregiver_documents_submit_background_check
+  AFTER INSERT ON caregiver_documents
+  FOR EACH ROW EXECUTE FUNCTION submit_background_check_on_upload();
+
+-- A caregiver can be assigned when the setting is off or their check has
+-- passed and not expired. Shared by the triggers below and the admin app.
+CREATE OR REPLACE FUNCTION caregiver_can_be_assigned(p_caregiver_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  required BOOLEAN;
+BEGIN
+  BEGIN
+    SELECT background_check_required INTO required FROM system_settings WHERE id = 1;
+  EXCEPTION WHEN undefined_table THEN
+    required := NULL;
+  END;
+
+  -- Mirrors DEFAULT_SYSTEM_SETTINGS in the backend when no row exists
+  IF NOT COALESCE(required, true) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM caregiver_background_checks
+    WHERE user_id = p_caregiver_id
+      AND status = 'passed'
+      AND (expiry_date IS NULL OR expiry_date >= NOW())
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_caregiver_background_check()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.caregiver_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.caregiver_id IS DISTINCT FROM OLD.caregiver_id)
+    AND NOT caregiver_can_be_assigned(NEW.caregiver_id) THEN
+    RAISE EXCEPTION 'Caregiver % does not have a valid background check', NEW.caregiver_id
+      USING ERRCODE = 'check_violation',
+            HINT = 'Background checks are required by system settings.';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bookings_enforce_background_check ON bookings;
+CREATE TRIGGER bookings_enforce_background_check
+  BEFORE INSERT OR UPDATE OF caregiver_id ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_caregiver_background_check();
+
+DROP TRIGGER IF EXISTS jobs_enforce_background_check ON jobs;
+CREATE TRIGGER jobs_enforce_background_check
+  BEFORE INSERT OR UPDATE OF caregiver_id ON jobs
+  FOR EACH ROW EXECUTE FUNCTION enforce_caregiver_background_check();
+
+-- Marks passed checks past their expiry date as expired
+CREATE OR REPLACE FUNCTION expire_background_checks()
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE caregiver_background_checks
+  SET status = 'expired'
+  WHERE status = 'passed'
+    AND expiry_date IS NOT NULL
+    AND expiry_date < NOW();
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run daily (requires pg_cron extension):
+-- SELECT cron.schedule('expire-background-checks', '0 1 * * *', 'SELECT expire_background_checks()');
+
+DROP POLICY IF EXISTS "Admins can manage background checks" ON caregiver_background_checks;
+CREATE POLICY "Admins can manage background checks" ON caregiver_background_checks
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can review caregiver documents" ON caregiver_documents;
+CREATE POLICY "Admins can review caregiver documents" ON caregiver_documents
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
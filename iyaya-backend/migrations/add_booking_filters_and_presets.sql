@@ -0,0 +1,61 @@
+-- Structured booking filters and saved filter presets per admin
+-- Run this in the Supabase SQL editor
+
+-- selected_children holds a JSON array of child details; the count is
+-- derived so the bookings list can filter on it without parsing rows.
+CREATE OR REPLACE FUNCTION booking_children_count(children JSONB)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN jsonb_typeof(children) = 'array' THEN jsonb_array_length(children) ELSE 0 END
+$$;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS children_count INTEGER
+  GENERATED ALWAYS AS (booking_children_count(selected_children::jsonb)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_parent_id ON bookings(parent_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_caregiver_id ON bookings(caregiver_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_job_id ON bookings(job_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_service_date ON bookings(service_date);
+CREATE INDEX IF NOT EXISTS idx_bookings_total_amount ON bookings(total_amount);
+CREATE INDEX IF NOT EXISTS idx_user_reports_booking_open ON user_reports(booking_id)
+  WHERE status IN ('pending', 'under_review');
+
+-- Computed column: PostgREST exposes it as bookings.has_open_report, so the
+-- list can filter with an EXISTS per row instead of inlining every ID.
+CREATE OR REPLACE FUNCTION has_open_report(booking bookings)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_reports
+    WHERE user_reports.booking_id = booking.id
+      AND user_reports.status IN ('pending', 'under_review')
+  )
+$$;
+
+CREATE TABLE IF NOT EXISTS admin_filter_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Which list the preset belongs to, e.g. 'bookings'.
+  scope VARCHAR(30) NOT NULL,
+  name VARCHAR(80) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (admin_id, scope, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_filter_presets_admin_scope ON admin_filter_presets(admin_id, scope);
+
+ALTER TABLE admin_filter_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage their own filter presets" ON admin_filter_presets
+  FOR ALL USING (admin_id = auth.uid())
+  WITH CHECK (
+    admin_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'superadmin'))
+  );
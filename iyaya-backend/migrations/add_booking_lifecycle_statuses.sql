@@ -0,0 +1,11 @@
+-- Adds the in_progress and no_show booking states used by the booking state
+-- machine and folds the legacy "in-progress" spelling into in_progress.
+-- Run this in the Supabase SQL editor
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+UPDATE bookings SET status = 'in_progress' WHERE status = 'in-progress';
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'));
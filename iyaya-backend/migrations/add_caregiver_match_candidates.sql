@@ -0,0 +1,115 @@
+-- Caregiver matching: candidates and their scoring signals in one round trip
+-- Run this in the Supabase SQL editor
+
+-- Active caregivers for a job with everything the admin app scores them on.
+-- Caregivers more than 50% over the job's rate (which scores zero on rate)
+-- are left out, and the rest are ranked by how many of the job's location
+-- terms appear in their address, so the limit keeps the nearest ones. Ties
+-- are broken by id so the same job always gets the same candidates.
+--
+-- `availability` is NULL when the caregiver has no rows in the availability
+-- table; the app then falls back to `profile_availability`.
+CREATE OR REPLACE FUNCTION caregiver_match_candidates(
+  p_location_terms TEXT[] DEFAULT ARRAY[]::TEXT[],
+  p_max_rate NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  caregiver_id UUID,
+  name TEXT,
+  email TEXT,
+  location TEXT,
+  hourly_rate NUMERIC,
+  location_matches INTEGER,
+  background_check_status TEXT,
+  background_check_expiry TIMESTAMP WITH TIME ZONE,
+  completed_bookings INTEGER,
+  unsuccessful_bookings INTEGER,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  availability JSONB,
+  profile_availability JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      u.id,
+      u.name,
+      u.email,
+      COALESCE(u.location, u.address) AS location,
+      NULLIF(profile.hourly_rate, 0) AS hourly_rate,
+      profile.availability AS profile_availability,
+      (
+        SELECT COUNT(*)::INTEGER
+        FROM unnest(COALESCE(p_location_terms, ARRAY[]::TEXT[])) AS term
+        WHERE COALESCE(u.location, u.address, '') ILIKE '%' || term || '%'
+      ) AS location_matches
+    FROM users u
+    LEFT JOIN LATERAL (
+      SELECT cp.hourly_rate::NUMERIC AS hourly_rate, to_jsonb(cp.availability) AS availability
+      FROM caregiver_profiles cp
+      WHERE cp.user_id = u.id
+      LIMIT 1
+    ) profile ON true
+    WHERE u.role = 'caregiver'
+      AND u.status = 'active'
+      AND u.deleted_at IS NULL
+      AND (
+        p_max_rate IS NULL
+        OR COALESCE(profile.hourly_rate, 0) <= 0
+        OR profile.hourly_rate <= p_max_rate * 1.5
+      )
+    ORDER BY location_matches DESC, u.id
+    LIMIT GREATEST(COALESCE(p_limit, 200), 1)
+  )
+  SELECT
+    c.id,
+    c.name,
+    c.email,
+    c.location,
+    c.hourly_rate,
+    c.location_matches,
+    bc.status,
+    bc.expiry_date,
+    COALESCE(outcomes.completed, 0),
+    COALESCE(outcomes.unsuccessful, 0),
+    ratings.average,
+    COALESCE(ratings.count, 0),
+    CASE WHEN windows.row_count > 0 THEN COALESCE(windows.available, '[]'::JSONB) END,
+    c.profile_availability
+  FROM candidates c
+  LEFT JOIN LATERAL (
+    SELECT status, expiry_date
+    FROM caregiver_background_checks
+    WHERE user_id = c.id
+    ORDER BY expiry_date DESC NULLS LAST
+    LIMIT 1
+  ) bc ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE b.status = 'completed')::INTEGER AS completed,
+      COUNT(*) FILTER (WHERE b.status IN ('cancelled', 'no_show'))::INTEGER AS unsuccessful
+    FROM bookings b
+    WHERE b.caregiver_id = c.id
+  ) outcomes ON true
+  LEFT JOIN LATERAL (
+    SELECT AVG(r.rating)::NUMERIC AS average, COUNT(*)::INTEGER AS count
+    FROM reviews r
+    WHERE r.caregiver_id = c.id
+      AND r.status = 'published'
+      AND r.rating IS NOT NULL
+  ) ratings ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS row_count,
+      jsonb_agg(
+        jsonb_build_object('dayOfWeek', a.day_of_week, 'start', a.start_time::TEXT, 'end', a.end_time::TEXT)
+        ORDER BY a.day_of_week, a.start_time
+      ) FILTER (WHERE a.is_available IS DISTINCT FROM false) AS available
+    FROM availability a
+    WHERE a.caregiver_id = c.id
+  ) windows ON true
+  ORDER BY c.location_matches DESC, c.id;
+$$;
@@ -0,0 +1,330 @@
+-- Caregiver payouts: per-period statements of what each caregiver is owed
+-- Run this in the Supabase SQL editor after add_payment_refund_ledger.sql
+
+-- Share of what the parent paid (after refunds) that the platform keeps.
+-- Admins change it from the settings screen; payouts always read it here.
+ALTER TABLE IF EXISTS system_settings
+  ADD COLUMN IF NOT EXISTS platform_fee_rate NUMERIC(5,4) NOT NULL DEFAULT 0.1
+    CHECK (platform_fee_rate >= 0 AND platform_fee_rate < 1);
+
+CREATE OR REPLACE FUNCTION platform_fee_rate()
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  rate NUMERIC;
+BEGIN
+  BEGIN
+    SELECT platform_fee_rate INTO rate FROM system_settings WHERE id = 1;
+  EXCEPTION WHEN undefined_table OR undefined_column THEN
+    rate := NULL;
+  END;
+
+  -- Mirrors DEFAULT_SYSTEM_SETTINGS in the backend when no row exists
+  RETURN COALESCE(rate, 0.1);
+END;
+$$;
+
+-- A payout covers one caregiver for one period. Amounts are frozen when the
+-- payout is scheduled so the statement never changes after the fact; payments
+-- collected later for the same period go into a further payout.
+CREATE TABLE IF NOT EXISTS caregiver_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  caregiver_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  booking_count INTEGER NOT NULL DEFAULT 0,
+  gross_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  fee_rate NUMERIC(5,4) NOT NULL CHECK (fee_rate >= 0 AND fee_rate < 1),
+  fee_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(12,2) NOT NULL CHECK (net_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sent', 'failed')),
+  scheduled_for DATE NOT NULL DEFAULT CURRENT_DATE,
+  reference TEXT,
+  failure_reason TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (period_end >= period_start),
+  CHECK (status <> 'failed' OR failure_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_payouts_period
+  ON caregiver_payouts(caregiver_id, period_start, period_end);
+CREATE INDEX IF NOT EXISTS idx_caregiver_payouts_status ON caregiver_payouts(status, scheduled_for);
+
+-- The payments a payout covers. A payment can only ever be paid out once;
+-- failed payouts are retried rather than recreated.
+CREATE TABLE IF NOT EXISTS caregiver_payout_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id UUID NOT NULL REFERENCES caregiver_payouts(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE RESTRICT,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  service_date DATE,
+  gross_amount NUMERIC(12,2) NOT NULL,
+  refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  fee_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(12,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_payout_items_payout ON caregiver_payout_items(payout_id);
+
+-- Only scheduled -> sent, scheduled -> failed and failed -> scheduled (retry)
+-- are allowed; a sent payout is final.
+CREATE OR REPLACE FUNCTION stamp_caregiver_payout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'scheduled' AND NEW.status IN ('sent', 'failed'))
+      OR (OLD.status = 'failed' AND NEW.status = 'scheduled')
+    ) THEN
+      RAISE EXCEPTION 'Payout cannot move from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'sent' THEN
+      NEW.sent_at := NOW();
+    ELSIF NEW.status = 'failed' THEN
+      NEW.failed_at := NOW();
+    ELSE
+      NEW.failure_reason := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stamp_caregiver_payout ON caregiver_payouts;
+CREATE TRIGGER trg_stamp_caregiver_payout
+  BEFORE UPDATE ON caregiver_payouts
+  FOR EACH ROW EXECUTE FUNCTION stamp_caregiver_payout();
+
+-- Collected payments not yet paid out, dated by the booking's service date
+-- (its start date for bookings without one). NULL bounds are open-ended, and
+-- the rows can be limited to one caregiver.
+CREATE OR REPLACE FUNCTION caregiver_payout_candidates(
+  p_period_start DATE DEFAULT NULL,
+  p_period_end DATE DEFAULT NULL,
+  p_caregiver_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id UUID,
+  booking_id UUID,
+  caregiver_id UUID,
+  caregiver_name TEXT,
+  caregiver_email TEXT,
+  service_date DATE,
+  gross_amount NUMERIC,
+  refunded_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.booking_id,
+    p.caregiver_id,
+    u.name,
+    u.email,
+    COALESCE(b.service_date::date, b.start_date::date),
+    p.total_amount,
+    p.refunded_amount
+  FROM payments p
+  JOIN bookings b ON b.id = p.booking_id
+  LEFT JOIN users u ON u.id = p.caregiver_id
+  WHERE p.payment_status IN ('paid', 'partially_refunded')
+    AND p.caregiver_id IS NOT NULL
+    AND (p_caregiver_id IS NULL OR p.caregiver_id = p_caregiver_id)
+    AND (p_period_start IS NULL OR COALESCE(b.service_date::date, b.start_date::date) >= p_period_start)
+    AND (p_period_end IS NULL OR COALESCE(b.service_date::date, b.start_date::date) <= p_period_end)
+    AND NOT EXISTS (SELECT 1 FROM caregiver_payout_items i WHERE i.payment_id = p.id)
+  ORDER BY p.caregiver_id, 6, p.id;
+$$;
+
+-- Recomputes a payout's totals from its items.
+CREATE OR REPLACE FUNCTION refresh_caregiver_payout_totals(p_payout_id UUID)
+RETURNS caregiver_payouts
+LANGUAGE sql
+AS $$
+  UPDATE caregiver_payouts c
+  SET booking_count = totals.booking_count,
+      gross_amount = totals.gross_amount,
+      refunded_amount = totals.refunded_amount,
+      fee_amount = totals.fee_amount,
+      net_amount = totals.net_amount
+  FROM (
+    SELECT
+      COUNT(DISTINCT booking_id) AS booking_count,
+      COALESCE(SUM(gross_amount), 0) AS gross_amount,
+      COALESCE(SUM(refunded_amount), 0) AS refunded_amount,
+      COALESCE(SUM(fee_amount), 0) AS fee_amount,
+      COALESCE(SUM(net_amount), 0) AS net_amount
+    FROM caregiver_payout_items
+    WHERE payout_id = p_payout_id
+  ) totals
+  WHERE c.id = p_payout_id
+  RETURNING c.*;
+$$;
+
+-- Schedules a payout for the given payments. Amounts are recomputed from the
+-- locked payment rows rather than trusted from the client, and payments that
+-- are not collected, belong to another caregiver or are already paid out are
+-- rejected. The fee is charged on what is left after refunds, at the rate in
+-- system settings.
+DROP FUNCTION IF EXISTS create_caregiver_payout(UUID, DATE, DATE, UUID[], NUMERIC, DATE);
+CREATE OR REPLACE FUNCTION create_caregiver_payout(
+  p_caregiver_id UUID,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_payment_ids UUID[],
+  p_scheduled_for DATE
+)
+RETURNS caregiver_payouts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payout caregiver_payouts%ROWTYPE;
+  v_count INTEGER;
+  v_fee_rate NUMERIC := platform_fee_rate();
+BEGIN
+  IF COALESCE(array_length(p_payment_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A payout needs at least one payment' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM 1 FROM payments WHERE id = ANY(p_payment_ids) FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_count
+  FROM payments p
+  WHERE p.id = ANY(p_payment_ids)
+    AND p.caregiver_id = p_caregiver_id
+    AND p.payment_status IN ('paid', 'partially_refunded')
+    AND NOT EXISTS (SELECT 1 FROM caregiver_payout_items i WHERE i.payment_id = p.id);
+
+  IF v_count <> array_length(p_payment_ids, 1) THEN
+    RAISE EXCEPTION 'Some payments are not collected, belong to another caregiver or were already paid out'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO caregiver_payouts (
+    caregiver_id, period_start, period_end, fee_rate, net_amount, scheduled_for, created_by
+  )
+  VALUES (
+    p_caregiver_id, p_period_start, p_period_end, v_fee_rate, 0, COALESCE(p_scheduled_for, CURRENT_DATE), auth.uid()
+  )
+  RETURNING * INTO v_payout;
+
+  INSERT INTO caregiver_payout_items (
+    payout_id, payment_id, booking_id, service_date, gross_amount, refunded_amount, fee_amount, net_amount
+  )
+  SELECT
+    v_payout.id,
+    p.id,
+    p.booking_id,
+    COALESCE(b.service_date::date, b.start_date::date),
+    p.total_amount,
+    p.refunded_amount,
+    ROUND((p.total_amount - p.refunded_amount) * v_fee_rate, 2),
+    (p.total_amount - p.refunded_amount) - ROUND((p.total_amount - p.refunded_amount) * v_fee_rate, 2)
+  FROM payments p
+  LEFT JOIN bookings b ON b.id = p.booking_id
+  WHERE p.id = ANY(p_payment_ids);
+
+  v_payout := refresh_caregiver_payout_totals(v_payout.id);
+
+  RETURN v_payout;
+END;
+$$;
+
+-- Once a payout is sent the caregiver has the money, so its payments can no
+-- longer be refunded. A refund on a payment in a scheduled or failed payout
+-- takes the payment out of that payout instead: the payout's totals are
+-- recomputed (or the payout removed if it is left empty) and the payment goes
+-- back to the candidates for a later payout with the refund deducted.
+CREATE OR REPLACE FUNCTION block_paid_out_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_payout_id UUID;
+  v_payout_status TEXT;
+BEGIN
+  IF NEW.entry_type <> 'refund' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.id, c.status INTO v_payout_id, v_payout_status
+  FROM caregiver_payout_items i
+  JOIN caregiver_payouts c ON c.id = i.payout_id
+  WHERE i.payment_id = NEW.payment_id
+  FOR UPDATE OF c;
+
+  IF v_payout_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_payout_status = 'sent' THEN
+    RAISE EXCEPTION 'Payment % has been paid out to the caregiver and can no longer be refunded', NEW.payment_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM caregiver_payout_items WHERE payment_id = NEW.payment_id;
+  IF EXISTS (SELECT 1 FROM caregiver_payout_items WHERE payout_id = v_payout_id) THEN
+    PERFORM refresh_caregiver_payout_totals(v_payout_id);
+  ELSE
+    DELETE FROM caregiver_payouts WHERE id = v_payout_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_block_paid_out_refund ON payment_ledger_entries;
+CREATE TRIGGER trg_block_paid_out_refund
+  BEFORE INSERT ON payment_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION block_paid_out_refund();
+
+ALTER TABLE caregiver_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE caregiver_payout_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage caregiver payouts" ON caregiver_payouts;
+CREATE POLICY "Admins can manage caregiver payouts" ON caregiver_payouts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Caregivers can read their payouts" ON caregiver_payouts;
+CREATE POLICY "Caregivers can read their payouts" ON caregiver_payouts
+  FOR SELECT USING (caregiver_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can manage caregiver payout items" ON caregiver_payout_items;
+CREATE POLICY "Admins can manage caregiver payout items" ON caregiver_payout_items
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Caregivers can read their payout items" ON caregiver_payout_items;
+CREATE POLICY "Caregivers can read their payout items" ON caregiver_payout_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM caregiver_payouts c
+      WHERE c.id = payout_id
+      AND c.caregiver_id = auth.uid()
+    )
+  );
@@ -0,0 +1,27 @@
+-- Lets the admin app append its own audit entries for writes that go straight
+-- to Supabase. Admins may only insert rows attributed to themselves and there
+-- are no UPDATE/DELETE policies, so the table stays append-only for clients.
+-- Run this in the Supabase SQL editor after add_audit_log_hash_chain.sql
+
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read audit logs" ON audit_logs;
+CREATE POLICY "Admins can read audit logs" ON audit_logs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid() AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can append their own audit logs" ON audit_logs;
+CREATE POLICY "Admins can append their own audit logs" ON audit_logs
+  FOR INSERT
+  WITH CHECK (
+    admin_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid() AND users.role IN ('admin', 'superadmin')
+    )
+  );
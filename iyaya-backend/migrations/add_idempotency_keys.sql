@@ -0,0 +1,21 @@
+-- Idempotency keys for admin mutations replayed by the offline queue
+-- Run this in the Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS api_idempotency_keys (
+  user_id TEXT NOT NULL,
+  idempotency_key VARCHAR(128) NOT NULL,
+  method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  request_hash VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON api_idempotency_keys(expires_at);
+
+-- Only the backend (service role) reads or writes stored responses.
+ALTER TABLE api_idempotency_keys ENABLE ROW LEVEL SECURITY;
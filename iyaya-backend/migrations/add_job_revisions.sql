@@ -0,0 +1,108 @@
+-- Job revision history: every edit to a job's listing fields is stored with its author
+-- Run this in the Supabase SQL editor
+
+-- Write-only channel for attributing an edit. Writers that use the service role
+-- (the admin API) set these on the same UPDATE; the trigger below reads and
+-- clears them so they never go stale. The author column is ignored for any other
+-- role, so end users cannot attribute their edits to someone else.
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS revision_author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revision_note TEXT;
+
+CREATE TABLE IF NOT EXISTS job_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  -- Caregiver assigned when the edit was made, so rate changes after acceptance stand out
+  caregiver_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_fields TEXT[] NOT NULL,
+  before JSONB NOT NULL,
+  after JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_revisions_job ON job_revisions(job_id, revision_number DESC);
+
+CREATE OR REPLACE FUNCTION record_job_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_values JSONB := jsonb_build_object(
+    'title', OLD.title,
+    'description', OLD.description,
+    'location', OLD.location,
+    'budget', OLD.budget,
+    'hourly_rate', OLD.hourly_rate
+  );
+  new_values JSONB := jsonb_build_object(
+    'title', NEW.title,
+    'description', NEW.description,
+    'location', NEW.location,
+    'budget', NEW.budget,
+    'hourly_rate', NEW.hourly_rate
+  );
+  fields TEXT[];
+  next_number INTEGER;
+  author UUID := auth.uid();
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    author := COALESCE(NEW.revision_author_id, author);
+  END IF;
+
+  SELECT COALESCE(array_agg(key ORDER BY key), ARRAY[]::TEXT[]) INTO fields
+  FROM jsonb_object_keys(new_values) AS key
+  WHERE new_values -> key IS DISTINCT FROM old_values -> key;
+
+  IF array_length(fields, 1) > 0 THEN
+    -- Hold the job row before numbering so concurrent edits take turns
+    PERFORM 1 FROM jobs WHERE id = NEW.id FOR UPDATE;
+
+    SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_number
+    FROM job_revisions WHERE job_id = NEW.id;
+
+    INSERT INTO job_revisions (job_id, revision_number, author_id, note, caregiver_id, changed_fields, before, after)
+    VALUES (
+      NEW.id,
+      next_number,
+      author,
+      NEW.revision_note,
+      OLD.caregiver_id,
+      fields,
+      old_values,
+      new_values
+    );
+  END IF;
+
+  NEW.revision_author_id := NULL;
+  NEW.revision_note := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS jobs_record_revision ON jobs;
+CREATE TRIGGER jobs_record_revision
+  BEFORE UPDATE ON jobs
+  FOR EACH ROW EXECUTE FUNCTION record_job_revision();
+
+ALTER TABLE job_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by the trigger; admins and the job's parent can read them
+CREATE POLICY "Admins can read job revisions" ON job_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+CREATE POLICY "Parents can read their job revisions" ON job_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_revisions.job_id
+      AND jobs.parent_id = auth.uid()
+    )
+  );
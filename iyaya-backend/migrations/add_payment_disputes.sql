@@ -0,0 +1,167 @@
+-- Payment dispute cases: party statements, evidence, deadlines and outcomes
+-- Run this in the Supabase SQL editor after add_payment_refund_ledger.sql
+
+CREATE TABLE IF NOT EXISTS payment_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  parent_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  caregiver_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  opened_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  -- The payment's status when the dispute was opened; releasing restores it
+  payment_status_before TEXT,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'under_review', 'resolved')),
+  -- Parties submit statements and evidence by evidence_due_at; admins decide by resolve_by
+  evidence_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolve_by TIMESTAMP WITH TIME ZONE NOT NULL,
+  outcome TEXT CHECK (outcome IN ('refund', 'partial_refund', 'release_to_caregiver')),
+  outcome_amount NUMERIC(12,2) CHECK (outcome_amount IS NULL OR outcome_amount > 0),
+  resolution_notes TEXT,
+  -- Refund outcomes go through the four-eyes approval flow. The dispute stays
+  -- under review with its outcome recorded until the approval executes.
+  refund_approval_id UUID REFERENCES admin_approval_requests(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (resolve_by >= evidence_due_at),
+  CHECK (status <> 'resolved' OR outcome IS NOT NULL),
+  CHECK (outcome IS DISTINCT FROM 'partial_refund' OR outcome_amount IS NOT NULL)
+);
+
+-- At most one active dispute per payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_disputes_active
+  ON payment_disputes(payment_id)
+  WHERE status IN ('open', 'under_review');
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_status ON payment_disputes(status, resolve_by);
+
+CREATE TABLE IF NOT EXISTS payment_dispute_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES payment_disputes(id) ON DELETE CASCADE,
+  party TEXT NOT NULL CHECK (party IN ('parent', 'caregiver', 'admin')),
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_dispute_statements_dispute
+  ON payment_dispute_statements(dispute_id, created_at);
+
+-- Evidence is stored alongside payment proofs so it gets the same previews
+-- and forensics; the payments listing ignores rows tied to a dispute.
+ALTER TABLE payment_proofs
+  ADD COLUMN IF NOT EXISTS dispute_id UUID REFERENCES payment_disputes(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_dispute ON payment_proofs(dispute_id)
+  WHERE dispute_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION stamp_payment_dispute()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  IF NEW.status = 'resolved' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'resolved') THEN
+    NEW.resolved_at := NOW();
+    NEW.resolved_by := COALESCE(NEW.resolved_by, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stamp_payment_dispute ON payment_disputes;
+CREATE TRIGGER trg_stamp_payment_dispute
+  BEFORE INSERT OR UPDATE ON payment_disputes
+  FOR EACH ROW EXECUTE FUNCTION stamp_payment_dispute();
+
+-- Follows a dispute's refund approval: the dispute is resolved once the refund
+-- has executed, and goes back to review without an outcome when the approval
+-- is rejected or expires.
+CREATE OR REPLACE FUNCTION sync_payment_dispute_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'executed' THEN
+    UPDATE payment_disputes
+    SET status = 'resolved'
+    WHERE refund_approval_id = NEW.id
+      AND status <> 'resolved';
+  ELSIF NEW.status IN ('rejected', 'expired') THEN
+    UPDATE payment_disputes
+    SET outcome = NULL,
+        outcome_amount = NULL,
+        refund_approval_id = NULL,
+        resolved_by = NULL,
+        resolution_notes = CONCAT_WS(E'\n\n', resolution_notes, 'Refund approval ' || NEW.status || '; decision reopened.')
+    WHERE refund_approval_id = NEW.id
+      AND status <> 'resolved';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_payment_dispute_refund ON admin_approval_requests;
+CREATE TRIGGER trg_sync_payment_dispute_refund
+  AFTER UPDATE OF status ON admin_approval_requests
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION sync_payment_dispute_refund();
+
+ALTER TABLE payment_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_dispute_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage payment disputes" ON payment_disputes;
+CREATE POLICY "Admins can manage payment disputes" ON payment_disputes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Parties can read their payment disputes" ON payment_disputes;
+CREATE POLICY "Parties can read their payment disputes" ON payment_disputes
+  FOR SELECT USING (auth.uid() IN (parent_id, caregiver_id));
+
+DROP POLICY IF EXISTS "Admins can manage dispute statements" ON payment_dispute_statements;
+CREATE POLICY "Admins can manage dispute statements" ON payment_dispute_statements
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Parties can read dispute statements" ON payment_dispute_statements;
+CREATE POLICY "Parties can read dispute statements" ON payment_dispute_statements
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM payment_disputes d
+      WHERE d.id = dispute_id
+      AND auth.uid() IN (d.parent_id, d.caregiver_id)
+    )
+  );
+
+-- Parties may add their own statement while the dispute is active and the
+-- evidence deadline has not passed.
+DROP POLICY IF EXISTS "Parties can submit dispute statements" ON payment_dispute_statements;
+CREATE POLICY "Parties can submit dispute statements" ON payment_dispute_statements
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM payment_disputes d
+      WHERE d.id = dispute_id
+      AND d.status IN ('open', 'under_review')
+      AND d.evidence_due_at >= NOW()
+      AND (
+        (party = 'parent' AND d.parent_id = auth.uid())
+        OR (party = 'caregiver' AND d.caregiver_id = auth.uid())
+      )
+    )
+  );
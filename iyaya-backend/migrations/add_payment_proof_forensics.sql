@@ -0,0 +1,81 @@
+-- Payment proof forensics: content and perceptual hashes for duplicate detection
+-- Run this in the Supabase SQL editor
+
+ALTER TABLE payment_proofs
+  ADD COLUMN IF NOT EXISTS content_sha256 TEXT,
+  -- 64-bit difference hash (dHash) of the image as 16 hex digits
+  ADD COLUMN IF NOT EXISTS perceptual_hash TEXT CHECK (perceptual_hash ~ '^[0-9a-f]{16}$'),
+  -- MIME type sniffed from the file's magic bytes, compared against mime_type
+  ADD COLUMN IF NOT EXISTS detected_mime_type TEXT,
+  ADD COLUMN IF NOT EXISTS byte_size BIGINT,
+  ADD COLUMN IF NOT EXISTS hashed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS hash_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_sha256 ON payment_proofs(content_sha256)
+  WHERE content_sha256 IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_unhashed ON payment_proofs(uploaded_at)
+  WHERE hashed_at IS NULL;
+
+-- For each proof in p_proof_ids, earlier proofs on other bookings that are the
+-- same file or whose perceptual hash is within p_max_distance bits, closest
+-- first and at most p_limit per proof. Identical files report distance 0.
+CREATE OR REPLACE FUNCTION find_payment_proof_matches(
+  p_proof_ids UUID[],
+  p_max_distance INTEGER DEFAULT 6,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  proof_id UUID,
+  id UUID,
+  booking_id UUID,
+  public_url TEXT,
+  uploaded_by UUID,
+  uploaded_at TIMESTAMP WITH TIME ZONE,
+  content_sha256 TEXT,
+  distance INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    src.id,
+    m.id,
+    m.booking_id,
+    m.public_url,
+    m.uploaded_by,
+    m.uploaded_at,
+    m.content_sha256,
+    m.distance
+  FROM payment_proofs src
+  CROSS JOIN LATERAL (
+    SELECT
+      p.id,
+      p.booking_id,
+      p.public_url,
+      p.uploaded_by,
+      p.uploaded_at,
+      p.content_sha256,
+      CASE
+        WHEN src.content_sha256 IS NOT NULL AND p.content_sha256 = src.content_sha256 THEN 0
+        ELSE bit_count(('x' || p.perceptual_hash)::bit(64) # ('x' || src.perceptual_hash)::bit(64))::INTEGER
+      END AS distance
+    FROM payment_proofs p
+    WHERE p.id <> src.id
+      AND p.booking_id IS DISTINCT FROM src.booking_id
+      AND p.uploaded_at < src.uploaded_at
+      AND (
+        (src.content_sha256 IS NOT NULL AND p.content_sha256 = src.content_sha256)
+        OR (
+          src.perceptual_hash IS NOT NULL
+          AND p.perceptual_hash IS NOT NULL
+          AND bit_count(('x' || p.perceptual_hash)::bit(64) # ('x' || src.perceptual_hash)::bit(64)) <= p_max_distance
+        )
+      )
+    ORDER BY distance, p.uploaded_at
+    LIMIT p_limit
+  ) m
+  WHERE src.id = ANY(p_proof_ids)
+  ORDER BY src.id, m.distance, m.uploaded_at;
+$$;
+
+DROP FUNCTION IF EXISTS find_similar_payment_proofs(TEXT, UUID, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER);
@@ -0,0 +1,170 @@
+-- Partial refunds and a per-payment ledger of charges, refunds and adjustments
+-- Run this in the Supabase SQL editor
+
+ALTER TYPE payment_status_type ADD VALUE IF NOT EXISTS 'partially_refunded' AFTER 'paid';
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0
+    CHECK (refunded_amount >= 0);
+
+-- Amounts are signed: charges are positive, refunds negative, adjustments
+-- either. balance_after is the running balance once the entry is applied.
+CREATE TABLE IF NOT EXISTS payment_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('charge', 'refund', 'adjustment')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount <> 0),
+  balance_after NUMERIC(12,2) NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (entry_type <> 'refund' OR amount < 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_ledger_payment
+  ON payment_ledger_entries(payment_id, created_at);
+
+-- Stamps the running balance. The payment row is locked so concurrent
+-- entries for one payment are applied one at a time.
+CREATE OR REPLACE FUNCTION set_payment_ledger_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance NUMERIC(12,2);
+BEGIN
+  PERFORM 1 FROM payments WHERE id = NEW.payment_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM payment_ledger_entries
+  WHERE payment_id = NEW.payment_id;
+
+  NEW.balance_after := v_balance + NEW.amount;
+  IF NEW.balance_after < 0 THEN
+    RAISE EXCEPTION 'Ledger balance for payment % cannot go below zero', NEW.payment_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_payment_ledger_balance ON payment_ledger_entries;
+CREATE TRIGGER trg_payment_ledger_balance
+  BEFORE INSERT ON payment_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION set_payment_ledger_balance();
+
+-- Every payment opens with a charge, and later changes to its total are
+-- recorded as adjustments so the ledger always sums to what is owed.
+CREATE OR REPLACE FUNCTION record_payment_charge()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.total_amount, 0) > 0 THEN
+      INSERT INTO payment_ledger_entries (payment_id, entry_type, amount, reason)
+      VALUES (NEW.id, 'charge', NEW.total_amount, 'Booking charge');
+    END IF;
+  ELSIF COALESCE(NEW.total_amount, 0) <> COALESCE(OLD.total_amount, 0) THEN
+    INSERT INTO payment_ledger_entries (payment_id, entry_type, amount, reason, created_by)
+    VALUES (
+      NEW.id,
+      'adjustment',
+      COALESCE(NEW.total_amount, 0) - COALESCE(OLD.total_amount, 0),
+      'Payment total changed',
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_payment_charge ON payments;
+CREATE TRIGGER trg_payment_charge
+  AFTER INSERT OR UPDATE OF total_amount ON payments
+  FOR EACH ROW EXECUTE FUNCTION record_payment_charge();
+
+-- Backfill: an opening charge for every payment, and a full refund for
+-- payments that were already refunded.
+INSERT INTO payment_ledger_entries (payment_id, entry_type, amount, reason, created_at)
+SELECT p.id, 'charge', p.total_amount, 'Booking charge', p.created_at
+FROM payments p
+WHERE p.total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM payment_ledger_entries e WHERE e.payment_id = p.id);
+
+INSERT INTO payment_ledger_entries (payment_id, entry_type, amount, reason, created_at)
+SELECT p.id, 'refund', -p.total_amount, p.refund_reason, p.updated_at
+FROM payments p
+WHERE p.payment_status = 'refunded'
+  AND p.total_amount > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM payment_ledger_entries e
+    WHERE e.payment_id = p.id AND e.entry_type = 'refund'
+  );
+
+UPDATE payments SET refunded_amount = total_amount
+WHERE payment_status = 'refunded' AND refunded_amount = 0;
+
+-- Records a refund of p_amount (the remaining balance when NULL) and moves the
+-- payment to refunded or partially_refunded. Returns the new ledger entry.
+CREATE OR REPLACE FUNCTION record_payment_refund(
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_admin_id UUID
+)
+RETURNS payment_ledger_entries
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance NUMERIC(12,2);
+  v_amount NUMERIC(12,2);
+  v_entry payment_ledger_entries%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM payment_ledger_entries
+  WHERE payment_id = p_payment_id;
+
+  v_amount := COALESCE(p_amount, v_balance);
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_amount > v_balance THEN
+    RAISE EXCEPTION 'Refund of % exceeds the remaining balance of %', v_amount, v_balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO payment_ledger_entries (payment_id, entry_type, amount, reason, created_by)
+  VALUES (p_payment_id, 'refund', -v_amount, p_reason, p_admin_id)
+  RETURNING * INTO v_entry;
+
+  UPDATE payments
+  SET refunded_amount = refunded_amount + v_amount,
+      payment_status = CASE
+        WHEN v_entry.balance_after = 0 THEN 'refunded'::payment_status_type
+        ELSE 'partially_refunded'::payment_status_type
+      END,
+      refund_reason = p_reason,
+      updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  RETURN v_entry;
+END;
+$$;
+
+ALTER TABLE payment_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read payment ledger" ON payment_ledger_entries;
+CREATE POLICY "Admins can read payment ledger" ON payment_ledger_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
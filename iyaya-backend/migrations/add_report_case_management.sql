@@ -0,0 +1,43 @@
+-- Report case management: assignment, escalation and internal comment thread
+-- Run this in the Supabase SQL editor after create_reports_table.sql
+
+ALTER TABLE user_reports
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_reports_assigned_to ON user_reports(assigned_to);
+
+CREATE TABLE IF NOT EXISTS report_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES user_reports(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  kind VARCHAR(20) NOT NULL DEFAULT 'comment' CHECK (kind IN ('comment', 'assignment', 'escalation', 'action', 'status')),
+  body TEXT NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_comments_report ON report_comments(report_id, created_at);
+
+ALTER TABLE report_comments ENABLE ROW LEVEL SECURITY;
+
+-- Comments are internal to the admin team
+CREATE POLICY "Admins can read report comments" ON report_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
+
+CREATE POLICY "Admins can add report comments" ON report_comments
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('admin', 'superadmin')
+    )
+  );
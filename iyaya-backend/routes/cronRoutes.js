@@ -0,0 +1,26 @@
+const express = require("express");
+const router = express.Router();
+const { runJob } = require("../services/scheduledJobs");
+
+// Schedulers authenticate with the shared CRON_SECRET, not a user session.
+router.use((req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.header("Authorization") !== `Bearer ${secret}`) {
+    return res.status(401).json({ success: false, error: "Unauthorized" });
+  }
+  next();
+});
+
+router.get("/:job", async (req, res, next) => {
+  try {
+    const result = await runJob(req.params.job);
+    if (!result) {
+      return res.status(404).json({ success: false, error: "Unknown job" });
+    }
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
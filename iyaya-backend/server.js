@@ -3,6 +3,7 @@ require("dotenv").config();
 
 const express = require("express");
 const app = require("./app"); // Import your app configuration
+const { startScheduledJobs } = require("./services/scheduledJobs");
 
 // Health check endpoint (REQUIRED for Vercel)
 app.get("/health", (req, res) => {
@@ -20,6 +21,8 @@ if (require.main === module) {
   app.listen(PORT, () => {
     console.log(`🚀 Server running on port ${PORT}`);
   });
+  // Serverless deployments call /api/cron/:job on a schedule instead
+  startScheduledJobs();
 }
 
 // Export for Vercel serverless
@@ -0,0 +1,137 @@
+const { supabase } = require("../config/supabase");
+
+const APPROVAL_SELECT = `
+  *,
+  requester:requested_by ( id, name, email ),
+  reviewer:reviewed_by ( id, name, email ),
+  executor:executed_by ( id, name, email )
+`;
+
+class ApprovalService {
+  static async create(approvalData) {
+    const { data, error } = await supabase
+      .from("admin_approval_requests")
+      .insert({
+        ...approvalData,
+        status: "pending",
+        created_at: new Date().toISOString(),
+      })
+      .select(APPROVAL_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async findById(id) {
+    const { data, error } = await supabase
+      .from("admin_approval_requests")
+      .select(APPROVAL_SELECT)
+      .eq("id", id)
+      .single();
+
+    if (error && error.code !== "PGRST116") throw error;
+    return data;
+  }
+
+  static async getApprovals({ page = 1, limit = 20, status, requestedBy } = {}) {
+    let query = supabase
+      .from("admin_approval_requests")
+      .select(APPROVAL_SELECT, { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    if (status) query = query.eq("status", status);
+    if (requestedBy) query = query.eq("requested_by", requestedBy);
+
+    const offset = (page - 1) * limit;
+    query = query.range(offset, offset + limit - 1);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return {
+      approvals: data || [],
+      total: count || 0,
+      page,
+      limit,
+      totalPages: Math.ceil((count || 0) / limit),
+    };
+  }
+
+  // Pending requests past their deadline can no longer be approved.
+  static async expireStale() {
+    const { error } = await supabase
+      .from("admin_approval_requests")
+      .update({ status: "expired" })
+      .eq("status", "pending")
+      .lt("expires_at", new Date().toISOString());
+
+    if (error) throw error;
+  }
+
+  static async review(id, { status, reviewedBy, reviewNote }) {
+    const { data, error } = await supabase
+      .from("admin_approval_requests")
+      .update({
+        status,
+        reviewed_by: reviewedBy,
+        review_note: reviewNote || null,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "pending")
+      .select(APPROVAL_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Moves an approved request to "executing" for exactly one caller.
+  // Returns null when the request is not (or no longer) approved.
+  static async claim(id, executedBy) {
+    const { data, error } = await supabase
+      .from("admin_approval_requests")
+      .update({
+        status: "executing",
+        executed_by: executedBy,
+        executed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "approved")
+      .select(APPROVAL_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Hands a claimed request back when the gated action did not succeed.
+  static async release(id) {
+    const { error } = await supabase
+      .from("admin_approval_requests")
+      .update({ status: "approved", executed_by: null, executed_at: null })
+      .eq("id", id)
+      .eq("status", "executing");
+
+    if (error) throw error;
+  }
+
+  static async markExecuted(id) {
+    const { data, error } = await supabase
+      .from("admin_approval_requests")
+      .update({
+        status: "executed",
+        executed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "executing")
+      .select(APPROVAL_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+module.exports = { ApprovalService };
@@ -0,0 +1,191 @@
+// services/bookingMonitorService.js
+// Server-side twin of src/services/bookingMonitorService.ts: flags confirmed
+// bookings that have not been started and alerts every admin once per booking.
+const { supabase } = require("../config/supabase");
+
+const BOOKING_START_GRACE_MINUTES = 15;
+const LIKELY_NO_SHOW_MINUTES = 60;
+const LATE_START_ALERT = "booking_late_start";
+const MAX_MONITORED_BOOKINGS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bookings store wall-clock dates and times in the platform's time zone.
+const BOOKING_TIME_ZONE = process.env.BOOKING_TIME_ZONE || "Asia/Manila";
+
+const zoneParts = (instant) =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: BOOKING_TIME_ZONE,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value]),
+  );
+
+const zoneOffsetMs = (instant) => {
+  const parts = zoneParts(instant);
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// Wall-clock minutes on a calendar day in BOOKING_TIME_ZONE, as an instant.
+const atZonedMinutes = ({ year, month, day }, minutes) => {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  return new Date(guess - zoneOffsetMs(new Date(guess)));
+};
+
+const toZonedDateKey = (instant) => {
+  const parts = zoneParts(instant);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+const isTimestamp = (value) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(value);
+
+const parseClock = (value) => {
+  const match = /^(\d{1,2}):(\d{2})/.exec(String(value ?? "").trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const parseDay = (value) => {
+  if (!value) return null;
+  if (isTimestamp(value)) {
+    const key = toZonedDateKey(new Date(value));
+    return parseDay(key);
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match
+    ? { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+    : null;
+};
+
+// Mirrors resolveBookingInterval in src/services/bookingCalendarService.ts.
+const resolveInterval = (booking) => {
+  const hours = Math.max(Number(booking.total_hours) || 0, 1);
+  if (isTimestamp(booking.start_time)) {
+    const start = new Date(booking.start_time);
+    const end = isTimestamp(booking.end_time)
+      ? new Date(booking.end_time)
+      : new Date(start.getTime() + hours * 3_600_000);
+    return { start, end };
+  }
+
+  const day = parseDay(booking.service_date) ?? parseDay(booking.start_date);
+  if (!day) return null;
+
+  const start = atZonedMinutes(day, parseClock(booking.start_time) ?? 0);
+  const endClock = parseClock(booking.end_time);
+  let end =
+    endClock !== null
+      ? atZonedMinutes(day, endClock)
+      : new Date(start.getTime() + hours * 3_600_000);
+  if (end <= start) end = new Date(end.getTime() + DAY_MS);
+  return { start, end };
+};
+
+const findLateBookings = async (now) => {
+  const { data, error } = await supabase
+    .from("bookings")
+    .select(
+      `id, status, service_date, start_date, end_date, start_time, end_time, total_hours,
+        caregiver:caregiver_id ( id, name ),
+        job:job_id ( id, title )`,
+    )
+    .eq("status", "confirmed")
+    .gte("start_date", toZonedDateKey(new Date(now.getTime() - DAY_MS)))
+    .lt("start_date", toZonedDateKey(new Date(now.getTime() + DAY_MS)))
+    .limit(MAX_MONITORED_BOOKINGS);
+
+  if (error) throw error;
+
+  return (data || []).flatMap((booking) => {
+    const interval = resolveInterval(booking);
+    if (!interval || Number.isNaN(interval.start.getTime())) return [];
+    const minutesLate = Math.floor((now.getTime() - interval.start.getTime()) / 60_000);
+    if (minutesLate < BOOKING_START_GRACE_MINUTES) return [];
+    return [
+      {
+        booking,
+        minutesLate,
+        reason:
+          minutesLate >= LIKELY_NO_SHOW_MINUTES || now >= interval.end
+            ? "likely_no_show"
+            : "late_start",
+      },
+    ];
+  });
+};
+
+const findAlertedBookingIds = async (now) => {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("data")
+    .contains("data", { alert: LATE_START_ALERT })
+    .gte("created_at", new Date(now.getTime() - 2 * DAY_MS).toISOString());
+
+  if (error) throw error;
+  return new Set((data || []).map((row) => row.data?.bookingId).filter(Boolean));
+};
+
+const findAdminIds = async () => {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id")
+    .in("role", ["admin", "superadmin"]);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.id);
+};
+
+const relation = (value) => (Array.isArray(value) ? value[0] : value) || {};
+
+/**
+ * Raises one alert per late booking to every admin. Bookings already
+ * alerted in the last two days are skipped, so repeated runs are safe.
+ */
+const alertLateBookings = async (now = new Date()) => {
+  const late = await findLateBookings(now);
+  if (late.length === 0) return { late: 0, alerted: 0 };
+
+  const [alreadyAlerted, adminIds] = await Promise.all([
+    findAlertedBookingIds(now),
+    findAdminIds(),
+  ]);
+  const pending = late.filter(({ booking }) => !alreadyAlerted.has(booking.id));
+
+  let alerted = 0;
+  for (const { booking, minutesLate, reason } of pending) {
+    const job = relation(booking.job);
+    const caregiver = relation(booking.caregiver);
+    const rows = adminIds.map((adminId) => ({
+      user_id: adminId,
+      type: "system",
+      title: reason === "likely_no_show" ? "Possible booking no-show" : "Booking start overdue",
+      message: `${job.title || "Booking"} with ${caregiver.name || "the caregiver"} is still confirmed ${minutesLate} min after its start time.`,
+      data: { bookingId: booking.id, alert: LATE_START_ALERT, reason, minutesLate },
+    }));
+
+    const { error } = await supabase.from("notifications").insert(rows);
+    if (error) {
+      console.error(`Failed to alert admins about booking ${booking.id}:`, error);
+      continue;
+    }
+    alerted += 1;
+  }
+
+  return { late: late.length, alerted };
+};
+
+module.exports = { alertLateBookings, BOOKING_START_GRACE_MINUTES };
@@ -0,0 +1,295 @@
+const crypto = require("crypto");
+const sharp = require("sharp");
+const { supabase } = require("../config/supabase");
+
+// Proofs hashed per scheduled run; the rest are picked up by later runs.
+const HASH_BATCH_LIMIT = 20;
+const FETCH_TIMEOUT_MS = 10000;
+const PAYMENT_PROOF_BUCKET = "payment-proofs";
+// Larger files are recorded as a hash error instead of being downloaded.
+const MAX_PROOF_BYTES = 15 * 1024 * 1024;
+const SIGNED_URL_TTL_SECONDS = 60;
+// Maximum differing bits (of 64) for two images to count as the same screenshot.
+const SIMILARITY_THRESHOLD = 6;
+const NEAR_IDENTICAL_THRESHOLD = 2;
+const LATE_UPLOAD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAGIC_SIGNATURES = [
+  { mime: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mime: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mime: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mime: "image/heic", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63] },
+  { mime: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+];
+
+const MIME_ALIASES = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+};
+
+const normalizeMime = (mime) => {
+  const lower = typeof mime === "string" ? mime.trim().toLowerCase() : "";
+  return MIME_ALIASES[lower] || lower || null;
+};
+
+/** MIME type from the file's magic bytes, or null when unrecognised. */
+const sniffMimeType = (buffer) => {
+  const match = MAGIC_SIGNATURES.find(({ offset, bytes }) =>
+    bytes.every((byte, index) => buffer[offset + index] === byte),
+  );
+  return match ? match.mime : null;
+};
+
+/**
+ * 64-bit difference hash: the image is reduced to 9x8 greyscale and each bit
+ * records whether a pixel is brighter than its right-hand neighbour. Re-encoded,
+ * resized or lightly cropped copies of a screenshot land within a few bits.
+ */
+const computeDifferenceHash = async (buffer) => {
+  const pixels = await sharp(buffer)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row += 1) {
+    for (let col = 0; col < 8; col += 1) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+};
+
+/**
+ * Reads the proof from the private bucket by its storage path, never from the
+ * client-supplied public URL, and stops once the file exceeds MAX_PROOF_BYTES.
+ */
+const downloadProof = async (storagePath) => {
+  const { data, error } = await supabase.storage
+    .from(PAYMENT_PROOF_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+  if (error || !data?.signedUrl) {
+    throw new Error(error?.message || "Could not sign proof download");
+  }
+
+  const response = await fetch(data.signedUrl, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length")) > MAX_PROOF_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`File is larger than ${MAX_PROOF_BYTES} bytes`);
+  }
+
+  const chunks = [];
+  let received = 0;
+  for await (const chunk of response.body) {
+    received += chunk.length;
+    if (received > MAX_PROOF_BYTES) {
+      throw new Error(`File is larger than ${MAX_PROOF_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+class ProofForensicsService {
+  /**
+   * Downloads and fingerprints the oldest proofs that have not been hashed
+   * yet, persisting the results. Run as a scheduled job so payment listings
+   * never download files.
+   */
+  static async hashPending({ limit = HASH_BATCH_LIMIT } = {}) {
+    const { data: pending, error: pendingError } = await supabase
+      .from("payment_proofs")
+      .select("id, storage_path")
+      .is("hashed_at", null)
+      .order("uploaded_at", { ascending: true })
+      .limit(limit);
+    if (pendingError) throw pendingError;
+
+    let hashed = 0;
+    for (const row of pending || []) {
+      const update = { hashed_at: new Date().toISOString(), hash_error: null };
+      if (!row.storage_path) {
+        update.hash_error = "Missing storage path";
+      } else {
+        try {
+          const buffer = await downloadProof(row.storage_path);
+          update.byte_size = buffer.length;
+          update.content_sha256 = crypto
+            .createHash("sha256")
+            .update(buffer)
+            .digest("hex");
+          update.detected_mime_type = sniffMimeType(buffer);
+          if (update.detected_mime_type?.startsWith("image/")) {
+            update.perceptual_hash = await computeDifferenceHash(buffer);
+          }
+        } catch (error) {
+          update.hash_error = error.message || "Failed to fingerprint proof";
+        }
+      }
+
+      const { error } = await supabase
+        .from("payment_proofs")
+        .update(update)
+        .eq("id", row.id);
+      if (error) {
+        console.warn("[ProofForensicsService] Failed to store hash", row.id, error);
+        continue;
+      }
+      hashed += 1;
+    }
+
+    return { pending: (pending || []).length, hashed };
+  }
+
+  /**
+   * Earlier proofs on other bookings that are the same file or the same
+   * screenshot, looked up for every row in one query. Keyed by proof ID.
+   */
+  static async findMatches(rows = []) {
+    const matches = new Map();
+    const proofIds = rows
+      .filter((row) => row.content_sha256 || row.perceptual_hash)
+      .map((row) => row.id);
+    if (!proofIds.length) {
+      return matches;
+    }
+
+    const { data, error } = await supabase.rpc("find_payment_proof_matches", {
+      p_proof_ids: proofIds,
+      p_max_distance: SIMILARITY_THRESHOLD,
+    });
+    if (error) {
+      console.warn("[ProofForensicsService] Match lookup failed", error);
+      return matches;
+    }
+    (data || []).forEach(({ proof_id: proofId, ...match }) => {
+      matches.set(proofId, [...(matches.get(proofId) || []), match]);
+    });
+
+    const uploaderIds = [
+      ...new Set(
+        [...matches.values()].flat().map((match) => match.uploaded_by).filter(Boolean),
+      ),
+    ];
+    if (uploaderIds.length) {
+      const { data: uploaders } = await supabase
+        .from("users")
+        .select("id, name, email")
+        .in("id", uploaderIds);
+      const users = new Map((uploaders || []).map((user) => [user.id, user]));
+      matches.forEach((list) =>
+        list.forEach((match) => {
+          match.uploader = users.get(match.uploaded_by) || null;
+        }),
+      );
+    }
+
+    return matches;
+  }
+
+  /** Findings for one proof, most severe first. */
+  static assess(proof, matches = []) {
+    const findings = [];
+    const add = (type, severity, message, match) =>
+      findings.push(match ? { type, severity, message, match } : { type, severity, message });
+
+    if (!proof.storage_path || !proof.public_url) {
+      add("missing_file", "medium", proof.public_url ? "Missing storage path" : "Missing public URL");
+    }
+
+    const declared = normalizeMime(proof.mime_type);
+    if (!declared) {
+      add("unknown_mime", "medium", "Unknown MIME type");
+    } else if (!declared.startsWith("image/") && declared !== "application/pdf") {
+      add("unexpected_mime", "medium", `Unexpected MIME type: ${proof.mime_type}`);
+    }
+    if (declared && proof.detected_mime_type && declared !== proof.detected_mime_type) {
+      add(
+        "mime_mismatch",
+        "high",
+        `Declared ${declared} but the file is ${proof.detected_mime_type}`,
+      );
+    }
+    if (proof.hashed_at && proof.content_sha256 && !proof.detected_mime_type) {
+      add("unexpected_mime", "medium", "File contents are not a recognised image or PDF");
+    }
+    if (proof.hash_error) {
+      add("hash_failed", "low", `Could not fingerprint proof: ${proof.hash_error}`);
+    }
+
+    const booking = proof.booking || null;
+    const uploadedAt = proof.uploaded_at ? new Date(proof.uploaded_at).getTime() : null;
+    if (uploadedAt && booking?.created_at && uploadedAt < new Date(booking.created_at).getTime()) {
+      add("uploaded_before_booking", "high", "Uploaded before the booking was created");
+    }
+    if (
+      uploadedAt &&
+      booking?.start_time &&
+      uploadedAt - new Date(booking.start_time).getTime() > LATE_UPLOAD_DAYS * DAY_MS
+    ) {
+      add(
+        "uploaded_late",
+        "low",
+        `Uploaded more than ${LATE_UPLOAD_DAYS} days after the booking date`,
+      );
+    }
+
+    matches.forEach((match) => {
+      const identical =
+        Boolean(proof.content_sha256) && match.content_sha256 === proof.content_sha256;
+      const distance = identical ? 0 : match.distance;
+      const sameUploader = Boolean(proof.uploaded_by) && match.uploaded_by === proof.uploaded_by;
+      const who = sameUploader
+        ? "the same user"
+        : match.uploader?.name || match.uploader?.email || "another user";
+      const summary = {
+        proofId: match.id,
+        bookingId: match.booking_id,
+        publicUrl: match.public_url || null,
+        uploadedAt: match.uploaded_at || null,
+        uploadedByInfo: match.uploader || null,
+        distance,
+        identical,
+        sameUploader,
+      };
+
+      if (identical) {
+        add(
+          "duplicate_file",
+          "high",
+          `Same file as the proof uploaded by ${who} for booking ${match.booking_id}`,
+          summary,
+        );
+      } else {
+        add(
+          "similar_image",
+          distance <= NEAR_IDENTICAL_THRESHOLD ? "high" : "medium",
+          `Looks like the screenshot uploaded by ${who} for booking ${match.booking_id} (${distance}/64 bits differ)`,
+          summary,
+        );
+      }
+    });
+
+    const order = ["high", "medium", "low"];
+    return findings.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+  }
+}
+
+module.exports = {
+  ProofForensicsService,
+  computeDifferenceHash,
+  sniffMimeType,
+  SIMILARITY_THRESHOLD,
+};
@@ -1,5 +1,29 @@
 const { supabase } = require("../config/supabase");
 
+// Minutes allowed to act on a report before it is escalated. Keep in sync
+// with REPORT_SLA_MINUTES in src/services/reportsService.ts.
+const REPORT_SLA_MINUTES = {
+  critical: 60,
+  high: 4 * 60,
+  medium: 24 * 60,
+  low: 72 * 60,
+};
+
+const OPEN_REPORT_STATUSES = ["pending", "under_review"];
+
+const getSlaDueAt = (report) => {
+  const minutes = REPORT_SLA_MINUTES[report.severity] ?? REPORT_SLA_MINUTES.medium;
+  return new Date(new Date(report.created_at).getTime() + minutes * 60_000);
+};
+
+// Open, past its deadline and not escalated since the deadline passed.
+const isEscalationDue = (report, now = new Date()) => {
+  if (!OPEN_REPORT_STATUSES.includes(report.status)) return false;
+  const dueAt = getSlaDueAt(report);
+  if (dueAt.getTime() > now.getTime()) return false;
+  return !report.escalated_at || new Date(report.escalated_at).getTime() < dueAt.getTime();
+};
+
 class ReportService {
   static async create(reportData) {
     const { data, error } = await supabase
@@ -31,7 +55,8 @@ class ReportService {
         reported_user:reported_user_id ( id, name, email, role, profile_image ),
         booking:booking_id ( id, status, start_date, end_date ),
         job:job_id ( id, title, status ),
-        reviewer:reviewed_by ( id, name, email )
+        reviewer:reviewed_by ( id, name, email ),
+        assignee:assigned_to ( id, name, email )
       `)
       .eq("id", id)
       .single();
@@ -48,6 +73,8 @@ class ReportService {
     severity,
     reporterId,
     reportedUserId,
+    assignedTo,
+    bookingId,
     search,
   } = {}) {
     let query = supabase
@@ -57,7 +84,8 @@ class ReportService {
         reporter:reporter_id ( id, name, email, role ),
         reported_user:reported_user_id ( id, name, email, role ),
         booking:booking_id ( id, status ),
-        job:job_id ( id, title )
+        job:job_id ( id, title ),
+        assignee:assigned_to ( id, name, email )
       `, { count: "exact" });
 
     if (status) query = query.eq("status", status);
@@ -65,6 +93,9 @@ class ReportService {
     if (severity) query = query.eq("severity", severity);
     if (reporterId) query = query.eq("reporter_id", reporterId);
     if (reportedUserId) query = query.eq("reported_user_id", reportedUserId);
+    if (bookingId) query = query.eq("booking_id", bookingId);
+    if (assignedTo === "unassigned") query = query.is("assigned_to", null);
+    else if (assignedTo) query = query.eq("assigned_to", assignedTo);
     
     if (search) {
       query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
@@ -102,7 +133,111 @@ class ReportService {
         *,
         reporter:reporter_id ( id, name, email, role ),
         reported_user:reported_user_id ( id, name, email, role ),
-        reviewer:reviewed_by ( id, name, email )
+        reviewer:reviewed_by ( id, name, email ),
+        assignee:assigned_to ( id, name, email )
+      `)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async assign(id, assigneeId) {
+    const { data, error } = await supabase
+      .from("user_reports")
+      .update({
+        assigned_to: assigneeId,
+        assigned_at: assigneeId ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select(`
+        *,
+        reporter:reporter_id ( id, name, email, role ),
+        reported_user:reported_user_id ( id, name, email, role ),
+        reviewer:reviewed_by ( id, name, email ),
+        assignee:assigned_to ( id, name, email )
+      `)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Bumps the escalation level and records why on the comment thread.
+  // Returns null when another escalation of the same report won the race.
+  static async escalate(current, { authorId = null, reason } = {}) {
+    const { data, error } = await supabase
+      .from("user_reports")
+      .update({
+        escalated_at: new Date().toISOString(),
+        escalation_level: (current.escalation_level || 0) + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", current.id)
+      // Only one of two concurrent escalations may bump the level.
+      .eq("escalation_level", current.escalation_level || 0)
+      .select(`
+        *,
+        reporter:reporter_id ( id, name, email, role ),
+        reported_user:reported_user_id ( id, name, email, role ),
+        reviewer:reviewed_by ( id, name, email ),
+        assignee:assigned_to ( id, name, email )
+      `)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    await this.addComment(current.id, {
+      authorId,
+      kind: "escalation",
+      body: reason || "SLA deadline passed",
+      metadata: { escalationLevel: data.escalation_level },
+    });
+    return data;
+  }
+
+  // Open reports whose SLA has passed without an escalation since.
+  static async findEscalationDue(now = new Date()) {
+    const { data, error } = await supabase
+      .from("user_reports")
+      .select("id, severity, status, created_at, escalated_at, escalation_level")
+      .in("status", OPEN_REPORT_STATUSES)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).filter((report) => isEscalationDue(report, now));
+  }
+
+  static async getComments(reportId) {
+    const { data, error } = await supabase
+      .from("report_comments")
+      .select(`
+        *,
+        author:author_id ( id, name, email )
+      `)
+      .eq("report_id", reportId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async addComment(reportId, { authorId, body, kind = "comment", metadata = null }) {
+    const { data, error } = await supabase
+      .from("report_comments")
+      .insert({
+        report_id: reportId,
+        author_id: authorId,
+        body,
+        kind,
+        metadata,
+        created_at: new Date().toISOString(),
+      })
+      .select(`
+        *,
+        author:author_id ( id, name, email )
       `)
       .single();
 
@@ -134,4 +269,9 @@ class ReportService {
   }
 }
 
-module.exports = { ReportService };
+module.exports = {
+  ReportService,
+  REPORT_SLA_MINUTES,
+  getSlaDueAt,
+  isEscalationDue,
+};
@@ -0,0 +1,57 @@
+// services/scheduledJobs.js
+// Background work that must not depend on an admin having the app open.
+// Long-running servers run these on an interval; serverless deployments hit
+// GET /api/cron/:job from their scheduler instead.
+const { ReportService, REPORT_SLA_MINUTES } = require("./reportService");
+const { AuditLogService } = require("./supabaseService");
+const { alertLateBookings } = require("./bookingMonitorService");
+const { ProofForensicsService } = require("./proofForensicsService");
+
+const escalateOverdueReports = async () => {
+  const due = await ReportService.findEscalationDue();
+  let escalated = 0;
+
+  for (const current of due) {
+    const reason = `SLA of ${REPORT_SLA_MINUTES[current.severity]} minutes for ${current.severity} severity passed`;
+    try {
+      const report = await ReportService.escalate(current, { reason });
+      if (!report) continue;
+
+      escalated += 1;
+      await AuditLogService.create({
+        admin_id: null,
+        action: "report_escalated",
+        target_type: "report",
+        target_id: report.id,
+        metadata: { escalationLevel: report.escalation_level, reason, automated: true },
+      });
+    } catch (error) {
+      console.error(`Failed to escalate report ${current.id}:`, error);
+    }
+  }
+
+  return { checked: due.length, escalated };
+};
+
+const JOBS = {
+  "report-escalations": { run: escalateOverdueReports, intervalMs: 5 * 60 * 1000 },
+  "booking-start-monitor": { run: () => alertLateBookings(), intervalMs: 5 * 60 * 1000 },
+  "payment-proof-hashing": { run: () => ProofForensicsService.hashPending(), intervalMs: 60 * 1000 },
+};
+
+const runJob = async (name) => {
+  const job = JOBS[name];
+  if (!job) return null;
+  return job.run();
+};
+
+const startScheduledJobs = () =>
+  Object.entries(JOBS).map(([name, job]) => {
+    const timer = setInterval(() => {
+      job.run().catch((error) => console.error(`Scheduled job ${name} failed:`, error));
+    }, job.intervalMs);
+    timer.unref();
+    return timer;
+  });
+
+module.exports = { JOBS, runJob, startScheduledJobs };
@@ -4,6 +4,7 @@
  */
 
 const { supabase } = require("../config/supabase");
+const { ProofForensicsService } = require("./proofForensicsService");
 
 /**
  * User Service - Handles all user-related database operations
@@ -562,6 +563,13 @@ class JobService {
     // Re-open moves job back to active/open state
     return this.updateStatus(id, "active");
   }
+
+  static async delete(id) {
+    const { error } = await supabase.from("jobs").delete().eq("id", id);
+
+    if (error) throw error;
+    return true;
+  }
 }
 
 /**
@@ -596,7 +604,24 @@ class BookingService {
     return data;
   }
 
-  static async getBookings({ page = 1, limit = 10, status, search } = {}) {
+  static async getBookings({
+    page = 1,
+    limit = 10,
+    status,
+    parentId,
+    caregiverId,
+    jobId,
+    from,
+    to,
+    serviceDateFrom,
+    serviceDateTo,
+    minAmount,
+    maxAmount,
+    minChildren,
+    maxChildren,
+    hasOpenReport,
+    search,
+  } = {}) {
     let query = supabase.from("bookings").select(
       `*,
         parent:parent_id ( id, name, email, profile_image ),
@@ -607,6 +632,27 @@ class BookingService {
     );
 
     if (status) query = query.eq("status", status);
+    if (parentId) query = query.eq("parent_id", parentId);
+    if (caregiverId) query = query.eq("caregiver_id", caregiverId);
+    if (jobId) query = query.eq("job_id", jobId);
+    // Calendar windows: bookings whose start date falls inside [from, to].
+    if (from) query = query.gte("start_date", from);
+    if (to) query = query.lte("start_date", to);
+    if (serviceDateFrom) query = query.gte("service_date", serviceDateFrom);
+    if (serviceDateTo) query = query.lte("service_date", serviceDateTo);
+    if (Number.isFinite(minAmount)) query = query.gte("total_amount", minAmount);
+    if (Number.isFinite(maxAmount)) query = query.lte("total_amount", maxAmount);
+    if (Number.isFinite(minChildren)) {
+      query = query.gte("children_count", minChildren);
+    }
+    if (Number.isFinite(maxChildren)) {
+      query = query.lte("children_count", maxChildren);
+    }
+
+    // has_open_report is a computed column (see add_booking_filters_and_presets.sql).
+    if (typeof hasOpenReport === "boolean") {
+      query = query.eq("has_open_report", hasOpenReport);
+    }
     if (search) {
       query = query.or(
         `parent.name.ilike.%${search}%,parent.email.ilike.%${search}%,caregiver.name.ilike.%${search}%,caregiver.email.ilike.%${search}%`,
@@ -649,27 +695,8 @@ const sanitizePaymentSearch = (term = "") =>
     .replace(/[%_]/g, (match) => `\\${match}`)
     .replace(/,/g, "\\,");
 
-const assessProof = (proof) => {
-  const issues = [];
-  if (!proof.storage_path) {
-    issues.push("Missing storage path");
-  }
-  if (!proof.public_url) {
-    issues.push("Missing public URL");
-  }
-  if (!proof.mime_type) {
-    issues.push("Unknown MIME type");
-  } else if (!proof.mime_type.toLowerCase().startsWith("image/")) {
-    issues.push(`Unexpected MIME type: ${proof.mime_type}`);
-  }
-  return {
-    issues,
-    suspicious: issues.length > 0,
-  };
-};
-
-const normalizeProof = (proof) => {
-  const { issues, suspicious } = assessProof(proof);
+const normalizeProof = (proof, matches = []) => {
+  const findings = ProofForensicsService.assess(proof, matches);
   return {
     id: proof.id,
     bookingId: proof.booking_id,
@@ -680,12 +707,30 @@ const normalizeProof = (proof) => {
     uploadedAt: proof.uploaded_at,
     paymentType: proof.payment_type || "deposit",
     uploadedByInfo: proof.uploaded_by_user || null,
-    suspicious,
-    issues,
+    perceptualHash: proof.perceptual_hash || null,
+    detectedMimeType: proof.detected_mime_type || null,
+    findings,
+    suspicious: findings.some((finding) => finding.severity !== "low"),
+    issues: findings.map((finding) => finding.message),
   };
 };
 
-const normalizePaymentRecord = (record, proofsMap = new Map()) => {
+const normalizeLedgerEntry = (entry) => ({
+  id: entry.id,
+  paymentId: entry.payment_id,
+  entryType: entry.entry_type,
+  amount: Number(entry.amount || 0),
+  balanceAfter: Number(entry.balance_after || 0),
+  reason: entry.reason || null,
+  createdBy: entry.created_by_user || null,
+  createdAt: entry.created_at,
+});
+
+const normalizePaymentRecord = (
+  record,
+  proofsMap = new Map(),
+  ledgerMap = new Map(),
+) => {
   const proofs = proofsMap.get(record.booking_id) || [];
   const proofIssues = proofs.flatMap((proof) => proof.issues);
   const hasSuspiciousProof = proofs.some((proof) => proof.suspicious);
@@ -711,6 +756,7 @@ const normalizePaymentRecord = (record, proofsMap = new Map()) => {
         }
       : {},
     totalAmount: Number(record.total_amount || 0),
+    refundedAmount: Number(record.refunded_amount || 0),
     paymentStatus: record.payment_status,
     paymentProof: record.payment_proof || null,
     notes: record.notes || null,
@@ -721,6 +767,7 @@ const normalizePaymentRecord = (record, proofsMap = new Map()) => {
     proofIssues,
     proofStatus:
       hasSuspiciousProof || proofIssues.length ? "needs_review" : "ok",
+    ledger: ledgerMap.get(record.id) || [],
   };
 };
 
@@ -741,17 +788,28 @@ class PaymentProofService {
         uploaded_by,
         uploaded_at,
         payment_type,
-        uploaded_by_user:uploaded_by ( id, name, email )
+        content_sha256,
+        perceptual_hash,
+        detected_mime_type,
+        hashed_at,
+        hash_error,
+        uploaded_by_user:uploaded_by ( id, name, email ),
+        booking:booking_id ( id, created_at, start_time )
       `,
       )
       .in("booking_id", bookingIds)
+      .is("dispute_id", null)
       .order("uploaded_at", { ascending: false });
 
     if (error) throw error;
 
+    // Fingerprints are filled in by the payment-proof-hashing job
+    const rows = data || [];
+    const matches = await ProofForensicsService.findMatches(rows);
+
     const map = new Map();
-    (data || []).forEach((row) => {
-      const normalized = normalizeProof(row);
+    rows.forEach((row) => {
+      const normalized = normalizeProof(row, matches.get(row.id));
       const list = map.get(row.booking_id) || [];
       list.push(normalized);
       map.set(row.booking_id, list);
@@ -765,6 +823,65 @@ class PaymentProofService {
   }
 }
 
+class PaymentLedgerService {
+  static async listByPaymentIds(paymentIds = []) {
+    if (!paymentIds.length) {
+      return new Map();
+    }
+
+    const { data, error } = await supabase
+      .from("payment_ledger_entries")
+      .select(
+        `id,
+        payment_id,
+        entry_type,
+        amount,
+        balance_after,
+        reason,
+        created_at,
+        created_by_user:created_by ( id, name, email )
+      `,
+      )
+      .in("payment_id", paymentIds)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    const map = new Map();
+    (data || []).forEach((entry) => {
+      const list = map.get(entry.payment_id) || [];
+      list.push(normalizeLedgerEntry(entry));
+      map.set(entry.payment_id, list);
+    });
+    return map;
+  }
+
+  /**
+   * Refunds `amount` (the remaining balance when omitted) in one transaction,
+   * moving the payment to refunded or partially_refunded.
+   */
+  static async recordRefund(paymentId, { amount, reason, adminId } = {}) {
+    const { data, error } = await supabase.rpc("record_payment_refund", {
+      p_payment_id: paymentId,
+      p_amount: amount ?? null,
+      p_reason: reason || null,
+      p_admin_id: adminId || null,
+    });
+
+    if (error) throw error;
+    return normalizeLedgerEntry(data);
+  }
+}
+
+const hydratePaymentRecords = async (rows = []) => {
+  const bookingIds = rows.map((row) => row.booking_id).filter(Boolean);
+  const [proofsMap, ledgerMap] = await Promise.all([
+    PaymentProofService.listByBookingIds(bookingIds),
+    PaymentLedgerService.listByPaymentIds(rows.map((row) => row.id)),
+  ]);
+  return rows.map((row) => normalizePaymentRecord(row, proofsMap, ledgerMap));
+};
+
 class PaymentService {
   static baseSelect = `
     id,
@@ -772,6 +889,7 @@ class PaymentService {
     parent_id,
     caregiver_id,
     total_amount,
+    refunded_amount,
     payment_status,
     payment_proof,
     notes,
@@ -783,7 +901,7 @@ class PaymentService {
     booking:booking_id ( id, status )
   `;
 
-  static async list({ page = 1, limit = 25, status, search } = {}) {
+  static async list({ page = 1, limit = 25, status, bookingId, bookingIds, search } = {}) {
     let query = supabase
       .from("payments")
       .select(this.baseSelect, { count: "exact" })
@@ -793,6 +911,14 @@ class PaymentService {
       query = query.eq("payment_status", status);
     }
 
+    if (bookingId) {
+      query = query.eq("booking_id", bookingId);
+    }
+
+    if (Array.isArray(bookingIds) && bookingIds.length > 0) {
+      query = query.in("booking_id", bookingIds);
+    }
+
     if (search && search.trim()) {
       const sanitized = sanitizePaymentSearch(search);
       const orClause = [
@@ -811,12 +937,8 @@ class PaymentService {
     const { data, error, count } = await query;
     if (error) throw error;
 
-    const rows = data || [];
-    const bookingIds = rows.map((row) => row.booking_id).filter(Boolean);
-    const proofsMap = await PaymentProofService.listByBookingIds(bookingIds);
-
     return {
-      payments: rows.map((row) => normalizePaymentRecord(row, proofsMap)),
+      payments: await hydratePaymentRecords(data || []),
       total: count || 0,
       page,
       limit,
@@ -833,9 +955,8 @@ class PaymentService {
     if (error && error.code !== "PGRST116") throw error;
     if (!data) return null;
 
-    const proofs = await PaymentProofService.listByBookingId(data.booking_id);
-    const proofsMap = new Map([[data.booking_id, proofs]]);
-    return normalizePaymentRecord(data, proofsMap);
+    const [payment] = await hydratePaymentRecords([data]);
+    return payment;
   }
 
   static async updateStatus(id, status, { notes } = {}) {
@@ -852,28 +973,29 @@ class PaymentService {
 
     if (error) throw error;
 
-    const proofs = await PaymentProofService.listByBookingId(data.booking_id);
-    const proofsMap = new Map([[data.booking_id, proofs]]);
-    return normalizePaymentRecord(data, proofsMap);
+    const [payment] = await hydratePaymentRecords([data]);
+    return payment;
   }
 
-  static async refund(id, reason) {
-    const { data, error } = await supabase
-      .from("payments")
-      .update({
-        payment_status: "refunded",
-        refund_reason: reason || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id)
-      .select(this.baseSelect)
-      .single();
+  /**
+   * Whether the payment is part of a sent caregiver payout, which blocks
+   * refunds. Payments in scheduled or failed payouts are pulled from the
+   * payout when refunded.
+   */
+  static async isPaidOut(id) {
+    const { count, error } = await supabase
+      .from("caregiver_payout_items")
+      .select("id, payout:payout_id!inner(status)", { count: "exact", head: true })
+      .eq("payment_id", id)
+      .eq("payout.status", "sent");
 
     if (error) throw error;
+    return (count || 0) > 0;
+  }
 
-    const proofs = await PaymentProofService.listByBookingId(data.booking_id);
-    const proofsMap = new Map([[data.booking_id, proofs]]);
-    return normalizePaymentRecord(data, proofsMap);
+  static async refund(id, { amount, reason, adminId } = {}) {
+    await PaymentLedgerService.recordRefund(id, { amount, reason, adminId });
+    return this.findById(id);
   }
 }
 
@@ -1125,6 +1247,16 @@ class CaregiverDocumentService {
   }
 }
 
+// Mirrors the caregiver_background_checks_status_check constraint
+const BACKGROUND_CHECK_STATUSES = [
+  "not_started",
+  "submitted",
+  "in_review",
+  "passed",
+  "failed",
+  "expired",
+];
+
 class BackgroundCheckService {
   static async getByUserId(userId) {
     const { data, error } = await supabase
@@ -1162,6 +1294,12 @@ class BackgroundCheckService {
       expiryDate,
     } = {},
   ) {
+    if (status !== undefined && !BACKGROUND_CHECK_STATUSES.includes(status)) {
+      throw new Error(
+        `Invalid background check status. Must be one of: ${BACKGROUND_CHECK_STATUSES.join(", ")}`,
+      );
+    }
+
     const existing = await this.getByUserId(userId);
     const updates = {
       status: status ?? existing?.status ?? "not_started",
@@ -1217,8 +1355,12 @@ const DEFAULT_SYSTEM_SETTINGS = {
   registration_enabled: true,
   email_verification_required: true,
   background_check_required: true,
+  platform_fee_rate: 0.1,
 };
 
+const isFeeRate = (value) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value < 1;
+
 class SystemSettingsService {
   static toCamel(record = DEFAULT_SYSTEM_SETTINGS) {
     return {
@@ -1238,6 +1380,9 @@ class SystemSettingsService {
         typeof record.background_check_required === "boolean"
           ? record.background_check_required
           : DEFAULT_SYSTEM_SETTINGS.background_check_required,
+      platformFeeRate: isFeeRate(Number(record.platform_fee_rate))
+        ? Number(record.platform_fee_rate)
+        : DEFAULT_SYSTEM_SETTINGS.platform_fee_rate,
     };
   }
 
@@ -1259,6 +1404,10 @@ class SystemSettingsService {
         typeof settings.backgroundCheckRequired === "boolean"
           ? settings.backgroundCheckRequired
           : DEFAULT_SYSTEM_SETTINGS.background_check_required,
+      // Left out when invalid so the stored rate is kept rather than reset
+      ...(isFeeRate(settings.platformFeeRate)
+        ? { platform_fee_rate: settings.platformFeeRate }
+        : {}),
     };
   }
 
@@ -1320,6 +1469,7 @@ module.exports = {
   BookingService,
   PaymentService,
   PaymentProofService,
+  PaymentLedgerService,
   AuditLogService,
   AuthAdminService,
   CaregiverProfileService,
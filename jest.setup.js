@@ -0,0 +1,10 @@
+// AsyncStorage has no native module under Jest; use the in-memory mock it ships with.
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// expo-crypto's native UUID generator is not available either; Node's is the same v4 format.
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  randomUUID: () => require('crypto').randomUUID(),
+}));
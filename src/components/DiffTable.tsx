@@ -0,0 +1,78 @@
+import React from 'react';
+import {ScrollView, StyleSheet, View} from 'react-native';
+import {Text} from 'react-native-paper';
+import type {FieldDiff} from '../types';
+
+export const describeDiffValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+interface DiffTableProps {
+  entries: FieldDiff[];
+  maxHeight?: number;
+}
+
+const DiffTable: React.FC<DiffTableProps> = ({entries, maxHeight = 180}) => (
+  <ScrollView style={{maxHeight}} nestedScrollEnabled>
+    <View style={[styles.row, styles.headerRow]}>
+      <Text style={[styles.field, styles.headerText]}>Field</Text>
+      <Text style={[styles.value, styles.headerText]}>Before</Text>
+      <Text style={styles.arrow}> </Text>
+      <Text style={[styles.value, styles.headerText]}>After</Text>
+    </View>
+    {entries.map((entry, index) => (
+      <View key={`${entry.field}-${index}`} style={styles.row}>
+        <Text style={styles.field}>{entry.field}</Text>
+        <Text style={[styles.value, styles.before]}>{describeDiffValue(entry.before)}</Text>
+        <Text style={styles.arrow}>→</Text>
+        <Text style={[styles.value, styles.after]}>{describeDiffValue(entry.after)}</Text>
+      </View>
+    ))}
+  </ScrollView>
+);
+
+export default DiffTable;
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerRow: {
+    borderBottomColor: '#bdbdbd',
+  },
+  headerText: {
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  field: {
+    flex: 1.2,
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  value: {
+    flex: 1,
+    fontSize: 12,
+  },
+  arrow: {
+    width: 16,
+    marginHorizontal: 4,
+    color: '#999',
+    textAlign: 'center',
+  },
+  before: {
+    color: '#d32f2f',
+  },
+  after: {
+    color: '#388e3c',
+  },
+});
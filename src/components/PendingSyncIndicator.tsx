@@ -0,0 +1,58 @@
+import React from 'react';
+import {StyleSheet, TouchableOpacity, View} from 'react-native';
+import {Text} from 'react-native-paper';
+import {Icon} from 'react-native-elements';
+import {useNavigation} from '@react-navigation/native';
+import {useOfflineQueue} from '../hooks/useOfflineQueue';
+
+const PendingSyncIndicator: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const {pendingCount, attentionCount} = useOfflineQueue();
+  const total = pendingCount + attentionCount;
+
+  if (total === 0) {
+    return null;
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={() => navigation.navigate('SyncQueue')}
+      style={styles.container}
+      accessibilityLabel={`${total} actions waiting to sync`}>
+      <Icon
+        name={attentionCount > 0 ? 'sync-problem' : 'sync'}
+        type="material"
+        color={attentionCount > 0 ? '#ffcdd2' : '#fff'}
+      />
+      <View style={[styles.badge, attentionCount > 0 && styles.badgeAttention]}>
+        <Text style={styles.badgeText}>{total}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+export default PendingSyncIndicator;
+
+const styles = StyleSheet.create({
+  container: {
+    marginRight: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  badge: {
+    marginLeft: 2,
+    minWidth: 18,
+    paddingHorizontal: 4,
+    borderRadius: 9,
+    backgroundColor: '#ff9800',
+    alignItems: 'center',
+  },
+  badgeAttention: {
+    backgroundColor: '#d32f2f',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,30 @@
+import React from 'react';
+import {usePermission} from '../hooks/usePermission';
+import type {Permission} from '../config/permissions';
+
+interface PermissionGuardProps {
+  permission: Permission;
+  /**
+   * `hide` (default) renders the fallback instead of the children. `disable`
+   * always renders the children and passes `disabled` to the render function
+   * so the action stays visible but inert.
+   */
+  mode?: 'hide' | 'disable';
+  fallback?: React.ReactNode;
+  children: React.ReactNode | ((state: {disabled: boolean}) => React.ReactNode);
+}
+
+const PermissionGuard: React.FC<PermissionGuardProps> = ({permission, mode = 'hide', fallback = null, children}) => {
+  const allowed = usePermission(permission);
+
+  if (typeof children === 'function') {
+    if (!allowed && mode === 'hide') {
+      return <>{fallback}</>;
+    }
+    return <>{children({disabled: !allowed})}</>;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default PermissionGuard;
@@ -0,0 +1,63 @@
+import React, {useEffect, useState} from 'react';
+import {StyleSheet} from 'react-native';
+import {Button, Dialog, Portal, Text, TextInput} from 'react-native-paper';
+import type {BookingTransition} from '../../config/bookingStateMachine';
+
+interface BookingActionDialogProps {
+  transition: BookingTransition | null;
+  loading?: boolean;
+  onDismiss: () => void;
+  onConfirm: (reason?: string) => void;
+}
+
+/** Confirmation step for a booking transition, collecting a reason when the state machine requires one. */
+const BookingActionDialog: React.FC<BookingActionDialogProps> = ({transition, loading, onDismiss, onConfirm}) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [transition]);
+
+  const reasonMissing = !!transition?.requiresReason && !reason.trim();
+
+  return (
+    <Portal>
+      <Dialog visible={!!transition} onDismiss={onDismiss}>
+        <Dialog.Title>{transition?.confirmTitle}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.message}>
+            {transition?.confirmMessage}
+          </Text>
+          {transition?.requiresReason ? (
+            <TextInput
+              mode="outlined"
+              multiline
+              label="Reason (required)"
+              value={reason}
+              onChangeText={setReason}
+            />
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} disabled={loading}>
+            Dismiss
+          </Button>
+          <Button
+            mode="contained"
+            buttonColor={transition?.destructive ? '#d32f2f' : '#3f51b5'}
+            onPress={() => onConfirm(reason.trim() || undefined)}
+            loading={loading}
+            disabled={loading || reasonMissing}>
+            Confirm
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+export default BookingActionDialog;
+
+const styles = StyleSheet.create({
+  message: {marginBottom: 12},
+});
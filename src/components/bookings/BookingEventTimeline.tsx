@@ -0,0 +1,96 @@
+import React from 'react';
+import {StyleSheet, TouchableOpacity, View} from 'react-native';
+import {Text} from 'react-native-paper';
+import {Icon} from 'react-native-elements';
+import {BOOKING_STATUS_COLORS} from '../../config/bookingStateMachine';
+import type {BookingTimelineEvent, BookingTimelineEventKind} from '../../types';
+
+interface BookingEventTimelineProps {
+  events: BookingTimelineEvent[];
+  onPressEvent?: (event: BookingTimelineEvent) => void;
+}
+
+const KIND_STYLES: Record<BookingTimelineEventKind, {icon: string; color: string; label: string}> = {
+  status: {icon: 'flag', color: '#3f51b5', label: 'Status'},
+  payment: {icon: 'payments', color: '#2e7d32', label: 'Payment'},
+  proof: {icon: 'receipt', color: '#00838f', label: 'Proof'},
+  notification: {icon: 'notifications', color: '#f57c00', label: 'Notification'},
+  report: {icon: 'report', color: '#d32f2f', label: 'Report'},
+};
+
+const formatTimestamp = (value: string) =>
+  value
+    ? new Date(value).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : 'Unknown time';
+
+const BookingEventTimeline: React.FC<BookingEventTimelineProps> = ({events, onPressEvent}) => (
+  <View>
+    {events.map((event, index) => {
+      const isLast = index === events.length - 1;
+      const kind = KIND_STYLES[event.kind];
+      const color = event.kind === 'status' && event.status ? BOOKING_STATUS_COLORS[event.status] : kind.color;
+      const pressable = !!onPressEvent && !!event.reportId;
+
+      return (
+        <TouchableOpacity
+          key={event.id}
+          style={styles.row}
+          disabled={!pressable}
+          onPress={() => onPressEvent?.(event)}
+          accessibilityLabel={`${kind.label}: ${event.title}`}>
+          <View style={styles.rail}>
+            <View style={[styles.dot, {backgroundColor: color}]}>
+              <Icon name={kind.icon} type="material" size={12} color="#fff" />
+            </View>
+            {!isLast ? <View style={styles.line} /> : null}
+          </View>
+          <View style={styles.body}>
+            <Text variant="bodyMedium" style={styles.title}>
+              {event.title}
+            </Text>
+            <Text variant="bodySmall" style={styles.meta}>
+              {kind.label} • {formatTimestamp(event.at)}
+              {event.actor ? ` • ${event.actor}` : ''}
+            </Text>
+            {event.description ? (
+              <Text variant="bodySmall" style={styles.description}>
+                {event.description}
+              </Text>
+            ) : null}
+            {event.reason ? (
+              <Text variant="bodySmall" style={styles.reason}>
+                “{event.reason}”
+              </Text>
+            ) : null}
+            {pressable ? (
+              <Text variant="bodySmall" style={styles.link}>
+                View report
+              </Text>
+            ) : null}
+          </View>
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
+
+export default BookingEventTimeline;
+
+const styles = StyleSheet.create({
+  row: {flexDirection: 'row'},
+  rail: {width: 24, alignItems: 'center'},
+  dot: {width: 20, height: 20, borderRadius: 10, alignItems: 'center', justifyContent: 'center'},
+  line: {flex: 1, width: 2, backgroundColor: '#e0e0e0', marginVertical: 2},
+  body: {flex: 1, paddingLeft: 8, paddingBottom: 16},
+  title: {fontWeight: '600', color: '#424242'},
+  meta: {color: '#757575', marginTop: 2},
+  description: {color: '#616161', marginTop: 4},
+  reason: {color: '#616161', marginTop: 4, fontStyle: 'italic'},
+  link: {color: '#3f51b5', marginTop: 4, fontWeight: '600'},
+});
@@ -0,0 +1,279 @@
+import React, {useEffect, useState} from 'react';
+import {ScrollView, StyleSheet, View} from 'react-native';
+import {Button, Chip, Dialog, HelperText, List, Portal, Text, TextInput} from 'react-native-paper';
+import {fetchUsers} from '../../services/usersService';
+import {fetchJobs} from '../../services/jobsService';
+import {compactBookingFilters, validateBookingFilters} from '../../services/bookingFiltersService';
+import type {BookingFilters} from '../../types';
+
+interface BookingFiltersDialogProps {
+  visible: boolean;
+  filters: BookingFilters;
+  onDismiss: () => void;
+  onApply: (filters: BookingFilters) => void;
+}
+
+type EntityOption = {id: string; label: string; detail?: string};
+
+const SEARCH_DEBOUNCE_MS = 300;
+const OPEN_REPORT_OPTIONS: Array<{label: string; value: boolean | undefined}> = [
+  {label: 'Any', value: undefined},
+  {label: 'Has open report', value: true},
+  {label: 'No open report', value: false},
+];
+
+const toNumber = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+interface EntitySearchFieldProps {
+  label: string;
+  selectedLabel?: string;
+  search: (term: string) => Promise<EntityOption[]>;
+  onSelect: (option: EntityOption | null) => void;
+}
+
+/** Type-ahead picker that resolves a name or title to the ID the API filters on. */
+const EntitySearchField: React.FC<EntitySearchFieldProps> = ({label, selectedLabel, search, onSelect}) => {
+  const [term, setTerm] = useState('');
+  const [options, setOptions] = useState<EntityOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (term.trim().length < 2) {
+      setOptions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      search(term.trim())
+        .then(result => {
+          if (!cancelled) {
+            setOptions(result);
+            setError(null);
+          }
+        })
+        .catch(searchError => {
+          if (!cancelled) {
+            setError(searchError instanceof Error ? searchError.message : 'Search failed');
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [term, search]);
+
+  if (selectedLabel) {
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>{label}</Text>
+        <Chip icon="close" onPress={() => onSelect(null)} style={styles.selectedChip}>
+          {selectedLabel}
+        </Chip>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.field}>
+      <TextInput mode="outlined" dense label={label} value={term} onChangeText={setTerm} placeholder="Type 2+ characters" />
+      {error ? <HelperText type="error">{error}</HelperText> : null}
+      {options.map(option => (
+        <List.Item
+          key={option.id}
+          title={option.label}
+          description={option.detail}
+          onPress={() => {
+            onSelect(option);
+            setTerm('');
+            setOptions([]);
+          }}
+          style={styles.option}
+        />
+      ))}
+    </View>
+  );
+};
+
+const searchUsers = (userType: 'parent' | 'caregiver') => async (term: string) => {
+  const {users} = await fetchUsers({userType, search: term, limit: 5});
+  return users.map<EntityOption>(user => ({id: user.id, label: user.name, detail: user.email}));
+};
+
+const searchParents = searchUsers('parent');
+const searchCaregivers = searchUsers('caregiver');
+
+const searchJobs = async (term: string) => {
+  const {jobs} = await fetchJobs({search: term, limit: 5});
+  return jobs.map<EntityOption>(job => ({id: job.id, label: job.title, detail: job.parentId?.name}));
+};
+
+const BookingFiltersDialog: React.FC<BookingFiltersDialogProps> = ({visible, filters, onDismiss, onApply}) => {
+  const [draft, setDraft] = useState<BookingFilters>(filters);
+  const [amountText, setAmountText] = useState({min: '', max: ''});
+  const [childrenText, setChildrenText] = useState({min: '', max: ''});
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setAmountText({min: filters.minAmount?.toString() ?? '', max: filters.maxAmount?.toString() ?? ''});
+      setChildrenText({min: filters.minChildren?.toString() ?? '', max: filters.maxChildren?.toString() ?? ''});
+    }
+  }, [visible, filters]);
+
+  const next = compactBookingFilters({
+    ...draft,
+    minAmount: toNumber(amountText.min),
+    maxAmount: toNumber(amountText.max),
+    minChildren: toNumber(childrenText.min),
+    maxChildren: toNumber(childrenText.max),
+  });
+  const validationError = validateBookingFilters(next);
+
+  const update = (patch: Partial<BookingFilters>) => setDraft(prev => ({...prev, ...patch}));
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title>Filter bookings</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <EntitySearchField
+              label="Parent"
+              selectedLabel={draft.parentId ? draft.parentName ?? draft.parentId : undefined}
+              search={searchParents}
+              onSelect={option => update({parentId: option?.id, parentName: option?.label})}
+            />
+            <EntitySearchField
+              label="Caregiver"
+              selectedLabel={draft.caregiverId ? draft.caregiverName ?? draft.caregiverId : undefined}
+              search={searchCaregivers}
+              onSelect={option => update({caregiverId: option?.id, caregiverName: option?.label})}
+            />
+            <EntitySearchField
+              label="Job"
+              selectedLabel={draft.jobId ? draft.jobTitle ?? draft.jobId : undefined}
+              search={searchJobs}
+              onSelect={option => update({jobId: option?.id, jobTitle: option?.label})}
+            />
+
+            <Text style={styles.label}>Service date</Text>
+            <View style={styles.row}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="From (YYYY-MM-DD)"
+                value={draft.serviceDateFrom ?? ''}
+                onChangeText={value => update({serviceDateFrom: value})}
+                style={styles.half}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="To (YYYY-MM-DD)"
+                value={draft.serviceDateTo ?? ''}
+                onChangeText={value => update({serviceDateTo: value})}
+                style={styles.half}
+              />
+            </View>
+
+            <Text style={styles.label}>Total amount (₱)</Text>
+            <View style={styles.row}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Min"
+                keyboardType="numeric"
+                value={amountText.min}
+                onChangeText={min => setAmountText(prev => ({...prev, min}))}
+                style={styles.half}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="Max"
+                keyboardType="numeric"
+                value={amountText.max}
+                onChangeText={max => setAmountText(prev => ({...prev, max}))}
+                style={styles.half}
+              />
+            </View>
+
+            <Text style={styles.label}>Children</Text>
+            <View style={styles.row}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Min"
+                keyboardType="number-pad"
+                value={childrenText.min}
+                onChangeText={min => setChildrenText(prev => ({...prev, min}))}
+                style={styles.half}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="Max"
+                keyboardType="number-pad"
+                value={childrenText.max}
+                onChangeText={max => setChildrenText(prev => ({...prev, max}))}
+                style={styles.half}
+              />
+            </View>
+
+            <Text style={styles.label}>Reports</Text>
+            <View style={styles.chipRow}>
+              {OPEN_REPORT_OPTIONS.map(option => (
+                <Chip
+                  key={option.label}
+                  selected={draft.hasOpenReport === option.value}
+                  onPress={() => update({hasOpenReport: option.value})}
+                  style={styles.chip}>
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+
+            {validationError ? <HelperText type="error">{validationError}</HelperText> : null}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button
+            onPress={() => {
+              setDraft({status: draft.status, search: draft.search});
+              setAmountText({min: '', max: ''});
+              setChildrenText({min: '', max: ''});
+            }}>
+            Clear
+          </Button>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button mode="contained" onPress={() => onApply(next)} disabled={!!validationError}>
+            Apply
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+export default BookingFiltersDialog;
+
+const styles = StyleSheet.create({
+  dialog: {maxHeight: '90%'},
+  content: {paddingVertical: 8},
+  field: {marginBottom: 12},
+  label: {fontWeight: 'bold', color: '#666', marginBottom: 4},
+  selectedChip: {alignSelf: 'flex-start'},
+  option: {paddingVertical: 0},
+  row: {flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12},
+  half: {width: '48%'},
+  chipRow: {flexDirection: 'row', flexWrap: 'wrap'},
+  chip: {marginRight: 8, marginBottom: 8},
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import {StyleSheet, TouchableOpacity, View} from 'react-native';
+import {Text} from 'react-native-paper';
+import {BOOKING_STATUS_COLORS} from '../../config/bookingStateMachine';
+import type {ScheduledBooking} from '../../services/bookingCalendarService';
+import type {AvailabilityWindow} from '../../types';
+
+interface CaregiverDayTrackProps {
+  day: Date;
+  bookings: ScheduledBooking[];
+  availability?: AvailabilityWindow[];
+  onPressBooking: (entry: ScheduledBooking) => void;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const HOUR_MARKERS = [0, 6, 12, 18, 24];
+
+const toMinutes = (value: string) => {
+  const [hours = '0', minutes = '0'] = value.split(':');
+  return Number(hours) * 60 + Number(minutes);
+};
+
+const toPercent = (minutes: number) => `${(Math.min(Math.max(minutes, 0), MINUTES_PER_DAY) / MINUTES_PER_DAY) * 100}%` as const;
+
+/**
+ * A 24-hour strip for one caregiver and day: published availability is
+ * shaded behind the bookings, and conflicting bookings get a red outline.
+ */
+const CaregiverDayTrack: React.FC<CaregiverDayTrackProps> = ({day, bookings, availability, onPressBooking}) => {
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  const windows = (availability ?? []).filter(window => window.dayOfWeek === day.getDay());
+
+  return (
+    <View>
+      <View style={styles.track}>
+        {windows.map((window, index) => {
+          const start = toMinutes(window.start);
+          const end = toMinutes(window.end);
+          return (
+            <View
+              key={`window-${index}`}
+              style={[styles.window, {left: toPercent(start), width: toPercent(end - start)}]}
+            />
+          );
+        })}
+        {bookings.map(entry => {
+          const start = (entry.start.getTime() - dayStart) / 60_000;
+          const end = (entry.end.getTime() - dayStart) / 60_000;
+          const hasConflict = entry.conflicts.length > 0;
+          return (
+            <TouchableOpacity
+              key={entry.booking.id}
+              onPress={() => onPressBooking(entry)}
+              accessibilityLabel={`${entry.booking.jobId.title}${hasConflict ? ', has conflicts' : ''}`}
+              style={[
+                styles.block,
+                {
+                  left: toPercent(start),
+                  width: toPercent(Math.max(end - Math.max(start, 0), 15)),
+                  backgroundColor: BOOKING_STATUS_COLORS[entry.booking.status],
+                },
+                hasConflict && styles.blockConflict,
+              ]}
+            />
+          );
+        })}
+      </View>
+      <View style={styles.axis}>
+        {HOUR_MARKERS.map(hour => (
+          <Text key={hour} style={styles.axisLabel}>
+            {String(hour).padStart(2, '0')}:00
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+export default CaregiverDayTrack;
+
+const styles = StyleSheet.create({
+  track: {
+    height: 28,
+    borderRadius: 4,
+    backgroundColor: '#eeeeee',
+    overflow: 'hidden',
+  },
+  window: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#c8e6c9',
+  },
+  block: {
+    position: 'absolute',
+    top: 4,
+    bottom: 4,
+    borderRadius: 3,
+    opacity: 0.9,
+  },
+  blockConflict: {
+    borderWidth: 2,
+    borderColor: '#d32f2f',
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  axisLabel: {
+    fontSize: 10,
+    color: '#9e9e9e',
+  },
+});
@@ -0,0 +1,269 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {Alert, StyleSheet, View} from 'react-native';
+import {ActivityIndicator, Button, Chip, ProgressBar, Text} from 'react-native-paper';
+import {
+  MATCH_FACTOR_LABELS,
+  assignCaregiverToJob,
+  fetchCaregiverMatches,
+  inviteCaregiverToJob,
+} from '../../services/caregiverMatchingService';
+import type {CaregiverMatch, Job} from '../../types';
+
+interface CaregiverMatchPanelProps {
+  job: Job;
+  /** Called after a caregiver is assigned so the screen can reload the job. */
+  onAssigned: () => void;
+}
+
+const TOP_INVITE_COUNT = 3;
+
+const scoreColor = (score: number) => (score >= 75 ? '#4caf50' : score >= 50 ? '#ff9800' : '#9e9e9e');
+
+const CaregiverMatchPanel: React.FC<CaregiverMatchPanelProps> = ({job, onAssigned}) => {
+  const [matches, setMatches] = useState<CaregiverMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  /** `invite:<id>`, `invite:top` or `assign:<id>` while a request is in flight. */
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [invitedIds, setInvitedIds] = useState<string[]>([]);
+
+  const loadMatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMatches(await fetchCaregiverMatches(job));
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to find matching caregivers');
+    } finally {
+      setLoading(false);
+    }
+  }, [job]);
+
+  useEffect(() => {
+    loadMatches();
+  }, [loadMatches]);
+
+  const invite = async (targets: CaregiverMatch[]) => {
+    const pending = targets.filter(match => !invitedIds.includes(match.caregiver.id));
+    if (pending.length === 0) {
+      return;
+    }
+    setBusyId(pending.length === 1 ? `invite:${pending[0].caregiver.id}` : 'invite:top');
+    const failed: string[] = [];
+    for (const match of pending) {
+      try {
+        await inviteCaregiverToJob(job, match.caregiver);
+        setInvitedIds(prev => [...prev, match.caregiver.id]);
+      } catch {
+        failed.push(match.caregiver.name);
+      }
+    }
+    setBusyId(null);
+    if (failed.length > 0) {
+      Alert.alert('Error', `Could not invite ${failed.join(', ')}`);
+    }
+  };
+
+  const assign = (match: CaregiverMatch) => {
+    Alert.alert(
+      'Assign Caregiver',
+      job.caregiverId
+        ? `Replace ${job.caregiverId.name} with ${match.caregiver.name} on this job?`
+        : `Assign ${match.caregiver.name} to this job?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Assign',
+          onPress: async () => {
+            setBusyId(`assign:${match.caregiver.id}`);
+            try {
+              await assignCaregiverToJob(job.id, match.caregiver.id);
+              Alert.alert('Success', `${match.caregiver.name} assigned`);
+              onAssigned();
+            } catch (assignError: any) {
+              Alert.alert('Error', assignError.message || 'Failed to assign caregiver');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} color="#3f51b5" />;
+  }
+
+  if (error) {
+    return (
+      <View>
+        <Text style={styles.error}>{error}</Text>
+        <Button onPress={loadMatches}>Retry</Button>
+      </View>
+    );
+  }
+
+  if (matches.length === 0) {
+    return <Text style={styles.empty}>No active caregivers to match.</Text>;
+  }
+
+  const topMatches = matches.slice(0, TOP_INVITE_COUNT);
+
+  return (
+    <View>
+      <View style={styles.toolbar}>
+        <Button
+          mode="contained"
+          compact
+          icon="email-fast-outline"
+          buttonColor="#3f51b5"
+          onPress={() => invite(topMatches)}
+          loading={busyId === 'invite:top'}
+          disabled={busyId !== null || topMatches.every(match => invitedIds.includes(match.caregiver.id))}>
+          {`Invite top ${topMatches.length}`}
+        </Button>
+        <Button compact icon="refresh" onPress={loadMatches} disabled={busyId !== null}>
+          Refresh
+        </Button>
+      </View>
+
+      {matches.map((match, index) => {
+        const {caregiver} = match;
+        const isAssigned = job.caregiverId?.email === caregiver.email;
+        const expanded = expandedId === caregiver.id;
+        return (
+          <View key={caregiver.id} style={styles.candidate}>
+            <View style={styles.candidateHeader}>
+              <View style={styles.candidateInfo}>
+                <Text style={styles.candidateName}>
+                  {index + 1}. {caregiver.name}
+                </Text>
+                <Text style={styles.candidateMeta}>
+                  {caregiver.location ?? 'No location'}
+                  {caregiver.hourlyRate ? ` • ₱${caregiver.hourlyRate}/hr` : ''}
+                </Text>
+              </View>
+              <Chip compact style={{backgroundColor: scoreColor(match.score)}} textStyle={styles.scoreText}>
+                {match.score}
+              </Chip>
+            </View>
+
+            {expanded &&
+              match.factors.map(entry => (
+                <View key={entry.factor} style={styles.factor}>
+                  <View style={styles.factorHeader}>
+                    <Text style={styles.factorLabel}>{MATCH_FACTOR_LABELS[entry.factor]}</Text>
+                    <Text style={styles.factorDetail}>{entry.detail}</Text>
+                  </View>
+                  <ProgressBar progress={entry.score} color={scoreColor(entry.score * 100)} style={styles.factorBar} />
+                </View>
+              ))}
+
+            <View style={styles.actions}>
+              <Button compact onPress={() => setExpandedId(expanded ? null : caregiver.id)}>
+                {expanded ? 'Hide details' : 'Why?'}
+              </Button>
+              <Button
+                compact
+                icon="email-outline"
+                onPress={() => invite([match])}
+                loading={busyId === `invite:${caregiver.id}`}
+                disabled={busyId !== null || invitedIds.includes(caregiver.id)}>
+                {invitedIds.includes(caregiver.id) ? 'Invited' : 'Invite'}
+              </Button>
+              <Button
+                compact
+                mode="outlined"
+                icon="account-check"
+                textColor="#4caf50"
+                onPress={() => assign(match)}
+                loading={busyId === `assign:${caregiver.id}`}
+                disabled={busyId !== null || isAssigned}>
+                {isAssigned ? 'Assigned' : 'Assign'}
+              </Button>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+export default CaregiverMatchPanel;
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  error: {
+    color: '#d32f2f',
+  },
+  empty: {
+    color: '#666',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  candidate: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  candidateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  candidateInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  candidateName: {
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  candidateMeta: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  scoreText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  factor: {
+    marginTop: 6,
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  factorLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
+  factorDetail: {
+    fontSize: 12,
+    color: '#666',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 8,
+  },
+  factorBar: {
+    height: 4,
+    borderRadius: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,113 @@
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import {Button, Chip, Text} from 'react-native-paper';
+import DiffTable from '../DiffTable';
+import {getJobRevisionDiff} from '../../services/jobsService';
+import type {JobRevision} from '../../types';
+
+interface JobRevisionListProps {
+  revisions: JobRevision[];
+  /** ID of the revision currently being reverted, to show a spinner on it. */
+  revertingId?: string | null;
+  onRevert: (revision: JobRevision) => void;
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const changesPricing = (revision: JobRevision) =>
+  revision.changedFields.includes('hourly_rate') || revision.changedFields.includes('budget');
+
+const JobRevisionList: React.FC<JobRevisionListProps> = ({revisions, revertingId, onRevert}) => {
+  if (revisions.length === 0) {
+    return <Text style={styles.empty}>This job has not been edited since it was posted.</Text>;
+  }
+
+  return (
+    <View>
+      {revisions.map(revision => (
+        <View key={revision.id} style={styles.revision}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Revision #{revision.revisionNumber}</Text>
+            {revision.caregiverAssigned && changesPricing(revision) ? (
+              <Chip compact style={styles.warningChip} textStyle={styles.warningText}>
+                Rate changed after caregiver assigned
+              </Chip>
+            ) : null}
+          </View>
+          <Text style={styles.meta}>
+            {revision.author
+              ? `${revision.author.name}${revision.author.role ? ` (${revision.author.role})` : ''}`
+              : 'Unknown author'}{' '}
+            • {formatTimestamp(revision.createdAt)}
+          </Text>
+          {revision.note ? <Text style={styles.note}>{revision.note}</Text> : null}
+          <DiffTable entries={getJobRevisionDiff(revision)} />
+          <Button
+            compact
+            icon="restore"
+            mode="text"
+            textColor="#ff9800"
+            onPress={() => onRevert(revision)}
+            loading={revertingId === revision.id}
+            disabled={Boolean(revertingId)}
+            style={styles.revertButton}>
+            Revert to before this edit
+          </Button>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default JobRevisionList;
+
+const styles = StyleSheet.create({
+  empty: {
+    color: '#666',
+  },
+  revision: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  warningChip: {
+    backgroundColor: '#fff3e0',
+  },
+  warningText: {
+    color: '#e65100',
+    fontSize: 11,
+  },
+  meta: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  note: {
+    fontStyle: 'italic',
+    color: '#555',
+    marginBottom: 6,
+  },
+  revertButton: {
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
+});
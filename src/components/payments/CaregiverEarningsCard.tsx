@@ -0,0 +1,231 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {Alert, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Text} from 'react-native-paper';
+import {
+  PAYOUT_STATUS_COLORS,
+  PAYOUT_STATUS_LABELS,
+  fetchCaregiverEarnings,
+  formatPayoutPeriod,
+  type CaregiverEarnings,
+} from '../../services/payoutsService';
+import {exportPayoutStatement} from '../../services/payoutStatementExportService';
+import PayoutSummary from './PayoutSummary';
+import type {CaregiverPayout, PayoutStatement} from '../../types';
+
+interface CaregiverEarningsCardProps {
+  caregiverId: string;
+}
+
+const formatPeso = (value: number) =>
+  `₱${value.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+const CaregiverEarningsCard: React.FC<CaregiverEarningsCardProps> = ({caregiverId}) => {
+  const [earnings, setEarnings] = useState<CaregiverEarnings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEarnings = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEarnings(await fetchCaregiverEarnings(caregiverId));
+      setError(null);
+    } catch (loadError: any) {
+      setError(loadError.message || 'Failed to load earnings');
+    } finally {
+      setLoading(false);
+    }
+  }, [caregiverId]);
+
+  useEffect(() => {
+    loadEarnings();
+  }, [loadEarnings]);
+
+  const handleExport = async (statement: PayoutStatement | CaregiverPayout) => {
+    try {
+      await exportPayoutStatement(statement, 'pdf');
+    } catch (exportError: any) {
+      Alert.alert('Error', exportError.message || 'Failed to export statement');
+    }
+  };
+
+  const renderTotals = (current: CaregiverEarnings) => (
+    <View style={styles.totalsRow}>
+      <View style={styles.total}>
+        <Text style={styles.totalValue}>{formatPeso(current.totals.sent)}</Text>
+        <Text style={styles.totalLabel}>Paid out</Text>
+      </View>
+      <View style={styles.total}>
+        <Text style={styles.totalValue}>{formatPeso(current.totals.scheduled)}</Text>
+        <Text style={styles.totalLabel}>Scheduled</Text>
+      </View>
+      <View style={styles.total}>
+        <Text style={styles.totalValue}>{formatPeso(current.totals.unpaid)}</Text>
+        <Text style={styles.totalLabel}>Not yet scheduled</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <Text variant="titleLarge" style={styles.sectionTitle}>
+            Earnings
+          </Text>
+          <Button compact icon="refresh" onPress={loadEarnings} disabled={loading}>
+            Refresh
+          </Button>
+        </View>
+
+        {loading && !earnings ? <Text style={styles.muted}>Loading earnings...</Text> : null}
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        {earnings ? (
+          <>
+            {renderTotals(earnings)}
+            {earnings.totals.failed ? (
+              <Text style={styles.error}>{formatPeso(earnings.totals.failed)} in failed payouts needs to be retried.</Text>
+            ) : null}
+
+            {earnings.unpaid ? (
+              <View style={styles.item}>
+                <View style={styles.itemHeader}>
+                  <Text variant="titleSmall" style={styles.itemTitle}>
+                    Unpaid earnings
+                  </Text>
+                  <Button compact icon="file-document-outline" onPress={() => handleExport(earnings.unpaid!)}>
+                    Statement
+                  </Button>
+                </View>
+                <PayoutSummary statement={earnings.unpaid} />
+              </View>
+            ) : null}
+
+            {earnings.payouts.length === 0 ? (
+              <Text style={styles.muted}>No payouts yet.</Text>
+            ) : (
+              earnings.payouts.map(payout => {
+                const expanded = expandedId === payout.id;
+                return (
+                  <View key={payout.id} style={styles.item}>
+                    <View style={styles.itemHeader}>
+                      <View style={styles.itemInfo}>
+                        <Text variant="titleSmall" style={styles.itemTitle}>
+                          {formatPayoutPeriod(payout.period)}
+                        </Text>
+                        <Text style={styles.muted}>
+                          {payout.status === 'sent' && payout.sentAt
+                            ? `Sent ${new Date(payout.sentAt).toLocaleDateString()}`
+                            : `Scheduled for ${new Date(`${payout.scheduledFor}T00:00:00`).toLocaleDateString()}`}
+                        </Text>
+                      </View>
+                      <Text style={styles.itemAmount}>{formatPeso(payout.netAmount)}</Text>
+                      <Chip
+                        compact
+                        style={[styles.statusChip, {backgroundColor: PAYOUT_STATUS_COLORS[payout.status]}]}
+                        textStyle={styles.statusChipText}>
+                        {PAYOUT_STATUS_LABELS[payout.status]}
+                      </Chip>
+                    </View>
+                    {payout.failureReason ? <Text style={styles.error}>{payout.failureReason}</Text> : null}
+                    {expanded ? <PayoutSummary statement={payout} /> : null}
+                    <View style={styles.itemActions}>
+                      <Button
+                        compact
+                        icon={expanded ? 'chevron-up' : 'chevron-down'}
+                        onPress={() => setExpandedId(expanded ? null : payout.id)}>
+                        Details
+                      </Button>
+                      <Button compact icon="file-document-outline" onPress={() => handleExport(payout)}>
+                        Statement
+                      </Button>
+                    </View>
+                  </View>
+                );
+              })
+            )}
+          </>
+        ) : null}
+      </Card.Content>
+    </Card>
+  );
+};
+
+export default CaregiverEarningsCard;
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: '#3f51b5',
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  total: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontWeight: 'bold',
+    fontSize: 15,
+    color: '#212121',
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  item: {
+    paddingVertical: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e0e0e0',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  itemAmount: {
+    fontWeight: 'bold',
+    color: '#212121',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  statusChip: {
+    height: 28,
+  },
+  statusChipText: {
+    color: '#fff',
+    fontSize: 11,
+  },
+  muted: {
+    color: '#666',
+    fontSize: 12,
+  },
+  error: {
+    color: '#d32f2f',
+    fontSize: 12,
+    marginVertical: 4,
+  },
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import {Text} from 'react-native-paper';
+import type {PaymentLedgerEntry, PaymentLedgerEntryType} from '../../types';
+
+interface PaymentLedgerProps {
+  entries: PaymentLedgerEntry[];
+}
+
+const ENTRY_LABELS: Record<PaymentLedgerEntryType, string> = {
+  charge: 'Charge',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}₱${Math.abs(value).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+const PaymentLedger: React.FC<PaymentLedgerProps> = ({entries}) => {
+  if (entries.length === 0) {
+    return <Text style={styles.empty}>No ledger entries recorded.</Text>;
+  }
+
+  return (
+    <View>
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.cell, styles.typeCell, styles.headerText]}>Entry</Text>
+        <Text style={[styles.cell, styles.amountCell, styles.headerText]}>Amount</Text>
+        <Text style={[styles.cell, styles.amountCell, styles.headerText]}>Balance</Text>
+      </View>
+      {entries.map(entry => (
+        <View key={entry.id} style={styles.entry}>
+          <View style={styles.row}>
+            <Text style={[styles.cell, styles.typeCell]}>{ENTRY_LABELS[entry.entryType]}</Text>
+            <Text style={[styles.cell, styles.amountCell, entry.amount < 0 ? styles.debit : styles.credit]}>
+              {formatAmount(entry.amount)}
+            </Text>
+            <Text style={[styles.cell, styles.amountCell]}>{formatAmount(entry.balanceAfter)}</Text>
+          </View>
+          <Text style={styles.meta}>
+            {new Date(entry.createdAt).toLocaleString()}
+            {entry.createdBy ? ` • ${entry.createdBy.name ?? entry.createdBy.email}` : ''}
+          </Text>
+          {entry.reason ? <Text style={styles.meta}>{entry.reason}</Text> : null}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default PaymentLedger;
+
+const styles = StyleSheet.create({
+  empty: {
+    color: '#666',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerRow: {
+    paddingBottom: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: 'bold',
+  },
+  entry: {
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#eeeeee',
+  },
+  cell: {
+    fontSize: 13,
+    color: '#333',
+  },
+  typeCell: {
+    flex: 1,
+  },
+  amountCell: {
+    width: 96,
+    textAlign: 'right',
+  },
+  credit: {
+    color: '#2e7d32',
+  },
+  debit: {
+    color: '#d32f2f',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+});
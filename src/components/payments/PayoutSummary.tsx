@@ -0,0 +1,73 @@
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import {Text} from 'react-native-paper';
+import type {PayoutStatement} from '../../types';
+
+interface PayoutSummaryProps {
+  statement: Pick<PayoutStatement, 'bookingCount' | 'grossAmount' | 'refundedAmount' | 'feeRate' | 'feeAmount' | 'netAmount'>;
+}
+
+const formatPeso = (value: number) =>
+  `₱${value.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+/** Gross-to-net breakdown shared by draft statements and scheduled payouts. */
+const PayoutSummary: React.FC<PayoutSummaryProps> = ({statement}) => (
+  <View>
+    <View style={styles.row}>
+      <Text style={styles.label}>Paid by parents ({statement.bookingCount} bookings)</Text>
+      <Text style={styles.value}>{formatPeso(statement.grossAmount)}</Text>
+    </View>
+    {statement.refundedAmount ? (
+      <View style={styles.row}>
+        <Text style={styles.label}>Refunds</Text>
+        <Text style={[styles.value, styles.deduction]}>-{formatPeso(statement.refundedAmount)}</Text>
+      </View>
+    ) : null}
+    <View style={styles.row}>
+      <Text style={styles.label}>Platform fee ({Math.round(statement.feeRate * 10000) / 100}%)</Text>
+      <Text style={[styles.value, styles.deduction]}>-{formatPeso(statement.feeAmount)}</Text>
+    </View>
+    <View style={[styles.row, styles.netRow]}>
+      <Text style={styles.netLabel}>Amount due</Text>
+      <Text style={styles.netValue}>{formatPeso(statement.netAmount)}</Text>
+    </View>
+  </View>
+);
+
+export default PayoutSummary;
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  label: {
+    fontSize: 13,
+    color: '#666',
+    flex: 1,
+  },
+  value: {
+    fontSize: 13,
+    color: '#333',
+  },
+  deduction: {
+    color: '#d32f2f',
+  },
+  netRow: {
+    marginTop: 4,
+    paddingTop: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e0e0e0',
+  },
+  netLabel: {
+    fontWeight: 'bold',
+    color: '#212121',
+  },
+  netValue: {
+    fontWeight: 'bold',
+    fontSize: 16,
+    color: '#2e7d32',
+  },
+});
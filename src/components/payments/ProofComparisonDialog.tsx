@@ -0,0 +1,126 @@
+import React from 'react';
+import {Image, Linking, StyleSheet, View} from 'react-native';
+import {Button, Dialog, Portal, Text} from 'react-native-paper';
+import type {PaymentProofInfo, PaymentProofMatch, UserReference} from '../../types';
+
+interface ProofComparisonDialogProps {
+  /** The proof under review and the earlier proof it matched. */
+  comparison: {proof: PaymentProofInfo; match: PaymentProofMatch} | null;
+  onDismiss: () => void;
+}
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : 'Unknown time');
+
+const describeUploader = (info?: UserReference | null) =>
+  info?.name || info?.email || 'Unknown user';
+
+const ProofPane: React.FC<{
+  title: string;
+  uri?: string | null;
+  bookingId: string;
+  uploadedAt?: string | null;
+  uploader: string;
+}> = ({title, uri, bookingId, uploadedAt, uploader}) => (
+  <View style={styles.pane}>
+    <Text style={styles.paneTitle}>{title}</Text>
+    {uri ? (
+      <Image source={{uri}} style={styles.image} resizeMode="contain" />
+    ) : (
+      <View style={[styles.image, styles.placeholder]}>
+        <Text style={styles.placeholderText}>No preview</Text>
+      </View>
+    )}
+    <Text style={styles.meta} numberOfLines={1}>
+      Booking {bookingId}
+    </Text>
+    <Text style={styles.meta}>{uploader}</Text>
+    <Text style={styles.meta}>{formatDateTime(uploadedAt)}</Text>
+    {uri ? (
+      <Button compact icon="open-in-new" onPress={() => Linking.openURL(uri).catch(() => undefined)}>
+        Open
+      </Button>
+    ) : null}
+  </View>
+);
+
+const ProofComparisonDialog: React.FC<ProofComparisonDialogProps> = ({comparison, onDismiss}) => (
+  <Portal>
+    <Dialog visible={comparison !== null} onDismiss={onDismiss} style={styles.dialog}>
+      <Dialog.Title>Compare proofs</Dialog.Title>
+      <Dialog.Content>
+        {comparison ? (
+          <>
+            <Text style={styles.summary}>
+              {comparison.match.identical
+                ? 'These files are byte-for-byte identical.'
+                : `${comparison.match.distance} of 64 perceptual hash bits differ.`}{' '}
+              {comparison.match.sameUploader ? 'Both were uploaded by the same user.' : 'They were uploaded by different users.'}
+            </Text>
+            <View style={styles.panes}>
+              <ProofPane
+                title="Earlier proof"
+                uri={comparison.match.publicUrl}
+                bookingId={comparison.match.bookingId}
+                uploadedAt={comparison.match.uploadedAt}
+                uploader={describeUploader(comparison.match.uploadedByInfo)}
+              />
+              <ProofPane
+                title="This proof"
+                uri={comparison.proof.publicUrl}
+                bookingId={comparison.proof.bookingId}
+                uploadedAt={comparison.proof.uploadedAt}
+                uploader={describeUploader(comparison.proof.uploadedByInfo)}
+              />
+            </View>
+          </>
+        ) : null}
+      </Dialog.Content>
+      <Dialog.Actions>
+        <Button onPress={onDismiss}>Close</Button>
+      </Dialog.Actions>
+    </Dialog>
+  </Portal>
+);
+
+export default ProofComparisonDialog;
+
+const styles = StyleSheet.create({
+  dialog: {
+    maxHeight: '90%',
+  },
+  summary: {
+    color: '#555',
+    marginBottom: 12,
+  },
+  panes: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pane: {
+    flex: 1,
+  },
+  paneTitle: {
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 6,
+  },
+  image: {
+    width: '100%',
+    height: 260,
+    backgroundColor: '#000',
+    borderRadius: 8,
+  },
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#eceff1',
+  },
+  placeholderText: {
+    color: '#666',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+});
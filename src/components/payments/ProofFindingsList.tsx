@@ -0,0 +1,145 @@
+import React from 'react';
+import {Image, StyleSheet, View} from 'react-native';
+import {Button, Chip, Text} from 'react-native-paper';
+import type {PaymentProofFinding, PaymentProofInfo, PaymentProofMatch} from '../../types';
+
+interface ProofFindingsListProps {
+  proofs: PaymentProofInfo[];
+  onCompare: (proof: PaymentProofInfo, match: PaymentProofMatch) => void;
+}
+
+const SEVERITY_COLORS: Record<PaymentProofFinding['severity'], string> = {
+  high: '#d32f2f',
+  medium: '#f57c00',
+  low: '#9e9e9e',
+};
+
+const ProofFindingsList: React.FC<ProofFindingsListProps> = ({proofs, onCompare}) => {
+  if (proofs.length === 0) {
+    return <Text style={styles.empty}>No payment proof uploaded.</Text>;
+  }
+
+  return (
+    <View>
+      {proofs.map(proof => {
+        // Findings are only computed for booking proofs; evidence rows have none.
+        const findings = proof.findings;
+        return (
+          <View key={proof.id} style={styles.proof}>
+            <View style={styles.proofHeader}>
+              {proof.publicUrl && proof.mimeType?.startsWith('image/') ? (
+                <Image source={{uri: proof.publicUrl}} style={styles.thumbnail} resizeMode="cover" />
+              ) : (
+                <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                  <Text style={styles.thumbnailText}>{proof.mimeType?.split('/')[1]?.toUpperCase() ?? '?'}</Text>
+                </View>
+              )}
+              <View style={styles.proofInfo}>
+                <Text style={styles.proofTitle}>
+                  {proof.paymentType ? `${proof.paymentType} proof` : 'Proof'}
+                </Text>
+                <Text style={styles.meta}>
+                  {proof.uploadedByInfo?.name ?? proof.uploadedBy ?? 'Unknown uploader'}
+                  {proof.uploadedAt ? ` • ${new Date(proof.uploadedAt).toLocaleString()}` : ''}
+                </Text>
+                <Text style={styles.meta}>
+                  {proof.mimeType ?? 'Unknown type'}
+                  {proof.perceptualHash ? ` • hash ${proof.perceptualHash}` : ' • not fingerprinted yet'}
+                </Text>
+              </View>
+            </View>
+
+            {!findings ? null : findings.length === 0 ? (
+              <Text style={styles.clean}>No issues found.</Text>
+            ) : (
+              findings.map((finding, index) => (
+                <View key={`${finding.type}-${index}`} style={styles.finding}>
+                  <Chip
+                    compact
+                    style={[styles.severityChip, {backgroundColor: SEVERITY_COLORS[finding.severity]}]}
+                    textStyle={styles.severityText}>
+                    {finding.severity.toUpperCase()}
+                  </Chip>
+                  <Text style={styles.findingText}>{finding.message}</Text>
+                  {finding.match ? (
+                    <Button compact icon="compare" onPress={() => onCompare(proof, finding.match!)}>
+                      Compare
+                    </Button>
+                  ) : null}
+                </View>
+              ))
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+export default ProofFindingsList;
+
+const styles = StyleSheet.create({
+  empty: {
+    color: '#666',
+  },
+  proof: {
+    paddingVertical: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e0e0e0',
+  },
+  proofHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+    marginRight: 12,
+    backgroundColor: '#000',
+  },
+  thumbnailPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#eceff1',
+  },
+  thumbnailText: {
+    fontSize: 10,
+    color: '#666',
+  },
+  proofInfo: {
+    flex: 1,
+  },
+  proofTitle: {
+    fontWeight: 'bold',
+    color: '#333',
+    textTransform: 'capitalize',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  clean: {
+    color: '#4caf50',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  finding: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  severityChip: {
+    marginRight: 8,
+  },
+  severityText: {
+    color: '#fff',
+    fontSize: 10,
+  },
+  findingText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#333',
+  },
+});
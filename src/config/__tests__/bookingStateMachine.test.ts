@@ -0,0 +1,88 @@
+import {
+  BOOKING_STATUSES,
+  BookingTransitionError,
+  assertBookingTransition,
+  findBookingTransition,
+  formatBookingStatus,
+  getAvailableBookingActions,
+  isTerminalBookingStatus,
+  normalizeBookingStatus,
+} from '../bookingStateMachine';
+
+const actionsFor = (status: string) => getAvailableBookingActions(status).map(transition => transition.action);
+
+describe('normalizeBookingStatus', () => {
+  it('keeps canonical statuses', () => {
+    BOOKING_STATUSES.forEach(status => expect(normalizeBookingStatus(status)).toBe(status));
+  });
+
+  it('maps legacy spellings and casing', () => {
+    expect(normalizeBookingStatus('in-progress')).toBe('in_progress');
+    expect(normalizeBookingStatus('No-Show')).toBe('no_show');
+    expect(normalizeBookingStatus(' canceled ')).toBe('cancelled');
+  });
+
+  it('falls back to pending for unknown or missing values', () => {
+    expect(normalizeBookingStatus('archived')).toBe('pending');
+    expect(normalizeBookingStatus(null)).toBe('pending');
+    expect(normalizeBookingStatus(undefined)).toBe('pending');
+  });
+});
+
+describe('getAvailableBookingActions', () => {
+  it('lists the actions allowed from each status in display order', () => {
+    expect(actionsFor('pending')).toEqual(['confirm', 'cancel']);
+    expect(actionsFor('confirmed')).toEqual(['start', 'complete', 'cancel', 'no_show']);
+    expect(actionsFor('in_progress')).toEqual(['complete', 'cancel', 'no_show']);
+  });
+
+  it('treats completed, cancelled and no-show bookings as terminal', () => {
+    ['completed', 'cancelled', 'canceled', 'no_show'].forEach(status => {
+      expect(actionsFor(status)).toEqual([]);
+      expect(isTerminalBookingStatus(status)).toBe(true);
+    });
+    expect(isTerminalBookingStatus('confirmed')).toBe(false);
+  });
+});
+
+describe('findBookingTransition', () => {
+  it('finds the transition between two statuses', () => {
+    expect(findBookingTransition('pending', 'confirmed')?.action).toBe('confirm');
+    expect(findBookingTransition('in-progress', 'completed')?.action).toBe('complete');
+    expect(findBookingTransition('confirmed', 'no-show')?.action).toBe('no_show');
+  });
+
+  it('returns undefined for moves the state machine does not allow', () => {
+    expect(findBookingTransition('pending', 'completed')).toBeUndefined();
+    expect(findBookingTransition('completed', 'pending')).toBeUndefined();
+    expect(findBookingTransition('cancelled', 'confirmed')).toBeUndefined();
+  });
+});
+
+describe('assertBookingTransition', () => {
+  it('returns the transition when it is allowed', () => {
+    expect(assertBookingTransition('pending', 'confirm').to).toBe('confirmed');
+    expect(assertBookingTransition('confirmed', 'cancel', { reason: 'Parent asked' }).to).toBe('cancelled');
+  });
+
+  it('rejects actions that are not allowed from the current status', () => {
+    expect(() => assertBookingTransition('completed', 'cancel', { reason: 'Too late' })).toThrow(
+      new BookingTransitionError('"Cancel Booking" is not allowed for completed bookings'),
+    );
+    expect(() => assertBookingTransition('pending', 'start')).toThrow(BookingTransitionError);
+  });
+
+  it('requires a non-blank reason for cancel and no-show', () => {
+    expect(() => assertBookingTransition('confirmed', 'cancel')).toThrow('A reason is required for "Cancel Booking"');
+    expect(() => assertBookingTransition('in_progress', 'no_show', { reason: '   ' })).toThrow(
+      'A reason is required for "Mark No Show"',
+    );
+  });
+});
+
+describe('formatBookingStatus', () => {
+  it('formats normalized statuses for display', () => {
+    expect(formatBookingStatus('in-progress')).toBe('In Progress');
+    expect(formatBookingStatus('no_show')).toBe('No Show');
+  });
+});
@@ -0,0 +1,179 @@
+import type { BookingStatus, NotificationType } from '../types';
+
+export const BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'];
+
+/** Legacy spellings still present in older rows and API payloads. */
+const STATUS_ALIASES: Record<string, BookingStatus> = {
+  'in-progress': 'in_progress',
+  inprogress: 'in_progress',
+  'no-show': 'no_show',
+  noshow: 'no_show',
+  canceled: 'cancelled',
+};
+
+export const normalizeBookingStatus = (status: string | null | undefined): BookingStatus => {
+  const value = (status ?? '').trim().toLowerCase();
+  if ((BOOKING_STATUSES as string[]).includes(value)) {
+    return value as BookingStatus;
+  }
+  return STATUS_ALIASES[value] ?? 'pending';
+};
+
+export type BookingAction = 'confirm' | 'start' | 'complete' | 'cancel' | 'no_show';
+
+/**
+ * Which backend call carries out a transition. `bookingsService` maps these
+ * to the REST endpoints so screens never pick an endpoint themselves.
+ */
+export type BookingTransitionEffect = 'confirm' | 'start' | 'complete' | 'cancel' | 'status';
+
+export interface BookingTransition {
+  action: BookingAction;
+  from: BookingStatus[];
+  to: BookingStatus;
+  effect: BookingTransitionEffect;
+  requiresReason: boolean;
+  /** Notification sent to the parent and caregiver once the transition succeeds. */
+  notification?: { type: NotificationType; title: string };
+  label: string;
+  confirmTitle: string;
+  confirmMessage: string;
+  successMessage: string;
+  destructive: boolean;
+}
+
+export const BOOKING_TRANSITIONS: Record<BookingAction, BookingTransition> = {
+  confirm: {
+    action: 'confirm',
+    from: ['pending'],
+    to: 'confirmed',
+    effect: 'confirm',
+    requiresReason: false,
+    notification: { type: 'booking_confirmed', title: 'Booking confirmed' },
+    label: 'Mark Confirmed',
+    confirmTitle: 'Confirm Booking',
+    confirmMessage: 'Are you sure you want to mark this booking as confirmed?',
+    successMessage: 'Booking marked as confirmed.',
+    destructive: false,
+  },
+  start: {
+    action: 'start',
+    from: ['confirmed'],
+    to: 'in_progress',
+    effect: 'start',
+    requiresReason: false,
+    label: 'Start Service',
+    confirmTitle: 'Start Booking',
+    confirmMessage: 'Start this booking and mark it as in progress?',
+    successMessage: 'Booking marked as in progress.',
+    destructive: false,
+  },
+  complete: {
+    action: 'complete',
+    // Confirmed bookings can be completed directly for rows created before
+    // the in-progress state was tracked.
+    from: ['confirmed', 'in_progress'],
+    to: 'completed',
+    effect: 'complete',
+    requiresReason: false,
+    notification: { type: 'system', title: 'Booking completed' },
+    label: 'Mark Completed',
+    confirmTitle: 'Complete Booking',
+    confirmMessage: 'Complete this booking and mark the service as finished?',
+    successMessage: 'Booking marked as completed.',
+    destructive: false,
+  },
+  cancel: {
+    action: 'cancel',
+    from: ['pending', 'confirmed', 'in_progress'],
+    to: 'cancelled',
+    effect: 'cancel',
+    requiresReason: true,
+    notification: { type: 'booking_cancelled', title: 'Booking cancelled' },
+    label: 'Cancel Booking',
+    confirmTitle: 'Cancel Booking',
+    confirmMessage: 'Cancel this booking? This action cannot be undone.',
+    successMessage: 'Booking cancelled successfully.',
+    destructive: true,
+  },
+  no_show: {
+    action: 'no_show',
+    from: ['confirmed', 'in_progress'],
+    to: 'no_show',
+    effect: 'status',
+    requiresReason: true,
+    notification: { type: 'booking_cancelled', title: 'Booking marked as no-show' },
+    label: 'Mark No Show',
+    confirmTitle: 'No Show',
+    confirmMessage: 'Mark this booking as a no-show?',
+    successMessage: 'Booking marked as no-show.',
+    destructive: true,
+  },
+};
+
+const ACTION_ORDER: BookingAction[] = ['confirm', 'start', 'complete', 'cancel', 'no_show'];
+
+export const getAvailableBookingActions = (status: string | null | undefined): BookingTransition[] => {
+  const current = normalizeBookingStatus(status);
+  return ACTION_ORDER.map(action => BOOKING_TRANSITIONS[action]).filter(transition =>
+    transition.from.includes(current),
+  );
+};
+
+export const isTerminalBookingStatus = (status: string | null | undefined) =>
+  getAvailableBookingActions(status).length === 0;
+
+export const findBookingTransition = (
+  from: string | null | undefined,
+  to: string | null | undefined,
+): BookingTransition | undefined => {
+  const current = normalizeBookingStatus(from);
+  const target = normalizeBookingStatus(to);
+  return ACTION_ORDER.map(action => BOOKING_TRANSITIONS[action]).find(
+    transition => transition.to === target && transition.from.includes(current),
+  );
+};
+
+export class BookingTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookingTransitionError';
+  }
+}
+
+/**
+ * Throws a `BookingTransitionError` unless `action` is legal from `status`
+ * and every required input was provided.
+ */
+export const assertBookingTransition = (
+  status: string | null | undefined,
+  action: BookingAction,
+  input: { reason?: string } = {},
+): BookingTransition => {
+  const transition = BOOKING_TRANSITIONS[action];
+  const current = normalizeBookingStatus(status);
+
+  if (!transition.from.includes(current)) {
+    throw new BookingTransitionError(
+      `"${transition.label}" is not allowed for ${formatBookingStatus(current).toLowerCase()} bookings`,
+    );
+  }
+  if (transition.requiresReason && !input.reason?.trim()) {
+    throw new BookingTransitionError(`A reason is required for "${transition.label}"`);
+  }
+  return transition;
+};
+
+export const BOOKING_STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: '#ff9800',
+  confirmed: '#2196f3',
+  in_progress: '#9c27b0',
+  completed: '#4caf50',
+  cancelled: '#f44336',
+  no_show: '#795548',
+};
+
+export const formatBookingStatus = (status: string) =>
+  normalizeBookingStatus(status)
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, char => char.toUpperCase());
@@ -0,0 +1,81 @@
+import type { User } from '../types';
+
+export const PERMISSIONS = {
+  USERS_EDIT: 'users.edit',
+  USERS_SUSPEND: 'users.suspend',
+  USERS_BAN: 'users.ban',
+  USERS_DELETE: 'users.delete',
+  PAYMENTS_VIEW: 'payments.view',
+  PAYMENTS_UPDATE: 'payments.update',
+  PAYMENTS_REFUND: 'payments.refund',
+  CHILDREN_EDIT: 'children.edit',
+  CHILDREN_DELETE: 'children.delete',
+  SETTINGS_WRITE: 'settings.write',
+  PERMISSIONS_MANAGE: 'permissions.manage',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export interface PermissionDefinition {
+  key: Permission;
+  label: string;
+  description: string;
+  group: 'Users' | 'Payments' | 'Children' | 'Settings' | 'Administration';
+}
+
+export const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
+  { key: PERMISSIONS.USERS_EDIT, label: 'Edit users', description: 'Update profile details and verification status', group: 'Users' },
+  { key: PERMISSIONS.USERS_SUSPEND, label: 'Suspend users', description: 'Temporarily suspend or reactivate accounts', group: 'Users' },
+  { key: PERMISSIONS.USERS_BAN, label: 'Ban users', description: 'Permanently ban accounts', group: 'Users' },
+  { key: PERMISSIONS.USERS_DELETE, label: 'Delete users', description: 'Soft delete accounts', group: 'Users' },
+  { key: PERMISSIONS.PAYMENTS_VIEW, label: 'View payments', description: 'Open the payments dashboard and proofs', group: 'Payments' },
+  { key: PERMISSIONS.PAYMENTS_UPDATE, label: 'Update payments', description: 'Approve or reject payment proofs', group: 'Payments' },
+  { key: PERMISSIONS.PAYMENTS_REFUND, label: 'Refund payments', description: 'Issue refunds to parents', group: 'Payments' },
+  { key: PERMISSIONS.CHILDREN_EDIT, label: 'Edit children', description: 'Update child profiles and care notes', group: 'Children' },
+  { key: PERMISSIONS.CHILDREN_DELETE, label: 'Delete children', description: 'Remove child profiles', group: 'Children' },
+  { key: PERMISSIONS.SETTINGS_WRITE, label: 'Change settings', description: 'Modify platform-wide system settings', group: 'Settings' },
+  { key: PERMISSIONS.PERMISSIONS_MANAGE, label: 'Manage permissions', description: 'Grant and revoke admin permissions', group: 'Administration' },
+];
+
+/**
+ * Permissions every admin has without an explicit grant. Destructive or
+ * money-moving actions are deliberately left out and must be granted by a
+ * superadmin from the permissions screen.
+ */
+export const DEFAULT_ADMIN_PERMISSIONS: Permission[] = [
+  PERMISSIONS.USERS_EDIT,
+  PERMISSIONS.USERS_SUSPEND,
+  PERMISSIONS.PAYMENTS_VIEW,
+  PERMISSIONS.PAYMENTS_UPDATE,
+  PERMISSIONS.CHILDREN_EDIT,
+];
+
+const WILDCARD = '*';
+
+const matchesGrant = (grant: string, permission: Permission) => {
+  if (grant === WILDCARD || grant === permission) {
+    return true;
+  }
+  // `payments.*` grants every payments permission.
+  return grant.endsWith('.*') && permission.startsWith(grant.slice(0, -1));
+};
+
+export const getEffectivePermissions = (user: Pick<User, 'role' | 'permissions'> | null | undefined): Permission[] => {
+  if (!user) {
+    return [];
+  }
+  const allPermissions = PERMISSION_DEFINITIONS.map(definition => definition.key);
+  if (user.role === 'superadmin') {
+    return allPermissions;
+  }
+  if (user.role !== 'admin') {
+    return [];
+  }
+  const grants = [...DEFAULT_ADMIN_PERMISSIONS, ...(user.permissions ?? [])];
+  return allPermissions.filter(permission => grants.some(grant => matchesGrant(grant, permission)));
+};
+
+export const hasPermission = (
+  user: Pick<User, 'role' | 'permissions'> | null | undefined,
+  permission: Permission,
+) => getEffectivePermissions(user).includes(permission);
@@ -2,6 +2,7 @@ import React, { createContext, useCallback, useEffect, useMemo, useState, useCon
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { Session as SupabaseSession, User as SupabaseAuthUser } from '@supabase/supabase-js';
 import { supabase } from '../config/supabase';
+import { clearOfflineData } from '../services/apiService';
 import { User } from '../types';
 
 interface AuthContextType {
@@ -130,7 +131,9 @@ const buildUserFromProfile = (authUser: SupabaseAuthUser, profile: any | null):
     profileImage,
     createdAt,
     lastLogin: new Date().toISOString(),
-    permissions: (authUser.user_metadata?.permissions as string[] | undefined) ?? [],
+    permissions: Array.isArray(profile?.permissions)
+      ? (profile.permissions as string[])
+      : (authUser.user_metadata?.permissions as string[] | undefined) ?? [],
   };
 };
 
@@ -439,6 +442,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     setUser(null);
     await cacheUser(null);
     await cacheAuthToken(null);
+    await clearOfflineData();
   }, [cacheAuthToken, cacheUser]);
 
   const value = useMemo<AuthContextType>(
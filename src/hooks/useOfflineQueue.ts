@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { offlineQueue, type QueuedMutation } from '../services/offlineQueue';
+
+export interface UseOfflineQueueResult {
+  mutations: QueuedMutation[];
+  pendingCount: number;
+  attentionCount: number;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+export const useOfflineQueue = (): UseOfflineQueueResult => {
+  const [mutations, setMutations] = useState<QueuedMutation[]>([]);
+
+  useEffect(() => offlineQueue.subscribe(setMutations), []);
+
+  const retry = useCallback((id: string) => offlineQueue.retry(id), []);
+  const discard = useCallback((id: string) => offlineQueue.discard(id), []);
+  const syncNow = useCallback(() => offlineQueue.flush({ force: true }), []);
+
+  return useMemo(
+    () => ({
+      mutations,
+      pendingCount: mutations.filter(item => item.status === 'pending').length,
+      attentionCount: mutations.filter(item => item.status !== 'pending').length,
+      retry,
+      discard,
+      syncNow,
+    }),
+    [discard, mutations, retry, syncNow]
+  );
+};
@@ -0,0 +1,26 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getEffectivePermissions, type Permission } from '../config/permissions';
+
+export interface UsePermissionsResult {
+  permissions: Permission[];
+  isSuperAdmin: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+export const usePermissions = (): UsePermissionsResult => {
+  const { user } = useAuth();
+  const permissions = useMemo(() => getEffectivePermissions(user), [user]);
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return useMemo(
+    () => ({
+      permissions,
+      isSuperAdmin: user?.role === 'superadmin',
+      can,
+    }),
+    [can, permissions, user?.role]
+  );
+};
+
+export const usePermission = (permission: Permission): boolean => usePermissions().can(permission);
@@ -10,8 +10,10 @@ import UsersScreen from '../screens/users/UsersScreen';
 import UserDetailScreen from '../screens/users/UserDetailScreen';
 import JobsScreen from '../screens/jobs/JobsScreen';
 import JobDetailScreen from '../screens/jobs/JobDetailScreen';
+import JobModerationScreen from '../screens/jobs/JobModerationScreen';
 import BookingsScreen from '../screens/bookings/BookingsScreen';
 import BookingDetailScreen from '../screens/bookings/BookingDetailScreen';
+import BookingCalendarScreen from '../screens/bookings/BookingCalendarScreen';
 import AuditLogsScreen from '../screens/audit/AuditLogsScreen';
 import SettingsScreen from '../screens/settings/SettingsScreen';
 import ManagementHubScreen from '../screens/management/ManagementHubScreen';
@@ -23,6 +25,16 @@ import PaymentsManagementScreen from '../screens/management/PaymentsManagementSc
 import PointsManagementScreen from '../screens/management/PointsManagementScreen'; // Added Points Management
 import ReportsScreen from '../screens/reports/ReportsScreen';
 import ReportDetailScreen from '../screens/reports/ReportDetailScreen';
+import SyncQueueScreen from '../screens/sync/SyncQueueScreen';
+import ApprovalsScreen from '../screens/approvals/ApprovalsScreen';
+import BackgroundChecksScreen from '../screens/management/BackgroundChecksScreen';
+import PaymentReconciliationScreen from '../screens/management/PaymentReconciliationScreen';
+import PaymentDisputeScreen from '../screens/management/PaymentDisputeScreen';
+import CaregiverPayoutsScreen from '../screens/management/CaregiverPayoutsScreen';
+import AdminPermissionsScreen from '../screens/settings/AdminPermissionsScreen';
+import PendingSyncIndicator from '../components/PendingSyncIndicator';
+import {usePermissions} from '../hooks/usePermission';
+import {PERMISSIONS} from '../config/permissions';
 import {Icon} from 'react-native-elements';
 
 const Stack = createStackNavigator();
@@ -48,6 +60,8 @@ function LogoutButton() {
 }
 
 function ManagementStackNavigator() {
+  const {can} = usePermissions();
+
   return (
     <ManagementStack.Navigator
       screenOptions={{
@@ -84,16 +98,51 @@ function ManagementStackNavigator() {
         component={AnalyticsManagementScreen}
         options={{title: 'Analytics & Insights'}}
       />
-      <ManagementStack.Screen
-        name="PaymentsManagement"
-        component={PaymentsManagementScreen}
-        options={{title: 'Payments Management'}}
-      />
+      {can(PERMISSIONS.PAYMENTS_VIEW) ? (
+        <ManagementStack.Screen
+          name="PaymentsManagement"
+          component={PaymentsManagementScreen}
+          options={{title: 'Payments Management'}}
+        />
+      ) : null}
+      {can(PERMISSIONS.PAYMENTS_VIEW) ? (
+        <ManagementStack.Screen
+          name="PaymentReconciliation"
+          component={PaymentReconciliationScreen}
+          options={{title: 'Payment Reconciliation'}}
+        />
+      ) : null}
+      {can(PERMISSIONS.PAYMENTS_VIEW) ? (
+        <ManagementStack.Screen
+          name="PaymentDispute"
+          component={PaymentDisputeScreen}
+          options={{title: 'Payment Dispute'}}
+        />
+      ) : null}
+      {can(PERMISSIONS.PAYMENTS_VIEW) ? (
+        <ManagementStack.Screen
+          name="CaregiverPayouts"
+          component={CaregiverPayoutsScreen}
+          options={{title: 'Caregiver Payouts'}}
+        />
+      ) : null}
       <ManagementStack.Screen
         name="PointsManagement"
         component={PointsManagementScreen}
         options={{title: 'Points Management'}}
       />
+      <ManagementStack.Screen
+        name="Approvals"
+        component={ApprovalsScreen}
+        options={{title: 'Pending Approvals'}}
+      />
+      {can(PERMISSIONS.USERS_EDIT) ? (
+        <ManagementStack.Screen
+          name="BackgroundChecks"
+          component={BackgroundChecksScreen}
+          options={{title: 'Background Checks'}}
+        />
+      ) : null}
     </ManagementStack.Navigator>
   );
 }
@@ -149,12 +198,18 @@ function AdminTabNavigator() {
         headerTitleStyle: {
           fontWeight: 'bold',
         },
+        headerRight: () => <PendingSyncIndicator />,
       })}>
       <Tab.Screen
         name="Dashboard"
         component={DashboardScreen}
         options={{
-          headerRight: () => <LogoutButton />,
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <PendingSyncIndicator />
+              <LogoutButton />
+            </View>
+          ),
         }}
       />
       <Tab.Screen name="Users" component={UsersScreen} />
@@ -171,6 +226,7 @@ function AdminTabNavigator() {
 
 export function AppNavigator() {
   const {user, loading} = useContext(AuthContext);
+  const {can} = usePermissions();
 
   if (loading) {
     return (
@@ -200,8 +256,18 @@ export function AppNavigator() {
           />
           <Stack.Screen name="UserDetail" component={UserDetailScreen} />
           <Stack.Screen name="JobDetail" component={JobDetailScreen} />
+          <Stack.Screen name="JobModeration" component={JobModerationScreen} options={{title: 'Moderation Queue'}} />
           <Stack.Screen name="BookingDetail" component={BookingDetailScreen} />
+          <Stack.Screen name="BookingCalendar" component={BookingCalendarScreen} options={{title: 'Booking Calendar'}} />
           <Stack.Screen name="ReportDetail" component={ReportDetailScreen} options={{title: 'Report Details'}} />
+          <Stack.Screen name="SyncQueue" component={SyncQueueScreen} options={{title: 'Pending Sync'}} />
+          {can(PERMISSIONS.PERMISSIONS_MANAGE) ? (
+            <Stack.Screen
+              name="AdminPermissions"
+              component={AdminPermissionsScreen}
+              options={{title: 'Admin Permissions'}}
+            />
+          ) : null}
         </>
       ) : (
         <>
@@ -228,4 +294,8 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     backgroundColor: '#f5f5f5',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
 });
@@ -0,0 +1,26 @@
+import * as Linking from 'expo-linking';
+import type {LinkingOptions, NavigatorScreenParams} from '@react-navigation/native';
+import {BOOKINGS_LINK_PATH} from '../services/bookingFiltersService';
+
+type LinkedParamList = {
+  Main: NavigatorScreenParams<{Bookings: Record<string, string> | undefined}> | undefined;
+  BookingDetail: {bookingId: string};
+};
+
+/**
+ * Deep links handled by the app. Query params on `bookings` are passed to
+ * the Bookings tab as route params and parsed back into filters there.
+ */
+export const linking: LinkingOptions<LinkedParamList> = {
+  prefixes: [Linking.createURL('/')],
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          Bookings: BOOKINGS_LINK_PATH,
+        },
+      },
+      BookingDetail: `${BOOKINGS_LINK_PATH}/:bookingId`,
+    },
+  },
+};
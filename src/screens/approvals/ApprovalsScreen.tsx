@@ -0,0 +1,295 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {Alert, FlatList, RefreshControl, ScrollView, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Dialog, Portal, Text, TextInput} from 'react-native-paper';
+import {
+  APPROVAL_ACTION_LABELS,
+  APPROVAL_ACTION_PERMISSIONS,
+  approveAndExecute,
+  executeApproval,
+  fetchApprovals,
+  isApprovalExpired,
+  rejectApproval,
+} from '../../services/approvalsService';
+import DiffTable from '../../components/DiffTable';
+import {useAuth} from '../../contexts/AuthContext';
+import {usePermissions} from '../../hooks/usePermission';
+import type {ApprovalRequest, ApprovalStatus} from '../../types';
+
+const STATUS_FILTERS: Array<{label: string; value: ApprovalStatus}> = [
+  {label: 'Pending', value: 'pending'},
+  {label: 'Approved', value: 'approved'},
+  {label: 'Executed', value: 'executed'},
+  {label: 'Rejected', value: 'rejected'},
+  {label: 'Expired', value: 'expired'},
+];
+
+const STATUS_COLORS: Record<ApprovalStatus, string> = {
+  pending: '#ff9800',
+  approved: '#2196f3',
+  executing: '#673ab7',
+  executed: '#4caf50',
+  rejected: '#d32f2f',
+  expired: '#9e9e9e',
+};
+
+const formatRemaining = (expiresAt: string) => {
+  const minutes = Math.round((new Date(expiresAt).getTime() - Date.now()) / 60_000);
+  if (minutes <= 0) {
+    return 'Expired';
+  }
+  if (minutes < 60) {
+    return `Expires in ${minutes}m`;
+  }
+  return `Expires in ${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+type ReviewDialogState = {approval: ApprovalRequest | null; decision: 'approve' | 'reject'; note: string};
+
+export default function ApprovalsScreen() {
+  const {user} = useAuth();
+  const {can} = usePermissions();
+  const [statusFilter, setStatusFilter] = useState<ApprovalStatus>('pending');
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reviewDialog, setReviewDialog] = useState<ReviewDialogState>({approval: null, decision: 'approve', note: ''});
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      const result = await fetchApprovals({status: statusFilter, limit: 50});
+      setApprovals(result.approvals);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load approval requests');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const closeReviewDialog = () => setReviewDialog({approval: null, decision: 'approve', note: ''});
+
+  const handleReview = async () => {
+    const {approval, decision, note} = reviewDialog;
+    if (!approval) {
+      return;
+    }
+    if (decision === 'reject' && !note.trim()) {
+      Alert.alert('Note required', 'Let the requesting admin know why the request was rejected.');
+      return;
+    }
+
+    setBusyId(approval.id);
+    try {
+      if (decision === 'approve') {
+        await approveAndExecute(approval, note);
+        Alert.alert('Approved', `${APPROVAL_ACTION_LABELS[approval.action_type]} has been executed.`);
+      } else {
+        await rejectApproval(approval.id, note);
+        Alert.alert('Rejected', 'The requesting admin will see your note.');
+      }
+      closeReviewDialog();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to review request');
+    } finally {
+      setBusyId(null);
+      loadApprovals();
+    }
+  };
+
+  const handleExecute = async (approval: ApprovalRequest) => {
+    setBusyId(approval.id);
+    try {
+      await executeApproval(approval);
+      Alert.alert('Executed', `${APPROVAL_ACTION_LABELS[approval.action_type]} completed.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to execute approved action');
+    } finally {
+      setBusyId(null);
+      loadApprovals();
+    }
+  };
+
+  const renderActions = (approval: ApprovalRequest) => {
+    const canExecute = can(APPROVAL_ACTION_PERMISSIONS[approval.action_type]);
+
+    if (approval.status === 'approved') {
+      return (
+        <Button
+          mode="contained"
+          icon="play"
+          onPress={() => handleExecute(approval)}
+          loading={busyId === approval.id}
+          disabled={!canExecute || busyId === approval.id}
+          style={styles.actionButton}>
+          Execute
+        </Button>
+      );
+    }
+
+    if (approval.status !== 'pending' || isApprovalExpired(approval)) {
+      return null;
+    }
+
+    if (approval.requested_by === user?.id) {
+      return <Text style={styles.subtleText}>Waiting for another admin to review.</Text>;
+    }
+
+    return (
+      <View style={styles.actionsRow}>
+        <Button
+          mode="contained"
+          icon="check"
+          onPress={() => setReviewDialog({approval, decision: 'approve', note: ''})}
+          disabled={!canExecute || busyId === approval.id}
+          style={styles.actionButton}>
+          Approve
+        </Button>
+        <Button
+          mode="outlined"
+          icon="close"
+          textColor="#d32f2f"
+          onPress={() => setReviewDialog({approval, decision: 'reject', note: ''})}
+          disabled={busyId === approval.id}
+          style={styles.actionButton}>
+          Reject
+        </Button>
+        {!canExecute && (
+          <Text style={styles.subtleText}>You lack the permission needed to carry out this action.</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderApproval = ({item}: {item: ApprovalRequest}) => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <Text variant="titleMedium" style={styles.title}>
+            {APPROVAL_ACTION_LABELS[item.action_type]}
+          </Text>
+          <Chip style={{backgroundColor: STATUS_COLORS[item.status]}} textStyle={styles.chipText}>
+            {item.status.toUpperCase()}
+          </Chip>
+        </View>
+        <Text variant="bodyMedium">{item.summary}</Text>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          Requested by {item.requester?.name ?? item.requested_by} • {new Date(item.created_at).toLocaleString()}
+        </Text>
+        {item.status === 'pending' && (
+          <Text variant="bodySmall" style={styles.expiry}>
+            {formatRemaining(item.expires_at)}
+          </Text>
+        )}
+
+        <Text style={styles.label}>Reason</Text>
+        <Text variant="bodySmall">{item.reason}</Text>
+
+        {item.diff.length > 0 && (
+          <View style={styles.diff}>
+            <Text style={styles.label}>Proposed changes</Text>
+            <DiffTable entries={item.diff} />
+          </View>
+        )}
+
+        {item.reviewed_by && (
+          <Text variant="bodySmall" style={styles.subtleText}>
+            Reviewed by {item.reviewer?.name ?? item.reviewed_by}
+            {item.reviewed_at ? ` • ${new Date(item.reviewed_at).toLocaleString()}` : ''}
+            {item.review_note ? `\n“${item.review_note}”` : ''}
+          </Text>
+        )}
+
+        {renderActions(item)}
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+        {STATUS_FILTERS.map(filter => (
+          <Chip
+            key={filter.value}
+            selected={statusFilter === filter.value}
+            onPress={() => setStatusFilter(filter.value)}
+            style={styles.filterChip}>
+            {filter.label}
+          </Chip>
+        ))}
+      </ScrollView>
+
+      <FlatList
+        data={approvals}
+        keyExtractor={item => item.id}
+        renderItem={renderApproval}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadApprovals();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={styles.empty}>{loading ? 'Loading approvals...' : 'No approval requests'}</Text>
+        }
+        contentContainerStyle={styles.list}
+      />
+
+      <Portal>
+        <Dialog visible={!!reviewDialog.approval} onDismiss={closeReviewDialog}>
+          <Dialog.Title>{reviewDialog.decision === 'approve' ? 'Approve and execute' : 'Reject request'}</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogSummary}>
+              {reviewDialog.approval?.summary}
+            </Text>
+            <TextInput
+              mode="outlined"
+              multiline
+              label={reviewDialog.decision === 'approve' ? 'Note (optional)' : 'Reason for rejection'}
+              value={reviewDialog.note}
+              onChangeText={note => setReviewDialog(prev => ({...prev, note}))}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeReviewDialog}>Cancel</Button>
+            <Button
+              mode="contained"
+              buttonColor={reviewDialog.decision === 'approve' ? '#3f51b5' : '#d32f2f'}
+              onPress={handleReview}
+              loading={!!reviewDialog.approval && busyId === reviewDialog.approval.id}
+              disabled={!!reviewDialog.approval && busyId === reviewDialog.approval.id}>
+              {reviewDialog.decision === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: '#f5f5f5'},
+  filters: {flexGrow: 0, paddingHorizontal: 12, paddingVertical: 12},
+  filterChip: {marginRight: 8},
+  list: {paddingHorizontal: 16, paddingBottom: 16},
+  card: {marginBottom: 12},
+  header: {flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8},
+  title: {flex: 1, fontWeight: 'bold'},
+  chipText: {color: '#fff', fontSize: 10},
+  subtleText: {color: '#666', marginTop: 4},
+  expiry: {color: '#f57c00', marginTop: 4, fontWeight: 'bold'},
+  label: {fontWeight: 'bold', color: '#666', marginTop: 12, marginBottom: 4},
+  diff: {marginTop: 4},
+  actionsRow: {flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', marginTop: 12},
+  actionButton: {marginRight: 8, marginTop: 12},
+  dialogSummary: {marginBottom: 12},
+  empty: {textAlign: 'center', color: '#666', marginTop: 24},
+});
@@ -1,15 +1,88 @@
-import React, {useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
 import {
   View,
   StyleSheet,
   FlatList,
   RefreshControl,
   Alert,
+  ScrollView,
+  Share,
 } from 'react-native';
-import {Text, Card, ActivityIndicator, useTheme} from 'react-native-paper';
+import {
+  Text,
+  Card,
+  ActivityIndicator,
+  Button,
+  Chip,
+  Dialog,
+  Menu,
+  Portal,
+  Searchbar,
+  TextInput,
+  useTheme,
+} from 'react-native-paper';
 import {Icon} from 'react-native-elements';
-import {AuditLog} from '../../types';
-import {fetchAuditLogs, type FetchAuditLogsOptions} from '../../services/auditService';
+import {AuditChainVerification, AuditLog} from '../../types';
+import DiffTable from '../../components/DiffTable';
+import {useAuth} from '../../contexts/AuthContext';
+import {exportAuditLogs, type AuditExportFormat} from '../../services/auditExportService';
+import {
+  buildAuditVerificationReport,
+  describeAuditChainIssue,
+  extractAuditDiff,
+  fetchAuditActions,
+  fetchAuditAdmins,
+  fetchAuditLogs,
+  verifyAuditLogChain,
+  type AuditAdminOption,
+  type FetchAuditLogsOptions,
+} from '../../services/auditService';
+
+const TARGET_TYPES = ['user', 'booking', 'job', 'payment', 'report', 'child', 'review', 'approval', 'settings'];
+
+type DatePreset = 'all' | '24h' | '7d' | '30d' | 'custom';
+
+const DATE_PRESETS: Array<{label: string; value: DatePreset; hours?: number}> = [
+  {label: 'All time', value: 'all'},
+  {label: 'Last 24h', value: '24h', hours: 24},
+  {label: 'Last 7 days', value: '7d', hours: 24 * 7},
+  {label: 'Last 30 days', value: '30d', hours: 24 * 30},
+  {label: 'Custom', value: 'custom'},
+];
+
+const DATE_INPUT_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Parses a YYYY-MM-DD input as the start or end of that local day. */
+const parseDateInput = (value: string, endOfDay: boolean): string | undefined => {
+  if (!DATE_INPUT_PATTERN.test(value.trim())) {
+    return undefined;
+  }
+  const date = new Date(`${value.trim()}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+interface AuditFilters {
+  adminId?: string;
+  action?: string;
+  targetType?: string;
+  targetId: string;
+  datePreset: DatePreset;
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {targetId: '', datePreset: 'all', fromDate: '', toDate: ''};
+
+const resolveDateRange = (filters: AuditFilters): Pick<FetchAuditLogsOptions, 'from' | 'to'> => {
+  if (filters.datePreset === 'custom') {
+    return {from: parseDateInput(filters.fromDate, false), to: parseDateInput(filters.toDate, true)};
+  }
+  const preset = DATE_PRESETS.find(item => item.value === filters.datePreset);
+  if (!preset?.hours) {
+    return {};
+  }
+  return {from: new Date(Date.now() - preset.hours * 60 * 60 * 1000).toISOString()};
+};
 
 const formatAction = (action: string) =>
   action
@@ -46,11 +119,43 @@ export default function AuditLogsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [admins, setAdmins] = useState<AuditAdminOption[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [openMenu, setOpenMenu] = useState<'admin' | 'action' | 'target' | 'export' | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const {user} = useAuth();
   const theme = useTheme();
 
-  const loadAuditLogs = async (pageNum = 1, refresh = false) => {
+  const queryOptions = useMemo<FetchAuditLogsOptions>(
+    () => ({
+      adminId: filters.adminId,
+      action: filters.action,
+      targetType: filters.targetType,
+      targetId: filters.targetId.trim() || undefined,
+      search: searchQuery || undefined,
+      ...resolveDateRange(filters),
+    }),
+    [filters, searchQuery],
+  );
+
+  const activeFilterCount = [
+    filters.adminId,
+    filters.action,
+    filters.targetType,
+    filters.targetId.trim(),
+    filters.datePreset !== 'all' ? filters.datePreset : undefined,
+  ].filter(Boolean).length;
+
+  const loadAuditLogs = useCallback(async (pageNum = 1, refresh = false) => {
     try {
       const options: FetchAuditLogsOptions = {
+        ...queryOptions,
         page: pageNum,
         limit: 20,
       };
@@ -71,12 +176,77 @@ export default function AuditLogsScreen() {
       setLoading(false);
       setRefreshing(false);
     }
-  };
+  }, [queryOptions]);
 
   useEffect(() => {
     loadAuditLogs(1, true);
+  }, [loadAuditLogs]);
+
+  useEffect(() => {
+    fetchAuditAdmins()
+      .then(setAdmins)
+      .catch(error => console.warn('[AuditLogsScreen] Failed to load admin filter options', error));
+    fetchAuditActions()
+      .then(setActions)
+      .catch(error => console.warn('[AuditLogsScreen] Failed to load action filter options', error));
   }, []);
 
+  const updateFilters = (patch: Partial<AuditFilters>) => {
+    setOpenMenu(null);
+    setFilters(prev => ({...prev, ...patch}));
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setSearchInput('');
+    setSearchQuery('');
+  };
+
+  const selectedAdmin = admins.find(admin => admin.id === filters.adminId);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setVerification(await verifyAuditLogChain(resolveDateRange(filters)));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to verify audit log integrity');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setOpenMenu(null);
+    setExporting(true);
+    try {
+      const result = await exportAuditLogs(format, queryOptions, user?.email ?? user?.name);
+      if (result.truncated) {
+        Alert.alert(
+          'Export truncated',
+          `Only the first ${result.recordCount} matching entries were exported. Narrow the filters to export the rest.`,
+        );
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export audit logs');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportVerification = async () => {
+    if (!verification) {
+      return;
+    }
+    try {
+      await Share.share({
+        title: 'Audit log integrity report',
+        message: buildAuditVerificationReport(verification, user?.email ?? user?.name),
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export verification report');
+    }
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadAuditLogs(1, true);
@@ -123,13 +293,14 @@ export default function AuditLogsScreen() {
   };
 
   const renderLogItem = ({item: log}: {item: AuditLog}) => {
+    const {diff, keys: diffKeys} = extractAuditDiff(log);
     const detailEntries: Array<[string, unknown]> = [];
     const appendEntries = (source?: Record<string, unknown>) => {
       if (!source || typeof source !== 'object') {
         return;
       }
       Object.entries(source).forEach(([key, value]) => {
-        if (key === 'method' || key === 'ip' || key === 'details') {
+        if (key === 'method' || key === 'ip' || key === 'details' || diffKeys.includes(key)) {
           return;
         }
         if (value === null || value === undefined || value === '') {
@@ -179,6 +350,11 @@ export default function AuditLogsScreen() {
               <Text variant="bodySmall" style={styles.logTimestamp}>
                 {formatDate(log.timestamp)}
               </Text>
+              {log.chainSeq !== undefined && log.hash ? (
+                <Text variant="bodySmall" style={styles.chainText}>
+                  {`#${log.chainSeq} • ${log.hash.slice(0, 12)}`}
+                </Text>
+              ) : null}
             </View>
           </View>
 
@@ -190,7 +366,7 @@ export default function AuditLogsScreen() {
             {log.targetId ? (
               <Text variant="bodySmall" style={[styles.infoText, {color: theme.colors.onSurface}]}> 
                 <Text style={[styles.infoLabel, {color: theme.colors.onSurfaceVariant}]}>Target: </Text>
-                {log.targetId}
+                {log.targetType ? `${log.targetType} ${log.targetId}` : log.targetId}
               </Text>
             ) : null}
             {actionSource ? (
@@ -207,6 +383,13 @@ export default function AuditLogsScreen() {
             ) : null}
           </View>
 
+          {diff.length > 0 ? (
+            <View style={styles.section}>
+              <Text variant="bodySmall" style={[styles.sectionTitle, {color: theme.colors.primary}]}>Changes</Text>
+              <DiffTable entries={diff} />
+            </View>
+          ) : null}
+
           {detailEntries.length > 0 ? (
             <View style={styles.section}>
               <Text variant="bodySmall" style={[styles.sectionTitle, {color: theme.colors.primary}]}>Additional Details</Text>
@@ -235,7 +418,7 @@ export default function AuditLogsScreen() {
     );
   };
 
-  if (loading) {
+  if (loading && logs.length === 0 && activeFilterCount === 0 && !searchQuery) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" />
@@ -253,8 +436,160 @@ export default function AuditLogsScreen() {
         <Text variant="bodyMedium" style={styles.subtitle}>
           Track all administrative actions
         </Text>
+        <View style={styles.headerActions}>
+          <Button
+            mode="outlined"
+            icon="shield-check"
+            compact
+            onPress={handleVerify}
+            loading={verifying}
+            disabled={verifying}
+            style={styles.headerButton}>
+            Verify integrity
+          </Button>
+          <Menu
+            visible={openMenu === 'export'}
+            onDismiss={() => setOpenMenu(null)}
+            anchor={
+              <Button
+                mode="outlined"
+                icon="download"
+                compact
+                onPress={() => setOpenMenu('export')}
+                loading={exporting}
+                disabled={exporting}
+                style={styles.headerButton}>
+                Export
+              </Button>
+            }>
+            <Menu.Item leadingIcon="file-delimited" title="CSV" onPress={() => handleExport('csv')} />
+            <Menu.Item leadingIcon="code-json" title="Checksummed JSON bundle" onPress={() => handleExport('json')} />
+          </Menu>
+        </View>
       </View>
 
+      <View style={styles.searchRow}>
+        <Searchbar
+          placeholder="Search details..."
+          value={searchInput}
+          onChangeText={text => {
+            setSearchInput(text);
+            if (!text.trim()) {
+              setSearchQuery('');
+            }
+          }}
+          onSubmitEditing={() => setSearchQuery(searchInput.trim())}
+          style={styles.searchbar}
+        />
+        <Button
+          mode={showFilters ? 'contained' : 'outlined'}
+          icon="filter-variant"
+          compact
+          onPress={() => setShowFilters(prev => !prev)}
+          style={styles.filterToggle}>
+          {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+        </Button>
+      </View>
+
+      {showFilters ? (
+        <View style={styles.filterPanel}>
+          <View style={styles.filterRow}>
+            <Menu
+              visible={openMenu === 'admin'}
+              onDismiss={() => setOpenMenu(null)}
+              anchor={
+                <Chip icon="account" selected={!!filters.adminId} onPress={() => setOpenMenu('admin')} style={styles.filterChip}>
+                  {selectedAdmin ? selectedAdmin.name || selectedAdmin.email : 'Any admin'}
+                </Chip>
+              }>
+              <Menu.Item title="Any admin" onPress={() => updateFilters({adminId: undefined})} />
+              {admins.map(admin => (
+                <Menu.Item
+                  key={admin.id}
+                  title={admin.name || admin.email || admin.id}
+                  onPress={() => updateFilters({adminId: admin.id})}
+                />
+              ))}
+            </Menu>
+
+            <Menu
+              visible={openMenu === 'action'}
+              onDismiss={() => setOpenMenu(null)}
+              anchor={
+                <Chip icon="flash" selected={!!filters.action} onPress={() => setOpenMenu('action')} style={styles.filterChip}>
+                  {filters.action ? formatAction(filters.action) : 'Any action'}
+                </Chip>
+              }>
+              <Menu.Item title="Any action" onPress={() => updateFilters({action: undefined})} />
+              {actions.map(action => (
+                <Menu.Item key={action} title={formatAction(action)} onPress={() => updateFilters({action})} />
+              ))}
+            </Menu>
+
+            <Menu
+              visible={openMenu === 'target'}
+              onDismiss={() => setOpenMenu(null)}
+              anchor={
+                <Chip icon="target" selected={!!filters.targetType} onPress={() => setOpenMenu('target')} style={styles.filterChip}>
+                  {filters.targetType ? formatAction(filters.targetType) : 'Any target'}
+                </Chip>
+              }>
+              <Menu.Item title="Any target" onPress={() => updateFilters({targetType: undefined})} />
+              {TARGET_TYPES.map(targetType => (
+                <Menu.Item key={targetType} title={formatAction(targetType)} onPress={() => updateFilters({targetType})} />
+              ))}
+            </Menu>
+          </View>
+
+          <TextInput
+            mode="outlined"
+            dense
+            label="Target ID"
+            value={filters.targetId}
+            onChangeText={targetId => setFilters(prev => ({...prev, targetId}))}
+            autoCapitalize="none"
+            style={styles.filterInput}
+          />
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetRow}>
+            {DATE_PRESETS.map(preset => (
+              <Chip
+                key={preset.value}
+                selected={filters.datePreset === preset.value}
+                onPress={() => updateFilters({datePreset: preset.value})}
+                style={styles.filterChip}>
+                {preset.label}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          {filters.datePreset === 'custom' ? (
+            <View style={styles.filterRow}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="From (YYYY-MM-DD)"
+                value={filters.fromDate}
+                onChangeText={fromDate => setFilters(prev => ({...prev, fromDate}))}
+                style={[styles.filterInput, styles.dateInput]}
+              />
+              <TextInput
+                mode="outlined"
+                dense
+                label="To (YYYY-MM-DD)"
+                value={filters.toDate}
+                onChangeText={toDate => setFilters(prev => ({...prev, toDate}))}
+                style={[styles.filterInput, styles.dateInput]}
+              />
+            </View>
+          ) : null}
+
+          <Button mode="text" icon="close" onPress={clearFilters} disabled={activeFilterCount === 0 && !searchQuery}>
+            Clear filters
+          </Button>
+        </View>
+      ) : null}
+
       <FlatList
         data={logs}
         renderItem={renderLogItem}
@@ -270,10 +605,64 @@ export default function AuditLogsScreen() {
         onEndReachedThreshold={0.1}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <Text>No audit logs found</Text>
+            <Text>{loading ? 'Loading audit logs...' : 'No audit logs found'}</Text>
           </View>
         }
       />
+
+      <Portal>
+        <Dialog visible={!!verification} onDismiss={() => setVerification(null)}>
+          <Dialog.Title>{verification?.valid ? 'Audit log intact' : 'Integrity check failed'}</Dialog.Title>
+          <Dialog.ScrollArea style={styles.verificationScroll}>
+            <ScrollView>
+              {verification ? (
+                <View style={styles.verificationBody}>
+                  <Chip
+                    icon={verification.valid ? 'check-circle' : 'alert-circle'}
+                    style={[styles.verificationChip, {backgroundColor: verification.valid ? '#4caf50' : '#f44336'}]}
+                    textStyle={styles.verificationChipText}>
+                    {verification.valid ? 'PASSED' : `${verification.issues.length} ISSUE(S)`}
+                  </Chip>
+                  <Text variant="bodySmall" style={styles.infoText}>
+                    {`Checked ${verification.checked} entr${verification.checked === 1 ? 'y' : 'ies'}`}
+                    {verification.firstSeq !== undefined
+                      ? ` (#${verification.firstSeq} to #${verification.lastSeq ?? verification.firstSeq})`
+                      : ''}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.infoText}>
+                    {`Range: ${verification.from ? formatDate(verification.from) : 'beginning'} to ${
+                      verification.to ? formatDate(verification.to) : 'now'
+                    }`}
+                  </Text>
+                  {verification.headHash ? (
+                    <Text variant="bodySmall" style={[styles.infoText, styles.hashText]}>
+                      {`Head hash: ${verification.headHash}`}
+                    </Text>
+                  ) : null}
+                  {verification.issues.map((issue, index) => (
+                    <View key={`${issue.type}-${issue.chainSeq}-${index}`} style={styles.issueRow}>
+                      <Text variant="bodySmall" style={styles.issueTitle}>
+                        {`#${issue.chainSeq} ${describeAuditChainIssue(issue)}`}
+                      </Text>
+                      {issue.entryId ? (
+                        <Text variant="bodySmall" style={styles.hashText}>
+                          {`Entry ${issue.entryId}`}
+                        </Text>
+                      ) : null}
+                    </View>
+                  ))}
+                </View>
+              ) : null}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setVerification(null)}>Close</Button>
+            <Button mode="contained" icon="export-variant" onPress={handleExportVerification}>
+              Export report
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </View>
   );
 }
@@ -304,6 +693,85 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  headerActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  headerButton: {
+    marginRight: 8,
+  },
+  chainText: {
+    color: '#999',
+    marginTop: 2,
+    fontFamily: 'monospace',
+  },
+  verificationScroll: {
+    maxHeight: 360,
+  },
+  verificationBody: {
+    paddingVertical: 12,
+  },
+  verificationChip: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  verificationChipText: {
+    color: '#fff',
+  },
+  hashText: {
+    fontFamily: 'monospace',
+    color: '#666',
+  },
+  issueRow: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e0e0e0',
+  },
+  issueTitle: {
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingTop: 8,
+  },
+  searchbar: {
+    flex: 1,
+    marginRight: 8,
+  },
+  filterToggle: {
+    alignSelf: 'center',
+  },
+  filterPanel: {
+    marginHorizontal: 8,
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: 'white',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  filterChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  filterInput: {
+    marginBottom: 8,
+    backgroundColor: 'white',
+  },
+  dateInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  presetRow: {
+    flexGrow: 0,
+  },
   logCard: {
     margin: 8,
     elevation: 2,
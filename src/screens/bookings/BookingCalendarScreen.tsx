@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Button, Card, Chip, IconButton, Menu, Text } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import {
+  addDays,
+  fetchBookingCalendar,
+  toDateKey,
+  type BookingCalendar,
+  type CalendarView,
+  type CaregiverSchedule,
+  type ScheduledBooking,
+} from '../../services/bookingCalendarService';
+import { BOOKING_STATUS_COLORS, formatBookingStatus } from '../../config/bookingStateMachine';
+import CaregiverDayTrack from '../../components/bookings/CaregiverDayTrack';
+import type { Booking, BookingConflictType } from '../../types';
+
+type RootStackParamList = {
+  BookingDetail: { bookingId: string; booking?: Booking };
+};
+
+type BookingCalendarNavigationProp = StackNavigationProp<RootStackParamList>;
+
+const CONFLICT_META: Record<BookingConflictType, { label: string; color: string }> = {
+  overlap: { label: 'Double-booked', color: '#d32f2f' },
+  outside_availability: { label: 'Outside availability', color: '#f57c00' },
+  travel_gap: { label: 'Short travel gap', color: '#c29d00' },
+};
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatClock = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const formatRangeLabel = (view: CalendarView, from: Date, to: Date) => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  if (view === 'day') {
+    return from.toLocaleDateString('en-US', { weekday: 'long', ...options });
+  }
+  return `${from.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${addDays(to, -1).toLocaleDateString('en-US', options)}`;
+};
+
+const entriesOnDay = (schedule: CaregiverSchedule, day: Date) => {
+  const dayStart = day.getTime();
+  const dayEnd = addDays(day, 1).getTime();
+  return schedule.bookings.filter(entry => entry.start.getTime() < dayEnd && entry.end.getTime() > dayStart);
+};
+
+export default function BookingCalendarScreen() {
+  const navigation = useNavigation<BookingCalendarNavigationProp>();
+  const [view, setView] = useState<CalendarView>('day');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [calendar, setCalendar] = useState<BookingCalendar | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [caregiverFilter, setCaregiverFilter] = useState<string>('all');
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+  const [caregiverMenuVisible, setCaregiverMenuVisible] = useState(false);
+
+  const loadCalendar = useCallback(async () => {
+    try {
+      setCalendar(await fetchBookingCalendar(view, anchor));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load booking calendar');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [view, anchor]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const shiftRange = (direction: 1 | -1) => {
+    setAnchor(prev => addDays(prev, direction * (view === 'day' ? 1 : 7)));
+  };
+
+  const openBooking = (entry: ScheduledBooking) => {
+    navigation.navigate('BookingDetail', { bookingId: entry.booking.id, booking: entry.booking });
+  };
+
+  const visibleSchedules = useMemo(() => {
+    const schedules = calendar?.caregivers ?? [];
+    return schedules
+      .filter(schedule => caregiverFilter === 'all' || schedule.caregiverKey === caregiverFilter)
+      .map(schedule =>
+        conflictsOnly
+          ? { ...schedule, bookings: schedule.bookings.filter(entry => entry.conflicts.length > 0) }
+          : schedule,
+      )
+      .filter(schedule => schedule.bookings.length > 0);
+  }, [calendar, caregiverFilter, conflictsOnly]);
+
+  const selectedCaregiverName =
+    caregiverFilter === 'all'
+      ? 'All caregivers'
+      : calendar?.caregivers.find(schedule => schedule.caregiverKey === caregiverFilter)?.caregiverName ??
+        'All caregivers';
+
+  const totalBookings = calendar?.caregivers.reduce((total, schedule) => total + schedule.bookings.length, 0) ?? 0;
+
+  const renderConflicts = (entry: ScheduledBooking) =>
+    entry.conflicts.map((conflict, index) => (
+      <Text
+        key={`${entry.booking.id}-${conflict.type}-${index}`}
+        variant="bodySmall"
+        style={[styles.conflictText, { color: CONFLICT_META[conflict.type].color }]}>
+        ⚠ {CONFLICT_META[conflict.type].label}: {conflict.message}
+      </Text>
+    ));
+
+  const renderBookingRow = (entry: ScheduledBooking) => (
+    <TouchableOpacity
+      key={entry.booking.id}
+      style={[styles.bookingRow, entry.conflicts.length > 0 && styles.bookingRowConflict]}
+      onPress={() => openBooking(entry)}
+      accessibilityRole="button"
+      accessibilityHint="Opens booking details">
+      <View style={[styles.statusBar, { backgroundColor: BOOKING_STATUS_COLORS[entry.booking.status] }]} />
+      <View style={styles.bookingBody}>
+        <Text variant="bodyMedium" style={styles.bookingTitle}>
+          {formatClock(entry.start)} – {formatClock(entry.end)} • {entry.booking.jobId.title}
+        </Text>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          📍 {entry.booking.jobId.location} • {formatBookingStatus(entry.booking.status)} • {entry.booking.parentId.name}
+        </Text>
+        {renderConflicts(entry)}
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderWeekGrid = (schedule: CaregiverSchedule) => {
+    const from = calendar?.from ?? anchor;
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.weekGrid}>
+          {WEEKDAY_LABELS.map((label, index) => {
+            const day = addDays(from, index);
+            const entries = entriesOnDay(schedule, day);
+            return (
+              <View key={toDateKey(day)} style={styles.weekColumn}>
+                <Text style={styles.weekHeader}>
+                  {label} {day.getDate()}
+                </Text>
+                {entries.map(entry => (
+                  <TouchableOpacity
+                    key={entry.booking.id}
+                    onPress={() => openBooking(entry)}
+                    style={[
+                      styles.weekBlock,
+                      { borderLeftColor: BOOKING_STATUS_COLORS[entry.booking.status] },
+                      entry.conflicts.length > 0 && styles.weekBlockConflict,
+                    ]}
+                    accessibilityLabel={`${entry.booking.jobId.title} at ${formatClock(entry.start)}`}>
+                    <Text style={styles.weekBlockTime}>{formatClock(entry.start)}</Text>
+                    <Text style={styles.weekBlockTitle} numberOfLines={2}>
+                      {entry.booking.jobId.title}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderSchedule = (schedule: CaregiverSchedule) => {
+    const conflicted = schedule.bookings.filter(entry => entry.conflicts.length > 0);
+    return (
+      <Card key={schedule.caregiverKey} style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Text variant="titleMedium" style={styles.caregiverName}>
+              {schedule.caregiverName}
+            </Text>
+            {conflicted.length > 0 ? (
+              <Chip compact style={styles.conflictChip} textStyle={styles.conflictChipText}>
+                {conflicted.length} conflict{conflicted.length === 1 ? '' : 's'}
+              </Chip>
+            ) : null}
+          </View>
+          {!schedule.availability ? (
+            <Text variant="bodySmall" style={styles.subtleText}>
+              No availability published; only overlaps and travel gaps are checked.
+            </Text>
+          ) : null}
+
+          {view === 'day' ? (
+            <>
+              <View style={styles.track}>
+                <CaregiverDayTrack
+                  day={calendar?.from ?? anchor}
+                  bookings={schedule.bookings}
+                  availability={schedule.availability}
+                  onPressBooking={openBooking}
+                />
+              </View>
+              {schedule.bookings.map(renderBookingRow)}
+            </>
+          ) : (
+            <>
+              {renderWeekGrid(schedule)}
+              {conflicted.map(entry => (
+                <TouchableOpacity key={entry.booking.id} onPress={() => openBooking(entry)}>
+                  <Text variant="bodySmall" style={styles.weekConflictTitle}>
+                    {entry.start.toLocaleDateString('en-US', { weekday: 'short' })} {formatClock(entry.start)} •{' '}
+                    {entry.booking.jobId.title}
+                  </Text>
+                  {renderConflicts(entry)}
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.row}>
+          {(['day', 'week'] as CalendarView[]).map(option => (
+            <Chip key={option} selected={view === option} onPress={() => setView(option)} style={styles.viewChip}>
+              {option === 'day' ? 'Day' : 'Week'}
+            </Chip>
+          ))}
+          <Chip
+            icon="alert"
+            selected={conflictsOnly}
+            onPress={() => setConflictsOnly(prev => !prev)}
+            style={styles.viewChip}>
+            Conflicts only
+          </Chip>
+        </View>
+
+        <View style={styles.navigationRow}>
+          <IconButton icon="chevron-left" onPress={() => shiftRange(-1)} accessibilityLabel="Previous" />
+          <Text variant="titleSmall" style={styles.rangeLabel}>
+            {calendar ? formatRangeLabel(view, calendar.from, calendar.to) : ''}
+          </Text>
+          <IconButton icon="chevron-right" onPress={() => shiftRange(1)} accessibilityLabel="Next" />
+          <Button compact onPress={() => setAnchor(new Date())}>
+            Today
+          </Button>
+        </View>
+
+        <View style={styles.row}>
+          <Menu
+            visible={caregiverMenuVisible}
+            onDismiss={() => setCaregiverMenuVisible(false)}
+            anchor={
+              <Button mode="outlined" icon="account" compact onPress={() => setCaregiverMenuVisible(true)}>
+                {selectedCaregiverName}
+              </Button>
+            }>
+            <Menu.Item
+              title="All caregivers"
+              onPress={() => {
+                setCaregiverFilter('all');
+                setCaregiverMenuVisible(false);
+              }}
+            />
+            {(calendar?.caregivers ?? []).map(schedule => (
+              <Menu.Item
+                key={schedule.caregiverKey}
+                title={schedule.caregiverName}
+                onPress={() => {
+                  setCaregiverFilter(schedule.caregiverKey);
+                  setCaregiverMenuVisible(false);
+                }}
+              />
+            ))}
+          </Menu>
+          <Text variant="bodySmall" style={styles.summary}>
+            {totalBookings} booking{totalBookings === 1 ? '' : 's'} • {calendar?.conflictCount ?? 0} with conflicts
+          </Text>
+        </View>
+
+        <View style={styles.legend}>
+          {(Object.keys(CONFLICT_META) as BookingConflictType[]).map(type => (
+            <View key={type} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: CONFLICT_META[type].color }]} />
+              <Text style={styles.legendText}>{CONFLICT_META[type].label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      {loading && !refreshing ? (
+        <ActivityIndicator style={styles.loader} color="#3f51b5" />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadCalendar();
+              }}
+            />
+          }>
+          {calendar?.truncated ? (
+            <Text variant="bodySmall" style={styles.warning}>
+              Showing the first bookings only; narrow to a single caregiver or day to see everything.
+            </Text>
+          ) : null}
+
+          {visibleSchedules.length > 0 ? (
+            visibleSchedules.map(renderSchedule)
+          ) : (
+            <Text style={styles.empty}>
+              {conflictsOnly ? 'No conflicts in this period' : 'No bookings in this period'}
+            </Text>
+          )}
+
+          {calendar && calendar.unscheduled.length > 0 ? (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleSmall" style={styles.caregiverName}>
+                  Missing schedule ({calendar.unscheduled.length})
+                </Text>
+                <Text variant="bodySmall" style={styles.subtleText}>
+                  These bookings have no usable date or time and cannot be checked for conflicts.
+                </Text>
+                {calendar.unscheduled.map(booking => (
+                  <TouchableOpacity
+                    key={booking.id}
+                    onPress={() => navigation.navigate('BookingDetail', { bookingId: booking.id, booking })}>
+                    <Text variant="bodySmall" style={styles.unscheduledRow}>
+                      {booking.jobId.title} • {booking.caregiverId.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </Card.Content>
+            </Card>
+          ) : null}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f5f5f5' },
+  header: { padding: 12, backgroundColor: 'white', elevation: 2 },
+  row: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center' },
+  viewChip: { marginRight: 8, marginBottom: 8 },
+  navigationRow: { flexDirection: 'row', alignItems: 'center' },
+  rangeLabel: { flex: 1, textAlign: 'center', fontWeight: 'bold' },
+  summary: { marginLeft: 12, color: '#666' },
+  legend: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 8 },
+  legendItem: { flexDirection: 'row', alignItems: 'center', marginRight: 12 },
+  legendDot: { width: 10, height: 10, borderRadius: 5, marginRight: 4 },
+  legendText: { fontSize: 11, color: '#666' },
+  loader: { marginTop: 32 },
+  list: { padding: 12, paddingBottom: 24 },
+  warning: { color: '#f57c00', marginBottom: 8 },
+  card: { marginBottom: 12 },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 },
+  caregiverName: { flex: 1, fontWeight: 'bold' },
+  conflictChip: { backgroundColor: '#ffebee' },
+  conflictChipText: { color: '#d32f2f', fontSize: 11 },
+  subtleText: { color: '#666', marginTop: 2 },
+  track: { marginVertical: 12 },
+  bookingRow: {
+    flexDirection: 'row',
+    borderRadius: 6,
+    backgroundColor: '#fafafa',
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  bookingRowConflict: { backgroundColor: '#fff3f3' },
+  statusBar: { width: 4 },
+  bookingBody: { flex: 1, padding: 8 },
+  bookingTitle: { fontWeight: '600' },
+  conflictText: { marginTop: 4, fontWeight: '600' },
+  weekGrid: { flexDirection: 'row', marginTop: 12 },
+  weekColumn: { width: 96, marginRight: 6 },
+  weekHeader: { fontWeight: 'bold', color: '#666', fontSize: 12, marginBottom: 4, textAlign: 'center' },
+  weekBlock: {
+    borderLeftWidth: 3,
+    backgroundColor: '#fafafa',
+    borderRadius: 4,
+    padding: 4,
+    marginBottom: 4,
+  },
+  weekBlockConflict: { backgroundColor: '#ffebee', borderWidth: 1, borderColor: '#d32f2f' },
+  weekBlockTime: { fontSize: 11, fontWeight: '600' },
+  weekBlockTitle: { fontSize: 11, color: '#424242' },
+  weekConflictTitle: { fontWeight: 'bold', marginTop: 8 },
+  unscheduledRow: { color: '#3f51b5', marginTop: 6 },
+  empty: { textAlign: 'center', color: '#666', marginTop: 24 },
+});
@@ -9,88 +9,46 @@ import {
   Chip,
   Divider,
 } from 'react-native-paper';
-import { RouteProp, useRoute } from '@react-navigation/native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
-import { Booking } from '../../types';
+import { Booking, BookingTimeline, BookingTimelineEvent } from '../../types';
 import {
   fetchBookingById,
-  confirmBooking,
-  startBooking,
-  completeBooking,
-  cancelBooking,
-  updateBookingStatus,
+  fetchBookingTimeline,
+  runBookingAction,
 } from '../../services/bookingsService';
+import {
+  BOOKING_STATUS_COLORS,
+  formatBookingStatus,
+  getAvailableBookingActions,
+  type BookingTransition,
+} from '../../config/bookingStateMachine';
 import { SkeletonBlock } from '../../components/skeletons/Skeleton';
+import BookingActionDialog from '../../components/bookings/BookingActionDialog';
+import BookingEventTimeline from '../../components/bookings/BookingEventTimeline';
 
-type BookingDetailRouteProp = RouteProp<{ BookingDetail: { bookingId: string; booking?: Booking } }, 'BookingDetail'>;
-type ActionKey = 'confirm' | 'start' | 'complete' | 'cancel' | 'no_show';
-
-const STATUS_COLORS: Record<string, string> = {
-  pending: '#ff9800',
-  confirmed: '#2196f3',
-  in_progress: '#9c27b0',
-  completed: '#4caf50',
-  cancelled: '#f44336',
-  no_show: '#795548',
+type BookingDetailStackParamList = {
+  BookingDetail: { bookingId: string; booking?: Booking };
+  ReportDetail: { reportId: string };
 };
 
-const ACTION_DEFINITIONS: Record<
-  ActionKey,
-  {
-    label: string;
-    confirmTitle: string;
-    confirmMessage: string;
-    successMessage: string;
-    mode: 'contained' | 'outlined';
-  }
-> = {
-  confirm: {
-    label: 'Mark Confirmed',
-    confirmTitle: 'Confirm Booking',
-    confirmMessage: 'Are you sure you want to mark this booking as confirmed?',
-    successMessage: 'Booking marked as confirmed.',
-    mode: 'contained',
-  },
-  start: {
-    label: 'Start Service',
-    confirmTitle: 'Start Booking',
-    confirmMessage: 'Start this booking and mark it as in progress?',
-    successMessage: 'Booking marked as in progress.',
-    mode: 'contained',
-  },
-  complete: {
-    label: 'Mark Completed',
-    confirmTitle: 'Complete Booking',
-    confirmMessage: 'Complete this booking and mark the service as finished?',
-    successMessage: 'Booking marked as completed.',
-    mode: 'contained',
-  },
-  cancel: {
-    label: 'Cancel Booking',
-    confirmTitle: 'Cancel Booking',
-    confirmMessage: 'Cancel this booking? This action cannot be undone.',
-    successMessage: 'Booking cancelled successfully.',
-    mode: 'outlined',
-  },
-  no_show: {
-    label: 'Mark No Show',
-    confirmTitle: 'No Show',
-    confirmMessage: 'Mark this booking as a no-show?',
-    successMessage: 'Booking marked as no-show.',
-    mode: 'outlined',
-  },
-};
+type BookingDetailRouteProp = RouteProp<BookingDetailStackParamList, 'BookingDetail'>;
+type BookingDetailNavigationProp = StackNavigationProp<BookingDetailStackParamList>;
 
 export default function BookingDetailScreen() {
   const theme = useTheme();
   const route = useRoute<BookingDetailRouteProp>();
+  const navigation = useNavigation<BookingDetailNavigationProp>();
   const { bookingId, booking: initialBookingParam } = route.params;
 
   const [booking, setBooking] = useState<Booking | null>(initialBookingParam ?? null);
   const [loading, setLoading] = useState(!initialBookingParam);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [actionLoading, setActionLoading] = useState<ActionKey | null>(null);
+  const [pendingTransition, setPendingTransition] = useState<BookingTransition | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [timeline, setTimeline] = useState<BookingTimeline | null>(null);
 
   const mergeBookingData = useCallback((existing: Booking | null, incoming: Booking): Booking => {
     if (!existing) {
@@ -101,10 +59,12 @@ export default function BookingDetailScreen() {
       ...existing,
       ...incoming,
       parentId: {
+        id: incoming.parentId?.id || existing.parentId.id,
         name: incoming.parentId?.name || existing.parentId.name,
         email: incoming.parentId?.email || existing.parentId.email,
       },
       caregiverId: {
+        id: incoming.caregiverId?.id || existing.caregiverId.id,
         name: incoming.caregiverId?.name || existing.caregiverId.name,
         email: incoming.caregiverId?.email || existing.caregiverId.email,
       },
@@ -139,6 +99,9 @@ export default function BookingDetailScreen() {
       const data = await fetchBookingById(bookingId);
       setBooking((prev) => mergeBookingData(prev, data));
       setError(null);
+      fetchBookingTimeline(data)
+        .then(setTimeline)
+        .catch((timelineError) => console.warn('[BookingDetail] Failed to load booking timeline', timelineError));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to load booking details.';
       setError(message);
@@ -157,22 +120,19 @@ export default function BookingDetailScreen() {
     loadBooking({ silent: true });
   }, [loadBooking]);
 
-  const availableActions = useMemo<ActionKey[]>(() => {
-    if (!booking) {
-      return [];
-    }
+  const handleTimelineEventPress = useCallback(
+    (event: BookingTimelineEvent) => {
+      if (event.reportId) {
+        navigation.navigate('ReportDetail', { reportId: event.reportId });
+      }
+    },
+    [navigation],
+  );
 
-    switch (booking.status) {
-      case 'pending':
-        return ['confirm', 'cancel'];
-      case 'confirmed':
-        return ['start', 'cancel'];
-      case 'in_progress':
-        return ['complete', 'cancel', 'no_show'];
-      default:
-        return [];
-    }
-  }, [booking]);
+  const availableActions = useMemo(
+    () => (booking ? getAvailableBookingActions(booking.status) : []),
+    [booking],
+  );
 
   const formatDate = useCallback((value: string | null | undefined) => {
     if (!value) {
@@ -234,52 +194,25 @@ export default function BookingDetailScreen() {
     return `${start} → ${end}`;
   }, [booking, formatTime]);
 
-  const executeAction = useCallback(async (action: ActionKey) => {
-    setActionLoading(action);
+  const executeTransition = useCallback(async (reason?: string) => {
+    if (!booking || !pendingTransition) {
+      return;
+    }
+    const transition = pendingTransition;
+    setActionLoading(true);
 
     try {
-      switch (action) {
-        case 'confirm':
-          await confirmBooking(bookingId);
-          break;
-        case 'start':
-          await startBooking(bookingId);
-          break;
-        case 'complete':
-          await completeBooking(bookingId);
-          break;
-        case 'cancel':
-          await cancelBooking(bookingId);
-          break;
-        case 'no_show':
-          await updateBookingStatus(bookingId, 'no_show');
-          break;
-        default:
-          break;
-      }
-
+      await runBookingAction(booking, transition.action, reason);
+      setPendingTransition(null);
       await loadBooking({ silent: true });
-      Alert.alert('Success', ACTION_DEFINITIONS[action].successMessage);
+      Alert.alert('Success', transition.successMessage);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Operation failed.';
       Alert.alert('Error', message);
     } finally {
-      setActionLoading(null);
+      setActionLoading(false);
     }
-  }, [bookingId, loadBooking]);
-
-  const handleActionPress = useCallback((action: ActionKey) => {
-    const config = ACTION_DEFINITIONS[action];
-
-    Alert.alert(config.confirmTitle, config.confirmMessage, [
-      { text: 'Dismiss', style: 'cancel' },
-      {
-        text: 'Confirm',
-        style: 'default',
-        onPress: () => executeAction(action),
-      },
-    ]);
-  }, [executeAction]);
+  }, [booking, loadBooking, pendingTransition]);
 
   const renderActions = useMemo(() => {
     if (!booking || availableActions.length === 0) {
@@ -290,22 +223,19 @@ export default function BookingDetailScreen() {
       );
     }
 
-    return availableActions.map((action) => {
-      const config = ACTION_DEFINITIONS[action];
-      return (
-        <Button
-          key={action}
-          mode={config.mode}
-          onPress={() => handleActionPress(action)}
-          loading={actionLoading === action}
-          disabled={!!actionLoading}
-          style={styles.actionButton}
-        >
-          {config.label}
-        </Button>
-      );
-    });
-  }, [actionLoading, availableActions, handleActionPress, booking]);
+    return availableActions.map((transition) => (
+      <Button
+        key={transition.action}
+        mode={transition.destructive ? 'outlined' : 'contained'}
+        onPress={() => setPendingTransition(transition)}
+        loading={actionLoading && pendingTransition?.action === transition.action}
+        disabled={actionLoading}
+        style={styles.actionButton}
+      >
+        {transition.label}
+      </Button>
+    ));
+  }, [actionLoading, availableActions, booking, pendingTransition]);
 
   const renderInitialSkeleton = () => (
     <View style={styles.skeletonContainer}>
@@ -378,11 +308,11 @@ export default function BookingDetailScreen() {
                 <Chip
                   style={[
                     styles.statusChip,
-                    { backgroundColor: STATUS_COLORS[booking.status] || theme.colors.primary },
+                    { backgroundColor: BOOKING_STATUS_COLORS[booking.status] || theme.colors.primary },
                   ]}
                   textStyle={styles.statusChipLabel}
                 >
-                  {booking.status.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase())}
+                  {formatBookingStatus(booking.status)}
                 </Chip>
               </View>
 
@@ -532,11 +462,20 @@ export default function BookingDetailScreen() {
               <Text variant="titleMedium" style={styles.sectionTitle}>
                 Timeline
               </Text>
-              <Text variant="bodyMedium" style={styles.infoValue}>
-                Created: {formatDateTime(booking.createdAt)}
-              </Text>
-              <Text variant="bodyMedium" style={styles.infoValue}>
-                Updated: {formatDateTime(booking.updatedAt)}
+              {timeline?.unavailableSources.length ? (
+                <Text variant="bodySmall" style={styles.timelineWarning}>
+                  Some events could not be loaded ({timeline.unavailableSources.join(', ')}). Pull to refresh to retry.
+                </Text>
+              ) : null}
+              {timeline && timeline.events.length > 0 ? (
+                <BookingEventTimeline events={timeline.events} onPressEvent={handleTimelineEventPress} />
+              ) : (
+                <Text variant="bodyMedium" style={styles.infoValue}>
+                  Created: {formatDateTime(booking.createdAt)}
+                </Text>
+              )}
+              <Text variant="bodySmall" style={styles.infoHint}>
+                Last updated {formatDateTime(booking.updatedAt)}
               </Text>
             </Card.Content>
           </Card>
@@ -555,6 +494,13 @@ export default function BookingDetailScreen() {
           <ActivityIndicator />
         </View>
       )}
+
+      <BookingActionDialog
+        transition={pendingTransition}
+        loading={actionLoading}
+        onDismiss={() => setPendingTransition(null)}
+        onConfirm={executeTransition}
+      />
     </ScrollView>
   );
 }
@@ -618,6 +564,10 @@ const styles = StyleSheet.create({
   infoHint: {
     color: '#757575',
   },
+  timelineWarning: {
+    color: '#f57c00',
+    marginBottom: 8,
+  },
   participantRow: {
     flexDirection: 'row',
     gap: 16,
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -6,6 +6,7 @@ import {
   RefreshControl,
   Alert,
   Platform,
+  Share,
 } from "react-native";
 import {
   Text,
@@ -13,34 +14,122 @@ import {
   FAB,
   Chip,
   Menu,
+  Button,
+  Searchbar,
+  Dialog,
+  Portal,
+  TextInput,
 } from "react-native-paper";
 import { Icon } from "react-native-elements";
-import { useNavigation } from "@react-navigation/native";
+import { useNavigation, useRoute, type RouteProp } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { Booking } from "../../types";
+import { Booking, BookingFilterPreset, BookingFilters, BookingStatus } from "../../types";
 import {
   fetchBookings,
-  confirmBooking,
-  completeBooking,
-  cancelBooking,
+  runBookingAction,
   type FetchBookingsOptions,
 } from "../../services/bookingsService";
+import {
+  buildBookingFiltersLink,
+  countActiveBookingFilters,
+  deleteBookingFilterPreset,
+  fetchBookingFilterPresets,
+  parseBookingFilters,
+  saveBookingFilterPreset,
+  toFetchBookingsOptions,
+} from "../../services/bookingFiltersService";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  BOOKING_STATUS_COLORS,
+  formatBookingStatus,
+  getAvailableBookingActions,
+  type BookingTransition,
+} from "../../config/bookingStateMachine";
 import { SkeletonBlock, SkeletonCircle } from "../../components/skeletons/Skeleton";
+import BookingActionDialog from "../../components/bookings/BookingActionDialog";
+import BookingFiltersDialog from "../../components/bookings/BookingFiltersDialog";
 
 type RootStackParamList = {
   BookingDetail: { bookingId: string; booking?: Booking };
+  BookingCalendar: undefined;
+  Bookings: Record<string, string> | undefined;
 };
 
 type BookingsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
+type BookingsScreenRouteProp = RouteProp<RootStackParamList, "Bookings">;
+
+const formatCurrency = (amount: number) => `₱${amount.toLocaleString()}`;
+
+/** Chips describing each applied filter, with the keys cleared when the chip is closed. */
+const describeActiveFilters = (filters: BookingFilters) => {
+  const chips: Array<{ key: string; label: string; clear: Array<keyof BookingFilters> }> = [];
+  if (filters.parentId) {
+    chips.push({ key: "parent", label: `Parent: ${filters.parentName ?? filters.parentId}`, clear: ["parentId", "parentName"] });
+  }
+  if (filters.caregiverId) {
+    chips.push({
+      key: "caregiver",
+      label: `Caregiver: ${filters.caregiverName ?? filters.caregiverId}`,
+      clear: ["caregiverId", "caregiverName"],
+    });
+  }
+  if (filters.jobId) {
+    chips.push({ key: "job", label: `Job: ${filters.jobTitle ?? filters.jobId}`, clear: ["jobId", "jobTitle"] });
+  }
+  if (filters.serviceDateFrom || filters.serviceDateTo) {
+    chips.push({
+      key: "serviceDate",
+      label: `Service: ${filters.serviceDateFrom ?? "…"} – ${filters.serviceDateTo ?? "…"}`,
+      clear: ["serviceDateFrom", "serviceDateTo"],
+    });
+  }
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    chips.push({
+      key: "amount",
+      label: `Amount: ${filters.minAmount !== undefined ? formatCurrency(filters.minAmount) : "…"} – ${
+        filters.maxAmount !== undefined ? formatCurrency(filters.maxAmount) : "…"
+      }`,
+      clear: ["minAmount", "maxAmount"],
+    });
+  }
+  if (filters.minChildren !== undefined || filters.maxChildren !== undefined) {
+    chips.push({
+      key: "children",
+      label: `Children: ${filters.minChildren ?? "…"} – ${filters.maxChildren ?? "…"}`,
+      clear: ["minChildren", "maxChildren"],
+    });
+  }
+  if (filters.hasOpenReport !== undefined) {
+    chips.push({
+      key: "openReport",
+      label: filters.hasOpenReport ? "Has open report" : "No open report",
+      clear: ["hasOpenReport"],
+    });
+  }
+  return chips;
+};
 
 export default function BookingsScreen() {
+  const route = useRoute<BookingsScreenRouteProp>();
+  const { user } = useAuth();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const [filters, setFilters] = useState<BookingFilters>(() => parseBookingFilters(route.params));
+  const [searchQuery, setSearchQuery] = useState(filters.search ?? "");
+  const [filtersDialogVisible, setFiltersDialogVisible] = useState(false);
+  const [presets, setPresets] = useState<BookingFilterPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [presetMenuVisible, setPresetMenuVisible] = useState(false);
+  const [presetNameDialogVisible, setPresetNameDialogVisible] = useState(false);
+  const [presetName, setPresetName] = useState("");
+  const [savingPreset, setSavingPreset] = useState(false);
+  const linkedParamsRef = useRef(route.params);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [menuVisibleId, setMenuVisibleId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ booking: Booking; transition: BookingTransition } | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
   const navigation = useNavigation<BookingsScreenNavigationProp>();
 
   const bookingStatuses = useMemo(
@@ -48,21 +137,13 @@ export default function BookingsScreen() {
       { label: "All Bookings", value: "all" },
       { label: "Pending", value: "pending" },
       { label: "Confirmed", value: "confirmed" },
+      { label: "In Progress", value: "in_progress" },
       { label: "Completed", value: "completed" },
       { label: "Cancelled", value: "cancelled" },
+      { label: "No Show", value: "no_show" },
     ],
   []);
 
-  const statusColors: Record<string, string> = {
-    pending: "#ff9800",
-    confirmed: "#2196f3",
-    completed: "#4caf50",
-    cancelled: "#f44336",
-  };
-
-  const formatStatusLabel = (status: string) =>
-    status.replace(/_/g, " ").replace(/\b\w/g, (char) => char.toUpperCase());
-
   const loadBookings = useCallback(
     async (pageNum = 1, refresh = false, overrides: Partial<FetchBookingsOptions> = {}) => {
       if (pageNum === 1 && !refresh) {
@@ -70,13 +151,11 @@ export default function BookingsScreen() {
       }
 
       try {
-        const statusFilter = overrides.status ?? selectedStatus;
-        const limit = overrides.limit ?? 20;
-
         const options: FetchBookingsOptions = {
+          ...toFetchBookingsOptions(filters),
           page: pageNum,
-          limit,
-          status: statusFilter !== "all" ? statusFilter : undefined,
+          limit: 20,
+          ...overrides,
         };
 
         const { bookings: fetchedBookings, pagination } = await fetchBookings(options);
@@ -96,75 +175,124 @@ export default function BookingsScreen() {
         setRefreshing(false);
       }
     },
-    [selectedStatus],
+    [filters],
   );
 
   useEffect(() => {
     loadBookings(1, true);
   }, [loadBookings]);
 
+  // A deep link arriving while the tab is already mounted only updates its params.
+  useEffect(() => {
+    if (route.params && route.params !== linkedParamsRef.current) {
+      linkedParamsRef.current = route.params;
+      const linked = parseBookingFilters(route.params);
+      setFilters(linked);
+      setSearchQuery(linked.search ?? "");
+      setActivePresetId(null);
+    }
+  }, [route.params]);
+
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+    fetchBookingFilterPresets(user.id)
+      .then(setPresets)
+      .catch((error) => console.warn("Failed to load booking filter presets:", error));
+  }, [user?.id]);
+
+  const applyFilters = (next: BookingFilters, presetId: string | null = null) => {
+    setFilters(next);
+    setSearchQuery(next.search ?? "");
+    setActivePresetId(presetId);
+    setPage(1);
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadBookings(1, true);
   };
 
   const handleStatusChange = (status: string) => {
-    setSelectedStatus(status);
-    setPage(1);
+    applyFilters({ ...filters, status: status !== "all" ? (status as BookingStatus) : undefined });
   };
 
-  const handleBookingAction = (
-    booking: Booking,
-    action: "confirm" | "complete" | "cancel",
-  ) => {
-    const actionConfig: Record<
-      typeof action,
-      {
-        title: string;
-        message: string;
-        success: string;
-        execute: () => Promise<Booking>;
-      }
-    > = {
-      confirm: {
-        title: "Confirm Booking",
-        message: "Confirm this booking?",
-        success: "Booking confirmed successfully.",
-        execute: () => confirmBooking(booking.id),
-      },
-      complete: {
-        title: "Complete Booking",
-        message: "Mark this booking as completed?",
-        success: "Booking marked as completed.",
-        execute: () => completeBooking(booking.id),
-      },
-      cancel: {
-        title: "Cancel Booking",
-        message: "Cancel this booking?",
-        success: "Booking cancelled successfully.",
-        execute: () => cancelBooking(booking.id),
-      },
-    };
+  const handleSearchSubmit = () => {
+    applyFilters({ ...filters, search: searchQuery.trim() || undefined });
+  };
 
-    const config = actionConfig[action];
+  const clearFilterKeys = (keys: Array<keyof BookingFilters>) => {
+    const next = { ...filters };
+    keys.forEach((key) => delete next[key]);
+    applyFilters(next);
+  };
 
-    Alert.alert(config.title, config.message, [
+  const handleSavePreset = async () => {
+    if (!user?.id) {
+      return;
+    }
+    setSavingPreset(true);
+    try {
+      const saved = await saveBookingFilterPreset(user.id, presetName, filters);
+      setPresets((prev) =>
+        [...prev.filter((preset) => preset.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+      setActivePresetId(saved.id);
+      setPresetNameDialogVisible(false);
+      setPresetName("");
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to save preset");
+    } finally {
+      setSavingPreset(false);
+    }
+  };
+
+  const handleDeletePreset = (preset: BookingFilterPreset) => {
+    Alert.alert("Delete preset", `Delete the "${preset.name}" preset?`, [
       { text: "Cancel", style: "cancel" },
       {
-        text: "Confirm",
+        text: "Delete",
+        style: "destructive",
         onPress: async () => {
           try {
-            await config.execute();
-            Alert.alert("Success", config.success);
-            loadBookings(1, true);
+            await deleteBookingFilterPreset(preset.id);
+            setPresets((prev) => prev.filter((item) => item.id !== preset.id));
+            setActivePresetId(null);
           } catch (error: any) {
-            Alert.alert("Error", error.message || "Operation failed");
+            Alert.alert("Error", error.message || "Failed to delete preset");
           }
         },
       },
     ]);
   };
 
+  const handleShareLink = async () => {
+    try {
+      await Share.share({ message: buildBookingFiltersLink(filters) });
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to share link");
+    }
+  };
+
+  const handleBookingAction = async (reason?: string) => {
+    if (!pendingAction) {
+      return;
+    }
+    const { booking, transition } = pendingAction;
+    setActionLoading(true);
+    try {
+      await runBookingAction(booking, transition.action, reason);
+      setPendingAction(null);
+      Alert.alert("Success", transition.successMessage);
+      loadBookings(1, true);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Operation failed");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const navigateToBookingDetail = (booking: Booking) => {
     navigation.navigate("BookingDetail", { bookingId: booking.id, booking });
   };
@@ -208,11 +336,11 @@ export default function BookingsScreen() {
             <Chip
               style={[
                 styles.statusChip,
-                { backgroundColor: statusColors[booking.status] || "#666" },
+                { backgroundColor: BOOKING_STATUS_COLORS[booking.status] || "#666" },
               ]}
               textStyle={styles.statusChipLabel}
             >
-              {formatStatusLabel(booking.status)}
+              {formatBookingStatus(booking.status)}
             </Chip>
           </View>
         </View>
@@ -263,27 +391,16 @@ export default function BookingsScreen() {
                 navigateToBookingDetail(booking);
               }}
             />
-            <Menu.Item
-              title="Mark Confirmed"
-              onPress={() => {
-                setMenuVisibleId(null);
-                handleBookingAction(booking, "confirm");
-              }}
-            />
-            <Menu.Item
-              title="Mark Completed"
-              onPress={() => {
-                setMenuVisibleId(null);
-                handleBookingAction(booking, "complete");
-              }}
-            />
-            <Menu.Item
-              title="Cancel Booking"
-              onPress={() => {
-                setMenuVisibleId(null);
-                handleBookingAction(booking, "cancel");
-              }}
-            />
+            {getAvailableBookingActions(booking.status).map((transition) => (
+              <Menu.Item
+                key={transition.action}
+                title={transition.label}
+                onPress={() => {
+                  setMenuVisibleId(null);
+                  setPendingAction({ booking, transition });
+                }}
+              />
+            ))}
           </Menu>
         </View>
       </Card.Content>
@@ -291,6 +408,9 @@ export default function BookingsScreen() {
   );
 
   const isInitialLoading = loading && bookings.length === 0;
+  const activeFilterCount = countActiveBookingFilters({ ...filters, status: undefined });
+  const activeFilterChips = describeActiveFilters(filters);
+  const activePreset = presets.find((preset) => preset.id === activePresetId) ?? null;
 
   if (isInitialLoading) {
     return (
@@ -324,11 +444,19 @@ export default function BookingsScreen() {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
+        <Searchbar
+          placeholder="Search bookings..."
+          onChangeText={setSearchQuery}
+          onSubmitEditing={handleSearchSubmit}
+          onClearIconPress={() => applyFilters({ ...filters, search: undefined })}
+          value={searchQuery}
+          style={styles.searchBar}
+        />
         <View style={styles.filters}>
           {bookingStatuses.map((status) => (
             <Chip
               key={status.value}
-              selected={selectedStatus === status.value}
+              selected={(filters.status ?? "all") === status.value}
               onPress={() => handleStatusChange(status.value)}
               style={styles.filterChip}
             >
@@ -336,6 +464,86 @@ export default function BookingsScreen() {
             </Chip>
           ))}
         </View>
+        {activeFilterChips.length > 0 ? (
+          <View style={styles.filters}>
+            {activeFilterChips.map((chip) => (
+              <Chip
+                key={chip.key}
+                compact
+                onClose={() => clearFilterKeys(chip.clear)}
+                style={styles.filterChip}
+              >
+                {chip.label}
+              </Chip>
+            ))}
+          </View>
+        ) : null}
+        <View style={styles.toolbar}>
+          <Button
+            mode="outlined"
+            icon="filter-variant"
+            onPress={() => setFiltersDialogVisible(true)}
+            style={styles.toolbarButton}
+          >
+            {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : "Filters"}
+          </Button>
+          <Menu
+            visible={presetMenuVisible}
+            onDismiss={() => setPresetMenuVisible(false)}
+            anchor={
+              <Button
+                mode="outlined"
+                icon="bookmark-outline"
+                onPress={() => setPresetMenuVisible(true)}
+                style={styles.toolbarButton}
+              >
+                {activePreset ? activePreset.name : "Presets"}
+              </Button>
+            }
+          >
+            {presets.map((preset) => (
+              <Menu.Item
+                key={preset.id}
+                leadingIcon={preset.id === activePresetId ? "check" : undefined}
+                title={preset.name}
+                onPress={() => {
+                  setPresetMenuVisible(false);
+                  applyFilters(preset.filters, preset.id);
+                }}
+              />
+            ))}
+            <Menu.Item
+              leadingIcon="content-save-outline"
+              title="Save current filters…"
+              onPress={() => {
+                setPresetMenuVisible(false);
+                setPresetName(activePreset?.name ?? "");
+                setPresetNameDialogVisible(true);
+              }}
+            />
+            {activePreset ? (
+              <Menu.Item
+                leadingIcon="delete-outline"
+                title={`Delete "${activePreset.name}"`}
+                onPress={() => {
+                  setPresetMenuVisible(false);
+                  handleDeletePreset(activePreset);
+                }}
+              />
+            ) : null}
+          </Menu>
+          <Button mode="outlined" icon="link-variant" onPress={handleShareLink} style={styles.toolbarButton}>
+            Share link
+          </Button>
+          <Button
+            mode="outlined"
+            icon="calendar-week"
+            onPress={() => navigation.navigate("BookingCalendar")}
+            style={styles.toolbarButton}
+          >
+            Calendar & conflicts
+          </Button>
+        </View>
       </View>
 
       <FlatList
@@ -358,6 +566,53 @@ export default function BookingsScreen() {
         }
       />
 
+      <BookingActionDialog
+        transition={pendingAction?.transition ?? null}
+        loading={actionLoading}
+        onDismiss={() => setPendingAction(null)}
+        onConfirm={handleBookingAction}
+      />
+
+      <BookingFiltersDialog
+        visible={filtersDialogVisible}
+        filters={filters}
+        onDismiss={() => setFiltersDialogVisible(false)}
+        onApply={(next) => {
+          setFiltersDialogVisible(false);
+          applyFilters(next);
+        }}
+      />
+
+      <Portal>
+        <Dialog visible={presetNameDialogVisible} onDismiss={() => setPresetNameDialogVisible(false)}>
+          <Dialog.Title>Save filter preset</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              mode="outlined"
+              label="Preset name"
+              value={presetName}
+              onChangeText={setPresetName}
+              autoFocus
+            />
+            <Text variant="bodySmall" style={styles.presetHint}>
+              Saving with an existing name replaces that preset.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setPresetNameDialogVisible(false)}>Cancel</Button>
+            <Button
+              mode="contained"
+              onPress={handleSavePreset}
+              loading={savingPreset}
+              disabled={savingPreset || !presetName.trim()}
+              buttonColor="#3f51b5"
+            >
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       <FAB
         icon="calendar-plus"
         onPress={() => Alert.alert("Create Booking", "Feature coming soon!")}
@@ -429,6 +684,21 @@ const styles = StyleSheet.create({
     marginRight: 8,
     marginBottom: 8,
   },
+  searchBar: {
+    marginBottom: 12,
+  },
+  toolbar: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  toolbarButton: {
+    alignSelf: "flex-start",
+  },
+  presetHint: {
+    color: "#666",
+    marginTop: 8,
+  },
   bookingCard: {
     margin: 8,
     elevation: 2,
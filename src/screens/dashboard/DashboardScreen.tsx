@@ -2,14 +2,21 @@ import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import {Platform, RefreshControl, ScrollView, StyleSheet, View} from 'react-native';
 import {FAB, Text} from 'react-native-paper';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
 import {fetchDashboardStats} from '../../services/dashboardService';
-import {DashboardStats} from '../../types';
+import {Booking, DashboardStats} from '../../types';
 import type {StatCardItem} from './components/StatCardGrid';
 import StatCardGrid from './components/StatCardGrid';
+import NeedsAttentionQueue from './components/NeedsAttentionQueue';
 import {SkeletonBlock, SkeletonCircle} from '../../components/skeletons/Skeleton';
 
 type SectionKey = 'users' | 'jobs' | 'bookings' | 'applications';
 
+type RootStackParamList = {
+  BookingDetail: {bookingId: string; booking?: Booking};
+};
+
 type SectionStatus = {
   loading: boolean;
   error: string | null;
@@ -137,7 +144,9 @@ const STAT_DEFINITIONS: StatDefinition[] = [
 ];
 
 export default function DashboardScreen() {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [attentionRefreshKey, setAttentionRefreshKey] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
 
@@ -362,8 +371,14 @@ export default function DashboardScreen() {
 
   const onRefresh = useCallback(() => {
     loadDashboard({silentRefresh: true});
+    setAttentionRefreshKey(key => key + 1);
   }, [loadDashboard]);
 
+  const openBooking = useCallback(
+    (booking: Booking) => navigation.navigate('BookingDetail', {bookingId: booking.id, booking}),
+    [navigation],
+  );
+
   const getValueFromStats = useCallback(
     (statPath: readonly (keyof DashboardStats | string)[]) => {
       if (!stats) {
@@ -410,6 +425,7 @@ export default function DashboardScreen() {
         <Text variant="headlineMedium" style={styles.title}>
           Today’s Overview
         </Text>
+        <NeedsAttentionQueue refreshKey={attentionRefreshKey} onOpenBooking={openBooking} />
         {isInitialLoad && !stats ? (
           <View style={styles.skeletonGrid}>
             {Array.from({length: 6}).map((_, index) => (
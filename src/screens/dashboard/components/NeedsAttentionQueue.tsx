@@ -0,0 +1,271 @@
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {StyleSheet, TouchableOpacity, View} from 'react-native';
+import {ActivityIndicator, Button, Card, Chip, Switch, Text} from 'react-native-paper';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BOOKING_START_GRACE_MINUTES,
+  messageCaregiverAboutLateStart,
+  runBookingMonitor,
+} from '../../../services/bookingMonitorService';
+import {useAuth} from '../../../contexts/AuthContext';
+import type {Booking, BookingAttentionItem, BookingAttentionReason} from '../../../types';
+
+type NeedsAttentionQueueProps = {
+  /** Changing this value re-runs the monitor, e.g. on pull-to-refresh. */
+  refreshKey: number;
+  onOpenBooking: (booking: Booking) => void;
+};
+
+const MESSAGE_PREFERENCE_KEY = 'dashboard.bookingMonitor.messageCaregivers';
+const MESSAGED_BOOKINGS_KEY = 'dashboard.bookingMonitor.messagedBookings';
+const MONITOR_INTERVAL_MS = 5 * 60 * 1000;
+/** Matches the two-day window the monitor looks back over. */
+const MESSAGED_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+type MessagedBookings = Record<string, string>;
+
+const loadMessagedBookings = async (): Promise<MessagedBookings> => {
+  const stored = await AsyncStorage.getItem(MESSAGED_BOOKINGS_KEY);
+  const parsed: MessagedBookings = stored ? JSON.parse(stored) : {};
+  const cutoff = Date.now() - MESSAGED_RETENTION_MS;
+  return Object.fromEntries(Object.entries(parsed).filter(([, at]) => new Date(at).getTime() >= cutoff));
+};
+
+const REASON_META: Record<BookingAttentionReason, {label: string; color: string}> = {
+  late_start: {label: 'Late start', color: '#f57c00'},
+  likely_no_show: {label: 'Likely no-show', color: '#d32f2f'},
+};
+
+const formatLateness = (minutes: number) =>
+  minutes < 60 ? `${minutes} min late` : `${Math.floor(minutes / 60)}h ${minutes % 60}m late`;
+
+const NeedsAttentionQueue = ({refreshKey, onOpenBooking}: NeedsAttentionQueueProps) => {
+  const {user} = useAuth();
+  const [items, setItems] = useState<BookingAttentionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [messageCaregivers, setMessageCaregivers] = useState(false);
+  const [preferencesLoaded, setPreferencesLoaded] = useState(false);
+  const [messagingId, setMessagingId] = useState<string | null>(null);
+  const [messaged, setMessaged] = useState<MessagedBookings>({});
+  const messagedRef = useRef<MessagedBookings>({});
+  const runningRef = useRef(false);
+
+  // The first run must see the saved preference, or it would skip caregivers that should be messaged.
+  useEffect(() => {
+    Promise.all([AsyncStorage.getItem(MESSAGE_PREFERENCE_KEY), loadMessagedBookings()])
+      .then(([preference, stored]) => {
+        setMessageCaregivers(preference === 'true');
+        messagedRef.current = stored;
+        setMessaged(stored);
+      })
+      .catch(storageError => console.warn('Failed to read booking monitor preferences:', storageError))
+      .finally(() => setPreferencesLoaded(true));
+  }, []);
+
+  const recordMessaged = useCallback((bookingIds: string[]) => {
+    if (bookingIds.length === 0) {
+      return;
+    }
+    const at = new Date().toISOString();
+    const next = {...messagedRef.current, ...Object.fromEntries(bookingIds.map(bookingId => [bookingId, at]))};
+    messagedRef.current = next;
+    setMessaged(next);
+    AsyncStorage.setItem(MESSAGED_BOOKINGS_KEY, JSON.stringify(next)).catch(storageError =>
+      console.warn('Failed to save messaged bookings:', storageError),
+    );
+  }, []);
+
+  const runMonitor = useCallback(async () => {
+    if (!user?.id || !preferencesLoaded || runningRef.current) {
+      return;
+    }
+    runningRef.current = true;
+    try {
+      const result = await runBookingMonitor({
+        adminId: user.id,
+        messageCaregivers,
+        alreadyMessaged: Object.keys(messagedRef.current),
+      });
+      setItems(result.items);
+      recordMessaged(result.messaged);
+      setError(
+        result.failures.length > 0
+          ? `${result.failures.length} caregiver message${result.failures.length === 1 ? '' : 's'} could not be sent`
+          : null,
+      );
+    } catch (monitorError) {
+      setError(monitorError instanceof Error ? monitorError.message : 'Failed to check bookings');
+    } finally {
+      runningRef.current = false;
+      setLoading(false);
+    }
+  }, [messageCaregivers, preferencesLoaded, recordMessaged, user?.id]);
+
+  useEffect(() => {
+    runMonitor();
+  }, [runMonitor, refreshKey]);
+
+  useEffect(() => {
+    const timer = setInterval(runMonitor, MONITOR_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [runMonitor]);
+
+  const toggleMessaging = (value: boolean) => {
+    setMessageCaregivers(value);
+    AsyncStorage.setItem(MESSAGE_PREFERENCE_KEY, String(value)).catch(storageError =>
+      console.warn('Failed to save booking monitor preference:', storageError),
+    );
+  };
+
+  const handleMessage = async (item: BookingAttentionItem) => {
+    if (!user?.id) {
+      return;
+    }
+    setMessagingId(item.booking.id);
+    try {
+      await messageCaregiverAboutLateStart(user.id, item);
+      recordMessaged([item.booking.id]);
+    } catch (messageError) {
+      setError(messageError instanceof Error ? messageError.message : 'Failed to message caregiver');
+    } finally {
+      setMessagingId(null);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <Text variant="titleMedium" style={styles.title}>
+            Needs attention
+          </Text>
+          {loading ? <ActivityIndicator size="small" /> : <Chip compact>{items.length}</Chip>}
+        </View>
+        <Text variant="bodySmall" style={styles.subtitle}>
+          Confirmed bookings not started {BOOKING_START_GRACE_MINUTES}+ minutes after their start time. All admins are
+          alerted automatically.
+        </Text>
+        <View style={styles.toggleRow}>
+          <Text variant="bodySmall" style={styles.toggleLabel}>
+            Message caregivers automatically
+          </Text>
+          <Switch value={messageCaregivers} onValueChange={toggleMessaging} />
+        </View>
+
+        {error ? (
+          <Text variant="bodySmall" style={styles.error}>
+            {error}
+          </Text>
+        ) : null}
+
+        {!loading && items.length === 0 ? (
+          <Text variant="bodySmall" style={styles.empty}>
+            All confirmed bookings have started on time.
+          </Text>
+        ) : null}
+
+        {items.map(item => (
+          <TouchableOpacity
+            key={item.booking.id}
+            style={styles.item}
+            onPress={() => onOpenBooking(item.booking)}
+            accessibilityRole="button"
+            accessibilityHint="Opens booking details">
+            <View style={styles.itemHeader}>
+              <Text variant="bodyMedium" style={styles.itemTitle} numberOfLines={1}>
+                {item.booking.jobId.title}
+              </Text>
+              <Chip
+                compact
+                style={{backgroundColor: REASON_META[item.reason].color}}
+                textStyle={styles.reasonText}>
+                {REASON_META[item.reason].label}
+              </Chip>
+            </View>
+            <Text variant="bodySmall" style={styles.itemMeta}>
+              {item.booking.caregiverId.name} • {formatLateness(item.minutesLate)}
+              {item.alertedAt ? ' • alert sent' : ''}
+            </Text>
+            <Button
+              compact
+              icon="message-text"
+              onPress={() => handleMessage(item)}
+              loading={messagingId === item.booking.id}
+              disabled={!item.booking.caregiverId.id || messagingId === item.booking.id || !!messaged[item.booking.id]}
+              style={styles.messageButton}>
+              {messaged[item.booking.id] ? 'Caregiver messaged' : 'Message caregiver'}
+            </Button>
+          </TouchableOpacity>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+};
+
+export default NeedsAttentionQueue;
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    color: '#666',
+    marginTop: 4,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  toggleLabel: {
+    color: '#666',
+  },
+  error: {
+    color: '#d32f2f',
+    marginTop: 8,
+  },
+  empty: {
+    color: '#4caf50',
+    marginTop: 8,
+  },
+  item: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#eee',
+    paddingTop: 8,
+    marginTop: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  itemTitle: {
+    flex: 1,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  reasonText: {
+    color: '#fff',
+    fontSize: 11,
+  },
+  itemMeta: {
+    color: '#666',
+    marginTop: 2,
+  },
+  messageButton: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+});
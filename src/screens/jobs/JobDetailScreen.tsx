@@ -18,7 +18,7 @@ import {
 import { Icon } from 'react-native-elements';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { Job } from '../../types';
+import { Job, JobRevision } from '../../types';
 import {
   fetchJobById,
   approveJob,
@@ -28,8 +28,12 @@ import {
   reopenJob,
   updateJob,
   deleteJob,
+  fetchJobRevisions,
+  revertJobToRevision,
 } from '../../services/jobsService';
 import { SkeletonBlock } from '../../components/skeletons/Skeleton';
+import JobRevisionList from '../../components/jobs/JobRevisionList';
+import CaregiverMatchPanel from '../../components/jobs/CaregiverMatchPanel';
 
 type RootStackParamList = {
   JobDetail: { jobId: string; editMode?: boolean };
@@ -45,6 +49,9 @@ export default function JobDetailScreen() {
   const [editDialogVisible, setEditDialogVisible] = useState(false);
   const [deleteDialogVisible, setDeleteDialogVisible] = useState(false);
   const [updating, setUpdating] = useState(false);
+  const [revisions, setRevisions] = useState<JobRevision[]>([]);
+  const [revisionsError, setRevisionsError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
 
   // Edit state
   const [editTitle, setEditTitle] = useState('');
@@ -84,7 +91,17 @@ export default function JobDetailScreen() {
 
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
+  const loadRevisions = async () => {
+    try {
+      setRevisions(await fetchJobRevisions(jobId));
+      setRevisionsError(null);
+    } catch (error: any) {
+      setRevisionsError(error.message || 'Failed to load edit history');
+    }
+  };
+
   const loadJob = async () => {
+    loadRevisions();
     try {
       console.log('[JobDetailScreen] Loading job:', jobId);
       const fetchedJob = await fetchJobById(jobId);
@@ -241,6 +258,32 @@ export default function JobDetailScreen() {
     }
   };
 
+  const handleRevert = (revision: JobRevision) => {
+    Alert.alert(
+      'Revert Job',
+      `Restore the job to how it was before revision #${revision.revisionNumber}? This undoes that edit and any later ones, and is saved as a new revision.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          style: 'destructive',
+          onPress: async () => {
+            setRevertingId(revision.id);
+            try {
+              await revertJobToRevision(jobId, revision);
+              Alert.alert('Success', 'Job reverted successfully');
+              await loadJob();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to revert job');
+            } finally {
+              setRevertingId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const showEditDialog = () => {
     setEditDialogVisible(true);
   };
@@ -461,6 +504,30 @@ export default function JobDetailScreen() {
           </Card.Content>
         </Card>
 
+        {!['completed', 'cancelled'].includes(job.status) && (
+          <Card style={styles.detailsCard}>
+            <Card.Content>
+              <Text variant="titleLarge" style={styles.sectionTitle}>
+                Matching Caregivers
+              </Text>
+              <CaregiverMatchPanel job={job} onAssigned={loadJob} />
+            </Card.Content>
+          </Card>
+        )}
+
+        <Card style={styles.detailsCard}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Edit History
+            </Text>
+            {revisionsError ? (
+              <Text style={styles.revisionsError}>{revisionsError}</Text>
+            ) : (
+              <JobRevisionList revisions={revisions} revertingId={revertingId} onRevert={handleRevert} />
+            )}
+          </Card.Content>
+        </Card>
+
         <Card style={styles.actionsCard}>
           <Card.Content>
             <Text variant="titleLarge" style={styles.sectionTitle}>
@@ -714,6 +781,9 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     elevation: 2,
   },
+  revisionsError: {
+    color: '#d32f2f',
+  },
   sectionTitle: {
     fontWeight: 'bold',
     marginBottom: 16,
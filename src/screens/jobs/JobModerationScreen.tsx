@@ -0,0 +1,456 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { View, StyleSheet, FlatList, RefreshControl, Alert } from "react-native";
+import {
+  Text,
+  Card,
+  Chip,
+  Button,
+  Searchbar,
+  ProgressBar,
+  Portal,
+  Dialog,
+  TextInput,
+  ActivityIndicator,
+} from "react-native-paper";
+import { useNavigation } from "@react-navigation/native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import type { HourlyRateNorm, JobRiskLevel } from "../../types";
+import { approveJob, rejectJob } from "../../services/jobsService";
+import {
+  DEFAULT_HOURLY_RATE_NORM,
+  MODERATION_RULE_LABELS,
+  bulkApproveLowRiskJobs,
+  fetchModerationQueue,
+  type ScreenedJob,
+} from "../../services/jobModerationService";
+
+type RootStackParamList = {
+  JobDetail: { jobId: string; editMode?: boolean };
+};
+
+type JobModerationScreenNavigationProp = StackNavigationProp<RootStackParamList>;
+
+type QueueFilter = "flagged" | "low" | "all";
+
+const RISK_META: Record<JobRiskLevel, { label: string; color: string }> = {
+  high: { label: "High risk", color: "#d32f2f" },
+  medium: { label: "Medium risk", color: "#f57c00" },
+  low: { label: "Low risk", color: "#4caf50" },
+};
+
+const QUEUE_FILTERS: Array<{ label: string; value: QueueFilter }> = [
+  { label: "Flagged", value: "flagged" },
+  { label: "Low risk", value: "low" },
+  { label: "All", value: "all" },
+];
+
+const PAGE_SIZE = 50;
+
+export default function JobModerationScreen() {
+  const [items, setItems] = useState<ScreenedJob[]>([]);
+  const [norm, setNorm] = useState<HourlyRateNorm>(DEFAULT_HOURLY_RATE_NORM);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [filter, setFilter] = useState<QueueFilter>("flagged");
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<ScreenedJob | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const navigation = useNavigation<JobModerationScreenNavigationProp>();
+
+  const loadQueue = useCallback(
+    async (pageNum = 1, refresh = false) => {
+      if (pageNum === 1 && !refresh) {
+        setLoading(true);
+      }
+      try {
+        const result = await fetchModerationQueue({
+          page: pageNum,
+          limit: PAGE_SIZE,
+          search: appliedSearch || undefined,
+        });
+        setItems((prev) =>
+          pageNum === 1
+            ? result.items
+            : [...prev, ...result.items].sort((a, b) => b.screening.score - a.screening.score),
+        );
+        setNorm(result.norm);
+        setHasMore(result.pagination.hasMore);
+        setTotal(result.pagination.total);
+        setPage(result.pagination.page);
+      } catch (error: any) {
+        Alert.alert("Error", error.message || "Failed to load moderation queue");
+      } finally {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    },
+    [appliedSearch],
+  );
+
+  useEffect(() => {
+    loadQueue(1);
+  }, [loadQueue]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadQueue(1, true);
+  };
+
+  const lowRiskItems = useMemo(() => items.filter((item) => item.screening.level === "low"), [items]);
+  const flaggedCount = items.length - lowRiskItems.length;
+
+  const visibleItems = useMemo(() => {
+    if (filter === "flagged") {
+      return items.filter((item) => item.screening.level !== "low");
+    }
+    if (filter === "low") {
+      return lowRiskItems;
+    }
+    return items;
+  }, [filter, items, lowRiskItems]);
+
+  const removeItems = (jobIds: string[]) => {
+    setItems((prev) => prev.filter((item) => !jobIds.includes(item.job.id)));
+    setTotal((prev) => Math.max(0, prev - jobIds.length));
+  };
+
+  const handleApprove = async (item: ScreenedJob) => {
+    setActingId(item.job.id);
+    try {
+      await approveJob(item.job.id);
+      removeItems([item.job.id]);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to approve job");
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) {
+      return;
+    }
+    const target = rejecting;
+    const flagSummary = target.screening.flags.map((flag) => MODERATION_RULE_LABELS[flag.rule]).join(", ");
+    setActingId(target.job.id);
+    setRejecting(null);
+    try {
+      await rejectJob(target.job.id, rejectReason.trim() || (flagSummary ? `Flagged: ${flagSummary}` : undefined));
+      removeItems([target.job.id]);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to reject job");
+    } finally {
+      setActingId(null);
+      setRejectReason("");
+    }
+  };
+
+  const runBulkApprove = async () => {
+    setBulkProgress({ done: 0, total: lowRiskItems.length });
+    try {
+      const result = await bulkApproveLowRiskJobs(lowRiskItems, (done, count) =>
+        setBulkProgress({ done, total: count }),
+      );
+      removeItems(result.approved);
+      if (result.failures.length > 0) {
+        Alert.alert(
+          "Some approvals failed",
+          `${result.approved.length} approved, ${result.failures.length} failed:\n` +
+            result.failures
+              .slice(0, 5)
+              .map((failure) => `• ${items.find((item) => item.job.id === failure.jobId)?.job.title ?? failure.jobId}: ${failure.error}`)
+              .join("\n"),
+        );
+      } else {
+        Alert.alert("Success", `${result.approved.length} low-risk jobs approved`);
+      }
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const confirmBulkApprove = () => {
+    Alert.alert(
+      "Approve low-risk jobs",
+      `Approve ${lowRiskItems.length} job${lowRiskItems.length === 1 ? "" : "s"} with no screening flags? Flagged jobs are left in the queue.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Approve", onPress: runBulkApprove },
+      ],
+    );
+  };
+
+  const renderItem = ({ item }: { item: ScreenedJob }) => {
+    const { job, screening } = item;
+    const risk = RISK_META[screening.level];
+    const busy = actingId === job.id || bulkProgress !== null;
+
+    return (
+      <Card
+        style={styles.card}
+        onPress={() => navigation.navigate("JobDetail", { jobId: job.id })}
+        accessibilityRole="button"
+        accessibilityHint="Opens job details"
+      >
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Text variant="titleMedium" style={styles.jobTitle} numberOfLines={2}>
+              {job.title}
+            </Text>
+            <Chip compact style={{ backgroundColor: risk.color }} textStyle={styles.riskText}>
+              {`${risk.label} • ${screening.score}`}
+            </Chip>
+          </View>
+          <Text variant="bodySmall" style={styles.meta}>
+            👤 {job.parentId.name} • 📍 {job.location}
+            {job.hourly_rate ? ` • ₱${job.hourly_rate}/hr` : ""}
+          </Text>
+          <Text variant="bodyMedium" style={styles.description} numberOfLines={4}>
+            {job.description || "No description"}
+          </Text>
+
+          {screening.flags.map((flag) => (
+            <View key={flag.rule} style={styles.flag}>
+              <Text variant="bodySmall" style={styles.flagTitle}>
+                {MODERATION_RULE_LABELS[flag.rule]} (+{flag.weight})
+              </Text>
+              <Text variant="bodySmall" style={styles.flagReason}>
+                {flag.reason}
+              </Text>
+              {flag.matches && flag.matches.length > 0 ? (
+                <Text variant="bodySmall" style={styles.flagMatches}>
+                  Matched: {flag.matches.map((match) => `"${match}"`).join(", ")}
+                </Text>
+              ) : null}
+            </View>
+          ))}
+
+          <View style={styles.actions}>
+            <Button
+              mode="contained"
+              compact
+              buttonColor="#4caf50"
+              onPress={() => handleApprove(item)}
+              loading={actingId === job.id}
+              disabled={busy}
+            >
+              Approve
+            </Button>
+            <Button
+              mode="outlined"
+              compact
+              textColor="#d32f2f"
+              onPress={() => setRejecting(item)}
+              disabled={busy}
+            >
+              Reject
+            </Button>
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  if (loading && items.length === 0) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3f51b5" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Searchbar
+          placeholder="Search queue..."
+          onChangeText={setSearchQuery}
+          onSubmitEditing={() => setAppliedSearch(searchQuery.trim())}
+          onClearIconPress={() => setAppliedSearch("")}
+          value={searchQuery}
+          style={styles.searchBar}
+        />
+        <Text variant="bodySmall" style={styles.summary}>
+          {total} awaiting review • {flaggedCount} flagged on this page • typical rate ₱{norm.median}/hr
+          {norm.sampleSize > 0 ? ` (${norm.sampleSize} jobs)` : " (default)"}
+        </Text>
+        <View style={styles.filters}>
+          {QUEUE_FILTERS.map((option) => (
+            <Chip
+              key={option.value}
+              selected={filter === option.value}
+              onPress={() => setFilter(option.value)}
+              style={styles.filterChip}
+            >
+              {option.label}
+            </Chip>
+          ))}
+        </View>
+        <Button
+          mode="contained"
+          icon="check-all"
+          buttonColor="#3f51b5"
+          onPress={confirmBulkApprove}
+          disabled={lowRiskItems.length === 0 || bulkProgress !== null}
+        >
+          {`Approve ${lowRiskItems.length} low-risk`}
+        </Button>
+        {bulkProgress ? (
+          <View style={styles.progress}>
+            <ProgressBar
+              progress={bulkProgress.total > 0 ? bulkProgress.done / bulkProgress.total : 0}
+              color="#3f51b5"
+            />
+            <Text variant="bodySmall" style={styles.summary}>
+              Approving {bulkProgress.done}/{bulkProgress.total}…
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      <FlatList
+        data={visibleItems}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.job.id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        onEndReached={() => {
+          if (hasMore && !loading) {
+            loadQueue(page + 1);
+          }
+        }}
+        onEndReachedThreshold={0.1}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text>{filter === "flagged" ? "No flagged jobs" : "No jobs awaiting review"}</Text>
+          </View>
+        }
+      />
+
+      <Portal>
+        <Dialog visible={rejecting !== null} onDismiss={() => setRejecting(null)}>
+          <Dialog.Title>Reject job</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogText}>
+              {rejecting?.job.title}
+            </Text>
+            <TextInput
+              mode="outlined"
+              label="Reason (optional)"
+              placeholder="Defaults to the screening flags"
+              value={rejectReason}
+              onChangeText={setRejectReason}
+              multiline
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRejecting(null)}>Cancel</Button>
+            <Button mode="contained" buttonColor="#d32f2f" onPress={handleReject}>
+              Reject
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    padding: 16,
+    backgroundColor: "white",
+    elevation: 2,
+  },
+  searchBar: {
+    marginBottom: 8,
+  },
+  summary: {
+    color: "#666",
+    marginBottom: 8,
+  },
+  filters: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  filterChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  progress: {
+    marginTop: 8,
+    gap: 4,
+  },
+  card: {
+    margin: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  jobTitle: {
+    flex: 1,
+    fontWeight: "bold",
+  },
+  riskText: {
+    color: "#fff",
+    fontSize: 11,
+  },
+  meta: {
+    color: "#666",
+    marginTop: 4,
+  },
+  description: {
+    marginTop: 8,
+    color: "#333",
+  },
+  flag: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: "#fff3e0",
+  },
+  flagTitle: {
+    fontWeight: "bold",
+    color: "#e65100",
+  },
+  flagReason: {
+    color: "#666",
+  },
+  flagMatches: {
+    color: "#333",
+    fontStyle: "italic",
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  dialogText: {
+    marginBottom: 12,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingTop: 100,
+  },
+});
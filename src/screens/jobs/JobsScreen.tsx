@@ -14,6 +14,13 @@ import {
   Searchbar,
   Chip,
   Surface,
+  Button,
+  Checkbox,
+  IconButton,
+  Portal,
+  Dialog,
+  TextInput,
+  ProgressBar,
 } from "react-native-paper";
 import { Icon } from "react-native-elements";
 import { useNavigation } from "@react-navigation/native";
@@ -26,16 +33,28 @@ import {
   cancelJob,
   completeJob,
   reopenJob,
+  bulkJobAction,
+  getBulkJobActions,
+  type BulkJobAction,
+  type BulkJobActionResult,
   type FetchJobsOptions,
 } from "../../services/jobsService";
 import { SkeletonBlock, SkeletonCircle } from "../../components/skeletons/Skeleton";
 
 type RootStackParamList = {
   JobDetail: { jobId: string; editMode?: boolean };
+  JobModeration: undefined;
 };
 
 type JobsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const BULK_ACTIONS: Record<BulkJobAction, { label: string; verb: string; color: string }> = {
+  approve: { label: "Approve", verb: "approved", color: "#4caf50" },
+  reject: { label: "Reject", verb: "rejected", color: "#ff5722" },
+  cancel: { label: "Cancel", verb: "cancelled", color: "#f44336" },
+  delete: { label: "Delete", verb: "deleted", color: "#b71c1c" },
+};
+
 export default function JobsScreen() {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
@@ -51,6 +70,12 @@ export default function JobsScreen() {
     completed: 0,
     cancelled: 0,
   });
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<BulkJobAction | null>(null);
+  const [bulkReason, setBulkReason] = useState("");
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [bulkResult, setBulkResult] = useState<BulkJobActionResult | null>(null);
   const navigation = useNavigation<JobsScreenNavigationProp>();
 
   const jobStatuses = useMemo(
@@ -137,9 +162,76 @@ export default function JobsScreen() {
   const handleStatusChange = (status: string) => {
     setSelectedStatus(status);
     setPage(1);
+    exitSelectionMode();
     loadJobs(1, true, { status });
   };
 
+  const toggleSelection = useCallback((jobId: string) => {
+    setSelectionMode(true);
+    setSelectedJobIds((prev) => {
+      if (prev.includes(jobId)) {
+        const next = prev.filter((id) => id !== jobId);
+        if (next.length === 0) {
+          setSelectionMode(false);
+        }
+        return next;
+      }
+      return [...prev, jobId];
+    });
+  }, []);
+
+  const selectedStatuses = useMemo(
+    () => [...new Set(jobs.filter((job) => selectedJobIds.includes(job.id)).map((job) => job.status))],
+    [jobs, selectedJobIds],
+  );
+  const availableBulkActions = useMemo(() => getBulkJobActions(selectedStatuses), [selectedStatuses]);
+
+  // Adds every loaded job in the same status as the current selection, so the
+  // offered actions stay valid for the whole selection.
+  const selectAllMatching = () => {
+    setSelectedJobIds(jobs.filter((job) => selectedStatuses.includes(job.status)).map((job) => job.id));
+  };
+
+  const exitSelectionMode = useCallback(() => {
+    setSelectionMode(false);
+    setSelectedJobIds([]);
+  }, []);
+
+  const openBulkDialog = (action: BulkJobAction) => {
+    setBulkAction(action);
+    setBulkReason("");
+    setBulkResult(null);
+  };
+
+  const closeBulkDialog = () => {
+    setBulkAction(null);
+    setBulkResult(null);
+  };
+
+  const runBulkAction = async () => {
+    if (!bulkAction || selectedJobIds.length === 0 || !bulkReason.trim()) {
+      return;
+    }
+    setBulkProgress({ done: 0, total: selectedJobIds.length });
+    try {
+      const result = await bulkJobAction(
+        { jobIds: selectedJobIds, action: bulkAction, reason: bulkReason },
+        (done, total) => setBulkProgress({ done, total }),
+      );
+      setBulkResult(result);
+      // Keep failed jobs selected so the action can be retried on just those.
+      setSelectedJobIds(result.failures.map((failure) => failure.jobId));
+      if (result.failures.length === 0) {
+        setSelectionMode(false);
+      }
+      loadJobs(1, true);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Bulk action failed");
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
   const handleJobAction = (
     job: Job,
     action: "approve" | "reject" | "cancel" | "complete" | "reopen",
@@ -220,9 +312,19 @@ export default function JobsScreen() {
   };
 
   const renderJobCard = ({ item: job }: { item: Job }) => (
-    <Card style={styles.jobCard} onPress={() => navigateToJobDetail(job)}>
+    <Card
+      style={[styles.jobCard, selectedJobIds.includes(job.id) && styles.jobCardSelected]}
+      onPress={() => (selectionMode ? toggleSelection(job.id) : navigateToJobDetail(job))}
+      onLongPress={() => toggleSelection(job.id)}
+    >
       <Card.Content>
         <View style={styles.jobHeader}>
+          {selectionMode && (
+            <Checkbox
+              status={selectedJobIds.includes(job.id) ? "checked" : "unchecked"}
+              onPress={() => toggleSelection(job.id)}
+            />
+          )}
           <View style={styles.jobInfo}>
             <Text variant="titleMedium" style={styles.jobTitle}>
               {job.title}
@@ -445,8 +547,47 @@ export default function JobsScreen() {
             </Chip>
           ))}
         </View>
+        <Button
+          mode="outlined"
+          icon="shield-search"
+          onPress={() => navigation.navigate("JobModeration")}
+          style={styles.moderationButton}
+        >
+          Moderation queue
+        </Button>
       </View>
 
+      {selectionMode && (
+        <Surface style={styles.selectionBar} elevation={2}>
+          <View style={styles.selectionHeader}>
+            <Text style={styles.selectionText}>{selectedJobIds.length} selected</Text>
+            <Button compact onPress={selectAllMatching} disabled={selectedStatuses.length === 0}>
+              {selectedStatuses.length === 1 ? `Select all ${selectedStatuses[0]}` : "Select all matching"}
+            </Button>
+            <IconButton icon="close" onPress={exitSelectionMode} accessibilityLabel="Exit selection mode" />
+          </View>
+          <View style={styles.selectionActions}>
+            {availableBulkActions.length === 0 && selectedJobIds.length > 0 && (
+              <Text variant="bodySmall" style={styles.bulkHint}>
+                No bulk action applies to every selected job. Select jobs in the same status.
+              </Text>
+            )}
+            {availableBulkActions.map((action) => (
+              <Button
+                key={action}
+                mode="contained"
+                compact
+                buttonColor={BULK_ACTIONS[action].color}
+                onPress={() => openBulkDialog(action)}
+                disabled={selectedJobIds.length === 0}
+              >
+                {BULK_ACTIONS[action].label}
+              </Button>
+            ))}
+          </View>
+        </Surface>
+      )}
+
       <FlatList
         data={jobs}
         renderItem={renderJobCard}
@@ -467,6 +608,76 @@ export default function JobsScreen() {
         }
       />
 
+      <Portal>
+        <Dialog visible={bulkAction !== null} onDismiss={bulkProgress ? undefined : closeBulkDialog}>
+          <Dialog.Title>
+            {bulkAction
+              ? bulkResult
+                ? `${BULK_ACTIONS[bulkAction].label} results`
+                : `${BULK_ACTIONS[bulkAction].label} ${selectedJobIds.length} job${selectedJobIds.length === 1 ? "" : "s"}`
+              : ""}
+          </Dialog.Title>
+          <Dialog.Content>
+            {bulkResult ? (
+              <View>
+                <Text variant="bodyMedium">
+                  {bulkResult.succeeded.length} {bulkAction ? BULK_ACTIONS[bulkAction].verb : "updated"},{" "}
+                  {bulkResult.failures.length} failed.
+                </Text>
+                {bulkResult.failures.map((failure) => (
+                  <Text key={failure.jobId} variant="bodySmall" style={styles.bulkFailure}>
+                    • {jobs.find((job) => job.id === failure.jobId)?.title ?? failure.jobId}: {failure.error}
+                  </Text>
+                ))}
+                {bulkResult.failures.length > 0 && (
+                  <Text variant="bodySmall" style={styles.bulkHint}>
+                    Failed jobs are still selected so you can retry them.
+                  </Text>
+                )}
+              </View>
+            ) : bulkProgress ? (
+              <View>
+                <ProgressBar
+                  progress={bulkProgress.total > 0 ? bulkProgress.done / bulkProgress.total : 0}
+                  color="#3f51b5"
+                />
+                <Text variant="bodySmall" style={styles.bulkHint}>
+                  {bulkProgress.done} of {bulkProgress.total} processed…
+                </Text>
+              </View>
+            ) : (
+              <TextInput
+                mode="outlined"
+                label="Reason (required, applies to every job)"
+                value={bulkReason}
+                onChangeText={setBulkReason}
+                multiline
+              />
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            {bulkResult ? (
+              <Button onPress={closeBulkDialog}>Done</Button>
+            ) : (
+              <>
+                <Button onPress={closeBulkDialog} disabled={bulkProgress !== null}>
+                  Close
+                </Button>
+                <Button
+                  mode="contained"
+                  buttonColor={bulkAction ? BULK_ACTIONS[bulkAction].color : undefined}
+                  onPress={runBulkAction}
+                  loading={bulkProgress !== null}
+                  disabled={bulkProgress !== null || !bulkReason.trim()}
+                >
+                  {bulkAction ? BULK_ACTIONS[bulkAction].label : "Confirm"}
+                </Button>
+              </>
+            )}
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       <FAB
         icon="briefcase-outline"
         onPress={() => Alert.alert("Create Job", "Feature coming soon!")}
@@ -565,6 +776,43 @@ const styles = StyleSheet.create({
     marginRight: 8,
     marginBottom: 8,
   },
+  moderationButton: {
+    alignSelf: "flex-start",
+  },
+  selectionBar: {
+    marginHorizontal: 8,
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: "#e8eaf6",
+  },
+  selectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  selectionText: {
+    fontWeight: "600",
+    color: "#1a237e",
+    marginLeft: 8,
+  },
+  selectionActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  jobCardSelected: {
+    borderWidth: 2,
+    borderColor: "#3f51b5",
+  },
+  bulkFailure: {
+    color: "#d32f2f",
+    marginTop: 4,
+  },
+  bulkHint: {
+    color: "#666",
+    marginTop: 8,
+  },
   statsCard: {
     marginBottom: 16,
     borderRadius: 12,
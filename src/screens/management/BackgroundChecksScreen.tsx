@@ -0,0 +1,430 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {Alert, FlatList, Linking, RefreshControl, ScrollView, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Dialog, HelperText, Portal, Text, TextInput} from 'react-native-paper';
+import {adminApi} from '../../services/apiService';
+import {
+  BACKGROUND_CHECK_STATUS_COLORS,
+  BACKGROUND_CHECK_STATUS_LABELS,
+  BACKGROUND_CHECK_TRANSITIONS,
+  RENEWAL_REMINDER_WINDOW_DAYS,
+  REVIEW_QUEUE_STATUSES,
+  fetchBackgroundChecks,
+  getDaysUntilExpiry,
+  getDefaultExpiryDate,
+  getEffectiveCheckStatus,
+  needsRenewalReminder,
+  reviewBackgroundCheckDocument,
+  sendRenewalReminders,
+  updateBackgroundCheckStatus,
+  type FetchBackgroundChecksOptions,
+} from '../../services/backgroundChecksService';
+import type {
+  BackgroundCheck,
+  BackgroundCheckDocument,
+  BackgroundCheckDocumentStatus,
+  BackgroundCheckStatus,
+} from '../../types';
+
+type QueueFilter = 'queue' | 'expiring' | 'failed' | 'all';
+
+const QUEUE_FILTERS: Array<{label: string; value: QueueFilter; options: FetchBackgroundChecksOptions}> = [
+  {label: 'Review queue', value: 'queue', options: {statuses: REVIEW_QUEUE_STATUSES}},
+  {label: 'Expiring', value: 'expiring', options: {expiringWithinDays: RENEWAL_REMINDER_WINDOW_DAYS}},
+  {label: 'Failed', value: 'failed', options: {statuses: ['failed', 'expired']}},
+  {label: 'All', value: 'all', options: {}},
+];
+
+const DOCUMENT_STATUS_COLORS: Record<BackgroundCheckDocumentStatus, string> = {
+  pending: '#ff9800',
+  approved: '#4caf50',
+  rejected: '#d32f2f',
+};
+
+const TRANSITION_BUTTONS: Partial<Record<BackgroundCheckStatus, {label: string; icon: string; color: string}>> = {
+  in_review: {label: 'Start review', icon: 'magnify', color: '#3f51b5'},
+  passed: {label: 'Pass', icon: 'check-decagram', color: '#4caf50'},
+  failed: {label: 'Fail', icon: 'close-octagon', color: '#d32f2f'},
+  expired: {label: 'Mark expired', icon: 'calendar-remove', color: '#795548'},
+};
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const formatExpiry = (check: BackgroundCheck) => {
+  const days = getDaysUntilExpiry(check);
+  if (days === null) {
+    return 'No expiry date';
+  }
+  if (days < 0) {
+    return `Expired ${formatDate(check.expiryDate)}`;
+  }
+  return `Expires ${formatDate(check.expiryDate)} (${days} day${days === 1 ? '' : 's'})`;
+};
+
+type DecisionDialogState =
+  | {kind: 'check'; check: BackgroundCheck; status: BackgroundCheckStatus; expiryDate: string; notes: string}
+  | {kind: 'document'; document: BackgroundCheckDocument; decision: 'approved' | 'rejected'; notes: string}
+  | null;
+
+export default function BackgroundChecksScreen() {
+  const [filter, setFilter] = useState<QueueFilter>('queue');
+  const [checks, setChecks] = useState<BackgroundCheck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<DecisionDialogState>(null);
+  const [enforced, setEnforced] = useState<boolean | null>(null);
+  const [sendingReminders, setSendingReminders] = useState(false);
+
+  const loadChecks = useCallback(async () => {
+    try {
+      const options = QUEUE_FILTERS.find(entry => entry.value === filter)?.options ?? {};
+      setChecks(await fetchBackgroundChecks(options));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load background checks');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadChecks();
+  }, [loadChecks]);
+
+  useEffect(() => {
+    adminApi
+      .getSettings()
+      .then(response => {
+        const settings = response.data as {backgroundCheckRequired?: boolean} | undefined;
+        setEnforced(typeof settings?.backgroundCheckRequired === 'boolean' ? settings.backgroundCheckRequired : null);
+      })
+      .catch(() => setEnforced(null));
+  }, []);
+
+  const remindersDue = useMemo(() => checks.filter(check => needsRenewalReminder(check)), [checks]);
+
+  const applyTransition = async (check: BackgroundCheck, status: BackgroundCheckStatus, extra: {expiryDate?: string; notes?: string} = {}) => {
+    setBusyId(check.id);
+    try {
+      await updateBackgroundCheckStatus(check, {status, ...extra});
+      setDialog(null);
+      loadChecks();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update background check');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTransition = (check: BackgroundCheck, status: BackgroundCheckStatus) => {
+    if (status === 'passed' || status === 'failed') {
+      setDialog({kind: 'check', check, status, expiryDate: getDefaultExpiryDate(), notes: ''});
+      return;
+    }
+    applyTransition(check, status);
+  };
+
+  const handleDialogConfirm = async () => {
+    if (!dialog) {
+      return;
+    }
+    if (dialog.kind === 'check') {
+      if (dialog.status === 'passed' && !/^\d{4}-\d{2}-\d{2}$/.test(dialog.expiryDate)) {
+        Alert.alert('Invalid date', 'Enter the expiry date as YYYY-MM-DD.');
+        return;
+      }
+      await applyTransition(dialog.check, dialog.status, {
+        expiryDate: dialog.status === 'passed' ? dialog.expiryDate : undefined,
+        notes: dialog.notes,
+      });
+      return;
+    }
+
+    setBusyId(dialog.document.id);
+    try {
+      await reviewBackgroundCheckDocument(dialog.document.id, dialog.decision, dialog.notes);
+      setDialog(null);
+      loadChecks();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to review document');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendReminders = async () => {
+    setSendingReminders(true);
+    try {
+      const {sent, failures} = await sendRenewalReminders(checks);
+      Alert.alert(
+        'Reminders sent',
+        failures.length > 0
+          ? `Sent ${sent} reminder${sent === 1 ? '' : 's'}. Failed for: ${failures.join(', ')}`
+          : `Sent ${sent} reminder${sent === 1 ? '' : 's'}.`,
+      );
+      loadChecks();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send renewal reminders');
+    } finally {
+      setSendingReminders(false);
+    }
+  };
+
+  const openDocument = (document: BackgroundCheckDocument) => {
+    Linking.openURL(document.url).catch(() => Alert.alert('Error', 'Unable to open document'));
+  };
+
+  const renderDocument = (document: BackgroundCheckDocument) => (
+    <View key={document.id} style={styles.document}>
+      <View style={styles.documentHeader}>
+        <Text style={styles.documentName} numberOfLines={1} onPress={() => openDocument(document)}>
+          {document.name}
+        </Text>
+        <Chip compact style={{backgroundColor: DOCUMENT_STATUS_COLORS[document.reviewStatus]}} textStyle={styles.chipText}>
+          {document.reviewStatus.toUpperCase()}
+        </Chip>
+      </View>
+      <Text variant="bodySmall" style={styles.subtleText}>
+        {document.documentType} • Uploaded {formatDate(document.uploadedAt)}
+      </Text>
+      {document.reviewNotes ? <Text variant="bodySmall" style={styles.subtleText}>“{document.reviewNotes}”</Text> : null}
+      <View style={styles.actionsRow}>
+        <Button compact icon="open-in-new" onPress={() => openDocument(document)}>
+          Open
+        </Button>
+        {document.reviewStatus !== 'approved' && (
+          <Button
+            compact
+            icon="check"
+            textColor="#4caf50"
+            disabled={busyId !== null}
+            onPress={() => setDialog({kind: 'document', document, decision: 'approved', notes: ''})}>
+            Approve
+          </Button>
+        )}
+        {document.reviewStatus !== 'rejected' && (
+          <Button
+            compact
+            icon="close"
+            textColor="#d32f2f"
+            disabled={busyId !== null}
+            onPress={() => setDialog({kind: 'document', document, decision: 'rejected', notes: ''})}>
+            Reject
+          </Button>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderCheck = ({item}: {item: BackgroundCheck}) => {
+    const status = getEffectiveCheckStatus(item);
+    const pendingDocuments = item.documents.filter(document => document.reviewStatus === 'pending').length;
+    return (
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text variant="titleMedium" style={styles.title}>
+                {item.caregiver?.name ?? 'Unknown caregiver'}
+              </Text>
+              {item.caregiver?.email ? (
+                <Text variant="bodySmall" style={styles.subtleText}>
+                  {item.caregiver.email}
+                </Text>
+              ) : null}
+            </View>
+            <Chip style={{backgroundColor: BACKGROUND_CHECK_STATUS_COLORS[status]}} textStyle={styles.chipText}>
+              {BACKGROUND_CHECK_STATUS_LABELS[status].toUpperCase()}
+            </Chip>
+          </View>
+
+          <Text variant="bodySmall" style={styles.subtleText}>
+            Submitted {formatDate(item.requestedAt)}
+            {item.provider ? ` • ${item.provider}` : ''}
+            {item.checkTypes.length > 0 ? ` • ${item.checkTypes.join(', ')}` : ''}
+          </Text>
+          {item.status === 'passed' || item.expiryDate ? (
+            <Text variant="bodySmall" style={status === 'passed' ? styles.subtleText : styles.warning}>
+              {formatExpiry(item)}
+              {item.reminderSentAt ? ` • Reminder sent ${formatDate(item.reminderSentAt)}` : ''}
+            </Text>
+          ) : null}
+          {item.notes ? <Text variant="bodySmall" style={styles.notes}>“{item.notes}”</Text> : null}
+
+          <Text style={styles.label}>
+            Documents{pendingDocuments > 0 ? ` (${pendingDocuments} pending)` : ''}
+          </Text>
+          {item.documents.length > 0 ? (
+            item.documents.map(renderDocument)
+          ) : (
+            <Text variant="bodySmall" style={styles.subtleText}>No documents uploaded.</Text>
+          )}
+
+          <View style={styles.actionsRow}>
+            {BACKGROUND_CHECK_TRANSITIONS[item.status].map(next => {
+              const meta = TRANSITION_BUTTONS[next];
+              if (!meta) {
+                return null;
+              }
+              return (
+                <Button
+                  key={next}
+                  mode={next === 'passed' ? 'contained' : 'outlined'}
+                  icon={meta.icon}
+                  buttonColor={next === 'passed' ? meta.color : undefined}
+                  textColor={next === 'passed' ? undefined : meta.color}
+                  onPress={() => handleTransition(item, next)}
+                  loading={busyId === item.id && dialog === null}
+                  disabled={busyId !== null}
+                  style={styles.actionButton}>
+                  {meta.label}
+                </Button>
+              );
+            })}
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  const dialogTitle = (() => {
+    if (!dialog) {
+      return '';
+    }
+    if (dialog.kind === 'document') {
+      return dialog.decision === 'approved' ? 'Approve document' : 'Reject document';
+    }
+    return dialog.status === 'passed' ? 'Pass background check' : 'Fail background check';
+  })();
+
+  const notesRequired =
+    (dialog?.kind === 'check' && dialog.status === 'failed') ||
+    (dialog?.kind === 'document' && dialog.decision === 'rejected');
+  const dialogBusy = dialog !== null && busyId === (dialog.kind === 'check' ? dialog.check.id : dialog.document.id);
+
+  return (
+    <View style={styles.container}>
+      {enforced !== null && (
+        <Text style={[styles.banner, enforced ? styles.bannerOn : styles.bannerOff]}>
+          {enforced
+            ? 'Required: caregivers without a passed, unexpired check cannot be assigned to bookings or jobs.'
+            : 'Not required: background checks are not enforced on assignments. Change this in Settings.'}
+        </Text>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+        {QUEUE_FILTERS.map(entry => (
+          <Chip
+            key={entry.value}
+            selected={filter === entry.value}
+            onPress={() => setFilter(entry.value)}
+            style={styles.filterChip}>
+            {entry.label}
+          </Chip>
+        ))}
+      </ScrollView>
+
+      {filter === 'expiring' && (
+        <Button
+          mode="contained"
+          icon="bell-ring-outline"
+          buttonColor="#3f51b5"
+          onPress={handleSendReminders}
+          loading={sendingReminders}
+          disabled={sendingReminders || remindersDue.length === 0}
+          style={styles.reminderButton}>
+          {remindersDue.length > 0
+            ? `Send renewal reminders (${remindersDue.length})`
+            : 'All expiring caregivers reminded'}
+        </Button>
+      )}
+
+      <FlatList
+        data={checks}
+        keyExtractor={item => item.id}
+        renderItem={renderCheck}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadChecks();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={styles.empty}>{loading ? 'Loading background checks...' : 'No background checks here'}</Text>
+        }
+        contentContainerStyle={styles.list}
+      />
+
+      <Portal>
+        <Dialog visible={dialog !== null} onDismiss={() => setDialog(null)}>
+          <Dialog.Title>{dialogTitle}</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogSummary}>
+              {dialog?.kind === 'check' ? dialog.check.caregiver?.name ?? dialog.check.userId : dialog?.document.name}
+            </Text>
+            {dialog?.kind === 'check' && dialog.status === 'passed' && (
+              <>
+                <TextInput
+                  mode="outlined"
+                  label="Valid until (YYYY-MM-DD)"
+                  value={dialog.expiryDate}
+                  onChangeText={expiryDate => setDialog(prev => (prev?.kind === 'check' ? {...prev, expiryDate} : prev))}
+                />
+                <HelperText type="info">The caregiver is reminded {RENEWAL_REMINDER_WINDOW_DAYS} days before this date.</HelperText>
+              </>
+            )}
+            <TextInput
+              mode="outlined"
+              multiline
+              label={notesRequired ? 'Reason (shared with the caregiver)' : 'Notes (optional)'}
+              value={dialog?.notes ?? ''}
+              onChangeText={notes => setDialog(prev => (prev ? {...prev, notes} : prev))}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDialog(null)}>Cancel</Button>
+            <Button
+              mode="contained"
+              buttonColor={notesRequired ? '#d32f2f' : '#3f51b5'}
+              onPress={handleDialogConfirm}
+              loading={dialogBusy}
+              disabled={dialogBusy || (notesRequired && !dialog?.notes.trim())}>
+              Confirm
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: '#f5f5f5'},
+  banner: {paddingHorizontal: 16, paddingVertical: 8, fontSize: 12},
+  bannerOn: {backgroundColor: '#e8f5e9', color: '#2e7d32'},
+  bannerOff: {backgroundColor: '#fff3e0', color: '#e65100'},
+  filters: {flexGrow: 0, paddingHorizontal: 12, paddingVertical: 12},
+  filterChip: {marginRight: 8},
+  reminderButton: {marginHorizontal: 16, marginBottom: 12},
+  list: {paddingHorizontal: 16, paddingBottom: 16},
+  card: {marginBottom: 12},
+  header: {flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8},
+  headerText: {flex: 1, marginRight: 8},
+  title: {fontWeight: 'bold'},
+  chipText: {color: '#fff', fontSize: 10},
+  subtleText: {color: '#666', marginTop: 2},
+  warning: {color: '#e65100', marginTop: 2, fontWeight: 'bold'},
+  notes: {fontStyle: 'italic', color: '#555', marginTop: 4},
+  label: {fontWeight: 'bold', color: '#666', marginTop: 12, marginBottom: 4},
+  document: {paddingVertical: 8, borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: '#e0e0e0'},
+  documentHeader: {flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center'},
+  documentName: {flex: 1, color: '#3f51b5', marginRight: 8},
+  actionsRow: {flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', marginTop: 4},
+  actionButton: {marginRight: 8, marginTop: 8},
+  dialogSummary: {marginBottom: 12},
+  empty: {textAlign: 'center', color: '#666', marginTop: 24},
+});
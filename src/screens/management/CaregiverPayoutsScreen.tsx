@@ -0,0 +1,444 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {Alert, RefreshControl, ScrollView, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Dialog, HelperText, IconButton, Portal, Text, TextInput} from 'react-native-paper';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {
+  PAYOUT_STATUS_COLORS,
+  PAYOUT_STATUS_LABELS,
+  fetchPayoutStatements,
+  fetchPayouts,
+  fetchPlatformFeeRate,
+  formatPayoutPeriod,
+  getMonthPeriod,
+  markPayoutFailed,
+  markPayoutSent,
+  retryPayout,
+  schedulePayout,
+} from '../../services/payoutsService';
+import {exportPayoutStatement, type PayoutStatementFormat} from '../../services/payoutStatementExportService';
+import PayoutSummary from '../../components/payments/PayoutSummary';
+import {PERMISSIONS} from '../../config/permissions';
+import {usePermission} from '../../hooks/usePermission';
+import type {CaregiverPayout, CaregiverPayoutStatus, PayoutStatement} from '../../types';
+
+type CaregiverPayoutsStackParamList = {
+  CaregiverPayouts: undefined;
+  UserDetail: {userId: string};
+};
+
+type PayoutTab = 'drafts' | 'payouts';
+
+type DialogState =
+  | {kind: 'schedule'; statement: PayoutStatement; date: string}
+  | {kind: 'sent'; payout: CaregiverPayout; reference: string}
+  | {kind: 'failed'; payout: CaregiverPayout; reason: string}
+  | {kind: 'retry'; payout: CaregiverPayout; date: string}
+  | null;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatPeso = (value: number) =>
+  `₱${value.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export default function CaregiverPayoutsScreen() {
+  const navigation = useNavigation<StackNavigationProp<CaregiverPayoutsStackParamList>>();
+  const canUpdatePayments = usePermission(PERMISSIONS.PAYMENTS_UPDATE);
+
+  // Default to last month: the current month is usually still being worked.
+  const [monthOffset, setMonthOffset] = useState(-1);
+  const [feeRate, setFeeRate] = useState<number | null>(null);
+  const [tab, setTab] = useState<PayoutTab>('drafts');
+  const [statusFilter, setStatusFilter] = useState<CaregiverPayoutStatus | 'all'>('all');
+  const [statements, setStatements] = useState<PayoutStatement[]>([]);
+  const [payouts, setPayouts] = useState<CaregiverPayout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialog, setDialog] = useState<DialogState>(null);
+
+  const period = useMemo(() => getMonthPeriod(monthOffset), [monthOffset]);
+
+  const loadPayouts = useCallback(async () => {
+    try {
+      const [rate, periodPayouts] = await Promise.all([fetchPlatformFeeRate(), fetchPayouts({period})]);
+      const draftStatements = await fetchPayoutStatements(period, rate);
+      setFeeRate(rate);
+      setStatements(draftStatements);
+      setPayouts(periodPayouts);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load payouts');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadPayouts();
+  }, [loadPayouts]);
+
+  const visiblePayouts = useMemo(
+    () => (statusFilter === 'all' ? payouts : payouts.filter(payout => payout.status === statusFilter)),
+    [payouts, statusFilter],
+  );
+
+  const totals = useMemo(
+    () => ({
+      drafts: statements.reduce((total, statement) => total + statement.netAmount, 0),
+      fees:
+        statements.reduce((total, statement) => total + statement.feeAmount, 0) +
+        payouts.reduce((total, payout) => total + payout.feeAmount, 0),
+      byStatus: payouts.reduce<Record<CaregiverPayoutStatus, number>>(
+        (acc, payout) => {
+          acc[payout.status] += payout.netAmount;
+          return acc;
+        },
+        {scheduled: 0, sent: 0, failed: 0},
+      ),
+    }),
+    [payouts, statements],
+  );
+
+  const handleExport = async (statement: PayoutStatement | CaregiverPayout, format: PayoutStatementFormat) => {
+    try {
+      await exportPayoutStatement(statement, format);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export statement');
+    }
+  };
+
+  const handleDialogConfirm = async () => {
+    if (!dialog) {
+      return;
+    }
+    if ((dialog.kind === 'schedule' || dialog.kind === 'retry') && !DATE_PATTERN.test(dialog.date)) {
+      Alert.alert('Invalid date', 'Enter the payout date as YYYY-MM-DD.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (dialog.kind === 'schedule') {
+        await schedulePayout(dialog.statement, dialog.date);
+      } else if (dialog.kind === 'sent') {
+        await markPayoutSent(dialog.payout, dialog.reference);
+      } else if (dialog.kind === 'failed') {
+        await markPayoutFailed(dialog.payout, dialog.reason);
+      } else {
+        await retryPayout(dialog.payout, dialog.date);
+      }
+      setDialog(null);
+      await loadPayouts();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update payout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCaregiver = (statement: PayoutStatement) => (
+    <View style={styles.flex}>
+      <Text
+        variant="titleMedium"
+        style={styles.caregiverName}
+        onPress={statement.caregiver.id ? () => navigation.navigate('UserDetail', {userId: statement.caregiver.id!}) : undefined}>
+        {statement.caregiver.name ?? statement.caregiver.email ?? 'Unknown caregiver'}
+      </Text>
+      {statement.caregiver.email && statement.caregiver.name ? (
+        <Text variant="bodySmall" style={styles.subtleText}>
+          {statement.caregiver.email}
+        </Text>
+      ) : null}
+    </View>
+  );
+
+  const renderExportButtons = (statement: PayoutStatement | CaregiverPayout) => (
+    <>
+      <Button compact icon="file-delimited-outline" onPress={() => handleExport(statement, 'csv')}>
+        CSV
+      </Button>
+      <Button compact icon="file-document-outline" onPress={() => handleExport(statement, 'pdf')}>
+        Statement
+      </Button>
+    </>
+  );
+
+  const renderStatement = (statement: PayoutStatement) => (
+    <Card key={statement.caregiver.id ?? statement.caregiver.email} style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>{renderCaregiver(statement)}</View>
+        <PayoutSummary statement={statement} />
+        <View style={styles.actionsRow}>
+          {renderExportButtons(statement)}
+          {canUpdatePayments ? (
+            <Button
+              compact
+              mode="contained"
+              icon="calendar-check"
+              onPress={() => setDialog({kind: 'schedule', statement, date: today()})}
+              disabled={saving}>
+              Schedule
+            </Button>
+          ) : null}
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  const renderPayout = (payout: CaregiverPayout) => (
+    <Card key={payout.id} style={styles.card}>
+      <Card.Content>
+        <View style={styles.cardHeader}>
+          {renderCaregiver(payout)}
+          <Chip
+            compact
+            style={{backgroundColor: PAYOUT_STATUS_COLORS[payout.status]}}
+            textStyle={styles.chipText}>
+            {PAYOUT_STATUS_LABELS[payout.status]}
+          </Chip>
+        </View>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          {payout.status === 'sent' && payout.sentAt
+            ? `Sent ${new Date(payout.sentAt).toLocaleString()}`
+            : `Scheduled for ${formatDate(payout.scheduledFor)}`}
+          {payout.reference ? ` • Ref ${payout.reference}` : ''}
+        </Text>
+        {payout.failureReason ? (
+          <Text variant="bodySmall" style={styles.errorText}>
+            Failed{payout.failedAt ? ` ${new Date(payout.failedAt).toLocaleString()}` : ''}: {payout.failureReason}
+          </Text>
+        ) : null}
+        <View style={styles.summary}>
+          <PayoutSummary statement={payout} />
+        </View>
+        <View style={styles.actionsRow}>
+          {renderExportButtons(payout)}
+          {canUpdatePayments && payout.status === 'scheduled' ? (
+            <>
+              <Button
+                compact
+                icon="alert-circle-outline"
+                textColor="#d32f2f"
+                onPress={() => setDialog({kind: 'failed', payout, reason: ''})}
+                disabled={saving}>
+                Failed
+              </Button>
+              <Button
+                compact
+                mode="contained"
+                icon="send"
+                onPress={() => setDialog({kind: 'sent', payout, reference: ''})}
+                disabled={saving}>
+                Mark sent
+              </Button>
+            </>
+          ) : null}
+          {canUpdatePayments && payout.status === 'failed' ? (
+            <Button
+              compact
+              mode="contained"
+              icon="refresh"
+              onPress={() => setDialog({kind: 'retry', payout, date: today()})}
+              disabled={saving}>
+              Retry
+            </Button>
+          ) : null}
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  const renderDialog = () => {
+    if (!dialog) {
+      return null;
+    }
+    const titles = {
+      schedule: 'Schedule payout',
+      sent: 'Mark payout as sent',
+      failed: 'Mark payout as failed',
+      retry: 'Retry payout',
+    };
+    const subject = dialog.kind === 'schedule' ? dialog.statement : dialog.payout;
+
+    return (
+      <Dialog visible onDismiss={() => setDialog(null)}>
+        <Dialog.Title>{titles[dialog.kind]}</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.dialogText}>
+            {formatPeso(subject.netAmount)} to {subject.caregiver.name ?? subject.caregiver.email ?? 'the caregiver'} for{' '}
+            {formatPayoutPeriod(subject.period)}.
+          </Text>
+          {dialog.kind === 'schedule' || dialog.kind === 'retry' ? (
+            <TextInput
+              mode="outlined"
+              label="Pay on (YYYY-MM-DD)"
+              value={dialog.date}
+              onChangeText={date => setDialog({...dialog, date})}
+            />
+          ) : null}
+          {dialog.kind === 'schedule' ? (
+            <HelperText type="info">
+              The amounts are locked in when scheduled. Payments refunded or paid out since this list loaded are rejected, and a refund before the payout is sent takes that payment out of it.
+            </HelperText>
+          ) : null}
+          {dialog.kind === 'sent' ? (
+            <TextInput
+              mode="outlined"
+              label="Transfer reference (optional)"
+              value={dialog.reference}
+              onChangeText={reference => setDialog({...dialog, reference})}
+            />
+          ) : null}
+          {dialog.kind === 'failed' ? (
+            <TextInput
+              mode="outlined"
+              label="What went wrong?"
+              value={dialog.reason}
+              onChangeText={reason => setDialog({...dialog, reason})}
+              multiline
+            />
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setDialog(null)}>Cancel</Button>
+          <Button mode="contained" onPress={handleDialogConfirm} loading={saving} disabled={saving}>
+            Confirm
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadPayouts();
+            }}
+          />
+        }>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.periodRow}>
+              <IconButton icon="chevron-left" onPress={() => setMonthOffset(offset => offset - 1)} />
+              <Text variant="titleMedium" style={styles.periodLabel}>
+                {formatPayoutPeriod(period)}
+              </Text>
+              <IconButton
+                icon="chevron-right"
+                onPress={() => setMonthOffset(offset => offset + 1)}
+                disabled={monthOffset >= 0}
+              />
+            </View>
+            <HelperText type="info">
+              {feeRate === null
+                ? 'Loading platform fee...'
+                : `Platform fee of ${Math.round(feeRate * 10000) / 100}% from system settings. Scheduled payouts keep the rate they were created with.`}
+            </HelperText>
+            <View style={styles.totalsRow}>
+              <View style={styles.total}>
+                <Text style={styles.totalValue}>{formatPeso(totals.drafts)}</Text>
+                <Text style={styles.totalLabel}>To schedule</Text>
+              </View>
+              <View style={styles.total}>
+                <Text style={styles.totalValue}>{formatPeso(totals.byStatus.scheduled)}</Text>
+                <Text style={styles.totalLabel}>Scheduled</Text>
+              </View>
+              <View style={styles.total}>
+                <Text style={styles.totalValue}>{formatPeso(totals.byStatus.sent)}</Text>
+                <Text style={styles.totalLabel}>Sent</Text>
+              </View>
+              <View style={styles.total}>
+                <Text style={styles.totalValue}>{formatPeso(totals.fees)}</Text>
+                <Text style={styles.totalLabel}>Platform fees</Text>
+              </View>
+            </View>
+            {totals.byStatus.failed ? (
+              <Text variant="bodySmall" style={styles.errorText}>
+                {formatPeso(totals.byStatus.failed)} in failed payouts needs attention.
+              </Text>
+            ) : null}
+          </Card.Content>
+        </Card>
+
+        <View style={styles.chipRow}>
+          <Chip selected={tab === 'drafts'} onPress={() => setTab('drafts')} style={styles.chip}>
+            {`Ready to schedule (${statements.length})`}
+          </Chip>
+          <Chip selected={tab === 'payouts'} onPress={() => setTab('payouts')} style={styles.chip}>
+            {`Payouts (${payouts.length})`}
+          </Chip>
+        </View>
+
+        {tab === 'payouts' ? (
+          <View style={styles.chipRow}>
+            {(['all', 'scheduled', 'sent', 'failed'] as const).map(status => (
+              <Chip
+                key={status}
+                compact
+                selected={statusFilter === status}
+                onPress={() => setStatusFilter(status)}
+                style={styles.chip}>
+                {status === 'all' ? 'All' : PAYOUT_STATUS_LABELS[status]}
+              </Chip>
+            ))}
+          </View>
+        ) : null}
+
+        {loading ? (
+          <Text style={styles.empty}>Loading payouts...</Text>
+        ) : tab === 'drafts' ? (
+          statements.length === 0 ? (
+            <Text style={styles.empty}>Every collected payment in this period has been scheduled.</Text>
+          ) : (
+            statements.map(renderStatement)
+          )
+        ) : visiblePayouts.length === 0 ? (
+          <Text style={styles.empty}>No payouts for this period.</Text>
+        ) : (
+          visiblePayouts.map(renderPayout)
+        )}
+      </ScrollView>
+
+      <Portal>{renderDialog()}</Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: '#f5f5f5'},
+  content: {padding: 16, paddingBottom: 32},
+  card: {marginBottom: 12, backgroundColor: '#fff'},
+  flex: {flex: 1},
+  periodRow: {flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between'},
+  periodLabel: {fontWeight: 'bold', textAlign: 'center', flex: 1},
+  totalsRow: {flexDirection: 'row', justifyContent: 'space-between', marginTop: 4},
+  total: {flex: 1, alignItems: 'center'},
+  totalValue: {fontWeight: 'bold', fontSize: 14, color: '#212121'},
+  totalLabel: {fontSize: 11, color: '#666'},
+  chipRow: {flexDirection: 'row', flexWrap: 'wrap', marginBottom: 8},
+  chip: {marginRight: 8, marginBottom: 4},
+  cardHeader: {flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8},
+  caregiverName: {fontWeight: 'bold', color: '#3f51b5'},
+  chipText: {color: '#fff', fontSize: 11},
+  subtleText: {color: '#666'},
+  errorText: {color: '#d32f2f', marginTop: 4},
+  summary: {marginTop: 8},
+  actionsRow: {flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'flex-end', marginTop: 8, gap: 4},
+  dialogText: {marginBottom: 12},
+  empty: {textAlign: 'center', color: '#666', marginTop: 24},
+});
@@ -7,8 +7,10 @@ import {
   Button,
   Card,
   Chip,
+  Dialog,
   FAB,
   List,
+  Portal,
   Searchbar,
   Surface,
   Text,
@@ -18,12 +20,15 @@ import {
 import {Icon} from 'react-native-elements';
 import type {MD3Theme} from 'react-native-paper';
 import {ChildProfile} from '../../types';
+import {requestDeleteChildApproval} from '../../services/approvalsService';
 import {
   updateChildNotes,
-  deleteChildProfile,
 } from '../../services/childrenService';
 import {useOrganization} from '../../contexts/OrganizationContext';
 import {useChildren} from '../../hooks/useChildren';
+import {usePermissions} from '../../hooks/usePermission';
+import PermissionGuard from '../../components/PermissionGuard';
+import {PERMISSIONS} from '../../config/permissions';
 
 type RiskFilter = 'all' | 'allergies' | 'notes' | 'specialNeeds';
 
@@ -92,7 +97,10 @@ export default function ChildrenManagementScreen() {
   const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
   const [saveLoadingId, setSaveLoadingId] = useState<string | null>(null);
   const [deleteLoadingId, setDeleteLoadingId] = useState<string | null>(null);
+  const [deleteDialog, setDeleteDialog] = useState<{child: ChildProfile | null; reason: string}>({child: null, reason: ''});
   const debouncedQuery = useDebouncedValue(searchQuery);
+  const {can} = usePermissions();
+  const canEditChildren = can(PERMISSIONS.CHILDREN_EDIT);
 
   const stats = useMemo<ChildrenStats>(() => {
     return children.reduce(
@@ -181,40 +189,32 @@ export default function ChildrenManagementScreen() {
     [refresh, noteDrafts],
   );
 
-  const handleDelete = useCallback(
-    (child: ChildProfile) => {
-      Alert.alert(
-        'Remove Child Profile',
-        `Are you sure you want to remove ${child.name}'s profile? This action cannot be undone.`,
-        [
-          {text: 'Cancel', style: 'cancel'},
-          {
-            text: 'Delete',
-            style: 'destructive',
-            onPress: async () => {
-              setDeleteLoadingId(child.id);
-              try {
-                await deleteChildProfile(child.id);
-                setNoteDrafts(prev => {
-                  const next = {...prev};
-                  delete next[child.id];
-                  return next;
-                });
-                await refresh();
-                Alert.alert('Deleted', 'Child profile removed.');
-              } catch (error) {
-                const message = error instanceof Error ? error.message : 'Failed to delete child profile';
-                Alert.alert('Error', message);
-              } finally {
-                setDeleteLoadingId(null);
-              }
-            },
-          },
-        ],
-      );
-    },
-    [refresh],
-  );
+  const handleDelete = useCallback((child: ChildProfile) => {
+    setDeleteDialog({child, reason: ''});
+  }, []);
+
+  const confirmDeleteRequest = useCallback(async () => {
+    const {child, reason} = deleteDialog;
+    if (!child) {
+      return;
+    }
+    if (!reason.trim()) {
+      Alert.alert('Reason required', 'Explain why this profile should be removed so the approving admin can review it.');
+      return;
+    }
+
+    setDeleteLoadingId(child.id);
+    try {
+      await requestDeleteChildApproval(child, reason);
+      setDeleteDialog({child: null, reason: ''});
+      Alert.alert('Approval requested', `${child.name}'s profile will be removed once another admin approves.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to request approval';
+      Alert.alert('Error', message);
+    } finally {
+      setDeleteLoadingId(null);
+    }
+  }, [deleteDialog]);
 
   const renderStatsCard = useCallback(
     (icon: string, label: string, value: number, styleKey: StatIconStyleKey) => (
@@ -337,6 +337,7 @@ export default function ChildrenManagementScreen() {
               value={notesValue ?? ''}
               onChangeText={text => handleNotesChange(item.id, text)}
               style={styles.notesInput}
+              editable={canEditChildren}
               multiline
             />
 
@@ -346,26 +347,28 @@ export default function ChildrenManagementScreen() {
                 icon="content-save"
                 onPress={() => handleUpdate(item)}
                 loading={saveLoadingId === item.id}
-                disabled={saveLoadingId === item.id}
+                disabled={!canEditChildren || saveLoadingId === item.id}
                 style={styles.actionButton}>
                 Save Notes
               </Button>
-              <Button
-                mode="outlined"
-                icon="delete"
-                textColor={theme.colors.error}
-                onPress={() => handleDelete(item)}
-                loading={deleteLoadingId === item.id}
-                disabled={deleteLoadingId === item.id}
-                style={styles.actionButton}>
-                Remove
-              </Button>
+              <PermissionGuard permission={PERMISSIONS.CHILDREN_DELETE}>
+                <Button
+                  mode="outlined"
+                  icon="delete"
+                  textColor={theme.colors.error}
+                  onPress={() => handleDelete(item)}
+                  loading={deleteLoadingId === item.id}
+                  disabled={deleteLoadingId === item.id}
+                  style={styles.actionButton}>
+                  Remove
+                </Button>
+              </PermissionGuard>
             </View>
           </View>
         </Surface>
       );
     },
-    [deleteLoadingId, handleDelete, handleNotesChange, handleUpdate, noteDrafts, saveLoadingId, theme.colors.error],
+    [canEditChildren, deleteLoadingId, handleDelete, handleNotesChange, handleUpdate, noteDrafts, saveLoadingId, theme.colors.error],
   );
 
   const renderEmptyComponent = useCallback(() => {
@@ -425,6 +428,35 @@ export default function ChildrenManagementScreen() {
       />
 
       <FAB icon="refresh" style={styles.fab} onPress={handleRefresh} disabled={loading} />
+
+      <Portal>
+        <Dialog visible={!!deleteDialog.child} onDismiss={() => setDeleteDialog({child: null, reason: ''})}>
+          <Dialog.Title>Remove Child Profile</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              {`Request removal of ${deleteDialog.child?.name ?? 'this child'}'s profile. A second admin must approve before it is deleted.`}
+            </Text>
+            <TextInput
+              mode="outlined"
+              label="Reason"
+              value={deleteDialog.reason}
+              onChangeText={reason => setDeleteDialog(prev => ({...prev, reason}))}
+              style={styles.notesInput}
+              multiline
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setDeleteDialog({child: null, reason: ''})}>Cancel</Button>
+            <Button
+              mode="contained"
+              buttonColor={theme.colors.error}
+              onPress={confirmDeleteRequest}
+              loading={!!deleteDialog.child && deleteLoadingId === deleteDialog.child.id}>
+              Request Removal
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </View>
   );
 }
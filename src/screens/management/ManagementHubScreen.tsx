@@ -8,6 +8,10 @@ import {useChildren} from '../../hooks/useChildren';
 import {useOrganization} from '../../contexts/OrganizationContext';
 import {fetchReviews} from '../../services/reviewsService';
 import {fetchNotificationStats} from '../../services/notificationsService';
+import {fetchApprovals} from '../../services/approvalsService';
+import {REVIEW_QUEUE_STATUSES, fetchBackgroundChecks} from '../../services/backgroundChecksService';
+import {usePermissions} from '../../hooks/usePermission';
+import {PERMISSIONS, type Permission} from '../../config/permissions';
 
 interface ManagementItem {
   title: string;
@@ -17,6 +21,7 @@ interface ManagementItem {
   color: string;
   route: keyof ManagementRoutes;
   count?: number;
+  permission?: Permission;
 }
 
 export type ManagementRoutes = {
@@ -25,7 +30,10 @@ export type ManagementRoutes = {
   NotificationsManagement: undefined;
   AnalyticsManagement: undefined;
   PaymentsManagement: undefined;
+  CaregiverPayouts: undefined;
   PointsManagement: undefined; // Added Points Management
+  Approvals: undefined;
+  BackgroundChecks: undefined;
 };
 
 export default function ManagementHubScreen() {
@@ -34,12 +42,15 @@ export default function ManagementHubScreen() {
   const {width} = Dimensions.get('window');
   const isTablet = width >= 768;
   const {organizationId} = useOrganization();
+  const {can} = usePermissions();
 
   const {children, loading: childrenLoading} = useChildren({organizationId});
   const [reviewCount, setReviewCount] = useState<number>(0);
   const [reviewsLoading, setReviewsLoading] = useState<boolean>(true);
   const [notificationsLoading, setNotificationsLoading] = useState<boolean>(true);
   const [unreadNotifications, setUnreadNotifications] = useState<number>(0);
+  const [pendingApprovals, setPendingApprovals] = useState<number>(0);
+  const [pendingBackgroundChecks, setPendingBackgroundChecks] = useState<number>(0);
 
   useFocusEffect(
     useCallback(() => {
@@ -49,9 +60,11 @@ export default function ManagementHubScreen() {
         setReviewsLoading(true);
         setNotificationsLoading(true);
 
-        const [reviewsResult, statsResult] = await Promise.allSettled([
+        const [reviewsResult, statsResult, approvalsResult, checksResult] = await Promise.allSettled([
           fetchReviews(),
           fetchNotificationStats(),
+          fetchApprovals({status: 'pending', limit: 1}),
+          fetchBackgroundChecks({statuses: REVIEW_QUEUE_STATUSES}),
         ]);
 
         if (!active) {
@@ -72,6 +85,20 @@ export default function ManagementHubScreen() {
           setUnreadNotifications(0);
         }
 
+        if (approvalsResult.status === 'fulfilled') {
+          setPendingApprovals(approvalsResult.value.pagination.total);
+        } else {
+          console.error('[ManagementHub] Failed to load pending approvals', approvalsResult.reason);
+          setPendingApprovals(0);
+        }
+
+        if (checksResult.status === 'fulfilled') {
+          setPendingBackgroundChecks(checksResult.value.length);
+        } else {
+          console.error('[ManagementHub] Failed to load background check queue', checksResult.reason);
+          setPendingBackgroundChecks(0);
+        }
+
         setReviewsLoading(false);
         setNotificationsLoading(false);
       };
@@ -124,7 +151,16 @@ export default function ManagementHubScreen() {
       description: 'Transaction oversight',
       icon: 'payment',
       color: '#f44336',
-      route: 'PaymentsManagement'
+      route: 'PaymentsManagement',
+      permission: PERMISSIONS.PAYMENTS_VIEW,
+    },
+    {
+      title: 'Payouts',
+      description: 'Caregiver earnings & statements',
+      icon: 'account-balance-wallet',
+      color: '#795548',
+      route: 'CaregiverPayouts',
+      permission: PERMISSIONS.PAYMENTS_VIEW,
     },
     {
       title: 'Points System',
@@ -133,6 +169,23 @@ export default function ManagementHubScreen() {
       color: '#ff5722',
       route: 'PointsManagement'
     },
+    {
+      title: 'Approvals',
+      description: 'Review destructive actions',
+      icon: 'how-to-reg',
+      color: '#607d8b',
+      route: 'Approvals',
+      count: pendingApprovals,
+    },
+    {
+      title: 'Background Checks',
+      description: 'Review caregiver checks',
+      icon: 'verified-user',
+      color: '#009688',
+      route: 'BackgroundChecks',
+      count: pendingBackgroundChecks,
+      permission: PERMISSIONS.USERS_EDIT,
+    },
   ];
 
   const handleNavigate = (route: ManagementItem['route']) => {
@@ -199,7 +252,7 @@ export default function ManagementHubScreen() {
       </View>
       
       <View style={[styles.grid, isTablet && styles.gridTablet]}>
-        {MANAGEMENT_ITEMS.map(renderItem)}
+        {MANAGEMENT_ITEMS.filter(item => !item.permission || can(item.permission)).map(renderItem)}
       </View>
     </ScrollView>
   );
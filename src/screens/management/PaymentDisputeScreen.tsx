@@ -0,0 +1,536 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {Alert, RefreshControl, ScrollView, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Dialog, HelperText, Portal, Text, TextInput} from 'react-native-paper';
+import {RouteProp, useNavigation, useRoute} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {getPaymentById, getRefundableAmount} from '../../services/paymentsService';
+import {
+  DEFAULT_EVIDENCE_WINDOW_DAYS,
+  DEFAULT_RESOLUTION_WINDOW_DAYS,
+  PAYMENT_DISPUTE_OUTCOME_LABELS,
+  PAYMENT_DISPUTE_PARTY_LABELS,
+  PAYMENT_DISPUTE_STATUS_COLORS,
+  PAYMENT_DISPUTE_STATUS_LABELS,
+  addDisputeStatement,
+  fetchDisputeForPayment,
+  getDisputeDeadlines,
+  isAwaitingRefundApproval,
+  isDisputeActive,
+  openPaymentDispute,
+  resolvePaymentDispute,
+  startDisputeReview,
+  updateDisputeDeadlines,
+} from '../../services/paymentDisputesService';
+import ProofFindingsList from '../../components/payments/ProofFindingsList';
+import ProofComparisonDialog from '../../components/payments/ProofComparisonDialog';
+import PermissionGuard from '../../components/PermissionGuard';
+import {PERMISSIONS} from '../../config/permissions';
+import {usePermission} from '../../hooks/usePermission';
+import type {
+  PaymentDispute,
+  PaymentDisputeOutcome,
+  PaymentDisputeParty,
+  PaymentProofInfo,
+  PaymentProofMatch,
+  PaymentRecord,
+} from '../../types';
+
+type PaymentDisputeStackParamList = {
+  PaymentDispute: {paymentId: string};
+  BookingDetail: {bookingId: string};
+  Approvals: undefined;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatPeso = (value: number) => `₱${value.toLocaleString(undefined, {minimumFractionDigits: 2})}`;
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+/** ISO timestamp `days` from now, or null when the input is not a positive number. */
+const daysFromNow = (days: string) => {
+  const value = Number(days);
+  return Number.isFinite(value) && value > 0 ? new Date(Date.now() + value * DAY_MS).toISOString() : null;
+};
+
+type DialogState =
+  | {kind: 'statement'; party: PaymentDisputeParty; body: string}
+  | {kind: 'deadlines'; evidenceDays: string; resolutionDays: string}
+  | {kind: 'resolve'; outcome: PaymentDisputeOutcome; amount: string; notes: string}
+  | null;
+
+export default function PaymentDisputeScreen() {
+  const route = useRoute<RouteProp<PaymentDisputeStackParamList, 'PaymentDispute'>>();
+  const navigation = useNavigation<StackNavigationProp<PaymentDisputeStackParamList>>();
+  const {paymentId} = route.params;
+  const canUpdatePayments = usePermission(PERMISSIONS.PAYMENTS_UPDATE);
+
+  const [payment, setPayment] = useState<PaymentRecord | null>(null);
+  const [dispute, setDispute] = useState<PaymentDispute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [comparison, setComparison] = useState<{proof: PaymentProofInfo; match: PaymentProofMatch} | null>(null);
+  const [openForm, setOpenForm] = useState({
+    reason: '',
+    evidenceDays: String(DEFAULT_EVIDENCE_WINDOW_DAYS),
+    resolutionDays: String(DEFAULT_RESOLUTION_WINDOW_DAYS),
+  });
+
+  const loadDispute = useCallback(async () => {
+    try {
+      const [paymentResult, disputeResult] = await Promise.all([
+        getPaymentById(paymentId),
+        fetchDisputeForPayment(paymentId),
+      ]);
+      setPayment(paymentResult);
+      setDispute(disputeResult);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load dispute');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [paymentId]);
+
+  useEffect(() => {
+    loadDispute();
+  }, [loadDispute]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage?: string) => {
+    setSaving(true);
+    try {
+      await action();
+      setDialog(null);
+      await loadDispute();
+      if (successMessage) {
+        Alert.alert('Success', successMessage);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update dispute');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpen = () => {
+    if (!payment) {
+      return;
+    }
+    const evidenceDueAt = daysFromNow(openForm.evidenceDays);
+    const resolveBy = daysFromNow(openForm.resolutionDays);
+    if (!evidenceDueAt || !resolveBy) {
+      Alert.alert('Invalid deadlines', 'Enter the number of days for each deadline.');
+      return;
+    }
+    runAction(
+      () => openPaymentDispute(payment, {reason: openForm.reason, evidenceDueAt, resolveBy}),
+      'Dispute opened. Both parties have been notified.',
+    );
+  };
+
+  const handleDialogConfirm = () => {
+    if (!dialog || !dispute || !payment) {
+      return;
+    }
+    if (dialog.kind === 'statement') {
+      runAction(() => addDisputeStatement(dispute, dialog.party, dialog.body));
+      return;
+    }
+    if (dialog.kind === 'deadlines') {
+      const evidenceDueAt = daysFromNow(dialog.evidenceDays);
+      const resolveBy = daysFromNow(dialog.resolutionDays);
+      if (!evidenceDueAt || !resolveBy) {
+        Alert.alert('Invalid deadlines', 'Enter the number of days for each deadline.');
+        return;
+      }
+      runAction(() => updateDisputeDeadlines(dispute, {evidenceDueAt, resolveBy}));
+      return;
+    }
+    runAction(
+      () =>
+        resolvePaymentDispute(dispute, payment, {
+          outcome: dialog.outcome,
+          amount: dialog.outcome === 'partial_refund' ? Number(dialog.amount) : undefined,
+          notes: dialog.notes,
+        }),
+      dialog.outcome === 'release_to_caregiver'
+        ? 'Dispute resolved and payment released to the caregiver.'
+        : 'Refund sent for approval. The dispute stays under review until a second admin approves it.',
+    );
+  };
+
+  const renderOpenForm = () => (
+    <Card style={styles.card}>
+      <Card.Title title="Open a dispute" />
+      <Card.Content>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          The payment is marked disputed and both parties are asked for statements and evidence.
+        </Text>
+        <TextInput
+          mode="outlined"
+          label="Reason"
+          value={openForm.reason}
+          onChangeText={reason => setOpenForm(prev => ({...prev, reason}))}
+          multiline
+          style={styles.input}
+        />
+        <View style={styles.row}>
+          <TextInput
+            mode="outlined"
+            label="Evidence due (days)"
+            value={openForm.evidenceDays}
+            onChangeText={evidenceDays => setOpenForm(prev => ({...prev, evidenceDays}))}
+            keyboardType="number-pad"
+            style={[styles.input, styles.rowInput]}
+          />
+          <TextInput
+            mode="outlined"
+            label="Decide by (days)"
+            value={openForm.resolutionDays}
+            onChangeText={resolutionDays => setOpenForm(prev => ({...prev, resolutionDays}))}
+            keyboardType="number-pad"
+            style={[styles.input, styles.rowInput]}
+          />
+        </View>
+        <Button
+          mode="contained"
+          icon="gavel"
+          onPress={handleOpen}
+          loading={saving}
+          disabled={saving || !canUpdatePayments || !openForm.reason.trim()}>
+          Open dispute
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+
+  const renderDispute = (current: PaymentDispute) => {
+    const active = isDisputeActive(current);
+    const awaitingApproval = isAwaitingRefundApproval(current);
+    const {evidenceClosed, resolutionOverdue} = getDisputeDeadlines(current);
+
+    return (
+      <>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.header}>
+              <Text variant="titleMedium" style={styles.title}>
+                Dispute
+              </Text>
+              <Chip
+                compact
+                style={{backgroundColor: PAYMENT_DISPUTE_STATUS_COLORS[current.status]}}
+                textStyle={styles.chipText}>
+                {PAYMENT_DISPUTE_STATUS_LABELS[current.status]}
+              </Chip>
+            </View>
+            <Text variant="bodyMedium">{current.reason}</Text>
+            <Text variant="bodySmall" style={styles.subtleText}>
+              Opened {formatDateTime(current.createdAt)}
+              {current.openedBy ? ` by ${current.openedBy.name ?? current.openedBy.email}` : ''}
+            </Text>
+            <Text variant="bodySmall" style={[styles.subtleText, active && evidenceClosed ? styles.closedText : null]}>
+              Evidence {evidenceClosed ? 'closed' : 'due'} {formatDateTime(current.evidenceDueAt)}
+            </Text>
+            <Text variant="bodySmall" style={[styles.subtleText, resolutionOverdue ? styles.overdueText : null]}>
+              Decision {resolutionOverdue ? 'overdue since' : 'due'} {formatDateTime(current.resolveBy)}
+            </Text>
+
+            {current.outcome ? (
+              <View style={styles.outcome}>
+                <Text variant="titleSmall">{PAYMENT_DISPUTE_OUTCOME_LABELS[current.outcome]}</Text>
+                {current.outcomeAmount ? <Text variant="bodySmall">{formatPeso(current.outcomeAmount)}</Text> : null}
+                {current.resolutionNotes ? <Text variant="bodySmall">{current.resolutionNotes}</Text> : null}
+                <Text variant="bodySmall" style={styles.subtleText}>
+                  {awaitingApproval ? 'Decided, awaiting refund approval' : `Resolved ${formatDateTime(current.resolvedAt)}`}
+                  {current.resolvedBy ? ` by ${current.resolvedBy.name ?? current.resolvedBy.email}` : ''}
+                </Text>
+                {current.refundApprovalId ? (
+                  <Button compact icon="account-check" onPress={() => navigation.navigate('Approvals')} style={styles.alignStart}>
+                    Refund approval
+                  </Button>
+                ) : null}
+              </View>
+            ) : active && current.resolutionNotes ? (
+              <Text variant="bodySmall" style={[styles.subtleText, styles.closedText]}>
+                {current.resolutionNotes}
+              </Text>
+            ) : null}
+
+            {active ? (
+              <View style={styles.actionsRow}>
+                {current.status === 'open' ? (
+                  <Button
+                    compact
+                    icon="magnify"
+                    onPress={() => runAction(() => startDisputeReview(current))}
+                    disabled={saving || !canUpdatePayments}>
+                    Start review
+                  </Button>
+                ) : null}
+                <Button
+                  compact
+                  icon="calendar-clock"
+                  onPress={() =>
+                    setDialog({
+                      kind: 'deadlines',
+                      evidenceDays: String(DEFAULT_EVIDENCE_WINDOW_DAYS),
+                      resolutionDays: String(DEFAULT_RESOLUTION_WINDOW_DAYS),
+                    })
+                  }
+                  disabled={saving || !canUpdatePayments}>
+                  Deadlines
+                </Button>
+                <PermissionGuard permission={PERMISSIONS.PAYMENTS_REFUND}>
+                  <Button
+                    compact
+                    mode="contained"
+                    icon="scale-balance"
+                    onPress={() => setDialog({kind: 'resolve', outcome: 'release_to_caregiver', amount: '', notes: ''})}
+                    disabled={saving || awaitingApproval}>
+                    Resolve
+                  </Button>
+                </PermissionGuard>
+              </View>
+            ) : null}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Title
+            title="Statements"
+            right={() =>
+              active ? (
+                <Button
+                  compact
+                  icon="plus"
+                  onPress={() => setDialog({kind: 'statement', party: 'parent', body: ''})}
+                  disabled={!canUpdatePayments}>
+                  Add
+                </Button>
+              ) : null
+            }
+          />
+          <Card.Content>
+            {(['parent', 'caregiver'] as const).map(party =>
+              current.statements.some(statement => statement.party === party) ? null : (
+                <Text key={party} variant="bodySmall" style={styles.missingText}>
+                  No statement from the {party} yet.
+                </Text>
+              ),
+            )}
+            {current.statements.map(statement => (
+              <View key={statement.id} style={styles.statement}>
+                <Text variant="titleSmall">{PAYMENT_DISPUTE_PARTY_LABELS[statement.party]}</Text>
+                <Text variant="bodyMedium">{statement.body}</Text>
+                <Text variant="bodySmall" style={styles.subtleText}>
+                  {formatDateTime(statement.createdAt)}
+                  {statement.author ? ` • recorded by ${statement.author.name ?? statement.author.email}` : ''}
+                </Text>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Title title="Evidence" />
+          <Card.Content>
+            {current.evidence.length === 0 ? (
+              <Text variant="bodySmall" style={styles.subtleText}>
+                No evidence uploaded yet.
+              </Text>
+            ) : (
+              <ProofFindingsList proofs={current.evidence} onCompare={(proof, match) => setComparison({proof, match})} />
+            )}
+          </Card.Content>
+        </Card>
+      </>
+    );
+  };
+
+  const renderDialog = () => {
+    if (!dialog) {
+      return null;
+    }
+    const refundable = payment ? getRefundableAmount(payment) : 0;
+
+    return (
+      <Dialog visible onDismiss={() => setDialog(null)}>
+        <Dialog.Title>
+          {dialog.kind === 'statement' ? 'Record statement' : dialog.kind === 'deadlines' ? 'Change deadlines' : 'Resolve dispute'}
+        </Dialog.Title>
+        <Dialog.Content>
+          {dialog.kind === 'statement' ? (
+            <>
+              <View style={styles.chipRow}>
+                {(Object.keys(PAYMENT_DISPUTE_PARTY_LABELS) as PaymentDisputeParty[]).map(party => (
+                  <Chip
+                    key={party}
+                    selected={dialog.party === party}
+                    onPress={() => setDialog({...dialog, party})}
+                    style={styles.chip}>
+                    {PAYMENT_DISPUTE_PARTY_LABELS[party]}
+                  </Chip>
+                ))}
+              </View>
+              <TextInput
+                mode="outlined"
+                label="Statement"
+                value={dialog.body}
+                onChangeText={body => setDialog({...dialog, body})}
+                multiline
+              />
+            </>
+          ) : null}
+
+          {dialog.kind === 'deadlines' ? (
+            <>
+              <Text variant="bodySmall" style={styles.subtleText}>
+                Both deadlines are counted from now. Parties are notified if the evidence deadline changes.
+              </Text>
+              <TextInput
+                mode="outlined"
+                label="Evidence due (days)"
+                value={dialog.evidenceDays}
+                onChangeText={evidenceDays => setDialog({...dialog, evidenceDays})}
+                keyboardType="number-pad"
+                style={styles.input}
+              />
+              <TextInput
+                mode="outlined"
+                label="Decide by (days)"
+                value={dialog.resolutionDays}
+                onChangeText={resolutionDays => setDialog({...dialog, resolutionDays})}
+                keyboardType="number-pad"
+              />
+            </>
+          ) : null}
+
+          {dialog.kind === 'resolve' ? (
+            <>
+              <View style={styles.chipRow}>
+                {(Object.keys(PAYMENT_DISPUTE_OUTCOME_LABELS) as PaymentDisputeOutcome[]).map(outcome => (
+                  <Chip
+                    key={outcome}
+                    selected={dialog.outcome === outcome}
+                    onPress={() => setDialog({...dialog, outcome})}
+                    style={styles.chip}>
+                    {PAYMENT_DISPUTE_OUTCOME_LABELS[outcome]}
+                  </Chip>
+                ))}
+              </View>
+              {dialog.outcome === 'partial_refund' ? (
+                <TextInput
+                  mode="outlined"
+                  label="Refund amount (₱)"
+                  value={dialog.amount}
+                  onChangeText={amount => setDialog({...dialog, amount})}
+                  keyboardType="decimal-pad"
+                  style={styles.input}
+                />
+              ) : null}
+              <HelperText type="info">
+                {dialog.outcome === 'release_to_caregiver'
+                  ? 'The payment immediately returns to the status it had before the dispute.'
+                  : `Up to ${formatPeso(refundable)} can be refunded. The refund needs a second admin's approval.`}
+              </HelperText>
+              <TextInput
+                mode="outlined"
+                label="Resolution notes"
+                value={dialog.notes}
+                onChangeText={notes => setDialog({...dialog, notes})}
+                multiline
+              />
+            </>
+          ) : null}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setDialog(null)}>Cancel</Button>
+          <Button mode="contained" onPress={handleDialogConfirm} loading={saving} disabled={saving}>
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadDispute();
+            }}
+          />
+        }>
+        {payment ? (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium">Booking {payment.bookingId}</Text>
+              <Text variant="bodySmall" style={styles.subtleText}>
+                Parent: {payment.parentInfo.name ?? 'Unknown'} • Caregiver: {payment.caregiverInfo.name ?? 'Unknown'}
+              </Text>
+              <Text variant="headlineSmall" style={styles.amount}>
+                {formatPeso(payment.totalAmount)}
+              </Text>
+              <Text variant="bodySmall" style={styles.subtleText}>
+                {payment.paymentStatus.replace(/_/g, ' ')}
+                {payment.refundedAmount ? ` • ${formatPeso(payment.refundedAmount)} refunded` : ''}
+              </Text>
+              <Button
+                compact
+                icon="calendar-text"
+                onPress={() => navigation.navigate('BookingDetail', {bookingId: payment.bookingId})}
+                style={styles.alignStart}>
+                Booking
+              </Button>
+            </Card.Content>
+          </Card>
+        ) : null}
+
+        {loading ? (
+          <Text style={styles.empty}>Loading dispute...</Text>
+        ) : dispute && isDisputeActive(dispute) ? (
+          renderDispute(dispute)
+        ) : (
+          <>
+            {payment ? renderOpenForm() : null}
+            {dispute ? renderDispute(dispute) : null}
+          </>
+        )}
+      </ScrollView>
+
+      <ProofComparisonDialog comparison={comparison} onDismiss={() => setComparison(null)} />
+      <Portal>{renderDialog()}</Portal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: '#f5f5f5'},
+  content: {padding: 16, paddingBottom: 32},
+  card: {marginBottom: 12, backgroundColor: '#fff'},
+  header: {flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8},
+  title: {flex: 1, fontWeight: 'bold'},
+  chipText: {color: '#fff', fontSize: 11},
+  subtleText: {color: '#666', marginTop: 4},
+  closedText: {color: '#e65100'},
+  overdueText: {color: '#d32f2f', fontWeight: 'bold'},
+  missingText: {color: '#e65100', marginBottom: 4},
+  amount: {fontWeight: 'bold', color: '#212121', marginTop: 8},
+  alignStart: {alignSelf: 'flex-start', marginTop: 4},
+  outcome: {marginTop: 12, padding: 12, borderRadius: 8, backgroundColor: '#e8f5e9'},
+  actionsRow: {flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'flex-end', marginTop: 12, gap: 8},
+  statement: {paddingVertical: 8, borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: '#e0e0e0'},
+  input: {marginBottom: 12},
+  row: {flexDirection: 'row', gap: 8},
+  rowInput: {flex: 1},
+  chipRow: {flexDirection: 'row', flexWrap: 'wrap', marginBottom: 12},
+  chip: {marginRight: 8, marginBottom: 8},
+  empty: {textAlign: 'center', color: '#666', marginTop: 24},
+});
@@ -0,0 +1,247 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {Alert, FlatList, RefreshControl, ScrollView, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Surface, Text} from 'react-native-paper';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {
+  RECONCILIATION_ISSUE_LABELS,
+  RECONCILIATION_SEVERITY_COLORS,
+  fetchReconciliationReport,
+  formatPeso,
+} from '../../services/paymentReconciliationService';
+import type {ReconciliationIssue, ReconciliationIssueType, ReconciliationReport} from '../../types';
+
+type RootStackParamList = {
+  BookingDetail: {bookingId: string};
+  PaymentsManagement: {bookingId?: string} | undefined;
+};
+
+type PaymentReconciliationNavigationProp = StackNavigationProp<RootStackParamList>;
+
+const RANGE_OPTIONS = [
+  {label: '7 days', days: 7},
+  {label: '30 days', days: 30},
+  {label: '90 days', days: 90},
+];
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+const getRange = (days: number) => {
+  const to = new Date();
+  const from = new Date(to);
+  from.setDate(from.getDate() - (days - 1));
+  return {from: toDateParam(from), to: toDateParam(to)};
+};
+
+export default function PaymentReconciliationScreen() {
+  const navigation = useNavigation<PaymentReconciliationNavigationProp>();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<ReconciliationIssueType | 'all'>('all');
+
+  const loadReport = useCallback(async () => {
+    try {
+      const {from, to} = getRange(rangeDays);
+      setReport(await fetchReconciliationReport(from, to));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to build reconciliation report');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [rangeDays]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadReport();
+  }, [loadReport]);
+
+  const issueCounts = useMemo(() => {
+    const counts = {} as Record<ReconciliationIssueType, number>;
+    report?.issues.forEach(issue => {
+      counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+    });
+    return counts;
+  }, [report]);
+
+  const visibleIssues = useMemo(
+    () => (report?.issues ?? []).filter(issue => typeFilter === 'all' || issue.type === typeFilter),
+    [report, typeFilter],
+  );
+
+  const renderSummary = () => {
+    if (!report) {
+      return null;
+    }
+    return (
+      <View>
+        <View style={styles.summaryRow}>
+          <Surface style={styles.summaryCard} elevation={1}>
+            <Text style={styles.summaryValue}>{report.bookingsChecked}</Text>
+            <Text style={styles.summaryLabel}>Bookings</Text>
+          </Surface>
+          <Surface style={styles.summaryCard} elevation={1}>
+            <Text style={styles.summaryValue}>{report.paymentsChecked}</Text>
+            <Text style={styles.summaryLabel}>Payments</Text>
+          </Surface>
+          <Surface style={styles.summaryCard} elevation={1}>
+            <Text style={[styles.summaryValue, {color: '#4caf50'}]}>{report.reconciledCount}</Text>
+            <Text style={styles.summaryLabel}>Reconciled</Text>
+          </Surface>
+          <Surface style={styles.summaryCard} elevation={1}>
+            <Text style={[styles.summaryValue, {color: report.issues.length > 0 ? '#d32f2f' : '#4caf50'}]}>
+              {report.issues.length}
+            </Text>
+            <Text style={styles.summaryLabel}>Issues</Text>
+          </Surface>
+        </View>
+
+        <Surface style={styles.totals} elevation={1}>
+          <View style={styles.totalsRow}>
+            <Text style={styles.totalsLabel}>Expected (completed bookings)</Text>
+            <Text style={styles.totalsValue}>{formatPeso(report.totals.expected)}</Text>
+          </View>
+          <View style={styles.totalsRow}>
+            <Text style={styles.totalsLabel}>Collected (net of refunds)</Text>
+            <Text style={styles.totalsValue}>{formatPeso(report.totals.collected)}</Text>
+          </View>
+          <View style={styles.totalsRow}>
+            <Text style={styles.totalsLabel}>Refunded</Text>
+            <Text style={styles.totalsValue}>{formatPeso(report.totals.refunded)}</Text>
+          </View>
+        </Surface>
+
+        {report.truncated && (
+          <Text style={styles.warning}>
+            Some bookings or payments were not loaded. Narrow the date range for a complete report.
+          </Text>
+        )}
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+          <Chip selected={typeFilter === 'all'} onPress={() => setTypeFilter('all')} style={styles.filterChip}>
+            {`All (${report.issues.length})`}
+          </Chip>
+          {(Object.keys(RECONCILIATION_ISSUE_LABELS) as ReconciliationIssueType[]).map(type => (
+            <Chip
+              key={type}
+              selected={typeFilter === type}
+              onPress={() => setTypeFilter(type)}
+              style={styles.filterChip}>
+              {`${RECONCILIATION_ISSUE_LABELS[type]} (${issueCounts[type] ?? 0})`}
+            </Chip>
+          ))}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  const renderIssue = ({item}: {item: ReconciliationIssue}) => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <Text variant="titleMedium" style={styles.title}>
+            {RECONCILIATION_ISSUE_LABELS[item.type]}
+          </Text>
+          <Chip
+            compact
+            style={{backgroundColor: RECONCILIATION_SEVERITY_COLORS[item.severity]}}
+            textStyle={styles.chipText}>
+            {item.severity.toUpperCase()}
+          </Chip>
+        </View>
+        <Text variant="bodyMedium">{item.message}</Text>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          {item.booking.jobId.title} • {item.booking.parentId.name} → {item.booking.caregiverId.name}
+        </Text>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          Booking {item.bookingId} • {item.booking.status.replace(/_/g, ' ')}
+          {item.booking.startDate ? ` • ${new Date(item.booking.startDate).toLocaleDateString()}` : ''}
+        </Text>
+        {item.payments.map(payment => (
+          <Text key={payment.id} variant="bodySmall" style={styles.subtleText}>
+            Payment {payment.id.slice(0, 8)} • {formatPeso(payment.totalAmount)} • {payment.paymentStatus}
+          </Text>
+        ))}
+        <View style={styles.actionsRow}>
+          <Button
+            compact
+            icon="calendar-text"
+            onPress={() => navigation.navigate('BookingDetail', {bookingId: item.bookingId})}>
+            Booking
+          </Button>
+          <Button
+            compact
+            icon="credit-card-outline"
+            onPress={() => navigation.navigate('PaymentsManagement', {bookingId: item.bookingId})}>
+            Payments
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={[styles.filters, styles.rangeFilters]}>
+        {RANGE_OPTIONS.map(option => (
+          <Chip
+            key={option.days}
+            icon="calendar-range"
+            selected={rangeDays === option.days}
+            onPress={() => setRangeDays(option.days)}
+            style={styles.filterChip}>
+            {`Last ${option.label}`}
+          </Chip>
+        ))}
+      </ScrollView>
+
+      <FlatList
+        data={visibleIssues}
+        keyExtractor={item => item.id}
+        renderItem={renderIssue}
+        ListHeaderComponent={renderSummary()}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadReport();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={styles.empty}>
+            {loading ? 'Reconciling payments...' : 'Every booking in this range reconciles with its payments'}
+          </Text>
+        }
+        contentContainerStyle={styles.list}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: '#f5f5f5'},
+  filters: {flexGrow: 0, paddingVertical: 12},
+  rangeFilters: {paddingHorizontal: 12},
+  filterChip: {marginRight: 8},
+  list: {paddingHorizontal: 16, paddingBottom: 16},
+  summaryRow: {flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12},
+  summaryCard: {flex: 1, marginHorizontal: 4, padding: 12, borderRadius: 8, alignItems: 'center', backgroundColor: '#fff'},
+  summaryValue: {fontSize: 20, fontWeight: 'bold', color: '#3f51b5'},
+  summaryLabel: {fontSize: 12, color: '#666', marginTop: 4},
+  totals: {padding: 12, borderRadius: 8, backgroundColor: '#fff'},
+  totalsRow: {flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 2},
+  totalsLabel: {color: '#666'},
+  totalsValue: {fontWeight: 'bold', color: '#333'},
+  warning: {color: '#e65100', marginTop: 8},
+  card: {marginBottom: 12},
+  header: {flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8},
+  title: {flex: 1, fontWeight: 'bold'},
+  chipText: {color: '#fff', fontSize: 10},
+  subtleText: {color: '#666', marginTop: 4},
+  actionsRow: {flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8},
+  empty: {textAlign: 'center', color: '#666', marginTop: 24},
+});
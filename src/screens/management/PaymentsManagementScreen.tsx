@@ -21,17 +21,41 @@ import {
   useTheme,
 } from 'react-native-paper';
 import {Icon} from 'react-native-elements';
-import {PaymentRecord, PaymentStatus} from '../../types';
+import {RouteProp, useFocusEffect, useNavigation, useRoute} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {PaymentDispute, PaymentProofInfo, PaymentProofMatch, PaymentRecord, PaymentStatus} from '../../types';
 import {
   fetchPayments,
+  getRefundableAmount,
   updatePaymentStatus,
-  refundPayment,
 } from '../../services/paymentsService';
+import {exportPaymentsCsv} from '../../services/paymentsExportService';
+import {requestRefundApproval} from '../../services/approvalsService';
+import {
+  PAYMENT_DISPUTE_STATUS_COLORS,
+  PAYMENT_DISPUTE_STATUS_LABELS,
+  fetchDisputesForPayments,
+  getDisputeDeadlines,
+  isDisputeActive,
+} from '../../services/paymentDisputesService';
+import PermissionGuard from '../../components/PermissionGuard';
+import ProofFindingsList from '../../components/payments/ProofFindingsList';
+import ProofComparisonDialog from '../../components/payments/ProofComparisonDialog';
+import PaymentLedger from '../../components/payments/PaymentLedger';
+import {PERMISSIONS} from '../../config/permissions';
+import {usePermission} from '../../hooks/usePermission';
+
+type PaymentsStackParamList = {
+  PaymentsManagement: {bookingId?: string} | undefined;
+  PaymentReconciliation: undefined;
+  PaymentDispute: {paymentId: string};
+};
 
 const STATUS_FILTERS: Array<{label: string; value: PaymentStatus | 'all'; icon: string; color: string}> = [
   {label: 'All', value: 'all', icon: 'select-all', color: '#616161'},
   {label: 'Pending', value: 'pending', icon: 'clock-outline', color: '#ff9800'},
   {label: 'Paid', value: 'paid', icon: 'check-circle', color: '#4caf50'},
+  {label: 'Partially refunded', value: 'partially_refunded', icon: 'cash-refund', color: '#03a9f4'},
   {label: 'Refunded', value: 'refunded', icon: 'undo', color: '#2196f3'},
   {label: 'Disputed', value: 'disputed', icon: 'gavel', color: '#f44336'},
 ];
@@ -51,12 +75,17 @@ interface PaymentStats {
   total: number;
   pending: number;
   paid: number;
+  partially_refunded: number;
   refunded: number;
   disputed: number;
 }
 
 const SKELETON_COUNT = 4;
 
+const formatPeso = (value: number) => `₱${value.toLocaleString(undefined, {minimumFractionDigits: 2})}`;
+
+const EMPTY_REFUND_DIALOG = {visible: false, paymentId: null, reason: '', amount: ''};
+
 const formatDateTime = (value: string) => {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
@@ -74,10 +103,22 @@ export default function PaymentsManagementScreen() {
   const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
   const [saveLoadingId, setSaveLoadingId] = useState<string | null>(null);
   const [refundLoadingId, setRefundLoadingId] = useState<string | null>(null);
-  const [refundDialog, setRefundDialog] = useState<{visible: boolean; paymentId: string | null; reason: string}>(
-    {visible: false, paymentId: null, reason: ''},
-  );
+  const [refundDialog, setRefundDialog] = useState<{
+    visible: boolean;
+    paymentId: string | null;
+    reason: string;
+    amount: string;
+  }>(EMPTY_REFUND_DIALOG);
+  const [expandedLedgerId, setExpandedLedgerId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [suspiciousCount, setSuspiciousCount] = useState(0);
+  const [disputes, setDisputes] = useState<Map<string, PaymentDispute>>(new Map());
+  const [comparison, setComparison] = useState<{proof: PaymentProofInfo; match: PaymentProofMatch} | null>(null);
   const theme = useTheme();
+  const navigation = useNavigation<StackNavigationProp<PaymentsStackParamList, 'PaymentsManagement'>>();
+  const route = useRoute<RouteProp<PaymentsStackParamList, 'PaymentsManagement'>>();
+  const bookingFilter = route.params?.bookingId;
+  const canUpdatePayments = usePermission(PERMISSIONS.PAYMENTS_UPDATE);
 
   const debouncedSearch = useDebouncedValue(searchQuery);
 
@@ -87,12 +128,15 @@ export default function PaymentsManagementScreen() {
         if (!options?.silent) {
           setLoading(true);
         }
-        const {payments: fetchedPayments} = await fetchPayments({
+        const {payments: fetchedPayments, proofSummary} = await fetchPayments({
           status: statusFilter,
+          bookingId: bookingFilter,
           search: debouncedSearch.trim() ? debouncedSearch : undefined,
         });
         const paymentList = Array.isArray(fetchedPayments) ? fetchedPayments : [];
         setPayments(paymentList);
+        setSuspiciousCount(proofSummary?.suspiciousCount ?? 0);
+        setDisputes(await fetchDisputesForPayments(paymentList.map(payment => payment.id)));
         setNoteDrafts(prev => {
           const next: Record<string, string> = {};
           paymentList.forEach(payment => {
@@ -108,12 +152,15 @@ export default function PaymentsManagementScreen() {
         setRefreshing(false);
       }
     },
-    [debouncedSearch, statusFilter],
+    [bookingFilter, debouncedSearch, statusFilter],
   );
 
-  useEffect(() => {
-    loadPayments();
-  }, [loadPayments]);
+  // Reload on focus so disputes opened or resolved on the dispute screen show up here.
+  useFocusEffect(
+    useCallback(() => {
+      loadPayments();
+    }, [loadPayments]),
+  );
 
   const filteredPayments = useMemo(() => {
     const q = debouncedSearch.trim().toLowerCase();
@@ -142,6 +189,7 @@ export default function PaymentsManagementScreen() {
         total: 0,
         pending: 0,
         paid: 0,
+        partially_refunded: 0,
         refunded: 0,
         disputed: 0,
       },
@@ -180,29 +228,66 @@ export default function PaymentsManagementScreen() {
     [loadPayments, noteDrafts],
   );
 
-  const openRefundDialog = useCallback((paymentId: string) => {
-    setRefundDialog({visible: true, paymentId, reason: ''});
+  const openRefundDialog = useCallback((payment: PaymentRecord) => {
+    setRefundDialog({
+      visible: true,
+      paymentId: payment.id,
+      reason: '',
+      amount: getRefundableAmount(payment).toFixed(2),
+    });
   }, []);
 
   const handleRefund = useCallback(async () => {
-    const paymentId = refundDialog.paymentId;
-    if (!paymentId) {
+    const payment = payments.find(item => item.id === refundDialog.paymentId);
+    if (!payment) {
+      return;
+    }
+
+    const reason = (refundDialog.reason ?? '').trim();
+    if (!reason) {
+      Alert.alert('Reason required', 'Explain why this payment should be refunded so the approving admin can review it.');
+      return;
+    }
+
+    const refundable = getRefundableAmount(payment);
+    const amount = Math.round(Number(refundDialog.amount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount <= 0 || amount > refundable) {
+      Alert.alert('Invalid amount', `Enter an amount greater than ₱0.00 and no more than ${formatPeso(refundable)}.`);
       return;
     }
 
     try {
-      setRefundLoadingId(paymentId);
-      const reason = (refundDialog.reason ?? '').trim();
-      await refundPayment(paymentId, reason);
-      setRefundDialog({visible: false, paymentId: null, reason: ''});
-      await loadPayments({silent: true});
-      Alert.alert('Success', 'Refund initiated successfully.');
+      setRefundLoadingId(payment.id);
+      await requestRefundApproval(payment, reason, amount);
+      setRefundDialog(EMPTY_REFUND_DIALOG);
+      Alert.alert('Approval requested', 'Another admin must approve this refund before it is issued.');
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to process refund');
+      Alert.alert('Error', error.message || 'Failed to request refund approval');
     } finally {
       setRefundLoadingId(null);
     }
-  }, [loadPayments, refundDialog]);
+  }, [payments, refundDialog]);
+
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    try {
+      const result = await exportPaymentsCsv({
+        status: statusFilter,
+        bookingId: bookingFilter,
+        search: debouncedSearch.trim() ? debouncedSearch : undefined,
+      });
+      if (result.truncated) {
+        Alert.alert(
+          'Export truncated',
+          `Only the first ${result.paymentCount} matching payments were exported. Narrow the filters to export the rest.`,
+        );
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export payments');
+    } finally {
+      setExporting(false);
+    }
+  }, [bookingFilter, debouncedSearch, statusFilter]);
 
   const getStatusMetric = useCallback(
     (value: PaymentStatus | 'all') => (value === 'all' ? stats.total : stats[value]),
@@ -234,6 +319,33 @@ export default function PaymentsManagementScreen() {
       <Text variant="bodyMedium" style={styles.subtitle}>
         Track caregiver payouts, resolve disputes, and manage refunds.
       </Text>
+      <View style={styles.headerActions}>
+        <Button
+          mode="outlined"
+          icon="scale-balance"
+          onPress={() => navigation.navigate('PaymentReconciliation')}
+          style={styles.headerButton}>
+          Reconciliation report
+        </Button>
+        <Button
+          mode="outlined"
+          icon="file-delimited"
+          onPress={handleExport}
+          loading={exporting}
+          disabled={exporting}
+          style={styles.headerButton}>
+          Export CSV
+        </Button>
+      </View>
+
+      {suspiciousCount > 0 ? (
+        <Surface style={styles.proofWarning} elevation={1}>
+          <Icon name="image-search-outline" type="material-community" color="#d32f2f" size={22} />
+          <Text variant="bodyMedium" style={styles.proofWarningText}>
+            {`${suspiciousCount} payment${suspiciousCount === 1 ? '' : 's'} on this page have proofs that need review.`}
+          </Text>
+        </Surface>
+      ) : null}
 
       <View style={styles.statsContainer}>
         {renderStatsCard('wallet-outline', 'Total payments', stats.total, theme.colors.primary)}
@@ -249,6 +361,15 @@ export default function PaymentsManagementScreen() {
         style={styles.searchbar}
       />
 
+      {bookingFilter ? (
+        <Chip
+          icon="calendar-text"
+          onClose={() => navigation.setParams({bookingId: undefined})}
+          style={styles.bookingFilterChip}>
+          {`Booking ${bookingFilter}`}
+        </Chip>
+      ) : null}
+
       <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
         {STATUS_FILTERS.map(filter => (
           <Chip
@@ -263,12 +384,17 @@ export default function PaymentsManagementScreen() {
         ))}
       </ScrollView>
     </View>
-  ), [getStatusMetric, renderStatsCard, searchQuery, stats, statusFilter, theme.colors.primary]);
+  ), [bookingFilter, exporting, getStatusMetric, handleExport, navigation, renderStatsCard, searchQuery, stats, statusFilter, suspiciousCount, theme.colors.primary]);
 
   const renderPaymentCard = useCallback(
     ({item}: {item: PaymentRecord}) => {
       const noteValue = noteDrafts[item.id] ?? '';
       const showExistingNotes = item.notes && item.notes.trim().length > 0;
+      const refundable = getRefundableAmount(item);
+      const ledgerExpanded = expandedLedgerId === item.id;
+      const dispute = disputes.get(item.id);
+      const disputeActive = dispute ? isDisputeActive(dispute) : false;
+      const disputeDeadlines = dispute ? getDisputeDeadlines(dispute) : null;
 
       return (
         <Card style={styles.card}>
@@ -284,19 +410,65 @@ export default function PaymentsManagementScreen() {
                 </View>
               </View>
               <Chip style={styles.statusChip} icon="information-outline">
-                {item.paymentStatus.toUpperCase()}
+                {item.paymentStatus.replace(/_/g, ' ').toUpperCase()}
               </Chip>
             </View>
 
+            {item.proofStatus === 'needs_review' ? (
+              <Chip icon="alert-outline" style={styles.reviewChip} textStyle={styles.reviewChipText}>
+                Proof needs review
+              </Chip>
+            ) : null}
+
+            {dispute && disputeActive ? (
+              <Chip
+                icon="gavel"
+                onPress={() => navigation.navigate('PaymentDispute', {paymentId: item.id})}
+                style={[styles.disputeChip, {borderColor: PAYMENT_DISPUTE_STATUS_COLORS[dispute.status]}]}
+                textStyle={disputeDeadlines?.resolutionOverdue ? styles.reviewChipText : undefined}>
+                {disputeDeadlines?.resolutionOverdue
+                  ? `Dispute overdue since ${formatDateTime(dispute.resolveBy)}`
+                  : dispute.status === 'open' && !disputeDeadlines?.evidenceClosed
+                    ? `${PAYMENT_DISPUTE_STATUS_LABELS[dispute.status]} • evidence due ${formatDateTime(dispute.evidenceDueAt)}`
+                    : `${PAYMENT_DISPUTE_STATUS_LABELS[dispute.status]} • decide by ${formatDateTime(dispute.resolveBy)}`}
+              </Chip>
+            ) : null}
+
             <View style={styles.amountRow}>
               <Text variant="headlineSmall" style={styles.amountText}>
-                ₱{item.totalAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}
+                {formatPeso(item.totalAmount)}
               </Text>
+              {item.refundedAmount ? (
+                <Text variant="bodySmall" style={styles.refundedText}>
+                  Refunded {formatPeso(item.refundedAmount)} • Remaining {formatPeso(refundable)}
+                </Text>
+              ) : null}
               <Text variant="bodySmall" style={styles.subtleText}>
                 Created {formatDateTime(item.createdAt)}
               </Text>
             </View>
 
+            <View style={styles.proofsSection}>
+              <Text variant="titleSmall" style={styles.proofsTitle}>
+                Payment proofs
+              </Text>
+              <ProofFindingsList
+                proofs={item.proofs ?? []}
+                onCompare={(proof, match) => setComparison({proof, match})}
+              />
+            </View>
+
+            <View style={styles.ledgerSection}>
+              <Button
+                compact
+                icon={ledgerExpanded ? 'chevron-up' : 'chevron-down'}
+                onPress={() => setExpandedLedgerId(ledgerExpanded ? null : item.id)}
+                style={styles.ledgerToggle}>
+                {`Ledger (${item.ledger?.length ?? 0})`}
+              </Button>
+              {ledgerExpanded ? <PaymentLedger entries={item.ledger ?? []} /> : null}
+            </View>
+
             {showExistingNotes ? (
               <Card style={styles.notesCard}>
                 <Card.Content>
@@ -326,38 +498,52 @@ export default function PaymentsManagementScreen() {
                   onPress={() => handleStatusUpdate(item, 'paid')}
                   style={styles.actionButton}
                   loading={saveLoadingId === item.id}
-                  disabled={saveLoadingId === item.id || refundLoadingId === item.id}>
+                  disabled={!canUpdatePayments || saveLoadingId === item.id || refundLoadingId === item.id}>
                   Mark Paid
                 </Button>
               ) : null}
-              {item.paymentStatus !== 'disputed' ? (
+              {dispute || canUpdatePayments ? (
                 <Button
                   mode="outlined"
                   icon="gavel"
-                  onPress={() => handleStatusUpdate(item, 'disputed')}
+                  onPress={() => navigation.navigate('PaymentDispute', {paymentId: item.id})}
                   style={styles.actionButton}
-                  loading={saveLoadingId === item.id}
                   disabled={saveLoadingId === item.id || refundLoadingId === item.id}>
-                  Flag Dispute
+                  {dispute ? 'View Dispute' : 'Open Dispute'}
                 </Button>
               ) : null}
-              {item.paymentStatus !== 'refunded' ? (
-                <Button
-                  mode="outlined"
-                  icon="undo"
-                  onPress={() => openRefundDialog(item.id)}
-                  style={styles.actionButton}
-                  textColor={theme.colors.error}
-                  disabled={refundLoadingId === item.id || saveLoadingId === item.id}>
-                  Refund
-                </Button>
+              {refundable > 0 ? (
+                <PermissionGuard permission={PERMISSIONS.PAYMENTS_REFUND}>
+                  <Button
+                    mode="outlined"
+                    icon="undo"
+                    onPress={() => openRefundDialog(item)}
+                    style={styles.actionButton}
+                    textColor={theme.colors.error}
+                    disabled={refundLoadingId === item.id || saveLoadingId === item.id}>
+                    Refund
+                  </Button>
+                </PermissionGuard>
               ) : null}
             </View>
           </Card.Content>
         </Card>
       );
     },
-    [handleNoteChange, handleStatusUpdate, noteDrafts, openRefundDialog, refundLoadingId, saveLoadingId, theme.colors.error, theme.colors.primary],
+    [
+      canUpdatePayments,
+      disputes,
+      expandedLedgerId,
+      handleNoteChange,
+      handleStatusUpdate,
+      navigation,
+      noteDrafts,
+      openRefundDialog,
+      refundLoadingId,
+      saveLoadingId,
+      theme.colors.error,
+      theme.colors.primary,
+    ],
   );
 
   const renderSkeletons = useMemo(
@@ -418,10 +604,22 @@ export default function PaymentsManagementScreen() {
 
       <FAB icon="refresh" onPress={() => loadPayments()} style={styles.fab} disabled={loading} />
 
+      <ProofComparisonDialog comparison={comparison} onDismiss={() => setComparison(null)} />
+
       <Portal>
-        <Dialog visible={refundDialog.visible} onDismiss={() => setRefundDialog({visible: false, paymentId: null, reason: ''})}>
-          <Dialog.Title>Initiate Refund</Dialog.Title>
+        <Dialog visible={refundDialog.visible} onDismiss={() => setRefundDialog(EMPTY_REFUND_DIALOG)}>
+          <Dialog.Title>Request Refund</Dialog.Title>
           <Dialog.Content>
+            <Text variant="bodySmall" style={styles.subtleText}>
+              Refunds are issued once a second admin approves the request. Lower the amount for a partial refund.
+            </Text>
+            <TextInput
+              label="Amount (₱)"
+              value={refundDialog.amount}
+              onChangeText={text => setRefundDialog(prev => ({...prev, amount: text}))}
+              keyboardType="decimal-pad"
+              style={styles.dialogInput}
+            />
             <TextInput
               label="Reason"
               value={refundDialog.reason}
@@ -432,11 +630,11 @@ export default function PaymentsManagementScreen() {
             />
           </Dialog.Content>
           <Dialog.Actions>
-            <Button onPress={() => setRefundDialog({visible: false, paymentId: null, reason: ''})}>
+            <Button onPress={() => setRefundDialog(EMPTY_REFUND_DIALOG)}>
               Cancel
             </Button>
             <Button mode="contained" onPress={handleRefund} loading={refundLoadingId === refundDialog.paymentId} disabled={refundLoadingId === refundDialog.paymentId}>
-              Confirm
+              Request Approval
             </Button>
           </Dialog.Actions>
         </Dialog>
@@ -474,6 +672,32 @@ const styles = StyleSheet.create({
   searchbar: {
     marginBottom: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  headerButton: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  bookingFilterChip: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  proofWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#ffebee',
+    marginBottom: 12,
+  },
+  proofWarningText: {
+    flex: 1,
+    marginLeft: 8,
+    color: '#b71c1c',
+  },
   filterRow: {
     marginBottom: 16,
   },
@@ -534,6 +758,27 @@ const styles = StyleSheet.create({
   statusChip: {
     backgroundColor: '#e0e0e0',
   },
+  reviewChip: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    backgroundColor: '#ffebee',
+  },
+  disputeChip: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    borderWidth: 1,
+    backgroundColor: '#fff',
+  },
+  reviewChipText: {
+    color: '#d32f2f',
+  },
+  proofsSection: {
+    marginBottom: 12,
+  },
+  proofsTitle: {
+    marginBottom: 4,
+    color: '#3f51b5',
+  },
   amountRow: {
     marginTop: 12,
     marginBottom: 12,
@@ -542,6 +787,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#212121',
   },
+  refundedText: {
+    color: '#0277bd',
+    marginTop: 2,
+  },
+  ledgerSection: {
+    marginBottom: 12,
+  },
+  ledgerToggle: {
+    alignSelf: 'flex-start',
+  },
   notesCard: {
     backgroundColor: '#f9fbe7',
     marginBottom: 12,
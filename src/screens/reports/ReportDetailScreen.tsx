@@ -1,66 +1,219 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, Alert } from 'react-native';
-import { Text, Card, Chip, Button, TextInput, Menu } from 'react-native-paper';
-import { reportsService, Report } from '../../services/reportsService';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Image, Linking, Modal, TouchableOpacity } from 'react-native';
+import { Text, Card, Chip, Button, TextInput, Menu, Dialog, Portal, Divider } from 'react-native-paper';
+import {
+  addReportComment,
+  assignReport,
+  fetchAssignableAdmins,
+  fetchReportById,
+  fetchReportComments,
+  formatSlaRemaining,
+  getReportSla,
+  suspendReportedUser,
+  updateReportStatus,
+} from '../../services/reportsService';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Report, ReportComment, ReportStatus, User } from '../../types';
+
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|heic)(\?.*)?$/i;
+
+const COMMENT_KIND_LABELS: Record<ReportComment['kind'], string> = {
+  comment: 'Comment',
+  assignment: 'Assignment',
+  escalation: 'Escalation',
+  action: 'Action',
+  status: 'Status',
+};
 
 export default function ReportDetailScreen({ route, navigation }: any) {
   const { reportId } = route.params;
+  const { user: currentAdmin } = useAuth();
   const [report, setReport] = useState<Report | null>(null);
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [admins, setAdmins] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
   const [adminNotes, setAdminNotes] = useState('');
   const [resolution, setResolution] = useState('');
   const [menuVisible, setMenuVisible] = useState(false);
+  const [assignMenuVisible, setAssignMenuVisible] = useState(false);
+  const [commentDraft, setCommentDraft] = useState('');
+  const [postingComment, setPostingComment] = useState(false);
+  const [evidencePreview, setEvidencePreview] = useState<string | null>(null);
+  const [suspendDialog, setSuspendDialog] = useState({ visible: false, reason: '', loading: false });
+  const [now, setNow] = useState(() => new Date());
 
-  useEffect(() => {
-    loadReport();
+  const loadComments = useCallback(async () => {
+    try {
+      setComments(await fetchReportComments(reportId));
+    } catch (error) {
+      console.error('Failed to load report comments:', error);
+    }
   }, [reportId]);
 
-  const loadReport = async () => {
+  const loadReport = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await reportsService.getReportById(reportId);
-      setReport(response.data);
-      setAdminNotes(response.data.admin_notes || '');
-      setResolution(response.data.resolution || '');
-    } catch (error) {
+      const result = await fetchReportById(reportId);
+      setReport(result);
+      setAdminNotes(result.admin_notes || '');
+      setResolution(result.resolution || '');
+    } catch (error: any) {
       console.error('Failed to load report:', error);
-      Alert.alert('Error', 'Failed to load report details');
+      Alert.alert('Error', error.message || 'Failed to load report details');
     } finally {
       setLoading(false);
     }
-  };
+  }, [reportId]);
 
-  const updateStatus = async (status: string) => {
+  useEffect(() => {
+    loadReport();
+    loadComments();
+  }, [loadComments, loadReport]);
+
+  useEffect(() => {
+    fetchAssignableAdmins()
+      .then(setAdmins)
+      .catch(error => console.error('Failed to load admins:', error));
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const updateStatus = async (status: ReportStatus) => {
     try {
       setLoading(true);
-      await reportsService.updateReportStatus(reportId, {
+      await updateReportStatus(reportId, {
         status,
-        adminNotes,
+        adminNotes: adminNotes.trim() || undefined,
         resolution: status === 'resolved' ? resolution : undefined,
       });
       Alert.alert('Success', 'Report status updated');
       loadReport();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to update status:', error);
-      Alert.alert('Error', 'Failed to update report status');
+      Alert.alert('Error', error.message || 'Failed to update report status');
     } finally {
       setLoading(false);
       setMenuVisible(false);
     }
   };
 
+  const handleAssign = async (assigneeId: string | null) => {
+    setAssignMenuVisible(false);
+    try {
+      setLoading(true);
+      setReport(await assignReport(reportId, assigneeId));
+      loadComments();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to assign report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    const body = commentDraft.trim();
+    if (!body) {
+      return;
+    }
+    try {
+      setPostingComment(true);
+      const comment = await addReportComment(reportId, { body });
+      setComments(prev => [...prev, comment]);
+      setCommentDraft('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add comment');
+    } finally {
+      setPostingComment(false);
+    }
+  };
+
+  const handleSuspend = async () => {
+    if (!report) {
+      return;
+    }
+    if (!suspendDialog.reason.trim()) {
+      Alert.alert('Missing reason', 'Please document why the user is being suspended.');
+      return;
+    }
+    try {
+      setSuspendDialog(prev => ({ ...prev, loading: true }));
+      const { comment } = await suspendReportedUser(report, suspendDialog.reason);
+      setComments(prev => [...prev, comment]);
+      setSuspendDialog({ visible: false, reason: '', loading: false });
+      Alert.alert('Success', 'User suspended and action recorded on this report.');
+    } catch (error: any) {
+      setSuspendDialog(prev => ({ ...prev, loading: false }));
+      Alert.alert('Error', error.message || 'Failed to suspend user');
+    }
+  };
+
+  const openEvidence = (url: string) => {
+    if (IMAGE_EXTENSION_PATTERN.test(url)) {
+      setEvidencePreview(url);
+      return;
+    }
+    Linking.openURL(url).catch(() => Alert.alert('Error', 'Unable to open evidence file'));
+  };
+
   if (!report) return <View style={styles.container}><Text>Loading...</Text></View>;
 
+  const sla = getReportSla(report, now);
+  const evidence = report.evidence_urls ?? [];
+
   return (
     <ScrollView style={styles.container}>
       <Card style={styles.card}>
         <Card.Content>
           <Text style={styles.title}>{report.title}</Text>
-          
+
           <View style={styles.chips}>
             <Chip style={styles.chip}>{report.report_type.replace(/_/g, ' ')}</Chip>
             <Chip style={styles.chip}>{report.severity}</Chip>
             <Chip style={[styles.chip, styles.statusChip]}>{report.status}</Chip>
+            {report.escalation_level ? (
+              <Chip style={[styles.chip, styles.escalatedChip]} textStyle={styles.lightText}>
+                Escalated ×{report.escalation_level}
+              </Chip>
+            ) : null}
+          </View>
+
+          {sla && (
+            <View style={[styles.slaBanner, sla.overdue && styles.slaBannerOverdue]}>
+              <Text style={[styles.slaText, sla.overdue && styles.lightText]}>
+                {formatSlaRemaining(sla)} • due {sla.dueAt.toLocaleString()}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.label}>Assigned To</Text>
+            <View style={styles.row}>
+              <Text style={styles.flex}>
+                {report.assignee?.name ?? (report.assigned_to ? report.assigned_to : 'Unassigned')}
+              </Text>
+              {currentAdmin && report.assigned_to !== currentAdmin.id && (
+                <Button compact onPress={() => handleAssign(currentAdmin.id)} disabled={loading}>
+                  Assign to me
+                </Button>
+              )}
+              <Menu
+                visible={assignMenuVisible}
+                onDismiss={() => setAssignMenuVisible(false)}
+                anchor={
+                  <Button compact onPress={() => setAssignMenuVisible(true)} disabled={loading}>
+                    Reassign
+                  </Button>
+                }
+              >
+                {admins.map(admin => (
+                  <Menu.Item key={admin.id} onPress={() => handleAssign(admin.id)} title={admin.name || admin.email} />
+                ))}
+                <Menu.Item onPress={() => handleAssign(null)} title="Unassign" />
+              </Menu>
+            </View>
           </View>
 
           <View style={styles.section}>
@@ -73,6 +226,23 @@ export default function ReportDetailScreen({ route, navigation }: any) {
             <Text style={styles.label}>Reported User</Text>
             <Text>{report.reported_user?.name} ({report.reported_user?.email})</Text>
             <Text style={styles.role}>{report.reported_user?.role}</Text>
+            <View style={styles.row}>
+              <Button
+                compact
+                icon="account"
+                onPress={() => navigation.navigate('UserDetail', { userId: report.reported_user_id })}
+              >
+                View user
+              </Button>
+              <Button
+                compact
+                icon="account-cancel"
+                textColor="#d32f2f"
+                onPress={() => setSuspendDialog({ visible: true, reason: '', loading: false })}
+              >
+                Suspend
+              </Button>
+            </View>
           </View>
 
           <View style={styles.section}>
@@ -83,14 +253,42 @@ export default function ReportDetailScreen({ route, navigation }: any) {
           {report.booking_id && (
             <View style={styles.section}>
               <Text style={styles.label}>Related Booking</Text>
-              <Text>{report.booking_id}</Text>
+              <TouchableOpacity onPress={() => navigation.navigate('BookingDetail', { bookingId: report.booking_id })}>
+                <Text style={styles.link}>
+                  {report.booking_id}
+                  {report.booking?.status ? ` • ${report.booking.status}` : ''}
+                </Text>
+              </TouchableOpacity>
             </View>
           )}
 
           {report.job_id && (
             <View style={styles.section}>
               <Text style={styles.label}>Related Job</Text>
-              <Text>{report.job_id}</Text>
+              <TouchableOpacity onPress={() => navigation.navigate('JobDetail', { jobId: report.job_id })}>
+                <Text style={styles.link}>{report.job?.title ?? report.job_id}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {evidence.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.label}>Evidence ({evidence.length})</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {evidence.map(url => (
+                  <TouchableOpacity key={url} onPress={() => openEvidence(url)} style={styles.evidenceItem}>
+                    {IMAGE_EXTENSION_PATTERN.test(url) ? (
+                      <Image source={{ uri: url }} style={styles.evidenceThumb} />
+                    ) : (
+                      <View style={[styles.evidenceThumb, styles.evidenceFile]}>
+                        <Text numberOfLines={2} style={styles.evidenceFileText}>
+                          {url.split('/').pop()}
+                        </Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
             </View>
           )}
 
@@ -147,6 +345,79 @@ export default function ReportDetailScreen({ route, navigation }: any) {
           )}
         </Card.Content>
       </Card>
+
+      <Card style={styles.card}>
+        <Card.Title title="Case Thread" subtitle="Internal to the admin team" />
+        <Card.Content>
+          {comments.length === 0 && <Text style={styles.role}>No activity yet.</Text>}
+          {comments.map(comment => (
+            <View key={comment.id} style={styles.comment}>
+              <View style={styles.row}>
+                <Text style={[styles.commentAuthor, styles.flex]}>{comment.author?.name ?? 'System'}</Text>
+                <Text style={styles.commentKind}>{COMMENT_KIND_LABELS[comment.kind]}</Text>
+              </View>
+              <Text>{comment.body}</Text>
+              <Text style={styles.timestamp}>{new Date(comment.created_at).toLocaleString()}</Text>
+              <Divider style={styles.commentDivider} />
+            </View>
+          ))}
+          <TextInput
+            mode="outlined"
+            multiline
+            value={commentDraft}
+            onChangeText={setCommentDraft}
+            placeholder="Add an internal comment..."
+          />
+          <Button
+            mode="contained"
+            style={styles.commentButton}
+            onPress={handleAddComment}
+            loading={postingComment}
+            disabled={postingComment || !commentDraft.trim()}
+          >
+            Post Comment
+          </Button>
+        </Card.Content>
+      </Card>
+
+      <Modal visible={!!evidencePreview} transparent onRequestClose={() => setEvidencePreview(null)}>
+        <TouchableOpacity style={styles.previewBackdrop} onPress={() => setEvidencePreview(null)}>
+          {evidencePreview && (
+            <Image source={{ uri: evidencePreview }} style={styles.previewImage} resizeMode="contain" />
+          )}
+        </TouchableOpacity>
+      </Modal>
+
+      <Portal>
+        <Dialog
+          visible={suspendDialog.visible}
+          onDismiss={() => setSuspendDialog({ visible: false, reason: '', loading: false })}
+        >
+          <Dialog.Title>Suspend {report.reported_user?.name ?? 'user'}</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              mode="outlined"
+              multiline
+              label="Reason"
+              value={suspendDialog.reason}
+              onChangeText={reason => setSuspendDialog(prev => ({ ...prev, reason }))}
+              placeholder="Recorded on the report and the user's status history"
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setSuspendDialog({ visible: false, reason: '', loading: false })}>Cancel</Button>
+            <Button
+              mode="contained"
+              buttonColor="#d32f2f"
+              onPress={handleSuspend}
+              loading={suspendDialog.loading}
+              disabled={suspendDialog.loading}
+            >
+              Suspend
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </ScrollView>
   );
 }
@@ -158,9 +429,28 @@ const styles = StyleSheet.create({
   chips: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 16 },
   chip: { marginRight: 8, marginBottom: 8 },
   statusChip: { backgroundColor: '#2196f3' },
+  escalatedChip: { backgroundColor: '#d32f2f' },
+  lightText: { color: '#fff' },
+  slaBanner: { padding: 8, borderRadius: 8, backgroundColor: '#fff3e0', marginBottom: 16 },
+  slaBannerOverdue: { backgroundColor: '#d32f2f' },
+  slaText: { fontSize: 13, color: '#e65100', fontWeight: 'bold' },
   section: { marginBottom: 16 },
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap' },
+  flex: { flex: 1 },
   label: { fontSize: 14, fontWeight: 'bold', marginBottom: 4, color: '#666' },
   role: { fontSize: 12, color: '#999', fontStyle: 'italic' },
+  link: { color: '#3f51b5', textDecorationLine: 'underline' },
+  evidenceItem: { marginRight: 8 },
+  evidenceThumb: { width: 96, height: 96, borderRadius: 8, backgroundColor: '#e0e0e0' },
+  evidenceFile: { alignItems: 'center', justifyContent: 'center', padding: 6 },
+  evidenceFileText: { fontSize: 11, color: '#424242', textAlign: 'center' },
+  previewBackdrop: { flex: 1, backgroundColor: 'rgba(0,0,0,0.9)', justifyContent: 'center' },
+  previewImage: { width: '100%', height: '80%' },
   actions: { marginTop: 16, marginBottom: 16 },
   timestamp: { fontSize: 12, color: '#999', marginTop: 8 },
+  comment: { marginBottom: 8 },
+  commentAuthor: { fontWeight: 'bold' },
+  commentKind: { fontSize: 11, color: '#3f51b5' },
+  commentDivider: { marginTop: 8 },
+  commentButton: { marginTop: 8 },
 });
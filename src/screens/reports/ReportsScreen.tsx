@@ -1,30 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, FlatList, RefreshControl, TouchableOpacity } from 'react-native';
 import { Text, Card, Chip, Searchbar, Button, Menu } from 'react-native-paper';
-import { reportsService, Report } from '../../services/reportsService';
+import { fetchReports, formatSlaRemaining, getReportSla } from '../../services/reportsService';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Report, ReportSeverity, ReportStatus } from '../../types';
 
 export default function ReportsScreen({ navigation }: any) {
+  const { user } = useAuth();
   const [reports, setReports] = useState<Report[]>([]);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [search, setSearch] = useState('');
-  const [statusFilter, setStatusFilter] = useState('');
-  const [severityFilter, setSeverityFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | ''>('');
+  const [severityFilter, setSeverityFilter] = useState<ReportSeverity | ''>('');
+  const [assignedToMe, setAssignedToMe] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
 
   useEffect(() => {
     loadReports();
-  }, [statusFilter, severityFilter]);
+  }, [statusFilter, severityFilter, assignedToMe]);
 
   const loadReports = async () => {
     try {
       setLoading(true);
-      const response = await reportsService.getReports({
+      const result = await fetchReports({
         status: statusFilter || undefined,
         severity: severityFilter || undefined,
         search: search || undefined,
+        assignedTo: assignedToMe ? user?.id : undefined,
       });
-      setReports(response.reports || []);
+      setReports(result.reports);
     } catch (error) {
       console.error('Failed to load reports:', error);
     } finally {
@@ -53,47 +58,62 @@ export default function ReportsScreen({ navigation }: any) {
     }
   };
 
-  const renderReport = ({ item }: { item: Report }) => (
-    <TouchableOpacity onPress={() => navigation.navigate('ReportDetail', { reportId: item.id })}>
-      <Card style={styles.card}>
-        <Card.Content>
-          <View style={styles.header}>
-            <Text style={styles.title}>{item.title}</Text>
-            <Chip
-              style={[styles.chip, { backgroundColor: getSeverityColor(item.severity) }]}
-              textStyle={styles.chipText}
-            >
-              {item.severity.toUpperCase()}
-            </Chip>
-          </View>
+  const renderReport = ({ item }: { item: Report }) => {
+    const sla = getReportSla(item);
+    return (
+      <TouchableOpacity onPress={() => navigation.navigate('ReportDetail', { reportId: item.id })}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.header}>
+              <Text style={styles.title}>{item.title}</Text>
+              <Chip
+                style={[styles.chip, { backgroundColor: getSeverityColor(item.severity) }]}
+                textStyle={styles.chipText}
+              >
+                {item.severity.toUpperCase()}
+              </Chip>
+            </View>
           
-          <Text style={styles.type}>{item.report_type.replace(/_/g, ' ').toUpperCase()}</Text>
+            <Text style={styles.type}>{item.report_type.replace(/_/g, ' ').toUpperCase()}</Text>
           
-          <View style={styles.userInfo}>
-            <Text style={styles.label}>Reporter: </Text>
-            <Text>{item.reporter?.name || 'Unknown'}</Text>
-          </View>
+            <View style={styles.userInfo}>
+              <Text style={styles.label}>Reporter: </Text>
+              <Text>{item.reporter?.name || 'Unknown'}</Text>
+            </View>
           
-          <View style={styles.userInfo}>
-            <Text style={styles.label}>Reported: </Text>
-            <Text>{item.reported_user?.name || 'Unknown'}</Text>
-          </View>
+            <View style={styles.userInfo}>
+              <Text style={styles.label}>Reported: </Text>
+              <Text>{item.reported_user?.name || 'Unknown'}</Text>
+            </View>
+
+            <View style={styles.userInfo}>
+              <Text style={styles.label}>Assignee: </Text>
+              <Text>{item.assignee?.name || 'Unassigned'}</Text>
+            </View>
+
+            {sla && (
+              <Text style={[styles.sla, sla.overdue && styles.slaOverdue]}>
+                {formatSlaRemaining(sla)}
+                {item.escalation_level ? ` • escalated ×${item.escalation_level}` : ''}
+              </Text>
+            )}
           
-          <View style={styles.footer}>
-            <Chip
-              style={[styles.statusChip, { backgroundColor: getStatusColor(item.status) }]}
-              textStyle={styles.chipText}
-            >
-              {item.status.replace(/_/g, ' ').toUpperCase()}
-            </Chip>
-            <Text style={styles.date}>
-              {new Date(item.created_at).toLocaleDateString()}
-            </Text>
-          </View>
-        </Card.Content>
-      </Card>
-    </TouchableOpacity>
-  );
+            <View style={styles.footer}>
+              <Chip
+                style={[styles.statusChip, { backgroundColor: getStatusColor(item.status) }]}
+                textStyle={styles.chipText}
+              >
+                {item.status.replace(/_/g, ' ').toUpperCase()}
+              </Chip>
+              <Text style={styles.date}>
+                {new Date(item.created_at).toLocaleDateString()}
+              </Text>
+            </View>
+          </Card.Content>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <View style={styles.container}>
@@ -119,7 +139,20 @@ export default function ReportsScreen({ navigation }: any) {
           <Menu.Item onPress={() => { setStatusFilter('pending'); setMenuVisible(false); }} title="Pending" />
           <Menu.Item onPress={() => { setStatusFilter('under_review'); setMenuVisible(false); }} title="Under Review" />
           <Menu.Item onPress={() => { setStatusFilter('resolved'); setMenuVisible(false); }} title="Resolved" />
+          <Menu.Item onPress={() => { setStatusFilter('dismissed'); setMenuVisible(false); }} title="Dismissed" />
+          <Menu.Item onPress={() => { setSeverityFilter(''); setMenuVisible(false); }} title="All Severities" />
+          <Menu.Item onPress={() => { setSeverityFilter('critical'); setMenuVisible(false); }} title="Critical" />
+          <Menu.Item onPress={() => { setSeverityFilter('high'); setMenuVisible(false); }} title="High" />
+          <Menu.Item onPress={() => { setSeverityFilter('medium'); setMenuVisible(false); }} title="Medium" />
+          <Menu.Item onPress={() => { setSeverityFilter('low'); setMenuVisible(false); }} title="Low" />
         </Menu>
+        <Chip
+          selected={assignedToMe}
+          onPress={() => setAssignedToMe(prev => !prev)}
+          style={styles.mineChip}
+        >
+          Assigned to me
+        </Chip>
       </View>
 
       <FlatList
@@ -129,6 +162,9 @@ export default function ReportsScreen({ navigation }: any) {
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); loadReports(); }} />
         }
+        ListEmptyComponent={
+          <Text style={styles.empty}>{loading ? 'Loading reports...' : 'No reports found'}</Text>
+        }
         contentContainerStyle={styles.list}
       />
     </View>
@@ -138,7 +174,8 @@ export default function ReportsScreen({ navigation }: any) {
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: '#f5f5f5' },
   searchbar: { margin: 16 },
-  filters: { paddingHorizontal: 16, marginBottom: 8 },
+  filters: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, marginBottom: 8 },
+  mineChip: { marginLeft: 8 },
   list: { padding: 16 },
   card: { marginBottom: 12 },
   header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 },
@@ -151,4 +188,7 @@ const styles = StyleSheet.create({
   chipText: { color: '#fff', fontSize: 10 },
   statusChip: { paddingHorizontal: 12 },
   date: { fontSize: 12, color: '#666' },
+  sla: { fontSize: 12, color: '#f57c00', marginTop: 4 },
+  slaOverdue: { color: '#d32f2f', fontWeight: 'bold' },
+  empty: { textAlign: 'center', color: '#666', marginTop: 24 },
 });
@@ -0,0 +1,178 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {Alert, FlatList, RefreshControl, StyleSheet, View} from 'react-native';
+import {Card, Chip, Searchbar, Switch, Text} from 'react-native-paper';
+import {fetchUsers, updateUserPermissions} from '../../services/usersService';
+import {
+  DEFAULT_ADMIN_PERMISSIONS,
+  PERMISSION_DEFINITIONS,
+  PERMISSIONS,
+  type Permission,
+  type PermissionDefinition,
+} from '../../config/permissions';
+import {usePermission} from '../../hooks/usePermission';
+import {useAuth} from '../../contexts/AuthContext';
+import type {User} from '../../types';
+
+const PERMISSION_GROUPS = Array.from(new Set(PERMISSION_DEFINITIONS.map(definition => definition.group)));
+
+export default function AdminPermissionsScreen() {
+  const canManage = usePermission(PERMISSIONS.PERMISSIONS_MANAGE);
+  const {user} = useAuth();
+  const isSuperAdmin = user?.role === 'superadmin';
+  const [admins, setAdmins] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const loadAdmins = useCallback(async () => {
+    try {
+      const result = await fetchUsers({userType: 'admin', limit: 100});
+      setAdmins(result.users);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load admins');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAdmins();
+  }, [loadAdmins]);
+
+  const filteredAdmins = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) {
+      return admins;
+    }
+    return admins.filter(
+      admin => admin.name?.toLowerCase().includes(query) || admin.email?.toLowerCase().includes(query),
+    );
+  }, [admins, searchQuery]);
+
+  const handleToggle = useCallback(async (admin: User, permission: Permission, granted: boolean) => {
+    const current = admin.permissions ?? [];
+    const next = granted ? [...current, permission] : current.filter(item => item !== permission);
+    const key = `${admin.id}:${permission}`;
+
+    setSavingKey(key);
+    setAdmins(prev => prev.map(item => (item.id === admin.id ? {...item, permissions: next} : item)));
+    try {
+      const updated = await updateUserPermissions(admin.id, next);
+      setAdmins(prev => prev.map(item => (item.id === admin.id ? {...item, permissions: updated.permissions} : item)));
+    } catch (error: any) {
+      setAdmins(prev => prev.map(item => (item.id === admin.id ? {...item, permissions: current} : item)));
+      Alert.alert('Error', error.message || 'Failed to update permissions');
+    } finally {
+      setSavingKey(null);
+    }
+  }, []);
+
+  const renderPermission = (admin: User, definition: PermissionDefinition) => {
+    const isDefault = DEFAULT_ADMIN_PERMISSIONS.includes(definition.key);
+    const granted = isDefault || (admin.permissions ?? []).includes(definition.key);
+    const key = `${admin.id}:${definition.key}`;
+    // The backend rejects self-edits, and only superadmins may hand out permission management.
+    const locked =
+      isDefault || admin.id === user?.id || (definition.key === PERMISSIONS.PERMISSIONS_MANAGE && !isSuperAdmin);
+
+    return (
+      <View key={definition.key} style={styles.permissionRow}>
+        <View style={styles.permissionInfo}>
+          <Text variant="bodyMedium" style={styles.permissionLabel}>
+            {definition.label}
+          </Text>
+          <Text variant="bodySmall" style={styles.subtleText}>
+            {isDefault
+              ? 'Included for every admin'
+              : definition.key === PERMISSIONS.PERMISSIONS_MANAGE && !isSuperAdmin
+                ? 'Only super admins can change this'
+                : definition.description}
+          </Text>
+        </View>
+        <Switch
+          value={granted}
+          disabled={locked || savingKey === key}
+          onValueChange={value => handleToggle(admin, definition.key, value)}
+        />
+      </View>
+    );
+  };
+
+  const renderAdmin = ({item}: {item: User}) => (
+    <Card style={styles.card}>
+      <Card.Title
+        title={item.name || item.email}
+        subtitle={item.id === user?.id ? `${item.email} · You cannot change your own permissions` : item.email}
+      />
+      <Card.Content>
+        {PERMISSION_GROUPS.map(group => (
+          <View key={group} style={styles.group}>
+            <Chip compact style={styles.groupChip}>
+              {group}
+            </Chip>
+            {PERMISSION_DEFINITIONS.filter(definition => definition.group === group).map(definition =>
+              renderPermission(item, definition),
+            )}
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+
+  if (!canManage) {
+    return (
+      <View style={styles.centered}>
+        <Text variant="titleMedium">Permission required</Text>
+        <Text variant="bodySmall" style={styles.subtleText}>
+          Only admins with the Manage permissions permission can grant or revoke admin permissions.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Searchbar
+        placeholder="Search admins..."
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+        style={styles.searchbar}
+      />
+      <FlatList
+        data={filteredAdmins}
+        keyExtractor={item => item.id}
+        renderItem={renderAdmin}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadAdmins();
+            }}
+          />
+        }
+        ListEmptyComponent={
+          <Text style={styles.empty}>{loading ? 'Loading admins...' : 'No admin accounts found'}</Text>
+        }
+        contentContainerStyle={styles.list}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {flex: 1, backgroundColor: '#f5f5f5'},
+  centered: {flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24, backgroundColor: '#f5f5f5'},
+  searchbar: {margin: 16},
+  list: {paddingHorizontal: 16, paddingBottom: 16},
+  card: {marginBottom: 12},
+  group: {marginBottom: 12},
+  groupChip: {alignSelf: 'flex-start', marginBottom: 4},
+  permissionRow: {flexDirection: 'row', alignItems: 'center', paddingVertical: 6},
+  permissionInfo: {flex: 1, marginRight: 12},
+  permissionLabel: {fontWeight: '600'},
+  subtleText: {color: '#666'},
+  empty: {textAlign: 'center', color: '#666', marginTop: 24},
+});
@@ -17,15 +17,23 @@ import {
 } from 'react-native-paper';
 import {Icon} from 'react-native-elements';
 import {adminApi} from '../../services/apiService';
+import {fetchSystemSettings, updateSystemSettings} from '../../services/settingsService';
 import {SystemSettings} from '../../types';
+import PermissionGuard from '../../components/PermissionGuard';
+import {PERMISSIONS} from '../../config/permissions';
+import {usePermission} from '../../hooks/usePermission';
 
-export default function SettingsScreen() {
+const formatFeePercent = (rate: number) => String(Math.round(rate * 10000) / 100);
+
+export default function SettingsScreen({navigation}: any) {
+  const canWriteSettings = usePermission(PERMISSIONS.SETTINGS_WRITE);
   const DEFAULT_SETTINGS: SystemSettings = useMemo(
     () => ({
       maintenanceMode: false,
       registrationEnabled: true,
       emailVerificationRequired: true,
       backgroundCheckRequired: true,
+      platformFeeRate: 0.1,
     }),
     [],
   );
@@ -36,17 +44,14 @@ export default function SettingsScreen() {
   const [exportDialogVisible, setExportDialogVisible] = useState(false);
   const [exportFormat, setExportFormat] = useState<'json' | 'csv'>('json');
   const [exportUserType, setExportUserType] = useState<string>('');
+  const [feePercent, setFeePercent] = useState(String(DEFAULT_SETTINGS.platformFeeRate * 100));
 
   const loadSettings = async () => {
     try {
-      const response = await adminApi.getSettings();
-      if (response.success && response.data) {
-        const normalized = {
-          ...DEFAULT_SETTINGS,
-          ...(response.data as Partial<SystemSettings>),
-        } satisfies SystemSettings;
-        setSettings(normalized);
-      }
+      const current = await fetchSystemSettings();
+      const loaded = {...DEFAULT_SETTINGS, ...current} satisfies SystemSettings;
+      setSettings(loaded);
+      setFeePercent(formatFeePercent(loaded.platformFeeRate));
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to load settings');
       setSettings(DEFAULT_SETTINGS);
@@ -59,25 +64,22 @@ export default function SettingsScreen() {
     loadSettings();
   }, []);
 
-  const handleSettingChange = async (key: keyof SystemSettings, value: boolean) => {
+  const handleSettingChange = async <K extends keyof SystemSettings>(key: K, value: SystemSettings[K]) => {
+    if (!canWriteSettings) {
+      Alert.alert('Not allowed', 'You do not have permission to change system settings.');
+      return;
+    }
     setSaving(true);
     try {
       const updatedSettings: SystemSettings = {
         ...settings,
         [key]: value,
       };
-      const response = await adminApi.updateSettings(updatedSettings);
-
-      if (response.success && response.data) {
-        const normalized = {
-          ...DEFAULT_SETTINGS,
-          ...(response.data as Partial<SystemSettings>),
-        } satisfies SystemSettings;
-        setSettings(normalized);
-        Alert.alert('Success', 'Settings updated successfully');
-      } else {
-        throw new Error('Failed to update settings');
-      }
+      const saved = await updateSystemSettings(updatedSettings);
+      const next = {...DEFAULT_SETTINGS, ...saved} satisfies SystemSettings;
+      setSettings(next);
+      setFeePercent(formatFeePercent(next.platformFeeRate));
+      Alert.alert('Success', 'Settings updated successfully');
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to update settings');
       setSettings(prev => ({...prev}));
@@ -86,6 +88,17 @@ export default function SettingsScreen() {
     }
   };
 
+  const feeRate = Number(feePercent) / 100;
+  const feeRateValid = feePercent.trim() !== '' && Number.isFinite(feeRate) && feeRate >= 0 && feeRate < 1;
+
+  const handleSaveFeeRate = () => {
+    if (!feeRateValid) {
+      Alert.alert('Invalid fee', 'Enter a platform fee from 0 up to, but not including, 100%.');
+      return;
+    }
+    handleSettingChange('platformFeeRate', Math.round(feeRate * 10000) / 10000);
+  };
+
   const handleExport = async () => {
     try {
       await adminApi.exportUsers(exportFormat, exportUserType || undefined);
@@ -163,12 +176,18 @@ export default function SettingsScreen() {
             <Text variant="titleLarge" style={styles.sectionTitle}>
               General Settings
             </Text>
+            {!canWriteSettings && (
+              <Text variant="bodySmall" style={styles.readOnlyNotice}>
+                Read only. Ask a super admin for the settings.write permission to make changes.
+              </Text>
+            )}
 
             <SettingItem
               title="Maintenance Mode"
               description="Enable maintenance mode to prevent user access"
               value={settings.maintenanceMode}
               onValueChange={(value) => handleSettingChange('maintenanceMode', value)}
+              disabled={!canWriteSettings}
               icon="build"
             />
 
@@ -177,6 +196,7 @@ export default function SettingsScreen() {
               description="Allow new users to register accounts"
               value={settings.registrationEnabled}
               onValueChange={(value) => handleSettingChange('registrationEnabled', value)}
+              disabled={!canWriteSettings}
               icon="person-add"
             />
 
@@ -185,6 +205,7 @@ export default function SettingsScreen() {
               description="Require email verification for new accounts"
               value={settings.emailVerificationRequired}
               onValueChange={(value) => handleSettingChange('emailVerificationRequired', value)}
+              disabled={!canWriteSettings}
               icon="email"
             />
 
@@ -193,11 +214,44 @@ export default function SettingsScreen() {
               description="Require background checks for caregivers"
               value={settings.backgroundCheckRequired}
               onValueChange={(value) => handleSettingChange('backgroundCheckRequired', value)}
+              disabled={!canWriteSettings}
               icon="security"
             />
           </Card.Content>
         </Card>
 
+        <Card style={styles.sectionCard}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Payouts
+            </Text>
+
+            <TextInput
+              mode="outlined"
+              label="Platform fee (%)"
+              value={feePercent}
+              onChangeText={setFeePercent}
+              keyboardType="decimal-pad"
+              error={!feeRateValid}
+              disabled={!canWriteSettings}
+              style={styles.feeInput}
+            />
+            <Text variant="bodySmall" style={styles.feeHint}>
+              Deducted from caregiver earnings when a payout is scheduled. Payouts already scheduled keep their rate.
+            </Text>
+            {canWriteSettings && (
+              <Button
+                mode="outlined"
+                onPress={handleSaveFeeRate}
+                disabled={saving || !feeRateValid || feeRate === settings.platformFeeRate}
+                style={styles.actionButton}
+                icon="content-save">
+                Save Platform Fee
+              </Button>
+            )}
+          </Card.Content>
+        </Card>
+
         <Card style={styles.sectionCard}>
           <Card.Content>
             <Text variant="titleLarge" style={styles.sectionTitle}>
@@ -214,6 +268,24 @@ export default function SettingsScreen() {
           </Card.Content>
         </Card>
 
+        <PermissionGuard permission={PERMISSIONS.PERMISSIONS_MANAGE}>
+          <Card style={styles.sectionCard}>
+            <Card.Content>
+              <Text variant="titleLarge" style={styles.sectionTitle}>
+                Admin Access
+              </Text>
+
+              <Button
+                mode="outlined"
+                onPress={() => navigation.navigate('AdminPermissions')}
+                style={styles.actionButton}
+                icon="shield-account">
+                Manage Admin Permissions
+              </Button>
+            </Card.Content>
+          </Card>
+        </PermissionGuard>
+
         <Card style={styles.sectionCard}>
           <Card.Content>
             <Text variant="titleLarge" style={styles.sectionTitle}>
@@ -315,6 +387,11 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     color: '#3f51b5',
   },
+  readOnlyNotice: {
+    color: '#f57c00',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   settingCard: {
     marginBottom: 8,
     elevation: 1,
@@ -339,6 +416,13 @@ const styles = StyleSheet.create({
     marginTop: 8,
     borderColor: '#3f51b5',
   },
+  feeInput: {
+    backgroundColor: '#fff',
+  },
+  feeHint: {
+    color: '#666',
+    marginTop: 4,
+  },
   infoRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,207 @@
+import React, {useCallback, useState} from 'react';
+import {Alert, FlatList, StyleSheet, View} from 'react-native';
+import {Button, Card, Chip, Text} from 'react-native-paper';
+import {useOfflineQueue} from '../../hooks/useOfflineQueue';
+import type {QueuedMutation, QueuedMutationStatus} from '../../services/offlineQueue';
+
+const STATUS_META: Record<QueuedMutationStatus, {label: string; color: string}> = {
+  pending: {label: 'Pending sync', color: '#ff9800'},
+  conflict: {label: 'Conflict', color: '#d32f2f'},
+  failed: {label: 'Failed', color: '#757575'},
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString();
+};
+
+const describePayload = (data: unknown) => {
+  if (data === undefined || data === null) {
+    return null;
+  }
+  try {
+    return JSON.stringify(data, null, 2);
+  } catch {
+    return String(data);
+  }
+};
+
+export default function SyncQueueScreen() {
+  const {mutations, pendingCount, retry, discard, syncNow} = useOfflineQueue();
+  const [syncing, setSyncing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleSyncNow = useCallback(async () => {
+    try {
+      setSyncing(true);
+      await syncNow();
+    } finally {
+      setSyncing(false);
+    }
+  }, [syncNow]);
+
+  const handleRetry = useCallback(
+    async (mutation: QueuedMutation) => {
+      try {
+        setBusyId(mutation.id);
+        await retry(mutation.id);
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [retry],
+  );
+
+  const handleDiscard = useCallback(
+    (mutation: QueuedMutation) => {
+      Alert.alert(
+        'Discard action',
+        `${mutation.method} ${mutation.endpoint} will not be sent. Continue?`,
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {text: 'Discard', style: 'destructive', onPress: () => discard(mutation.id)},
+        ],
+      );
+    },
+    [discard],
+  );
+
+  const renderItem = useCallback(
+    ({item}: {item: QueuedMutation}) => {
+      const meta = STATUS_META[item.status];
+      const payload = describePayload(item.data);
+
+      return (
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.headerRow}>
+              <Text variant="titleSmall" style={styles.endpoint}>
+                {item.method} {item.endpoint}
+              </Text>
+              <Chip style={{backgroundColor: meta.color}} textStyle={styles.chipText}>
+                {meta.label}
+              </Chip>
+            </View>
+            <Text variant="bodySmall" style={styles.subtleText}>
+              Queued {formatDateTime(item.createdAt)} • {item.attempts} attempt{item.attempts === 1 ? '' : 's'}
+            </Text>
+            {item.lastError ? (
+              <Text variant="bodySmall" style={styles.errorText}>
+                {item.lastError}
+              </Text>
+            ) : null}
+            {payload ? (
+              <Text variant="bodySmall" style={styles.payload}>
+                {payload}
+              </Text>
+            ) : null}
+          </Card.Content>
+          <Card.Actions>
+            <Button onPress={() => handleDiscard(item)} disabled={busyId === item.id}>
+              Discard
+            </Button>
+            <Button
+              mode="contained"
+              onPress={() => handleRetry(item)}
+              loading={busyId === item.id}
+              disabled={busyId === item.id}>
+              Retry
+            </Button>
+          </Card.Actions>
+        </Card>
+      );
+    },
+    [busyId, handleDiscard, handleRetry],
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={mutations}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <View style={styles.headerContainer}>
+            <Text variant="bodyMedium" style={styles.subtitle}>
+              Actions taken while offline are replayed automatically. Conflicts and failures need a decision.
+            </Text>
+            <Button
+              mode="contained"
+              icon="sync"
+              onPress={handleSyncNow}
+              loading={syncing}
+              disabled={syncing || pendingCount === 0}>
+              Sync now
+            </Button>
+          </View>
+        }
+        ListEmptyComponent={
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.emptyTitle}>
+                Everything is in sync
+              </Text>
+            </Card.Content>
+          </Card>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  listContent: {
+    padding: 16,
+  },
+  headerContainer: {
+    marginBottom: 16,
+  },
+  subtitle: {
+    color: '#666',
+    marginBottom: 12,
+  },
+  card: {
+    marginBottom: 12,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  endpoint: {
+    flex: 1,
+    marginRight: 8,
+    fontWeight: 'bold',
+  },
+  chipText: {
+    color: '#fff',
+  },
+  subtleText: {
+    color: '#666',
+  },
+  errorText: {
+    color: '#d32f2f',
+    marginTop: 4,
+  },
+  payload: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    fontFamily: 'monospace',
+  },
+  emptyTitle: {
+    textAlign: 'center',
+  },
+});
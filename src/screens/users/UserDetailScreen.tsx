@@ -21,6 +21,9 @@ import {StackNavigationProp} from '@react-navigation/stack';
 import {adminApi} from '../../services/apiService';
 import {User} from '../../types';
 import {SkeletonBlock, SkeletonCircle} from '../../components/skeletons/Skeleton';
+import CaregiverEarningsCard from '../../components/payments/CaregiverEarningsCard';
+import {PERMISSIONS} from '../../config/permissions';
+import {usePermission} from '../../hooks/usePermission';
 
 type RootStackParamList = {
   UserDetail: { userId: string };
@@ -37,6 +40,7 @@ export default function UserDetailScreen() {
   const [newStatus, setNewStatus] = useState('');
   const [statusReason, setStatusReason] = useState('');
   const [updating, setUpdating] = useState(false);
+  const canViewPayments = usePermission(PERMISSIONS.PAYMENTS_VIEW);
 
   const navigation = useNavigation<UserDetailScreenNavigationProp>();
   const route = useRoute<UserDetailScreenRouteProp>();
@@ -241,6 +245,10 @@ export default function UserDetailScreen() {
           </Card.Content>
         </Card>
 
+        {canViewPayments && (user.userType ?? user.role) === 'caregiver' && (
+          <CaregiverEarningsCard caregiverId={user.id} />
+        )}
+
         <Card style={styles.actionsCard}>
           <Card.Content>
             <Text variant="titleLarge" style={styles.sectionTitle}>
@@ -42,13 +42,16 @@ import {
   updateUserStatus,
   createUser,
   updateUser,
-  deleteUser,
   bulkUpdateUserStatus,
   type FetchUsersOptions,
   type CreateUserPayload,
   type UpdateUserPayload
 } from '../../services/usersService';
+import {requestBulkBanApproval, requestDeleteUserApproval} from '../../services/approvalsService';
 import {SkeletonBlock, SkeletonCircle} from '../../components/skeletons/Skeleton';
+import PermissionGuard from '../../components/PermissionGuard';
+import {PERMISSIONS, type Permission} from '../../config/permissions';
+import {usePermissions} from '../../hooks/usePermission';
 
 const STATUS_CONFIG = {
   active: { color: '#4caf50', label: 'Active', icon: 'check-circle' },
@@ -59,6 +62,14 @@ const STATUS_CONFIG = {
 
 type StatusKey = keyof typeof STATUS_CONFIG;
 
+// Banning is the only status change that needs its own grant.
+const STATUS_PERMISSIONS: Record<StatusKey, Permission> = {
+  active: PERMISSIONS.USERS_SUSPEND,
+  suspended: PERMISSIONS.USERS_SUSPEND,
+  banned: PERMISSIONS.USERS_BAN,
+  inactive: PERMISSIONS.USERS_SUSPEND,
+};
+
 type RootStackParamList = {
   UserDetail: { userId: string };
 };
@@ -97,6 +108,7 @@ export default function UsersScreen() {
   });
   const [deleteDialogVisible, setDeleteDialogVisible] = useState(false);
   const [targetUser, setTargetUser] = useState<User | null>(null);
+  const [deleteReason, setDeleteReason] = useState('');
 
   const navigation = useNavigation<UsersScreenNavigationProp>();
   const theme = useTheme();
@@ -111,7 +123,11 @@ export default function UsersScreen() {
 
   type UserFormState = Partial<CreateUserPayload & UpdateUserPayload> & { id?: string };
 
-  const statusOptions = useMemo(() => Object.keys(STATUS_CONFIG) as StatusKey[], []);
+  const {can} = usePermissions();
+  const statusOptions = useMemo(
+    () => (Object.keys(STATUS_CONFIG) as StatusKey[]).filter((status) => can(STATUS_PERMISSIONS[status])),
+    [can],
+  );
 
   const resetUserForm = useCallback(() => {
     setUserFormData({
@@ -232,6 +248,10 @@ export default function UsersScreen() {
 
   const confirmBulkStatusUpdate = async () => {
     if (selectedUserIds.length === 0) return;
+    if (bulkStatusTarget === 'banned') {
+      await requestBulkBan();
+      return;
+    }
     try {
       await bulkUpdateUserStatus({
         userIds: selectedUserIds,
@@ -247,6 +267,26 @@ export default function UsersScreen() {
     }
   };
 
+  // Bans need a second admin, so the bulk action files an approval request instead.
+  const requestBulkBan = async () => {
+    if (!statusReason.trim()) {
+      Alert.alert('Reason required', 'Explain why these users should be banned so the approving admin can review it.');
+      return;
+    }
+    const targets = selectedUserIds.map(
+      (id) => users.find((user) => user.id === id) ?? { id, name: id, email: '', status: 'active' as const },
+    );
+    try {
+      await requestBulkBanApproval(targets, statusReason);
+      Alert.alert('Approval requested', `Banning ${targets.length} users now needs approval from another admin.`);
+      setBulkStatusDialogVisible(false);
+      setStatusReason('');
+      exitSelectionMode();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to request approval');
+    }
+  };
+
   const openUserForm = (mode: 'create' | 'edit', user?: User) => {
     setUserFormMode(mode);
     if (mode === 'edit' && user) {
@@ -324,13 +364,18 @@ export default function UsersScreen() {
 
   const confirmDeleteUser = async () => {
     if (!targetUser) return;
+    if (!deleteReason.trim()) {
+      Alert.alert('Reason required', 'Explain why this user should be deleted so the approving admin can review it.');
+      return;
+    }
     try {
-      await deleteUser(targetUser.id);
-      Alert.alert('Success', 'User deleted successfully');
+      await requestDeleteUserApproval(targetUser, deleteReason);
+      Alert.alert('Approval requested', 'Another admin must approve this deletion before it takes effect.');
       setDeleteDialogVisible(false);
-      loadUsers(1, true);
+      setTargetUser(null);
+      setDeleteReason('');
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to delete user');
+      Alert.alert('Error', error.message || 'Failed to request approval');
     }
   };
 
@@ -542,14 +587,16 @@ export default function UsersScreen() {
                       </Button>
                     }
                   >
-                    <Menu.Item
-                      leadingIcon="account-edit"
-                      onPress={() => {
-                        setMenuUserId(null);
-                        openUserForm('edit', user);
-                      }}
-                      title="Edit User"
-                    />
+                    <PermissionGuard permission={PERMISSIONS.USERS_EDIT}>
+                      <Menu.Item
+                        leadingIcon="account-edit"
+                        onPress={() => {
+                          setMenuUserId(null);
+                          openUserForm('edit', user);
+                        }}
+                        title="Edit User"
+                      />
+                    </PermissionGuard>
                     {statusOptions
                       .filter((status) => status !== user.status)
                       .map((status) => (
@@ -563,17 +610,19 @@ export default function UsersScreen() {
                           title={`Set ${STATUS_CONFIG[status].label}`}
                         />
                       ))}
-                    <Divider />
-                    <Menu.Item
-                      leadingIcon="delete"
-                      title="Delete User"
-                      titleStyle={{ color: '#f44336' }}
-                      onPress={() => {
-                        setMenuUserId(null);
-                        setTargetUser(user);
-                        setDeleteDialogVisible(true);
-                      }}
-                    />
+                    <PermissionGuard permission={PERMISSIONS.USERS_DELETE}>
+                      <Divider />
+                      <Menu.Item
+                        leadingIcon="delete"
+                        title="Delete User"
+                        titleStyle={{ color: '#f44336' }}
+                        onPress={() => {
+                          setMenuUserId(null);
+                          setTargetUser(user);
+                          setDeleteDialogVisible(true);
+                        }}
+                      />
+                    </PermissionGuard>
                   </Menu>
                 </View>
 
@@ -731,6 +780,7 @@ export default function UsersScreen() {
             <Button
               mode="contained"
               onPress={() => openBulkStatusDialog(bulkStatusTarget)}
+              disabled={statusOptions.length === 0}
               style={styles.selectionActionButton}
             >
               Bulk Status
@@ -784,12 +834,14 @@ export default function UsersScreen() {
         contentContainerStyle={users.length === 0 ? styles.emptyListContainer : styles.listContent}
       />
 
-      <FAB
-        icon="account-plus"
-        onPress={() => openUserForm('create')}
-        style={styles.fab}
-        color="white"
-      />
+      <PermissionGuard permission={PERMISSIONS.USERS_EDIT}>
+        <FAB
+          icon="account-plus"
+          onPress={() => openUserForm('create')}
+          style={styles.fab}
+          color="white"
+        />
+      </PermissionGuard>
 
       <Portal>
         <Dialog
@@ -850,8 +902,13 @@ export default function UsersScreen() {
                 />
               ))}
             </RadioButton.Group>
+            {bulkStatusTarget === 'banned' && (
+              <Text style={styles.dialogDescription}>
+                Bans are applied after a second admin approves the request. A reason is required.
+              </Text>
+            )}
             <TextInput
-              label="Reason (optional)"
+              label={bulkStatusTarget === 'banned' ? 'Reason' : 'Reason (optional)'}
               value={statusReason}
               onChangeText={setStatusReason}
               mode="outlined"
@@ -983,13 +1040,15 @@ export default function UsersScreen() {
                         <RadioButton.Group
                           onValueChange={(value) => setUserFormData((prev) => ({ ...prev, status: value }))}
                           value={userFormData.status ?? 'active'}>
-                          {statusOptions.map((status) => (
-                            <RadioButton.Item
-                              key={`status-${status}`}
-                              label={STATUS_CONFIG[status].label}
-                              value={status}
-                            />
-                          ))}
+                          {(Object.keys(STATUS_CONFIG) as StatusKey[])
+                            .filter((status) => statusOptions.includes(status) || status === userFormData.status)
+                            .map((status) => (
+                              <RadioButton.Item
+                                key={`status-${status}`}
+                                label={STATUS_CONFIG[status].label}
+                                value={status}
+                              />
+                            ))}
                         </RadioButton.Group>
                       </View>
                     </View>
@@ -1051,8 +1110,18 @@ export default function UsersScreen() {
           <Dialog.Content>
             <Text>
               Are you sure you want to delete{' '}
-              <Text style={styles.boldText}>{targetUser?.name || targetUser?.email}</Text>? This will deactivate their account.
+              <Text style={styles.boldText}>{targetUser?.name || targetUser?.email}</Text>? This will deactivate their account
+              once a second admin approves the request.
             </Text>
+            <TextInput
+              label="Reason"
+              value={deleteReason}
+              onChangeText={setDeleteReason}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              style={styles.dialogInput}
+            />
           </Dialog.Content>
           <Dialog.Actions>
             <Button
@@ -1063,7 +1132,7 @@ export default function UsersScreen() {
             >
               Cancel
             </Button>
-            <Button onPress={confirmDeleteUser}>Delete</Button>
+            <Button onPress={confirmDeleteUser}>Request Deletion</Button>
           </Dialog.Actions>
         </Dialog>
       </Portal>
@@ -0,0 +1,108 @@
+import { OfflineQueuedError, apiService } from '../apiService';
+import { offlineQueue, type QueuedMutation } from '../offlineQueue';
+
+const fetchMock = jest.fn();
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json: async () => body } as Response);
+
+const sentKeys = () =>
+  fetchMock.mock.calls.map(([, init]) => (init.headers as Record<string, string>)['Idempotency-Key']);
+
+const queuedMutation = (overrides: Partial<QueuedMutation> = {}): QueuedMutation => ({
+  id: 'mutation-1',
+  idempotencyKey: 'stored-key',
+  method: 'POST',
+  endpoint: '/admin/jobs/job-1/approve',
+  createdAt: new Date().toISOString(),
+  attempts: 0,
+  nextAttemptAt: Date.now(),
+  status: 'pending',
+  ...overrides,
+});
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  fetchMock.mockReset();
+  global.fetch = fetchMock;
+  await offlineQueue.clear();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('idempotency keys', () => {
+  it('sends a fresh key with every mutation, even for identical payloads', async () => {
+    fetchMock.mockImplementation(() => respond(200, { success: true }));
+
+    await apiService.post('/admin/jobs/job-1/approve', { note: 'ok' });
+    await apiService.post('/admin/jobs/job-1/approve', { note: 'ok' });
+
+    const [first, second] = sentKeys();
+    expect(first).toEqual(expect.any(String));
+    expect(second).toEqual(expect.any(String));
+    expect(second).not.toBe(first);
+  });
+
+  it('does not send a key with reads', async () => {
+    fetchMock.mockImplementation(() => respond(200, { success: true, data: [] }));
+
+    await apiService.get('/admin/jobs');
+
+    expect(sentKeys()).toEqual([undefined]);
+  });
+
+  it('queues an offline mutation under the key it was first sent with', async () => {
+    fetchMock.mockImplementation(() => Promise.reject(new TypeError('Network request failed')));
+
+    const request = apiService.patch('/admin/users/user-1/status', { status: 'suspended' });
+
+    await expect(request).rejects.toBeInstanceOf(OfflineQueuedError);
+    const [queued] = await offlineQueue.list();
+    expect(queued).toMatchObject({
+      method: 'PATCH',
+      endpoint: '/admin/users/user-1/status',
+      data: { status: 'suspended' },
+      idempotencyKey: sentKeys()[0],
+    });
+  });
+
+  it('replays a queued mutation with its stored key', async () => {
+    fetchMock.mockImplementation(() => respond(200, { success: true }));
+
+    const outcome = await apiService.replayMutation(queuedMutation());
+
+    expect(outcome).toEqual({ type: 'success' });
+    expect(sentKeys()).toEqual(['stored-key']);
+  });
+});
+
+describe('apiService.replayMutation', () => {
+  it.each([
+    { response: '409', status: 409, code: undefined, type: 'conflict' },
+    { response: '412', status: 412, code: undefined, type: 'conflict' },
+    { response: '409 IDEMPOTENCY_IN_PROGRESS', status: 409, code: 'IDEMPOTENCY_IN_PROGRESS', type: 'retry' },
+    { response: '429', status: 429, code: undefined, type: 'retry' },
+    { response: '503', status: 503, code: undefined, type: 'retry' },
+    { response: '400', status: 400, code: undefined, type: 'failed' },
+  ])('classifies a $response response as $type', async ({ status, code, type }) => {
+    fetchMock.mockImplementation(() => respond(status, { success: false, error: 'Request failed', code }));
+
+    const outcome = await apiService.replayMutation(queuedMutation());
+
+    expect(outcome).toEqual({ type, error: 'Request failed' });
+  });
+
+  it('keeps the entry pending while still offline and does not queue it again', async () => {
+    fetchMock.mockImplementation(() => Promise.reject(new TypeError('Network request failed')));
+
+    const outcome = await apiService.replayMutation(queuedMutation());
+
+    expect(outcome).toEqual({ type: 'retry', error: 'Network request failed' });
+    expect(await offlineQueue.list()).toEqual([]);
+  });
+});
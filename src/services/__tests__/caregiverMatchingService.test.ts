@@ -0,0 +1,144 @@
+import {
+  scoreCaregiverMatch,
+  type JobSchedule,
+  type MatchCandidate,
+  type MatchSignals,
+} from '../caregiverMatchingService';
+import type { CaregiverMatch, CaregiverMatchFactor, Job } from '../../types';
+
+jest.mock('../../config/supabase', () => ({ supabase: {} }));
+
+const NOW = new Date('2026-03-01T10:00:00');
+
+const job: Job = {
+  id: 'job-1',
+  title: 'Weekday nanny',
+  description: 'Care for a toddler',
+  status: 'open',
+  parentId: { name: 'Liza Cruz', email: 'liza@example.com' },
+  location: 'Poblacion, Makati City, Metro Manila',
+  budget: 0,
+  hourly_rate: 200,
+  createdAt: '2026-02-20T00:00:00.000Z',
+  updatedAt: '2026-02-20T00:00:00.000Z',
+};
+
+// 2026-03-02 is a Monday.
+const schedule: JobSchedule = { date: '2026-03-02', startTime: '09:00', endTime: '17:00' };
+
+const candidate = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  id: 'caregiver-1',
+  name: 'Ana Reyes',
+  email: 'ana@example.com',
+  location: 'Poblacion, Makati',
+  hourlyRate: 180,
+  ...overrides,
+});
+
+const strongSignals: MatchSignals = {
+  backgroundCheck: { status: 'passed', expiryDate: '2027-01-01' },
+  rating: { average: 5, count: 12 },
+  bookings: { completed: 20, unsuccessful: 0 },
+  availability: [{ dayOfWeek: 1, start: '08:00', end: '18:00' }],
+};
+
+const factorOf = (match: CaregiverMatch, name: CaregiverMatchFactor) =>
+  match.factors.find(entry => entry.factor === name)!;
+
+describe('scoreCaregiverMatch', () => {
+  it('scores a caregiver who meets every criterion at 100', () => {
+    const match = scoreCaregiverMatch(job, schedule, candidate(), strongSignals, NOW);
+
+    expect(match.score).toBe(100);
+    expect(match.factors.map(entry => entry.factor)).toEqual([
+      'location',
+      'rate',
+      'background_check',
+      'rating',
+      'completion',
+      'availability',
+    ]);
+  });
+
+  it('scores missing data as neutral rather than zero', () => {
+    const match = scoreCaregiverMatch(
+      { ...job, location: '', hourly_rate: undefined },
+      {},
+      candidate({ location: undefined, hourlyRate: undefined }),
+      {},
+      NOW,
+    );
+
+    // Every factor is 0.5 except an unstarted background check at 0.25.
+    expect(match.score).toBe(45);
+    expect(factorOf(match, 'background_check').score).toBe(0.25);
+  });
+
+  it('drops the rate score linearly to zero at 50% over the job rate', () => {
+    const at25 = scoreCaregiverMatch(job, schedule, candidate({ hourlyRate: 250 }), strongSignals, NOW);
+    const at50 = scoreCaregiverMatch(job, schedule, candidate({ hourlyRate: 300 }), strongSignals, NOW);
+
+    expect(factorOf(at25, 'rate').score).toBeCloseTo(0.5);
+    expect(factorOf(at50, 'rate').score).toBe(0);
+  });
+
+  it('gives partial credit for a nearby but different area', () => {
+    const match = scoreCaregiverMatch(job, schedule, candidate({ location: 'Bel-Air, Makati' }), strongSignals, NOW);
+
+    // One of "poblacion", "makati" and "manila" is shared.
+    expect(factorOf(match, 'location').score).toBeCloseTo(1 / 3);
+    expect(factorOf(match, 'location').detail).toBe('Nearby: Bel-Air, Makati');
+  });
+
+  it('treats a passed check past its expiry date as expired', () => {
+    const match = scoreCaregiverMatch(
+      job,
+      schedule,
+      candidate(),
+      { ...strongSignals, backgroundCheck: { status: 'passed', expiryDate: '2026-02-01' } },
+      NOW,
+    );
+
+    expect(factorOf(match, 'background_check')).toMatchObject({ score: 0.2, detail: 'Background check: expired' });
+  });
+
+  it('pulls a small number of reviews toward neutral', () => {
+    const match = scoreCaregiverMatch(
+      job,
+      schedule,
+      candidate(),
+      { ...strongSignals, rating: { average: 5, count: 1 } },
+      NOW,
+    );
+
+    expect(factorOf(match, 'rating').score).toBeCloseTo(0.6);
+  });
+
+  it('scores availability zero when the caregiver is already booked for the job hours', () => {
+    const match = scoreCaregiverMatch(
+      job,
+      schedule,
+      candidate(),
+      {
+        ...strongSignals,
+        busy: [{ start: new Date('2026-03-02T13:00:00'), end: new Date('2026-03-02T15:00:00') }],
+      },
+      NOW,
+    );
+
+    expect(factorOf(match, 'availability')).toMatchObject({ score: 0, detail: 'Already booked at that time' });
+    expect(match.score).toBe(90);
+  });
+
+  it('gives less credit when availability does not cover the whole job', () => {
+    const match = scoreCaregiverMatch(
+      job,
+      schedule,
+      candidate(),
+      { ...strongSignals, availability: [{ dayOfWeek: 1, start: '12:00', end: '18:00' }] },
+      NOW,
+    );
+
+    expect(factorOf(match, 'availability').score).toBe(0.4);
+  });
+});
@@ -0,0 +1,46 @@
+import { buildCsv, escapeCsvValue } from '../exportFiles';
+
+describe('escapeCsvValue', () => {
+  it('leaves plain values as they are', () => {
+    expect(escapeCsvValue('Maria Santos')).toBe('Maria Santos');
+    expect(escapeCsvValue(42)).toBe('42');
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(undefined)).toBe('');
+  });
+
+  it.each(['=SUM(A1:A9)', '+63 917 000 0000', '-1', '@cmd'])('neutralises the formula prefix in %j', value => {
+    expect(escapeCsvValue(value)).toBe(`'${value}`);
+  });
+
+  it('neutralises a leading tab or carriage return and quotes the cell', () => {
+    expect(escapeCsvValue('\t=1+1')).toBe("'\t=1+1");
+    expect(escapeCsvValue('\r=1+1')).toBe(`"'\r=1+1"`);
+  });
+
+  it('quotes cells containing commas, quotes or line breaks', () => {
+    expect(escapeCsvValue('Makati, Metro Manila')).toBe('"Makati, Metro Manila"');
+    expect(escapeCsvValue('She said "no"')).toBe('"She said ""no"""');
+    expect(escapeCsvValue('line one\nline two')).toBe('"line one\nline two"');
+  });
+
+  it('serialises objects as JSON', () => {
+    expect(escapeCsvValue({ reason: 'late' })).toBe('"{""reason"":""late""}"');
+  });
+});
+
+describe('buildCsv', () => {
+  it('writes a header row and one escaped row per record', () => {
+    const csv = buildCsv(
+      [
+        { header: 'Name', value: (row: { name: string; note: string }) => row.name },
+        { header: 'Note', value: row => row.note },
+      ],
+      [
+        { name: 'Ana', note: '=HYPERLINK("x")' },
+        { name: 'Ben', note: 'ok' },
+      ],
+    );
+
+    expect(csv).toBe('Name,Note\r\nAna,"\'=HYPERLINK(""x"")"\r\nBen,ok');
+  });
+});
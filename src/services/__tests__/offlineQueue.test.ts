@@ -0,0 +1,150 @@
+import {
+  createIdempotencyKey,
+  isQueueableMethod,
+  offlineQueue,
+  type MutationExecutor,
+  type ReplayOutcome,
+} from '../offlineQueue';
+
+const enqueueUpdate = (idempotencyKey: string, data: unknown = { status: 'suspended' }) =>
+  offlineQueue.enqueue({ method: 'PATCH', endpoint: '/admin/users/user-1/status', data, idempotencyKey });
+
+const useExecutor = (...outcomes: ReplayOutcome[]) => {
+  const executor = jest.fn<ReturnType<MutationExecutor>, Parameters<MutationExecutor>>(async () =>
+    outcomes.length > 1 ? outcomes.shift()! : outcomes[0],
+  );
+  offlineQueue.setExecutor(executor);
+  return executor;
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  useExecutor({ type: 'success' });
+  await offlineQueue.flush();
+  await offlineQueue.clear();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('createIdempotencyKey', () => {
+  it('creates a new UUID for every action', () => {
+    const first = createIdempotencyKey();
+    const second = createIdempotencyKey();
+    expect(first).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(second).not.toBe(first);
+  });
+});
+
+describe('isQueueableMethod', () => {
+  it('only queues mutations', () => {
+    expect(isQueueableMethod('patch')).toBe(true);
+    expect(isQueueableMethod('DELETE')).toBe(true);
+    expect(isQueueableMethod('GET')).toBe(false);
+  });
+});
+
+describe('offlineQueue.enqueue', () => {
+  it('returns the waiting entry when the same action is queued twice', async () => {
+    const first = await enqueueUpdate('key-1');
+    const second = await enqueueUpdate('key-1');
+
+    expect(second.id).toBe(first.id);
+    expect(await offlineQueue.list()).toHaveLength(1);
+  });
+
+  it('keeps separate actions apart even when their payloads match', async () => {
+    await enqueueUpdate('key-1');
+    await enqueueUpdate('key-2');
+
+    const queued = await offlineQueue.list();
+    expect(queued.map(item => item.idempotencyKey)).toEqual(['key-1', 'key-2']);
+  });
+
+  it('does not let a failed entry absorb a new attempt with the same key', async () => {
+    useExecutor({ type: 'failed', error: 'Validation failed' });
+    const failed = await enqueueUpdate('key-1');
+    await offlineQueue.flush({ force: true });
+
+    const retried = await enqueueUpdate('key-1');
+
+    expect(retried.id).not.toBe(failed.id);
+    expect((await offlineQueue.list()).map(item => item.status)).toEqual(['failed', 'pending']);
+  });
+});
+
+describe('offlineQueue.flush', () => {
+  it('replays entries with their stored key and drops them once they succeed', async () => {
+    const executor = useExecutor({ type: 'success' });
+    const queued = await enqueueUpdate('key-1');
+
+    await offlineQueue.flush({ force: true });
+
+    expect(executor).toHaveBeenCalledWith(expect.objectContaining({ id: queued.id, idempotencyKey: 'key-1' }));
+    expect(await offlineQueue.list()).toEqual([]);
+  });
+
+  it('skips entries whose backoff window has not elapsed', async () => {
+    const executor = useExecutor({ type: 'success' });
+    await enqueueUpdate('key-1');
+
+    await offlineQueue.flush();
+
+    expect(executor).not.toHaveBeenCalled();
+    expect(await offlineQueue.list()).toHaveLength(1);
+  });
+
+  it('backs off and stops at the first entry that is still offline', async () => {
+    const executor = useExecutor({ type: 'retry', error: 'Network request failed' });
+    await enqueueUpdate('key-1');
+    await enqueueUpdate('key-2');
+
+    await offlineQueue.flush({ force: true });
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    const [first, second] = await offlineQueue.list();
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Network request failed' });
+    expect(first.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(second.attempts).toBe(0);
+  });
+
+  it('marks an entry failed after the last retry', async () => {
+    useExecutor({ type: 'retry', error: 'Network request failed' });
+    await enqueueUpdate('key-1');
+
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+      await offlineQueue.flush({ force: true });
+    }
+
+    const [entry] = await offlineQueue.list();
+    expect(entry).toMatchObject({ status: 'failed', attempts: 8 });
+  });
+
+  it('parks conflicts and leaves them out of later flushes', async () => {
+    const executor = useExecutor({ type: 'conflict', error: 'Job is no longer pending' });
+    await enqueueUpdate('key-1');
+
+    await offlineQueue.flush({ force: true });
+    await offlineQueue.flush({ force: true });
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    const [entry] = await offlineQueue.list();
+    expect(entry).toMatchObject({ status: 'conflict', lastError: 'Job is no longer pending' });
+  });
+});
+
+describe('offlineQueue.retry', () => {
+  it('replays a parked entry with its original key', async () => {
+    useExecutor({ type: 'failed', error: 'Server rejected the request' });
+    const queued = await enqueueUpdate('key-1');
+    await offlineQueue.flush({ force: true });
+
+    const executor = useExecutor({ type: 'success' });
+    await offlineQueue.retry(queued.id);
+
+    expect(executor).toHaveBeenCalledWith(expect.objectContaining({ id: queued.id, idempotencyKey: 'key-1' }));
+    expect(await offlineQueue.list()).toEqual([]);
+  });
+});
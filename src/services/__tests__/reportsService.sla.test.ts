@@ -0,0 +1,55 @@
+import { formatSlaRemaining, getReportSla } from '../reportsService';
+
+jest.mock('../../config/supabase', () => ({ supabase: {} }));
+
+const FILED_AT = '2026-03-02T08:00:00.000Z';
+const minutesAfterFiling = (minutes: number) => new Date(new Date(FILED_AT).getTime() + minutes * 60_000);
+
+describe('getReportSla', () => {
+  it.each([
+    ['critical', 60],
+    ['high', 4 * 60],
+    ['medium', 24 * 60],
+    ['low', 72 * 60],
+  ] as const)('gives %s reports %i minutes from filing', (severity, minutes) => {
+    const sla = getReportSla({ severity, status: 'pending', created_at: FILED_AT }, minutesAfterFiling(0));
+
+    expect(sla?.dueAt).toEqual(minutesAfterFiling(minutes));
+    expect(sla?.remainingMs).toBe(minutes * 60_000);
+    expect(sla?.overdue).toBe(false);
+  });
+
+  it('reports time left and overdue time relative to now', () => {
+    const report = { severity: 'critical', status: 'under_review', created_at: FILED_AT } as const;
+
+    expect(getReportSla(report, minutesAfterFiling(45))).toMatchObject({ remainingMs: 15 * 60_000, overdue: false });
+    expect(getReportSla(report, minutesAfterFiling(90))).toMatchObject({ remainingMs: -30 * 60_000, overdue: true });
+  });
+
+  it('stops the clock once a report is closed', () => {
+    expect(getReportSla({ severity: 'critical', status: 'resolved', created_at: FILED_AT })).toBeNull();
+    expect(getReportSla({ severity: 'critical', status: 'dismissed', created_at: FILED_AT })).toBeNull();
+  });
+
+  it('returns null when the filing date cannot be read', () => {
+    expect(getReportSla({ severity: 'high', status: 'pending', created_at: 'not a date' })).toBeNull();
+  });
+});
+
+describe('formatSlaRemaining', () => {
+  const slaAt = (remainingMinutes: number) => ({
+    dueAt: new Date(),
+    remainingMs: remainingMinutes * 60_000,
+    overdue: remainingMinutes < 0,
+  });
+
+  it('shows the two largest units left', () => {
+    expect(formatSlaRemaining(slaAt(12))).toBe('12m left');
+    expect(formatSlaRemaining(slaAt(3 * 60 + 5))).toBe('3h 5m left');
+    expect(formatSlaRemaining(slaAt(2 * 24 * 60 + 7 * 60))).toBe('2d 7h left');
+  });
+
+  it('describes overdue reports', () => {
+    expect(formatSlaRemaining(slaAt(-90))).toBe('Overdue by 1h 30m');
+  });
+});
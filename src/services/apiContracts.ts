@@ -0,0 +1,948 @@
+// Route contracts for the admin REST API.
+//
+// Each contract describes one backend route: its method, path template, the
+// query params and body it accepts, and a runtime validator for the `data`
+// field of the response envelope. `apiService.request` checks responses
+// against these validators so a backend shape change fails loudly with the
+// offending path instead of leaking `undefined` fields into screens.
+
+import type {
+  AnalyticsSummaryResponse,
+  ApprovalRequest,
+  AuditLog,
+  BookingRow,
+  ChildProfile,
+  JobRow,
+  NotificationItem,
+  PaymentRecord,
+  Report,
+  ReportComment,
+  ReportStats,
+  Review,
+} from '../types';
+import type { UserRow } from './usersService';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export class ContractValidationError extends Error {
+  route: string;
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(route: string, issue: SchemaIssue) {
+    super(`${route}: unexpected shape at ${issue.path}: expected ${issue.expected}, received ${issue.received}`);
+    this.name = 'ContractValidationError';
+    this.route = route;
+    this.path = issue.path;
+    this.expected = issue.expected;
+    this.received = issue.received;
+  }
+}
+
+class SchemaIssue extends Error {
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    super(`${path}: expected ${expected}, received ${received}`);
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new SchemaIssue(path, expected, value);
+};
+
+const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number', value);
+
+const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+const unknownValue: Validator<unknown> = value => value;
+
+const literal =
+  <const T extends readonly (string | number | boolean)[]>(options: T): Validator<T[number]> =>
+  (value, path) =>
+    options.includes(value as T[number]) ? (value as T[number]) : fail(path, options.join(' | '), value);
+
+const nullish =
+  <T>(inner: Validator<T>): Validator<T | null | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? value : inner(value, path);
+
+const optional =
+  <T>(inner: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : inner(value, path);
+
+const array =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) =>
+    Array.isArray(value) ? value.map((entry, index) => item(entry, `${path}[${index}]`)) : fail(path, 'array', value);
+
+const record =
+  <T>(item: Validator<T>): Validator<Record<string, T>> =>
+  (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return fail(path, 'object', value);
+    }
+    const result: Record<string, T> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+      result[key] = item(entry, `${path}.${key}`);
+    });
+    return result;
+  };
+
+/**
+ * Validates the listed keys of an object and passes every other key through
+ * untouched. Row payloads carry many alias columns (`parent`, `parent_id`,
+ * `parentInfo`, ...) that the mappers sort out, so only the fields a screen
+ * depends on need to be pinned down here.
+ */
+const object =
+  <T>(shape: { [K in keyof T]?: Validator<T[K]> }): Validator<T> =>
+  (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return fail(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+      const validate = shape[key] as Validator<unknown> | undefined;
+      if (validate) {
+        const parsed = validate(source[key], `${path}.${key}`);
+        if (parsed !== undefined || key in source) {
+          result[key] = parsed;
+        }
+      }
+    });
+    return result as T;
+  };
+
+const union =
+  <A, B>(first: Validator<A>, second: Validator<B>, expected: string): Validator<A | B> =>
+  (value, path) => {
+    try {
+      return first(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaIssue)) {
+        throw error;
+      }
+    }
+    try {
+      return second(value, path);
+    } catch (error) {
+      if (error instanceof SchemaIssue) {
+        return fail(path, expected, value);
+      }
+      throw error;
+    }
+  };
+
+const map =
+  <T, U>(inner: Validator<T>, transform: (value: T) => U): Validator<U> =>
+  (value, path) =>
+    transform(inner(value, path));
+
+export const v = {
+  string,
+  number,
+  boolean,
+  unknown: unknownValue,
+  literal,
+  nullish,
+  optional,
+  array,
+  record,
+  object,
+  union,
+  map,
+};
+
+export interface RouteContract<TPath, TParams, TBody, TResponse> {
+  method: HttpMethod;
+  path: string;
+  pathParams?: Validator<TPath>;
+  params?: Validator<TParams>;
+  body?: Validator<TBody>;
+  response: Validator<TResponse>;
+}
+
+export type AnyRouteContract = RouteContract<any, any, any, any>;
+
+export type PathParamsOf<C> = C extends RouteContract<infer P, any, any, any> ? P : never;
+export type ParamsOf<C> = C extends RouteContract<any, infer P, any, any> ? P : never;
+export type BodyOf<C> = C extends RouteContract<any, any, infer B, any> ? B : never;
+export type ResponseOf<C> = C extends RouteContract<any, any, any, infer R> ? R : never;
+
+export const defineRoute = <TPath = undefined, TParams = undefined, TBody = undefined, TResponse = unknown>(
+  contract: RouteContract<TPath, TParams, TBody, TResponse>,
+) => contract;
+
+/**
+ * Runs `validate` and rethrows schema issues as a `ContractValidationError`
+ * labelled with the route, e.g. "GET /admin/users: unexpected shape at
+ * data[3].email: expected string, received undefined".
+ */
+export const parseWithContract = <T>(route: string, validate: Validator<T>, value: unknown, path = 'data'): T => {
+  try {
+    return validate(value, path);
+  } catch (error) {
+    if (error instanceof SchemaIssue) {
+      throw new ContractValidationError(route, error);
+    }
+    throw error;
+  }
+};
+
+export const describeRoute = (contract: AnyRouteContract) => `${contract.method} ${contract.path}`;
+
+export const buildRoutePath = (template: string, pathParams?: Record<string, string>) =>
+  template.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+    const value = pathParams?.[key];
+    if (!value) {
+      throw new Error(`Missing path parameter "${key}" for ${template}`);
+    }
+    return encodeURIComponent(value);
+  });
+
+// Shared shapes
+
+const idParam = v.object<{ id: string }>({ id: v.string });
+
+const paginationParams = {
+  page: v.optional(v.number),
+  limit: v.optional(v.number),
+};
+
+const reasonBody = v.optional(v.object<{ reason?: string }>({ reason: v.optional(v.string) }));
+
+const statusBody = v.object<{ status: string; reason?: string }>({
+  status: v.string,
+  reason: v.optional(v.string),
+});
+
+const userRoles = ['parent', 'caregiver', 'admin', 'superadmin'] as const;
+const userStatuses = ['active', 'suspended', 'banned', 'inactive'] as const;
+const jobStatuses = ['open', 'pending', 'confirmed', 'completed', 'cancelled', 'active', 'inactive', 'filled'] as const;
+const bookingStatuses = ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show', 'in-progress'] as const;
+const paymentStatuses = ['pending', 'paid', 'partially_refunded', 'refunded', 'disputed'] as const;
+
+export const userRowSchema = v.object<UserRow>({
+  id: v.string,
+  email: v.string,
+  name: v.string,
+  role: v.literal(userRoles),
+  status: v.literal(userStatuses),
+  permissions: v.nullish(v.array(v.string)),
+});
+
+export const jobRowSchema = v.object<JobRow>({
+  id: v.string,
+  title: v.nullish(v.string),
+  description: v.nullish(v.string),
+  status: v.nullish(v.literal(jobStatuses)),
+  location: v.nullish(v.string),
+  budget: v.nullish(v.number),
+  hourly_rate: v.nullish(v.number),
+});
+
+export const bookingRowSchema = v.object<BookingRow>({
+  id: v.string,
+  status: v.nullish(v.literal(bookingStatuses)),
+  totalHours: v.nullish(v.number),
+  total_hours: v.nullish(v.number),
+  hourlyRate: v.nullish(v.number),
+  hourly_rate: v.nullish(v.number),
+  totalAmount: v.nullish(v.number),
+  total_amount: v.nullish(v.number),
+});
+
+export const paymentRecordSchema = v.object<PaymentRecord>({
+  id: v.string,
+  bookingId: v.string,
+  parentInfo: v.object<PaymentRecord['parentInfo']>({
+    id: v.optional(v.string),
+    name: v.optional(v.string),
+    email: v.optional(v.string),
+  }),
+  caregiverInfo: v.object<PaymentRecord['caregiverInfo']>({
+    id: v.optional(v.string),
+    name: v.optional(v.string),
+    email: v.optional(v.string),
+  }),
+  totalAmount: v.number,
+  paymentStatus: v.literal(paymentStatuses),
+  createdAt: v.string,
+  updatedAt: v.string,
+});
+
+const paymentListSchema = v.union(
+  v.array(paymentRecordSchema),
+  v.map(v.object<{ payments: PaymentRecord[] }>({ payments: v.array(paymentRecordSchema) }), value => value.payments),
+  'array of payments or { payments: [] }',
+);
+
+export const reviewSchema = v.object<Review>({
+  id: v.string,
+  rating: v.number,
+  status: v.optional(v.literal(['published', 'hidden'] as const)),
+});
+
+export const childProfileSchema = v.object<ChildProfile>({
+  id: v.string,
+  parentId: v.string,
+  name: v.string,
+});
+
+export const notificationSchema = v.object<NotificationItem>({
+  id: v.string,
+  type: v.string as Validator<NotificationItem['type']>,
+  title: v.string,
+  message: v.string,
+});
+
+export const auditLogSchema = v.object<AuditLog>({
+  id: v.string,
+  action: v.string,
+});
+
+export const analyticsSummarySchema = v.object<AnalyticsSummaryResponse>({
+  timeframe: v.string,
+  overview: v.object<AnalyticsSummaryResponse['overview']>({}),
+  trends: v.object<AnalyticsSummaryResponse['trends']>({}),
+});
+
+const reportTypes = [
+  'caregiver_misconduct',
+  'parent_maltreatment',
+  'inappropriate_behavior',
+  'safety_concern',
+  'payment_dispute',
+  'other',
+] as const;
+const reportSeverities = ['low', 'medium', 'high', 'critical'] as const;
+const reportStatuses = ['pending', 'under_review', 'resolved', 'dismissed'] as const;
+
+export const reportSchema = v.object<Report>({
+  id: v.string,
+  reporter_id: v.string,
+  reported_user_id: v.string,
+  report_type: v.literal(reportTypes),
+  title: v.string,
+  description: v.string,
+  severity: v.literal(reportSeverities),
+  status: v.literal(reportStatuses),
+  evidence_urls: v.optional(v.array(v.string)),
+  created_at: v.string,
+  updated_at: v.string,
+});
+
+export const reportCommentSchema = v.object<ReportComment>({
+  id: v.string,
+  report_id: v.string,
+  kind: v.literal(['comment', 'assignment', 'escalation', 'action', 'status'] as const),
+  body: v.string,
+  created_at: v.string,
+});
+
+export const reportStatsSchema = v.object<ReportStats>({
+  total: v.number,
+  byStatus: v.record(v.number),
+  bySeverity: v.record(v.number),
+  byType: v.record(v.number),
+});
+
+const reportListParams = v.optional(
+  v.object<{
+    page?: number;
+    limit?: number;
+    status?: string;
+    reportType?: string;
+    severity?: string;
+    assignedTo?: string;
+    bookingId?: string;
+    search?: string;
+  }>({
+    ...paginationParams,
+    status: v.optional(v.literal(reportStatuses)),
+    reportType: v.optional(v.literal(reportTypes)),
+    severity: v.optional(v.literal(reportSeverities)),
+    assignedTo: v.optional(v.string),
+    bookingId: v.optional(v.string),
+    search: v.optional(v.string),
+  }),
+);
+
+const approvalActionTypes = ['delete_user', 'refund_payment', 'delete_child_profile', 'bulk_ban_users'] as const;
+const approvalStatuses = ['pending', 'approved', 'rejected', 'expired', 'executing', 'executed'] as const;
+
+export const approvalRequestSchema = v.object<ApprovalRequest>({
+  id: v.string,
+  action_type: v.literal(approvalActionTypes),
+  target_type: v.string,
+  summary: v.string,
+  reason: v.string,
+  payload: v.record(v.unknown),
+  diff: v.array(v.object<ApprovalRequest['diff'][number]>({ field: v.string })),
+  status: v.literal(approvalStatuses),
+  requested_by: v.string,
+  created_at: v.string,
+  expires_at: v.string,
+});
+
+const approvalIdParams = v.optional(v.object<{ approvalId?: string }>({ approvalId: v.optional(v.string) }));
+
+const looseObject = v.record(v.unknown);
+
+// Route table
+
+export const adminRoutes = {
+  getDashboard: defineRoute({ method: 'GET', path: '/admin/dashboard', response: looseObject }),
+
+  getUsers: defineRoute({
+    method: 'GET',
+    path: '/admin/users',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; userType?: string; search?: string }>({
+        ...paginationParams,
+        userType: v.optional(v.string),
+        search: v.optional(v.string),
+      }),
+    ),
+    response: v.array(userRowSchema),
+  }),
+  createUser: defineRoute({
+    method: 'POST',
+    path: '/admin/users',
+    body: v.object<{
+      email: string;
+      password?: string;
+      role?: string;
+      name?: string;
+      phone?: string;
+      status?: string;
+    }>({ email: v.string }),
+    response: userRowSchema,
+  }),
+  getUserById: defineRoute({ method: 'GET', path: '/admin/users/:id', pathParams: idParam, response: userRowSchema }),
+  updateUser: defineRoute({
+    method: 'PUT',
+    path: '/admin/users/:id',
+    pathParams: idParam,
+    body: v.object<{
+      email?: string;
+      password?: string;
+      role?: string;
+      name?: string;
+      phone?: string;
+      status?: string;
+      reason?: string;
+    }>({}),
+    response: userRowSchema,
+  }),
+  updateUserStatus: defineRoute({
+    method: 'PATCH',
+    path: '/admin/users/:id/status',
+    pathParams: idParam,
+    body: statusBody,
+    response: userRowSchema,
+  }),
+  bulkUpdateUserStatus: defineRoute({
+    method: 'POST',
+    path: '/admin/users/bulk/status',
+    body: v.object<{ userIds: string[]; status: string; reason?: string; approvalId?: string }>({
+      userIds: v.array(v.string),
+      status: v.string,
+      reason: v.optional(v.string),
+      approvalId: v.optional(v.string),
+    }),
+    response: v.array(userRowSchema),
+  }),
+  deleteUser: defineRoute({
+    method: 'DELETE',
+    path: '/admin/users/:id',
+    pathParams: idParam,
+    params: approvalIdParams,
+    response: v.unknown,
+  }),
+  updateUserPermissions: defineRoute({
+    method: 'PATCH',
+    path: '/admin/users/:id/permissions',
+    pathParams: idParam,
+    body: v.object<{ permissions: string[] }>({ permissions: v.array(v.string) }),
+    response: userRowSchema,
+  }),
+
+  getJobs: defineRoute({
+    method: 'GET',
+    path: '/admin/jobs',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; status?: string; search?: string }>({
+        ...paginationParams,
+        status: v.optional(v.string),
+        search: v.optional(v.string),
+      }),
+    ),
+    response: v.array(jobRowSchema),
+  }),
+  getJobById: defineRoute({ method: 'GET', path: '/admin/jobs/:id', pathParams: idParam, response: jobRowSchema }),
+  createJob: defineRoute({
+    method: 'POST',
+    path: '/admin/jobs',
+    body: v.object<{
+      title: string;
+      description: string;
+      location: string;
+      budget?: number;
+      hourly_rate?: number;
+      parent_id?: string;
+      caregiver_id?: string;
+    }>({ title: v.string, description: v.string, location: v.string }),
+    response: jobRowSchema,
+  }),
+  updateJob: defineRoute({
+    method: 'PUT',
+    path: '/admin/jobs/:id',
+    pathParams: idParam,
+    body: v.object<{
+      title?: string;
+      description?: string;
+      location?: string;
+      budget?: number;
+      hourly_rate?: number;
+      parent_id?: string;
+      caregiver_id?: string;
+      revision_note?: string;
+    }>({}),
+    response: jobRowSchema,
+  }),
+  updateJobStatus: defineRoute({
+    method: 'PATCH',
+    path: '/admin/jobs/:id/status',
+    pathParams: idParam,
+    body: statusBody,
+    response: jobRowSchema,
+  }),
+  approveJob: defineRoute({ method: 'POST', path: '/admin/jobs/:id/approve', pathParams: idParam, body: reasonBody, response: jobRowSchema }),
+  rejectJob: defineRoute({ method: 'POST', path: '/admin/jobs/:id/reject', pathParams: idParam, body: reasonBody, response: jobRowSchema }),
+  cancelJob: defineRoute({ method: 'POST', path: '/admin/jobs/:id/cancel', pathParams: idParam, body: reasonBody, response: jobRowSchema }),
+  bulkJobAction: defineRoute({
+    method: 'POST',
+    path: '/admin/jobs/bulk',
+    body: v.object<{ jobIds: string[]; action: string; reason: string; batchId?: string }>({
+      jobIds: v.array(v.string),
+      action: v.string,
+      reason: v.string,
+      batchId: v.optional(v.string),
+    }),
+    response: v.object<{ succeeded: string[]; failures: Array<{ jobId: string; error: string }> }>({
+      succeeded: v.array(v.string),
+      failures: v.array(
+        v.object<{ jobId: string; error: string }>({ jobId: v.string, error: v.string }),
+      ),
+    }),
+  }),
+  completeJob: defineRoute({ method: 'POST', path: '/admin/jobs/:id/complete', pathParams: idParam, response: jobRowSchema }),
+  reopenJob: defineRoute({ method: 'POST', path: '/admin/jobs/:id/reopen', pathParams: idParam, response: jobRowSchema }),
+  deleteJob: defineRoute({
+    method: 'DELETE',
+    path: '/admin/jobs/:id',
+    pathParams: idParam,
+    params: v.optional(v.object<{ reason?: string }>({ reason: v.optional(v.string) })),
+    response: v.optional(jobRowSchema),
+  }),
+
+  getBookings: defineRoute({
+    method: 'GET',
+    path: '/admin/bookings',
+    params: v.optional(
+      v.object<{
+        page?: number;
+        limit?: number;
+        status?: string;
+        parentId?: string;
+        caregiverId?: string;
+        jobId?: string;
+        from?: string;
+        to?: string;
+        serviceDateFrom?: string;
+        serviceDateTo?: string;
+        minAmount?: number;
+        maxAmount?: number;
+        minChildren?: number;
+        maxChildren?: number;
+        hasOpenReport?: boolean;
+        search?: string;
+      }>({
+        ...paginationParams,
+        status: v.optional(v.string),
+        parentId: v.optional(v.string),
+        caregiverId: v.optional(v.string),
+        jobId: v.optional(v.string),
+        from: v.optional(v.string),
+        to: v.optional(v.string),
+        serviceDateFrom: v.optional(v.string),
+        serviceDateTo: v.optional(v.string),
+        minAmount: v.optional(v.number),
+        maxAmount: v.optional(v.number),
+        minChildren: v.optional(v.number),
+        maxChildren: v.optional(v.number),
+        hasOpenReport: v.optional(v.boolean),
+        search: v.optional(v.string),
+      }),
+    ),
+    response: v.array(bookingRowSchema),
+  }),
+  getBookingById: defineRoute({ method: 'GET', path: '/admin/bookings/:id', pathParams: idParam, response: bookingRowSchema }),
+  updateBookingStatus: defineRoute({
+    method: 'PATCH',
+    path: '/admin/bookings/:id/status',
+    pathParams: idParam,
+    body: statusBody,
+    response: bookingRowSchema,
+  }),
+  confirmBooking: defineRoute({ method: 'POST', path: '/admin/bookings/:id/confirm', pathParams: idParam, body: reasonBody, response: bookingRowSchema }),
+  startBooking: defineRoute({ method: 'POST', path: '/admin/bookings/:id/start', pathParams: idParam, response: bookingRowSchema }),
+  completeBooking: defineRoute({ method: 'POST', path: '/admin/bookings/:id/complete', pathParams: idParam, response: bookingRowSchema }),
+  cancelBooking: defineRoute({ method: 'POST', path: '/admin/bookings/:id/cancel', pathParams: idParam, body: reasonBody, response: bookingRowSchema }),
+
+  getAuditLogs: defineRoute({
+    method: 'GET',
+    path: '/admin/audit',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; action?: string; targetId?: string; adminId?: string }>({
+        ...paginationParams,
+        action: v.optional(v.string),
+        targetId: v.optional(v.string),
+        adminId: v.optional(v.string),
+      }),
+    ),
+    response: v.array(auditLogSchema),
+  }),
+
+  getSettings: defineRoute({ method: 'GET', path: '/admin/settings', response: looseObject }),
+  updateSettings: defineRoute({ method: 'PATCH', path: '/admin/settings', body: looseObject, response: looseObject }),
+
+  exportUsers: defineRoute({
+    method: 'GET',
+    path: '/admin/export/users',
+    params: v.object<{ format: 'json' | 'csv'; userType?: string }>({
+      format: v.literal(['json', 'csv'] as const),
+      userType: v.optional(v.string),
+    }),
+    response: v.unknown,
+  }),
+
+  getStats: defineRoute({ method: 'GET', path: '/admin/stats', response: looseObject }),
+  getUserAnalytics: defineRoute({
+    method: 'GET',
+    path: '/admin/analytics/users',
+    params: v.object<{ timeframe?: string }>({ timeframe: v.optional(v.string) }),
+    response: v.unknown,
+  }),
+  getActivitySummary: defineRoute({
+    method: 'GET',
+    path: '/admin/activity-summary',
+    params: v.object<{ timeframe?: string }>({ timeframe: v.optional(v.string) }),
+    response: v.unknown,
+  }),
+
+  getReviews: defineRoute({
+    method: 'GET',
+    path: '/admin/reviews',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; status?: string; rating?: number }>({
+        ...paginationParams,
+        status: v.optional(v.string),
+        rating: v.optional(v.number),
+      }),
+    ),
+    response: v.array(reviewSchema),
+  }),
+  getReviewById: defineRoute({ method: 'GET', path: '/admin/reviews/:id', pathParams: idParam, response: reviewSchema }),
+  updateReviewStatus: defineRoute({
+    method: 'PATCH',
+    path: '/admin/reviews/:id/status',
+    pathParams: idParam,
+    body: v.object<{ status: 'published' | 'hidden'; reason?: string }>({
+      status: v.literal(['published', 'hidden'] as const),
+      reason: v.optional(v.string),
+    }),
+    response: v.optional(reviewSchema),
+  }),
+  deleteReview: defineRoute({
+    method: 'DELETE',
+    path: '/admin/reviews/:id',
+    pathParams: idParam,
+    params: v.object<{ reason: string }>({ reason: v.string }),
+    response: v.unknown,
+  }),
+
+  getChildren: defineRoute({
+    method: 'GET',
+    path: '/admin/children',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; parentId?: string; search?: string }>({
+        ...paginationParams,
+        parentId: v.optional(v.string),
+        search: v.optional(v.string),
+      }),
+    ),
+    response: v.array(childProfileSchema),
+  }),
+  getChildById: defineRoute({ method: 'GET', path: '/admin/children/:id', pathParams: idParam, response: childProfileSchema }),
+  updateChildProfile: defineRoute({
+    method: 'PATCH',
+    path: '/admin/children/:id',
+    pathParams: idParam,
+    body: v.object<Partial<ChildProfile>>({}),
+    response: v.optional(childProfileSchema),
+  }),
+  deleteChildProfile: defineRoute({
+    method: 'DELETE',
+    path: '/admin/children/:id',
+    pathParams: idParam,
+    params: v.object<{ reason: string; approvalId?: string }>({
+      reason: v.string,
+      approvalId: v.optional(v.string),
+    }),
+    response: v.unknown,
+  }),
+
+  getNotifications: defineRoute({
+    method: 'GET',
+    path: '/admin/notifications',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; type?: string; userId?: string }>({
+        ...paginationParams,
+        type: v.optional(v.string),
+        userId: v.optional(v.string),
+      }),
+    ),
+    response: v.array(notificationSchema),
+  }),
+  createNotification: defineRoute({
+    method: 'POST',
+    path: '/admin/notifications',
+    body: v.object<{ userId?: string; type: string; title: string; message: string; data?: Record<string, any> }>({
+      type: v.string,
+      title: v.string,
+      message: v.string,
+    }),
+    response: notificationSchema,
+  }),
+  markNotificationRead: defineRoute({
+    method: 'PATCH',
+    path: '/admin/notifications/:id/read',
+    pathParams: idParam,
+    body: v.object<{ read: boolean }>({ read: v.boolean }),
+    response: v.optional(notificationSchema),
+  }),
+  deleteNotification: defineRoute({
+    method: 'DELETE',
+    path: '/admin/notifications/:id',
+    pathParams: idParam,
+    response: v.unknown,
+  }),
+
+  getPayments: defineRoute({
+    method: 'GET',
+    path: '/admin/payments',
+    params: v.optional(
+      v.object<{
+        page?: number;
+        limit?: number;
+        status?: string;
+        bookingId?: string;
+        bookingIds?: string;
+        search?: string;
+      }>({
+        ...paginationParams,
+        status: v.optional(v.string),
+        bookingId: v.optional(v.string),
+        bookingIds: v.optional(v.string),
+        search: v.optional(v.string),
+      }),
+    ),
+    response: paymentListSchema,
+  }),
+  getPaymentById: defineRoute({ method: 'GET', path: '/admin/payments/:id', pathParams: idParam, response: paymentRecordSchema }),
+  updatePaymentStatus: defineRoute({
+    method: 'PATCH',
+    path: '/admin/payments/:id/status',
+    pathParams: idParam,
+    body: v.object<{ status: string; notes?: string }>({ status: v.string, notes: v.optional(v.string) }),
+    response: paymentRecordSchema,
+  }),
+  refundPayment: defineRoute({
+    method: 'POST',
+    path: '/admin/payments/:id/refund',
+    pathParams: idParam,
+    body: v.object<{ reason: string; amount?: number; approvalId?: string }>({
+      reason: v.string,
+      amount: v.optional(v.number),
+      approvalId: v.optional(v.string),
+    }),
+    response: paymentRecordSchema,
+  }),
+
+  getAnalyticsSummary: defineRoute({
+    method: 'GET',
+    path: '/admin/analytics/summary',
+    params: v.optional(v.object<{ timeframe?: string }>({ timeframe: v.optional(v.string) })),
+    response: analyticsSummarySchema,
+  }),
+  getAnalyticsTrends: defineRoute({
+    method: 'GET',
+    path: '/admin/analytics/trends/:metric',
+    pathParams: v.object<{ metric: 'bookings' | 'revenue' | 'users' | 'applications' }>({
+      metric: v.literal(['bookings', 'revenue', 'users', 'applications'] as const),
+    }),
+    params: v.optional(v.object<{ timeframe?: string }>({ timeframe: v.optional(v.string) })),
+    response: v.unknown,
+  }),
+
+  getReports: defineRoute({
+    method: 'GET',
+    path: '/admin/reports',
+    params: reportListParams,
+    response: v.array(reportSchema),
+  }),
+  getReportStats: defineRoute({ method: 'GET', path: '/admin/reports/stats', response: reportStatsSchema }),
+  getReportById: defineRoute({ method: 'GET', path: '/admin/reports/:id', pathParams: idParam, response: reportSchema }),
+  updateReportStatus: defineRoute({
+    method: 'PATCH',
+    path: '/admin/reports/:id/status',
+    pathParams: idParam,
+    body: v.object<{ status: Report['status']; adminNotes?: string; resolution?: string }>({
+      status: v.literal(reportStatuses),
+      adminNotes: v.optional(v.string),
+      resolution: v.optional(v.string),
+    }),
+    response: reportSchema,
+  }),
+  assignReport: defineRoute({
+    method: 'PATCH',
+    path: '/admin/reports/:id/assign',
+    pathParams: idParam,
+    body: v.object<{ assigneeId: string | null }>({ assigneeId: v.nullish(v.string) as Validator<string | null> }),
+    response: reportSchema,
+  }),
+  escalateReport: defineRoute({
+    method: 'POST',
+    path: '/admin/reports/:id/escalate',
+    pathParams: idParam,
+    body: v.object<{ reason?: string }>({ reason: v.optional(v.string) }),
+    response: reportSchema,
+  }),
+  getReportComments: defineRoute({
+    method: 'GET',
+    path: '/admin/reports/:id/comments',
+    pathParams: idParam,
+    response: v.array(reportCommentSchema),
+  }),
+  addReportComment: defineRoute({
+    method: 'POST',
+    path: '/admin/reports/:id/comments',
+    pathParams: idParam,
+    body: v.object<{ body: string; kind?: 'comment' | 'action'; metadata?: Record<string, unknown> }>({
+      body: v.string,
+      kind: v.optional(v.literal(['comment', 'action'] as const)),
+    }),
+    response: reportCommentSchema,
+  }),
+
+  getApprovals: defineRoute({
+    method: 'GET',
+    path: '/admin/approvals',
+    params: v.optional(
+      v.object<{ page?: number; limit?: number; status?: string; requestedBy?: string }>({
+        ...paginationParams,
+        status: v.optional(v.literal(approvalStatuses)),
+        requestedBy: v.optional(v.string),
+      }),
+    ),
+    response: v.array(approvalRequestSchema),
+  }),
+  createApproval: defineRoute({
+    method: 'POST',
+    path: '/admin/approvals',
+    body: v.object<{
+      actionType: ApprovalRequest['action_type'];
+      targetType: string;
+      targetId?: string | null;
+      summary: string;
+      reason: string;
+      payload?: Record<string, unknown>;
+      diff?: ApprovalRequest['diff'];
+      expiresInHours?: number;
+    }>({
+      actionType: v.literal(approvalActionTypes),
+      targetType: v.string,
+      summary: v.string,
+      reason: v.string,
+    }),
+    response: approvalRequestSchema,
+  }),
+  approveApproval: defineRoute({
+    method: 'POST',
+    path: '/admin/approvals/:id/approve',
+    pathParams: idParam,
+    body: v.optional(v.object<{ note?: string }>({ note: v.optional(v.string) })),
+    response: approvalRequestSchema,
+  }),
+  rejectApproval: defineRoute({
+    method: 'POST',
+    path: '/admin/approvals/:id/reject',
+    pathParams: idParam,
+    body: v.optional(v.object<{ note?: string }>({ note: v.optional(v.string) })),
+    response: approvalRequestSchema,
+  }),
+};
+
+export const authRoutes = {
+  getUserById: defineRoute({ method: 'GET', path: '/auth/user/:id', pathParams: idParam, response: v.unknown }),
+
+  createReport: defineRoute({
+    method: 'POST',
+    path: '/auth/reports',
+    body: v.object<{
+      reported_user_id: string;
+      report_type: Report['report_type'];
+      title: string;
+      description: string;
+      severity?: Report['severity'];
+      category?: string;
+      evidence_urls?: string[];
+      booking_id?: string;
+      job_id?: string;
+    }>({
+      reported_user_id: v.string,
+      report_type: v.literal(reportTypes),
+      title: v.string,
+      description: v.string,
+      severity: v.optional(v.literal(reportSeverities)),
+    }),
+    response: reportSchema,
+  }),
+  getMyReports: defineRoute({
+    method: 'GET',
+    path: '/auth/reports/my',
+    params: v.optional(v.object<{ page?: number; limit?: number }>(paginationParams)),
+    response: v.array(reportSchema),
+  }),
+};
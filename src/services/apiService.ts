@@ -1,15 +1,77 @@
 // File: apiService.ts (class ApiService and exports)
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import {
-  ApiResponse,
-  Review,
-  ChildProfile,
-  NotificationItem,
-  PaymentRecord,
-  AnalyticsSummaryResponse,
-} from "../types";
+import { ApiResponse, ChildProfile } from "../types";
 import { apiBaseUrlWithApiPrefix, getEnvVar } from "../config/api";
+import {
+  adminRoutes,
+  authRoutes,
+  buildRoutePath,
+  describeRoute,
+  parseWithContract,
+  type AnyRouteContract,
+  type BodyOf,
+  type ParamsOf,
+  type PathParamsOf,
+  type ResponseOf,
+} from "./apiContracts";
+import {
+  createIdempotencyKey,
+  isQueueableMethod,
+  offlineQueue,
+  type QueuedMutation,
+  type ReplayOutcome,
+} from "./offlineQueue";
+
+const RESPONSE_CACHE_PREFIX = "apiCache:";
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when a mutation could not reach the backend and was stored in the
+ * offline queue instead. The action will be replayed once connectivity returns.
+ */
+export class OfflineQueuedError extends Error {
+  mutation: QueuedMutation;
+
+  constructor(mutation: QueuedMutation) {
+    super("You appear to be offline. The action was saved and will sync automatically once you reconnect.");
+    this.name = "OfflineQueuedError";
+    this.mutation = mutation;
+  }
+}
+
+const isNetworkFailure = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return false;
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError ("Network request failed") when there is no connectivity
+    return true;
+  }
+  return error instanceof Error && error.message === "Network request timed out";
+};
+
+interface RequestOptions {
+  idempotencyKey?: string;
+  skipQueue?: boolean;
+}
+
+export interface RouteRequestInput<C extends AnyRouteContract> {
+  pathParams?: PathParamsOf<C>;
+  params?: ParamsOf<C>;
+  body?: BodyOf<C>;
+}
 
 class ApiService {
   private async getAuthToken(): Promise<string | null> {
@@ -21,15 +83,19 @@ class ApiService {
     }
   }
 
-  private async getHeaders(includeAuth = true): Promise<HeadersInit> {
-    const headers: HeadersInit = {
+  private async getHeaders(includeAuth = true, idempotencyKey?: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
 
+    if (idempotencyKey) {
+      headers["Idempotency-Key"] = idempotencyKey;
+    }
+
     // Dev bypass header for development (requires ALLOW_DEV_BYPASS=true on backend)
     const devBypass = getEnvVar("EXPO_PUBLIC_DEV_BYPASS") === "true";
     if (devBypass) {
-      (headers as any)["X-Dev-Bypass"] = "1";
+      headers["X-Dev-Bypass"] = "1";
     }
 
     if (includeAuth) {
@@ -46,7 +112,7 @@ class ApiService {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data.code);
     }
 
     return data;
@@ -75,11 +141,136 @@ class ApiService {
     return this.requestWithTimeout('DELETE', endpoint);
   }
 
+  /**
+   * Calls a route described in `apiContracts`, validating the outgoing params
+   * and body and the `data` of the response against the contract.
+   */
+  async request<C extends AnyRouteContract>(
+    contract: C,
+    input: RouteRequestInput<C> = {}
+  ): Promise<ApiResponse<ResponseOf<C>>> {
+    const route = describeRoute(contract);
+    const pathParams = contract.pathParams
+      ? parseWithContract(route, contract.pathParams, input.pathParams, 'pathParams')
+      : undefined;
+    const params = contract.params
+      ? parseWithContract(route, contract.params, input.params, 'params')
+      : undefined;
+    const body = contract.body ? parseWithContract(route, contract.body, input.body, 'body') : undefined;
+
+    const response = await this.requestWithTimeout<unknown>(
+      contract.method,
+      buildRoutePath(contract.path, pathParams),
+      body,
+      params ?? undefined
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<ResponseOf<C>>;
+    }
+
+    return {
+      ...response,
+      data: parseWithContract(route, contract.response, response.data),
+    };
+  }
+
   async requestWithTimeout<T>(
     method: string,
     endpoint: string,
     data?: any,
-    params?: Record<string, any>
+    params?: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const url = this.buildUrl(endpoint, params);
+    const queueable = isQueueableMethod(method);
+    const idempotencyKey = queueable
+      ? options.idempotencyKey ?? createIdempotencyKey()
+      : undefined;
+
+    try {
+      const response = await this.fetchWithTimeout<T>(method, url, data, idempotencyKey);
+      if (method === 'GET') {
+        void this.cacheResponse(url, response);
+      }
+      if (!options.skipQueue) {
+        // A successful round trip means we are online again; drain anything left behind.
+        void offlineQueue.flush();
+      }
+      return response;
+    } catch (error) {
+      if (!isNetworkFailure(error)) {
+        throw error;
+      }
+
+      if (method === 'GET') {
+        const cached = await this.readCachedResponse<T>(url);
+        if (cached) {
+          return cached;
+        }
+      } else if (queueable && idempotencyKey && !options.skipQueue) {
+        const mutation = await offlineQueue.enqueue({
+          method: method.toUpperCase() as QueuedMutation['method'],
+          endpoint,
+          data,
+          idempotencyKey,
+          error: error instanceof Error ? error.message : undefined,
+        });
+        throw new OfflineQueuedError(mutation);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Replays a queued mutation and classifies the result for the offline queue.
+   */
+  async replayMutation(mutation: QueuedMutation): Promise<ReplayOutcome> {
+    try {
+      await this.requestWithTimeout(mutation.method, mutation.endpoint, mutation.data, undefined, {
+        idempotencyKey: mutation.idempotencyKey,
+        skipQueue: true,
+      });
+      return { type: 'success' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown API error';
+      if (error instanceof ApiError) {
+        // The original request is still running server-side; its stored response will answer the next replay.
+        if (error.code === 'IDEMPOTENCY_IN_PROGRESS') {
+          return { type: 'retry', error: message };
+        }
+        if (error.status === 409 || error.status === 412) {
+          return { type: 'conflict', error: message };
+        }
+        if (error.status === 408 || error.status === 429 || error.status >= 500) {
+          return { type: 'retry', error: message };
+        }
+        return { type: 'failed', error: message };
+      }
+      return { type: 'retry', error: message };
+    }
+  }
+
+  private buildUrl(endpoint: string, params?: Record<string, any>) {
+    const url = `${apiBaseUrlWithApiPrefix}${endpoint}`;
+    if (!params) {
+      return url;
+    }
+    const urlObj = new URL(url);
+    Object.keys(params).forEach((key) => {
+      if (params[key] !== undefined) {
+        urlObj.searchParams.append(key, params[key].toString());
+      }
+    });
+    return urlObj.toString();
+  }
+
+  private fetchWithTimeout<T>(
+    method: string,
+    url: string,
+    data?: any,
+    idempotencyKey?: string
   ): Promise<ApiResponse<T>> {
     return new Promise((resolve, reject) => {
       const timeoutMs = parseInt(getEnvVar('EXPO_PUBLIC_API_TIMEOUT') || '30000');
@@ -89,7 +280,7 @@ class ApiService {
         reject(new Error('Network request timed out'));
       }, timeoutMs);
 
-      this.performRequest<T>(method, endpoint, data, params, controller.signal)
+      this.performRequest<T>(method, url, data, idempotencyKey, controller.signal)
         .then(resolve)
         .catch(reject)
         .finally(() => {
@@ -100,26 +291,15 @@ class ApiService {
 
   private async performRequest<T>(
     method: string,
-    endpoint: string,
+    url: string,
     data?: any,
-    params?: Record<string, any>,
+    idempotencyKey?: string,
     signal?: AbortSignal
   ): Promise<ApiResponse<T>> {
     try {
-      let url = `${apiBaseUrlWithApiPrefix}${endpoint}`;
-      if (params) {
-        const urlObj = new URL(url);
-        Object.keys(params).forEach((key) => {
-          if (params[key] !== undefined) {
-            urlObj.searchParams.append(key, params[key].toString());
-          }
-        });
-        url = urlObj.toString();
-      }
-
       const response = await fetch(url, {
         method,
-        headers: await this.getHeaders(),
+        headers: await this.getHeaders(true, idempotencyKey),
         body: data ? JSON.stringify(data) : undefined,
         signal,
       });
@@ -133,270 +313,318 @@ class ApiService {
       throw error instanceof Error ? error : new Error('Unknown API error');
     }
   }
+
+  private async cacheResponse<T>(url: string, response: ApiResponse<T>) {
+    try {
+      await AsyncStorage.setItem(
+        `${RESPONSE_CACHE_PREFIX}${url}`,
+        JSON.stringify({ cachedAt: new Date().toISOString(), response }),
+      );
+    } catch (error) {
+      console.warn("Failed to cache API response:", error);
+    }
+  }
+
+  private async readCachedResponse<T>(url: string): Promise<ApiResponse<T> | null> {
+    try {
+      const stored = await AsyncStorage.getItem(`${RESPONSE_CACHE_PREFIX}${url}`);
+      if (!stored) {
+        return null;
+      }
+      const parsed = JSON.parse(stored) as { cachedAt: string; response: ApiResponse<T> };
+      return { ...parsed.response, stale: true, cachedAt: parsed.cachedAt };
+    } catch (error) {
+      console.warn("Failed to read cached API response:", error);
+      return null;
+    }
+  }
 }
 
 export const apiService = new ApiService();
 
+offlineQueue.setExecutor((mutation) => apiService.replayMutation(mutation));
+
+/**
+ * Drops queued mutations and cached reads so nothing from one admin's session
+ * is replayed or shown under another account.
+ */
+export const clearOfflineData = async () => {
+  await offlineQueue.clear();
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter((key) => key.startsWith(RESPONSE_CACHE_PREFIX));
+    if (cacheKeys.length > 0) {
+      await AsyncStorage.multiRemove(cacheKeys);
+    }
+  } catch (error) {
+    console.warn("Failed to clear cached API responses:", error);
+  }
+};
+
 // Admin API methods
 export const adminApi = {
   // Dashboard
-  getDashboard: () => apiService.get("/admin/dashboard"),
+  getDashboard: () => apiService.request(adminRoutes.getDashboard),
 
   // Users
-  getUsers: (params?: {
-    page?: number;
-    limit?: number;
-    userType?: string;
-    search?: string;
-  }) => apiService.get("/admin/users", params),
-
-  createUser: (payload: {
-    email: string;
-    password?: string;
-    role?: string;
-    name?: string;
-    phone?: string;
-    status?: string;
-  }) => apiService.post("/admin/users", payload),
-
-  getUserById: (id: string) => apiService.get(`/admin/users/${id}`),
-
-  updateUser: (
-    userId: string,
-    payload: {
-      email?: string;
-      password?: string;
-      role?: string;
-      name?: string;
-      phone?: string;
-      status?: string;
-      reason?: string;
-    },
-  ) => apiService.put(`/admin/users/${userId}`, payload),
+  getUsers: (params?: ParamsOf<typeof adminRoutes.getUsers>) =>
+    apiService.request(adminRoutes.getUsers, { params }),
 
-  updateUserStatus: (userId: string, status: string, reason?: string) =>
-    apiService.patch(`/admin/users/${userId}/status`, { status, reason }),
+  createUser: (payload: BodyOf<typeof adminRoutes.createUser>) =>
+    apiService.request(adminRoutes.createUser, { body: payload }),
+
+  getUserById: (id: string) =>
+    apiService.request(adminRoutes.getUserById, { pathParams: { id } }),
 
-  bulkUpdateUserStatus: (payload: {
-    userIds: string[];
-    status: string;
-    reason?: string;
-  }) => apiService.post("/admin/users/bulk/status", payload),
+  updateUser: (userId: string, payload: BodyOf<typeof adminRoutes.updateUser>) =>
+    apiService.request(adminRoutes.updateUser, { pathParams: { id: userId }, body: payload }),
 
-  deleteUser: (userId: string) => apiService.delete(`/admin/users/${userId}`),
+  updateUserStatus: (userId: string, status: string, reason?: string) =>
+    apiService.request(adminRoutes.updateUserStatus, {
+      pathParams: { id: userId },
+      body: { status, reason },
+    }),
+
+  bulkUpdateUserStatus: (payload: BodyOf<typeof adminRoutes.bulkUpdateUserStatus>) =>
+    apiService.request(adminRoutes.bulkUpdateUserStatus, { body: payload }),
+
+  updateUserPermissions: (userId: string, permissions: string[]) =>
+    apiService.request(adminRoutes.updateUserPermissions, {
+      pathParams: { id: userId },
+      body: { permissions },
+    }),
+
+  deleteUser: (userId: string, approvalId?: string) =>
+    apiService.request(adminRoutes.deleteUser, {
+      pathParams: { id: userId },
+      params: approvalId ? { approvalId } : undefined,
+    }),
 
   // Jobs
-  getJobs: (params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    search?: string;
-  }) => apiService.get("/admin/jobs", params),
-
-  getJobById: (id: string) => apiService.get(`/admin/jobs/${id}`),
-
-  createJob: (payload: {
-    title: string;
-    description: string;
-    location: string;
-    budget?: number;
-    hourly_rate?: number;
-    parent_id?: string;
-    caregiver_id?: string;
-  }) => apiService.post("/admin/jobs", payload),
-
-  updateJob: (jobId: string, payload: {
-    title?: string;
-    description?: string;
-    location?: string;
-    budget?: number;
-    hourly_rate?: number;
-    parent_id?: string;
-    caregiver_id?: string;
-  }) => apiService.put(`/admin/jobs/${jobId}`, payload),
+  getJobs: (params?: ParamsOf<typeof adminRoutes.getJobs>) =>
+    apiService.request(adminRoutes.getJobs, { params }),
+
+  getJobById: (id: string) =>
+    apiService.request(adminRoutes.getJobById, { pathParams: { id } }),
+
+  createJob: (payload: BodyOf<typeof adminRoutes.createJob>) =>
+    apiService.request(adminRoutes.createJob, { body: payload }),
+
+  updateJob: (jobId: string, payload: BodyOf<typeof adminRoutes.updateJob>) =>
+    apiService.request(adminRoutes.updateJob, { pathParams: { id: jobId }, body: payload }),
 
   updateJobStatus: (jobId: string, status: string, reason?: string) =>
-    apiService.patch(`/admin/jobs/${jobId}/status`, { status, reason }),
+    apiService.request(adminRoutes.updateJobStatus, {
+      pathParams: { id: jobId },
+      body: { status, reason },
+    }),
 
   approveJob: (jobId: string, payload?: { reason?: string }) =>
-    apiService.post(`/admin/jobs/${jobId}/approve`, payload),
+    apiService.request(adminRoutes.approveJob, { pathParams: { id: jobId }, body: payload }),
 
   rejectJob: (jobId: string, payload?: { reason?: string }) =>
-    apiService.post(`/admin/jobs/${jobId}/reject`, payload),
+    apiService.request(adminRoutes.rejectJob, { pathParams: { id: jobId }, body: payload }),
 
   cancelJob: (jobId: string, payload?: { reason?: string }) =>
-    apiService.post(`/admin/jobs/${jobId}/cancel`, payload),
+    apiService.request(adminRoutes.cancelJob, { pathParams: { id: jobId }, body: payload }),
 
   completeJob: (jobId: string) =>
-    apiService.post(`/admin/jobs/${jobId}/complete`),
+    apiService.request(adminRoutes.completeJob, { pathParams: { id: jobId } }),
+
+  bulkJobAction: (payload: BodyOf<typeof adminRoutes.bulkJobAction>) =>
+    apiService.request(adminRoutes.bulkJobAction, { body: payload }),
 
   deleteJob: (jobId: string, payload?: { reason?: string }) =>
-    apiService.delete(
-      `/admin/jobs/${jobId}${
-        payload?.reason ? `?reason=${encodeURIComponent(payload.reason)}` : ''
-      }`,
-    ),
+    apiService.request(adminRoutes.deleteJob, {
+      pathParams: { id: jobId },
+      params: payload?.reason ? { reason: payload.reason } : undefined,
+    }),
 
-  reopenJob: (jobId: string) => apiService.post(`/admin/jobs/${jobId}/reopen`),
+  reopenJob: (jobId: string) =>
+    apiService.request(adminRoutes.reopenJob, { pathParams: { id: jobId } }),
 
   // Bookings
-  getBookings: (params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    search?: string;
-  }) => apiService.get("/admin/bookings", params),
+  getBookings: (params?: ParamsOf<typeof adminRoutes.getBookings>) =>
+    apiService.request(adminRoutes.getBookings, { params }),
 
   getBookingById: (bookingId: string) =>
-    apiService.get(`/admin/bookings/${bookingId}`),
+    apiService.request(adminRoutes.getBookingById, { pathParams: { id: bookingId } }),
 
   updateBookingStatus: (bookingId: string, status: string, reason?: string) =>
-    apiService.patch(`/admin/bookings/${bookingId}/status`, { status, reason }),
+    apiService.request(adminRoutes.updateBookingStatus, {
+      pathParams: { id: bookingId },
+      body: { status, reason },
+    }),
 
   confirmBooking: (bookingId: string, payload?: { reason?: string }) =>
-    apiService.post(`/admin/bookings/${bookingId}/confirm`, payload),
+    apiService.request(adminRoutes.confirmBooking, { pathParams: { id: bookingId }, body: payload }),
 
   startBooking: (bookingId: string) =>
-    apiService.post(`/admin/bookings/${bookingId}/start`),
+    apiService.request(adminRoutes.startBooking, { pathParams: { id: bookingId } }),
 
   completeBooking: (bookingId: string) =>
-    apiService.post(`/admin/bookings/${bookingId}/complete`),
+    apiService.request(adminRoutes.completeBooking, { pathParams: { id: bookingId } }),
 
   cancelBooking: (bookingId: string, payload?: { reason?: string }) =>
-    apiService.post(`/admin/bookings/${bookingId}/cancel`, payload),
+    apiService.request(adminRoutes.cancelBooking, { pathParams: { id: bookingId }, body: payload }),
 
   // Audit Logs
-  getAuditLogs: (params?: {
-    page?: number;
-    limit?: number;
-    action?: string;
-    targetId?: string;
-    adminId?: string;
-  }) => apiService.get("/admin/audit", params),
+  getAuditLogs: (params?: ParamsOf<typeof adminRoutes.getAuditLogs>) =>
+    apiService.request(adminRoutes.getAuditLogs, { params }),
 
   // System Settings
-  getSettings: () => apiService.get("/admin/settings"),
+  getSettings: () => apiService.request(adminRoutes.getSettings),
 
   updateSettings: (settings: Record<string, any>) =>
-    apiService.patch("/admin/settings", settings),
+    apiService.request(adminRoutes.updateSettings, { body: settings }),
 
   // Export data
   exportUsers: (format: "json" | "csv" = "json", userType?: string) =>
-    apiService.get("/admin/export/users", { format, userType }),
+    apiService.request(adminRoutes.exportUsers, { params: { format, userType } }),
 
   // Statistics
-  getStats: () => apiService.get("/admin/stats"),
+  getStats: () => apiService.request(adminRoutes.getStats),
   getUserAnalytics: (timeframe?: string) =>
-    apiService.get("/admin/analytics/users", { timeframe }),
+    apiService.request(adminRoutes.getUserAnalytics, { params: { timeframe } }),
   getActivitySummary: (timeframe?: string) =>
-    apiService.get("/admin/activity-summary", { timeframe }),
+    apiService.request(adminRoutes.getActivitySummary, { params: { timeframe } }),
 
   // Reviews
-  getReviews: (params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    rating?: number;
-  }) => apiService.get<Review[]>("/admin/reviews", params),
+  getReviews: (params?: ParamsOf<typeof adminRoutes.getReviews>) =>
+    apiService.request(adminRoutes.getReviews, { params }),
 
   getReviewById: (reviewId: string) =>
-    apiService.get<Review>(`/admin/reviews/${reviewId}`),
+    apiService.request(adminRoutes.getReviewById, { pathParams: { id: reviewId } }),
 
   updateReviewStatus: (
     reviewId: string,
     status: "published" | "hidden",
     reason?: string,
   ) =>
-    apiService.patch(`/admin/reviews/${reviewId}/status`, { status, reason }),
+    apiService.request(adminRoutes.updateReviewStatus, {
+      pathParams: { id: reviewId },
+      body: { status, reason },
+    }),
 
   deleteReview: (reviewId: string, reason?: string) =>
-    apiService.delete<ApiResponse<null>>(
-      `/admin/reviews/${reviewId}?reason=${encodeURIComponent(reason ?? "")}`,
-    ),
+    apiService.request(adminRoutes.deleteReview, {
+      pathParams: { id: reviewId },
+      params: { reason: reason ?? "" },
+    }),
 
   // Children
-  getChildren: (params?: {
-    page?: number;
-    limit?: number;
-    parentId?: string;
-    search?: string;
-  }) => apiService.get<ChildProfile[]>("/admin/children", params),
+  getChildren: (params?: ParamsOf<typeof adminRoutes.getChildren>) =>
+    apiService.request(adminRoutes.getChildren, { params }),
 
   getChildById: (childId: string) =>
-    apiService.get<ChildProfile>(`/admin/children/${childId}`),
+    apiService.request(adminRoutes.getChildById, { pathParams: { id: childId } }),
 
   updateChildProfile: (childId: string, updates: Partial<ChildProfile>) =>
-    apiService.patch(`/admin/children/${childId}`, updates),
+    apiService.request(adminRoutes.updateChildProfile, { pathParams: { id: childId }, body: updates }),
 
-  deleteChildProfile: (childId: string, reason?: string) =>
-    apiService.delete<ApiResponse<null>>(
-      `/admin/children/${childId}?reason=${encodeURIComponent(reason ?? "")}`,
-    ),
+  deleteChildProfile: (childId: string, reason?: string, approvalId?: string) =>
+    apiService.request(adminRoutes.deleteChildProfile, {
+      pathParams: { id: childId },
+      params: { reason: reason ?? "", approvalId },
+    }),
 
   // Notifications
-  getNotifications: (params?: {
-    page?: number;
-    limit?: number;
-    type?: string;
-    userId?: string;
-  }) => apiService.get<NotificationItem[]>("/admin/notifications", params),
-
-  createNotification: (payload: {
-    userId?: string;
-    type: string;
-    title: string;
-    message: string;
-    data?: Record<string, any>;
-  }) => apiService.post<NotificationItem>("/admin/notifications", payload),
+  getNotifications: (params?: ParamsOf<typeof adminRoutes.getNotifications>) =>
+    apiService.request(adminRoutes.getNotifications, { params }),
+
+  createNotification: (payload: BodyOf<typeof adminRoutes.createNotification>) =>
+    apiService.request(adminRoutes.createNotification, { body: payload }),
 
   markNotificationRead: (notificationId: string, read = true) =>
-    apiService.patch(`/admin/notifications/${notificationId}/read`, { read }),
+    apiService.request(adminRoutes.markNotificationRead, {
+      pathParams: { id: notificationId },
+      body: { read },
+    }),
 
   deleteNotification: (notificationId: string) =>
-    apiService.delete<ApiResponse<null>>(
-      `/admin/notifications/${notificationId}`,
-    ),
+    apiService.request(adminRoutes.deleteNotification, { pathParams: { id: notificationId } }),
 
   // Payments
-  getPayments: (params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    bookingId?: string;
-    search?: string;
-  }) => apiService.get<{ payments: PaymentRecord[] }>("/admin/payments", params),
+  getPayments: (params?: ParamsOf<typeof adminRoutes.getPayments>) =>
+    apiService.request(adminRoutes.getPayments, { params }),
 
   getPaymentById: (paymentId: string) =>
-    apiService.get<PaymentRecord>(`/admin/payments/${paymentId}`),
+    apiService.request(adminRoutes.getPaymentById, { pathParams: { id: paymentId } }),
 
   updatePaymentStatus: (
     paymentId: string,
     status: string,
     notes?: string,
   ) =>
-    apiService.patch(`/admin/payments/${paymentId}/status`, { status, notes }),
+    apiService.request(adminRoutes.updatePaymentStatus, {
+      pathParams: { id: paymentId },
+      body: { status, notes },
+    }),
 
-  refundPayment: (paymentId: string, reason: string) =>
-    apiService.post(`/admin/payments/${paymentId}/refund`, { reason }),
+  refundPayment: (paymentId: string, reason: string, approvalId?: string, amount?: number) =>
+    apiService.request(adminRoutes.refundPayment, { pathParams: { id: paymentId }, body: { reason, amount, approvalId } }),
 
   // Analytics
   getAnalyticsSummary: (timeframe?: string) =>
-    apiService.get<AnalyticsSummaryResponse>(
-      "/admin/analytics/summary",
-      timeframe ? { timeframe } : undefined,
-    ),
+    apiService.request(adminRoutes.getAnalyticsSummary, {
+      params: timeframe ? { timeframe } : undefined,
+    }),
 
   getAnalyticsTrends: (
     metric: "bookings" | "revenue" | "users" | "applications",
     timeframe?: string,
   ) =>
-    apiService.get(
-      `/admin/analytics/trends/${metric}`,
-      timeframe ? { timeframe } : undefined,
-    ),
+    apiService.request(adminRoutes.getAnalyticsTrends, {
+      pathParams: { metric },
+      params: timeframe ? { timeframe } : undefined,
+    }),
+
+  // Reports
+  getReports: (params?: ParamsOf<typeof adminRoutes.getReports>) =>
+    apiService.request(adminRoutes.getReports, { params }),
+
+  getReportById: (reportId: string) =>
+    apiService.request(adminRoutes.getReportById, { pathParams: { id: reportId } }),
+
+  updateReportStatus: (reportId: string, payload: BodyOf<typeof adminRoutes.updateReportStatus>) =>
+    apiService.request(adminRoutes.updateReportStatus, { pathParams: { id: reportId }, body: payload }),
+
+  getReportStats: () => apiService.request(adminRoutes.getReportStats),
+
+  assignReport: (reportId: string, assigneeId: string | null) =>
+    apiService.request(adminRoutes.assignReport, { pathParams: { id: reportId }, body: { assigneeId } }),
+
+  escalateReport: (reportId: string, reason?: string) =>
+    apiService.request(adminRoutes.escalateReport, { pathParams: { id: reportId }, body: { reason } }),
+
+  getReportComments: (reportId: string) =>
+    apiService.request(adminRoutes.getReportComments, { pathParams: { id: reportId } }),
+
+  addReportComment: (reportId: string, payload: BodyOf<typeof adminRoutes.addReportComment>) =>
+    apiService.request(adminRoutes.addReportComment, { pathParams: { id: reportId }, body: payload }),
+
+  // Approvals
+  getApprovals: (params?: ParamsOf<typeof adminRoutes.getApprovals>) =>
+    apiService.request(adminRoutes.getApprovals, { params }),
+
+  createApproval: (payload: BodyOf<typeof adminRoutes.createApproval>) =>
+    apiService.request(adminRoutes.createApproval, { body: payload }),
+
+  approveApproval: (approvalId: string, note?: string) =>
+    apiService.request(adminRoutes.approveApproval, { pathParams: { id: approvalId }, body: { note } }),
+
+  rejectApproval: (approvalId: string, note?: string) =>
+    apiService.request(adminRoutes.rejectApproval, { pathParams: { id: approvalId }, body: { note } }),
 };
 
 // Add auth API for profile lookup by user ID (Supabase backend)
 export const authApi = {
-  getUserById: (userId: string) => apiService.get(`/auth/user/${userId}`),
+  getUserById: (userId: string) =>
+    apiService.request(authRoutes.getUserById, { pathParams: { id: userId } }),
+
+  createReport: (payload: BodyOf<typeof authRoutes.createReport>) =>
+    apiService.request(authRoutes.createReport, { body: payload }),
+
+  getMyReports: (params?: ParamsOf<typeof authRoutes.getMyReports>) =>
+    apiService.request(authRoutes.getMyReports, { params }),
 };
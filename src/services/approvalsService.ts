@@ -0,0 +1,213 @@
+import { adminApi } from './apiService';
+import { bulkUpdateUserStatus, deleteUser } from './usersService';
+import { getRefundableAmount, refundPayment } from './paymentsService';
+import { deleteChildProfile } from './childrenService';
+import { isPaymentPaidOut } from './payoutsService';
+import { PERMISSIONS, type Permission } from '../config/permissions';
+import type {
+  ApprovalRequest,
+  ApprovalStatus,
+  ChildProfile,
+  PaymentRecord,
+  User,
+} from '../types';
+
+export interface FetchApprovalsOptions {
+  page?: number;
+  limit?: number;
+  status?: ApprovalStatus;
+  requestedBy?: string;
+}
+
+export interface FetchApprovalsResult {
+  approvals: ApprovalRequest[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalRequest['action_type'], string> = {
+  delete_user: 'Delete user',
+  refund_payment: 'Refund payment',
+  delete_child_profile: 'Delete child profile',
+  bulk_ban_users: 'Ban users',
+};
+
+/** The approver executes the action, so they need the same permission as the requester. */
+export const APPROVAL_ACTION_PERMISSIONS: Record<ApprovalRequest['action_type'], Permission> = {
+  delete_user: PERMISSIONS.USERS_DELETE,
+  refund_payment: PERMISSIONS.PAYMENTS_REFUND,
+  delete_child_profile: PERMISSIONS.CHILDREN_DELETE,
+  bulk_ban_users: PERMISSIONS.USERS_BAN,
+};
+
+export const isApprovalExpired = (approval: Pick<ApprovalRequest, 'status' | 'expires_at'>, now: Date = new Date()) =>
+  approval.status === 'expired' ||
+  (approval.status === 'pending' && new Date(approval.expires_at).getTime() < now.getTime());
+
+export const fetchApprovals = async (options: FetchApprovalsOptions = {}): Promise<FetchApprovalsResult> => {
+  const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+  const page = Math.max(1, options.page ?? 1);
+  const response = await adminApi.getApprovals({ ...options, page, limit });
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to fetch approval requests');
+  }
+
+  const approvals = response.data ?? [];
+  const total = response.pagination?.total ?? approvals.length;
+
+  return {
+    approvals,
+    pagination: {
+      page,
+      limit,
+      total,
+      hasMore: page * limit < total,
+    },
+  };
+};
+
+const createApproval = async (payload: Parameters<typeof adminApi.createApproval>[0]) => {
+  if (!payload.reason.trim()) {
+    throw new Error('A reason is required to request approval');
+  }
+
+  const response = await adminApi.createApproval({ ...payload, reason: payload.reason.trim() });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to request approval');
+  }
+  return response.data;
+};
+
+export const requestDeleteUserApproval = (user: User, reason: string) =>
+  createApproval({
+    actionType: 'delete_user',
+    targetType: 'user',
+    targetId: user.id,
+    summary: `Delete ${user.name || user.email} (${user.role})`,
+    reason,
+    payload: { userId: user.id },
+    diff: [
+      { field: 'status', before: user.status, after: 'deleted' },
+      { field: 'email', before: user.email, after: user.email },
+    ],
+  });
+
+export const requestRefundApproval = async (
+  payment: PaymentRecord,
+  reason: string,
+  amount: number = getRefundableAmount(payment),
+) => {
+  if (await isPaymentPaidOut(payment.id)) {
+    throw new Error('This payment has been paid out to the caregiver and can no longer be refunded');
+  }
+  const refundedBefore = payment.refundedAmount ?? 0;
+  const isFull = amount >= getRefundableAmount(payment);
+  return createApproval({
+    actionType: 'refund_payment',
+    targetType: 'payment',
+    targetId: payment.id,
+    summary: `${isFull ? 'Refund' : 'Partially refund'} ₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2 })} of ₱${payment.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })} for booking ${payment.bookingId}`,
+    reason,
+    payload: { paymentId: payment.id, reason, amount },
+    diff: [
+      { field: 'paymentStatus', before: payment.paymentStatus, after: isFull ? 'refunded' : 'partially_refunded' },
+      { field: 'refundedAmount', before: refundedBefore, after: Math.round((refundedBefore + amount) * 100) / 100 },
+    ],
+  });
+};
+
+export const requestDeleteChildApproval = (child: ChildProfile, reason: string) =>
+  createApproval({
+    actionType: 'delete_child_profile',
+    targetType: 'child',
+    targetId: child.id,
+    summary: `Delete child profile ${child.name}`,
+    reason,
+    payload: { childId: child.id, reason },
+    diff: [{ field: 'profile', before: child.name, after: null }],
+  });
+
+export const requestBulkBanApproval = (users: Pick<User, 'id' | 'name' | 'email' | 'status'>[], reason: string) =>
+  createApproval({
+    actionType: 'bulk_ban_users',
+    targetType: 'user',
+    targetId: null,
+    summary: `Ban ${users.length} user${users.length === 1 ? '' : 's'}`,
+    reason,
+    payload: { userIds: users.map(user => user.id), status: 'banned', reason },
+    diff: users.map(user => ({ field: user.name || user.email, before: user.status, after: 'banned' })),
+  });
+
+const readString = (payload: Record<string, unknown>, key: string) => {
+  const value = payload[key];
+  return typeof value === 'string' ? value : undefined;
+};
+
+const readNumber = (payload: Record<string, unknown>, key: string) => {
+  const value = payload[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Runs the action an approved request describes, passing its ID so the
+ * backend can verify the approval and log both admins on the audit entry.
+ */
+export const executeApproval = async (approval: ApprovalRequest) => {
+  const approvalId = approval.id;
+  const payload = approval.payload ?? {};
+  const targetId = approval.target_id ?? '';
+
+  switch (approval.action_type) {
+    case 'delete_user':
+      await deleteUser(targetId, { approvalId });
+      return;
+    case 'refund_payment':
+      await refundPayment(targetId, readString(payload, 'reason') ?? approval.reason, {
+        approvalId,
+        amount: readNumber(payload, 'amount'),
+      });
+      return;
+    case 'delete_child_profile':
+      await deleteChildProfile(targetId, { reason: readString(payload, 'reason') ?? approval.reason, approvalId });
+      return;
+    case 'bulk_ban_users': {
+      const userIds = Array.isArray(payload.userIds)
+        ? payload.userIds.filter((id): id is string => typeof id === 'string')
+        : [];
+      await bulkUpdateUserStatus({ userIds, status: 'banned', reason: readString(payload, 'reason'), approvalId });
+      return;
+    }
+    default:
+      throw new Error(`Unsupported approval action: ${String(approval.action_type)}`);
+  }
+};
+
+/**
+ * Approves a pending request as the current admin and then executes it.
+ * If execution fails the request stays approved so it can be retried from
+ * the inbox with `executeApproval`.
+ */
+export const approveAndExecute = async (approval: ApprovalRequest, note?: string): Promise<ApprovalRequest> => {
+  const response = await adminApi.approveApproval(approval.id, note?.trim() || undefined);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to approve request');
+  }
+
+  await executeApproval(response.data);
+  return { ...response.data, status: 'executed', executed_at: new Date().toISOString() };
+};
+
+export const rejectApproval = async (approvalId: string, note?: string): Promise<ApprovalRequest> => {
+  const response = await adminApi.rejectApproval(approvalId, note?.trim() || undefined);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to reject request');
+  }
+  return response.data;
+};
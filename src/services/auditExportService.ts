@@ -0,0 +1,249 @@
+import * as Crypto from 'expo-crypto';
+import { buildCsv, fileStamp, shareExportFile, type CsvColumn } from './exportFiles';
+import { fetchAuditLogs, verifyAuditLogChain, type FetchAuditLogsOptions } from './auditService';
+import type { AuditChainVerification, AuditLog } from '../types';
+
+export type AuditExportFormat = 'csv' | 'json';
+
+export type AuditExportFilters = Omit<FetchAuditLogsOptions, 'page' | 'limit'>;
+
+export interface AuditBundleManifest {
+  format: 'iyaya-audit-bundle';
+  version: 1;
+  generatedAt: string;
+  generatedBy?: string;
+  filters: AuditExportFilters;
+  recordCount: number;
+  countsByAction: Record<string, number>;
+  countsByTargetType: Record<string, number>;
+  chain?: {
+    firstSeq?: number;
+    lastSeq?: number;
+    headHash?: string;
+  };
+  truncated: boolean;
+  /**
+   * Catches accidental corruption in transit only; anyone editing the records
+   * can recompute it. `verifyAuditBundle` checks the records against the server.
+   */
+  checksum: {
+    algorithm: 'SHA-256';
+    /** Digest of `JSON.stringify(records)` exactly as written in the bundle. */
+    records: string;
+    /** Digest of the CSV export produced alongside this bundle. */
+    csv: string;
+  };
+}
+
+export interface AuditBundle {
+  manifest: AuditBundleManifest;
+  records: AuditLog[];
+}
+
+export interface AuditBundleVerification {
+  valid: boolean;
+  checked: number;
+  /** The bundle's own checksum still matches its records. */
+  checksumValid: boolean;
+  /** Records that differ from the server's copy of the same chain entry, or that it does not have. */
+  mismatchedIds: string[];
+  /** Entries matching the bundle's filters and chain range that were left out of it. */
+  missingCount: number;
+  /** Server chain verification for the bundle's time range. */
+  chain: AuditChainVerification | null;
+}
+
+export interface AuditExportResult {
+  format: AuditExportFormat;
+  recordCount: number;
+  truncated: boolean;
+  fileUri?: string;
+}
+
+const EXPORT_PAGE_SIZE = 200;
+const VERIFY_BATCH_SIZE = 200;
+/** Keeps exports within what a phone can comfortably hold in memory and share. */
+export const MAX_EXPORT_RECORDS = 5000;
+
+const CSV_COLUMNS: CsvColumn<AuditLog>[] = [
+  { header: 'id', value: log => log.id },
+  { header: 'chain_seq', value: log => log.chainSeq },
+  { header: 'timestamp', value: log => log.timestamp },
+  { header: 'action', value: log => log.action },
+  { header: 'admin_id', value: log => log.adminId?.id },
+  { header: 'admin_name', value: log => log.adminId?.name },
+  { header: 'admin_email', value: log => log.adminId?.email },
+  { header: 'target_type', value: log => log.targetType },
+  { header: 'target_id', value: log => log.targetId },
+  { header: 'ip', value: log => log.ip },
+  { header: 'details', value: log => log.details },
+  { header: 'metadata', value: log => log.metadata },
+  { header: 'hash', value: log => log.hash },
+  { header: 'prev_hash', value: log => log.prevHash },
+];
+
+export const buildAuditCsv = (logs: AuditLog[]): string => buildCsv(CSV_COLUMNS, logs);
+
+const sha256 = (data: string) => Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, data);
+
+const countBy = (logs: AuditLog[], key: (log: AuditLog) => string | undefined) =>
+  logs.reduce<Record<string, number>>((counts, log) => {
+    const value = key(log) || 'unknown';
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {});
+
+/** Pages through every audit entry matching the filters, oldest first. */
+export const fetchAuditLogsForExport = async (
+  filters: AuditExportFilters,
+): Promise<{ logs: AuditLog[]; truncated: boolean }> => {
+  const logs: AuditLog[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && logs.length < MAX_EXPORT_RECORDS) {
+    const result = await fetchAuditLogs({ ...filters, page, limit: EXPORT_PAGE_SIZE });
+    logs.push(...result.logs);
+    hasMore = result.pagination.hasMore;
+    page += 1;
+  }
+
+  return { logs: logs.slice(0, MAX_EXPORT_RECORDS).reverse(), truncated: hasMore || logs.length > MAX_EXPORT_RECORDS };
+};
+
+export const buildAuditBundle = async (
+  logs: AuditLog[],
+  options: { filters: AuditExportFilters; generatedBy?: string; truncated?: boolean },
+): Promise<AuditBundle> => {
+  const chained = logs.filter(log => log.chainSeq !== undefined);
+  const last = chained[chained.length - 1];
+
+  return {
+    manifest: {
+      format: 'iyaya-audit-bundle',
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      generatedBy: options.generatedBy,
+      filters: options.filters,
+      recordCount: logs.length,
+      countsByAction: countBy(logs, log => log.action),
+      countsByTargetType: countBy(logs, log => log.targetType),
+      chain: chained.length > 0 ? { firstSeq: chained[0].chainSeq, lastSeq: last.chainSeq, headHash: last.hash } : undefined,
+      truncated: options.truncated ?? false,
+      checksum: {
+        algorithm: 'SHA-256',
+        records: await sha256(JSON.stringify(logs)),
+        csv: await sha256(buildAuditCsv(logs)),
+      },
+    },
+    records: logs,
+  };
+};
+
+const stableStringify = (value: unknown): string => {
+  if (value === null || value === undefined || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(',')}}`;
+};
+
+// Admin names and emails can change after the fact, so only the stored columns are compared.
+const fingerprint = (log: AuditLog) =>
+  stableStringify({
+    id: log.id,
+    action: log.action,
+    adminId: log.adminId?.id,
+    targetId: log.targetId,
+    targetType: log.targetType,
+    details: log.details,
+    metadata: log.metadata,
+    timestamp: Date.parse(log.timestamp),
+    ip: log.ip,
+    chainSeq: log.chainSeq,
+    hash: log.hash,
+    prevHash: log.prevHash,
+  });
+
+/**
+ * Checks a bundle against the live audit log rather than against itself:
+ * every record must match the server's entry with the same chain sequence,
+ * no entry matching the bundle's filters may be missing from its chain
+ * range, and the server chain for that range must verify. An edited bundle
+ * fails even if its checksum was recomputed.
+ */
+export const verifyAuditBundle = async (bundle: AuditBundle): Promise<AuditBundleVerification> => {
+  const { manifest, records } = bundle;
+  const checksumValid =
+    manifest.recordCount === records.length &&
+    (await sha256(JSON.stringify(records))) === manifest.checksum.records;
+
+  const chained = records.filter(log => log.chainSeq !== undefined);
+  const mismatchedIds = records.filter(log => log.chainSeq === undefined).map(log => log.id);
+
+  for (let start = 0; start < chained.length; start += VERIFY_BATCH_SIZE) {
+    const batch = chained.slice(start, start + VERIFY_BATCH_SIZE);
+    const { logs } = await fetchAuditLogs({ chainSeqs: batch.map(log => log.chainSeq!), limit: batch.length });
+    const serverBySeq = new Map(logs.map(log => [log.chainSeq, fingerprint(log)]));
+    batch
+      .filter(log => serverBySeq.get(log.chainSeq) !== fingerprint(log))
+      .forEach(log => mismatchedIds.push(log.id));
+  }
+
+  let missingCount = 0;
+  let chain: AuditChainVerification | null = null;
+  if (chained.length > 0) {
+    const seqs = chained.map(log => log.chainSeq!);
+    const { pagination } = await fetchAuditLogs({
+      ...manifest.filters,
+      chainSeqFrom: Math.min(...seqs),
+      chainSeqTo: Math.max(...seqs),
+      limit: 1,
+    });
+    missingCount = Math.max(0, pagination.total - chained.length);
+
+    const timestamps = chained.map(log => log.timestamp).sort();
+    chain = await verifyAuditLogChain({ from: timestamps[0], to: timestamps[timestamps.length - 1] });
+  }
+
+  return {
+    valid: checksumValid && mismatchedIds.length === 0 && missingCount === 0 && (chain?.valid ?? true),
+    checked: records.length,
+    checksumValid,
+    mismatchedIds,
+    missingCount,
+    chain,
+  };
+};
+
+const buildFileName = (format: AuditExportFormat, filters: AuditExportFilters) => {
+  const scope = filters.targetId ? `${filters.targetType ?? 'target'}-${filters.targetId}` : 'all';
+  return `audit-${scope.replace(/[^a-zA-Z0-9-]/g, '')}-${fileStamp()}.${format}`;
+};
+
+export const exportAuditLogs = async (
+  format: AuditExportFormat,
+  filters: AuditExportFilters,
+  generatedBy?: string,
+): Promise<AuditExportResult> => {
+  const { logs, truncated } = await fetchAuditLogsForExport(filters);
+  if (logs.length === 0) {
+    throw new Error('No audit entries match the current filters');
+  }
+
+  const fileName = buildFileName(format, filters);
+  const contents =
+    format === 'csv'
+      ? buildAuditCsv(logs)
+      : JSON.stringify(await buildAuditBundle(logs, { filters, generatedBy, truncated }), null, 2);
+
+  const fileUri = await shareExportFile(fileName, contents, format === 'csv' ? 'CSV' : 'JSON');
+  return { format, recordCount: logs.length, truncated, fileUri };
+};
@@ -1,9 +1,31 @@
+import * as Crypto from 'expo-crypto';
 import { supabase } from '../config/supabase';
-import type { AuditLog } from '../types';
+import type { AuditChainIssue, AuditChainVerification, AuditLog, FieldDiff } from '../types';
 
 export interface FetchAuditLogsOptions {
   page?: number;
   limit?: number;
+  adminId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  /** ISO timestamp, inclusive. */
+  from?: string;
+  /** ISO timestamp, inclusive. */
+  to?: string;
+  /** Full-text search over the action, details and metadata. */
+  search?: string;
+  /** Restricts results to entries with these chain sequence numbers. */
+  chainSeqs?: number[];
+  /** Chain sequence range, inclusive. */
+  chainSeqFrom?: number;
+  chainSeqTo?: number;
+}
+
+export interface AuditAdminOption {
+  id: string;
+  name?: string;
+  email?: string;
 }
 
 export interface FetchAuditLogsResult {
@@ -12,6 +34,7 @@ export interface FetchAuditLogsResult {
     page: number;
     limit: number;
     hasMore: boolean;
+    total: number;
   };
 }
 
@@ -34,18 +57,22 @@ export const fetchAuditLogs = async (options: FetchAuditLogsOptions = {}): Promi
   const page = Math.max(1, options.page ?? 1);
   const offset = (page - 1) * limit;
 
-  const query = supabase
+  let query = supabase
     .from('audit_logs')
     .select(
       `
         id,
         action,
         targetId:target_id,
+        targetType:target_type,
         adminId:admin_id,
         details,
         metadata,
         timestamp,
         ip,
+        chainSeq:chain_seq,
+        hash,
+        prevHash:prev_hash,
         admin:admin_id(id,name,email)
       `,
       { count: 'exact' }
@@ -53,6 +80,37 @@ export const fetchAuditLogs = async (options: FetchAuditLogsOptions = {}): Promi
     .order('timestamp', { ascending: false })
     .range(offset, offset + limit - 1);
 
+  if (options.adminId) {
+    query = query.eq('admin_id', options.adminId);
+  }
+  if (options.action) {
+    query = query.eq('action', options.action);
+  }
+  if (options.targetType) {
+    query = query.eq('target_type', options.targetType);
+  }
+  if (options.targetId?.trim()) {
+    query = query.eq('target_id', options.targetId.trim());
+  }
+  if (options.from) {
+    query = query.gte('timestamp', options.from);
+  }
+  if (options.to) {
+    query = query.lte('timestamp', options.to);
+  }
+  if (options.chainSeqs) {
+    query = query.in('chain_seq', options.chainSeqs);
+  }
+  if (options.chainSeqFrom !== undefined) {
+    query = query.gte('chain_seq', options.chainSeqFrom);
+  }
+  if (options.chainSeqTo !== undefined) {
+    query = query.lte('chain_seq', options.chainSeqTo);
+  }
+  if (options.search?.trim()) {
+    query = query.textSearch('search_vector', options.search.trim(), { type: 'websearch', config: 'simple' });
+  }
+
   const { data, count, error } = await query;
   if (error) {
     throw new Error(`Failed to fetch audit logs: ${error.message}`);
@@ -99,10 +157,14 @@ export const fetchAuditLogs = async (options: FetchAuditLogsOptions = {}): Promi
         email: adminInfo?.email ?? adminFromLookup?.email ?? undefined,
       },
       targetId: row.targetId,
+      targetType: row.targetType ?? undefined,
       details: typeof parsedDetails === 'object' && parsedDetails !== null ? parsedDetails : {},
       metadata: typeof parsedMetadata === 'object' && parsedMetadata !== null ? parsedMetadata : undefined,
       timestamp: row.timestamp,
       ip: row.ip ?? undefined,
+      chainSeq: typeof row.chainSeq === 'number' ? row.chainSeq : undefined,
+      hash: row.hash ?? undefined,
+      prevHash: row.prevHash ?? undefined,
     };
   });
 
@@ -115,6 +177,365 @@ export const fetchAuditLogs = async (options: FetchAuditLogsOptions = {}): Promi
       page,
       limit,
       hasMore,
+      total,
     },
   };
 };
+
+export const fetchAuditAdmins = async (): Promise<AuditAdminOption[]> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id,name,email')
+    .in('role', ['admin', 'superadmin'])
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch admins: ${error.message}`);
+  }
+
+  return (data ?? []).map((admin: any) => ({ id: admin.id, name: admin.name ?? undefined, email: admin.email ?? undefined }));
+};
+
+/**
+ * Distinct action names from the most recent audit entries. PostgREST has no
+ * DISTINCT, so this samples a recent window and dedupes client-side.
+ */
+export const fetchAuditActions = async (sampleSize = 500): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select('action')
+    .order('timestamp', { ascending: false })
+    .limit(sampleSize);
+
+  if (error) {
+    throw new Error(`Failed to fetch audit actions: ${error.message}`);
+  }
+
+  const actions = new Set<string>();
+  (data ?? []).forEach((row: any) => {
+    if (typeof row.action === 'string' && row.action.trim()) {
+      actions.add(row.action);
+    }
+  });
+  return Array.from(actions).sort();
+};
+
+const DIFF_KEY_PAIRS: Array<[string, string]> = [
+  ['before', 'after'],
+  ['previous', 'new'],
+  ['previous', 'current'],
+  ['old', 'new'],
+  ['oldValues', 'newValues'],
+  ['previousValues', 'newValues'],
+  ['from', 'to'],
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const diffRecords = (before: unknown, after: unknown): FieldDiff[] => {
+  if (!isRecord(before) && !isRecord(after)) {
+    return before === after ? [] : [{ field: 'value', before, after }];
+  }
+  const beforeRecord = isRecord(before) ? before : {};
+  const afterRecord = isRecord(after) ? after : {};
+  const fields = Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]));
+
+  return fields
+    .filter(field => JSON.stringify(beforeRecord[field]) !== JSON.stringify(afterRecord[field]))
+    .map(field => ({ field, before: beforeRecord[field], after: afterRecord[field] }));
+};
+
+const extractDiffFrom = (source: Record<string, unknown>): { diff: FieldDiff[]; keys: string[] } => {
+  const changes = source.changes;
+  if (isRecord(changes)) {
+    const diff = Object.entries(changes)
+      .filter(([, change]) => isRecord(change) && ('from' in change || 'before' in change))
+      .map(([field, change]) => {
+        const record = change as Record<string, unknown>;
+        return {
+          field,
+          before: 'from' in record ? record.from : record.before,
+          after: 'to' in record ? record.to : record.after,
+        };
+      });
+    if (diff.length > 0) {
+      return { diff, keys: ['changes'] };
+    }
+  }
+  if (Array.isArray(changes)) {
+    const diff = changes.filter(
+      (change): change is FieldDiff => isRecord(change) && typeof change.field === 'string',
+    );
+    if (diff.length > 0) {
+      return { diff, keys: ['changes'] };
+    }
+  }
+
+  for (const [beforeKey, afterKey] of DIFF_KEY_PAIRS) {
+    if (beforeKey in source && afterKey in source) {
+      return { diff: diffRecords(source[beforeKey], source[afterKey]), keys: [beforeKey, afterKey] };
+    }
+  }
+  return { diff: [], keys: [] };
+};
+
+/**
+ * Builds a field-level before/after diff when an audit entry's details (or
+ * nested details / metadata) carry previous and new values. `keys` lists the
+ * source keys consumed so callers can leave them out of the raw detail list.
+ */
+export const extractAuditDiff = (log: Pick<AuditLog, 'details' | 'metadata'>): { diff: FieldDiff[]; keys: string[] } => {
+  const nested = log.details?.details;
+  const sources = [log.details, isRecord(nested) ? nested : undefined, log.metadata];
+
+  for (const source of sources) {
+    if (!isRecord(source)) {
+      continue;
+    }
+    const result = extractDiffFrom(source);
+    if (result.diff.length > 0) {
+      return result;
+    }
+  }
+  return { diff: [], keys: [] };
+};
+
+const ISSUE_TYPES: AuditChainIssue['type'][] = ['hash_mismatch', 'broken_link', 'sequence_gap'];
+
+interface AuditChainRow {
+  id: string;
+  chain_seq: number;
+  prev_hash: string | null;
+  hash: string | null;
+  action: string | null;
+  admin_id: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  details: string | null;
+  metadata: string | null;
+  ip: string | null;
+  timestamp: string | null;
+}
+
+const CHAIN_PAGE_SIZE = 500;
+
+// JSON and inet columns are cast to text server-side so the hashed payload is
+// byte-for-byte what Postgres serialised, not a JavaScript re-encoding.
+const CHAIN_SELECT =
+  'id, chain_seq, prev_hash, hash, action, admin_id, target_type, target_id:target_id::text, details:details::text, metadata:metadata::text, ip:ip::text, timestamp';
+
+/** Matches `extract(epoch FROM ts)::text`, which Postgres prints with six decimals. */
+const toEpochText = (timestamp: string | null) => {
+  const match = timestamp ? /^(.+T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(.*)$/.exec(timestamp) : null;
+  if (!match) {
+    return '';
+  }
+  const seconds = Math.floor(Date.parse(`${match[1]}${match[3] || 'Z'}`) / 1000);
+  return `${seconds}.${(match[2] ?? '').padEnd(6, '0').slice(0, 6)}`;
+};
+
+/** Client-side twin of `audit_log_entry_hash`. */
+const hashAuditChainRow = (row: AuditChainRow) =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    [
+      String(row.chain_seq),
+      row.prev_hash ?? '',
+      row.action ?? '',
+      row.admin_id ?? '',
+      row.target_type ?? '',
+      row.target_id ?? '',
+      row.details ?? '',
+      row.metadata ?? '',
+      row.ip ?? '',
+      toEpochText(row.timestamp),
+    ].join('|'),
+  );
+
+const fetchChainBoundary = async (range: { from?: string; to?: string }, ascending: boolean) => {
+  let query = supabase.from('audit_logs').select('chain_seq').not('chain_seq', 'is', null);
+  if (range.from) {
+    query = query.gte('timestamp', range.from);
+  }
+  if (range.to) {
+    query = query.lte('timestamp', range.to);
+  }
+  const { data, error } = await query.order('chain_seq', { ascending }).limit(1);
+  if (error) {
+    throw new Error(`Failed to verify audit log integrity: ${error.message}`);
+  }
+  return data?.[0]?.chain_seq as number | undefined;
+};
+
+const fetchChainRows = async (fromSeq: number, toSeq: number): Promise<AuditChainRow[]> => {
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select(CHAIN_SELECT)
+    .gte('chain_seq', fromSeq)
+    .lte('chain_seq', toSeq)
+    .order('chain_seq', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to verify audit log integrity: ${error.message}`);
+  }
+  return (data ?? []) as unknown as AuditChainRow[];
+};
+
+/**
+ * Fetches the entries in the range and recomputes every hash and link on this
+ * device, so a tampered table cannot vouch for itself through the RPC alone.
+ */
+const verifyAuditLogChainLocally = async (range: { from?: string; to?: string }) => {
+  const issues: AuditChainIssue[] = [];
+  const [firstSeq, lastSeq] = await Promise.all([fetchChainBoundary(range, true), fetchChainBoundary(range, false)]);
+  if (firstSeq === undefined || lastSeq === undefined) {
+    return { checked: 0, issues };
+  }
+
+  let previous: AuditChainRow | undefined;
+  if (firstSeq > 1) {
+    [previous] = await fetchChainRows(firstSeq - 1, firstSeq - 1);
+    if (!previous) {
+      issues.push({ type: 'sequence_gap', chainSeq: firstSeq - 1, detail: 'Entry preceding the range is missing' });
+    }
+  }
+
+  let checked = 0;
+  let headHash: string | undefined;
+  for (let pageStart = firstSeq; pageStart <= lastSeq; pageStart += CHAIN_PAGE_SIZE) {
+    const rows = await fetchChainRows(pageStart, Math.min(pageStart + CHAIN_PAGE_SIZE - 1, lastSeq));
+    for (const row of rows) {
+      checked += 1;
+      if (previous && row.chain_seq !== previous.chain_seq + 1) {
+        issues.push({
+          type: 'sequence_gap',
+          chainSeq: previous.chain_seq + 1,
+          detail: `Entries ${previous.chain_seq + 1} to ${row.chain_seq - 1} are missing`,
+        });
+      }
+      if (previous && row.prev_hash !== previous.hash) {
+        issues.push({
+          type: 'broken_link',
+          chainSeq: row.chain_seq,
+          entryId: row.id,
+          expected: previous.hash ?? undefined,
+          actual: row.prev_hash ?? undefined,
+        });
+      }
+      const expected = await hashAuditChainRow(row);
+      if (row.hash !== expected) {
+        issues.push({
+          type: 'hash_mismatch',
+          chainSeq: row.chain_seq,
+          entryId: row.id,
+          expected,
+          actual: row.hash ?? undefined,
+        });
+      }
+      headHash = row.hash ?? undefined;
+      previous = row;
+    }
+  }
+
+  return { checked, firstSeq, lastSeq, headHash, issues };
+};
+
+const fetchServerChainIssues = async (range: { from?: string; to?: string }): Promise<AuditChainIssue[]> => {
+  const { data, error } = await supabase.rpc('verify_audit_log_chain', {
+    p_from: range.from ?? null,
+    p_to: range.to ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to verify audit log integrity: ${error.message}`);
+  }
+
+  const result = isRecord(data) ? data : {};
+  return (Array.isArray(result.issues) ? result.issues : [])
+    .filter(isRecord)
+    .filter(issue => ISSUE_TYPES.includes(issue.issue as AuditChainIssue['type']))
+    .map(issue => ({
+      type: issue.issue as AuditChainIssue['type'],
+      chainSeq: Number(issue.chain_seq),
+      entryId: typeof issue.entry_id === 'string' ? issue.entry_id : undefined,
+      expected: typeof issue.expected === 'string' ? issue.expected : undefined,
+      actual: typeof issue.actual === 'string' ? issue.actual : undefined,
+      detail: typeof issue.detail === 'string' ? issue.detail : undefined,
+    }));
+};
+
+/**
+ * Verifies the audit hash chain for entries recorded in the given range by
+ * recomputing it on this device and cross-checking with the server-side
+ * `verify_audit_log_chain`. Issues found by either are reported once. Both
+ * bounds are optional.
+ */
+export const verifyAuditLogChain = async (
+  range: { from?: string; to?: string } = {},
+): Promise<AuditChainVerification> => {
+  const [local, serverIssues] = await Promise.all([verifyAuditLogChainLocally(range), fetchServerChainIssues(range)]);
+
+  const seen = new Set(local.issues.map(issue => `${issue.type}:${issue.chainSeq}`));
+  const issues = [...local.issues, ...serverIssues.filter(issue => !seen.has(`${issue.type}:${issue.chainSeq}`))].sort(
+    (left, right) => left.chainSeq - right.chainSeq,
+  );
+
+  return {
+    from: range.from,
+    to: range.to,
+    verifiedAt: new Date().toISOString(),
+    checked: local.checked,
+    firstSeq: local.firstSeq,
+    lastSeq: local.lastSeq,
+    headHash: local.headHash,
+    issues,
+    valid: issues.length === 0,
+  };
+};
+
+const ISSUE_LABELS: Record<AuditChainIssue['type'], string> = {
+  hash_mismatch: 'Entry contents do not match their hash',
+  broken_link: 'Entry is not linked to the previous entry',
+  sequence_gap: 'Missing entries',
+};
+
+export const describeAuditChainIssue = (issue: AuditChainIssue) =>
+  issue.detail ? `${ISSUE_LABELS[issue.type]}: ${issue.detail}` : ISSUE_LABELS[issue.type];
+
+/**
+ * Plain-text report suitable for sharing with a parent or attaching to a
+ * dispute. The head hash lets a third party later confirm that nothing
+ * before it was rewritten.
+ */
+export const buildAuditVerificationReport = (
+  verification: AuditChainVerification,
+  verifiedBy?: string,
+): string => {
+  const lines = [
+    'iYaya Audit Log Integrity Report',
+    '================================',
+    `Result: ${verification.valid ? 'PASSED' : 'FAILED'}`,
+    `Verified at: ${verification.verifiedAt}`,
+    verifiedBy ? `Verified by: ${verifiedBy}` : undefined,
+    `Range: ${verification.from ?? 'beginning'} to ${verification.to ?? 'now'}`,
+    `Entries checked: ${verification.checked}`,
+    verification.firstSeq !== undefined
+      ? `Chain sequence: ${verification.firstSeq} to ${verification.lastSeq ?? verification.firstSeq}`
+      : undefined,
+    verification.headHash ? `Head hash (SHA-256): ${verification.headHash}` : undefined,
+    '',
+    verification.issues.length > 0 ? `Issues (${verification.issues.length}):` : 'No gaps or mismatches found.',
+    ...verification.issues.map(issue => {
+      const parts = [`- #${issue.chainSeq} ${describeAuditChainIssue(issue)}`];
+      if (issue.entryId) {
+        parts.push(`  entry: ${issue.entryId}`);
+      }
+      if (issue.expected || issue.actual) {
+        parts.push(`  expected: ${issue.expected ?? '—'}`, `  actual:   ${issue.actual ?? '—'}`);
+      }
+      return parts.join('\n');
+    }),
+  ];
+
+  return lines.filter((line): line is string => line !== undefined).join('\n');
+};
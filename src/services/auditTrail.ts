@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { supabase } from '../config/supabase';
+
+export type AuditChannel = 'supabase' | 'rest';
+
+export interface AuditActor {
+  id: string;
+  email?: string;
+  name?: string;
+  role?: string;
+}
+
+export interface AuditTrailConfig<TArgs extends unknown[], TResult> {
+  action: string;
+  targetType: string;
+  /** How the write reaches the database; REST writes are also audited server-side. */
+  channel: AuditChannel;
+  targetId: (...args: TArgs) => string | null;
+  /** For creates, where the target ID is only known from the result. */
+  resultTargetId?: (result: TResult) => string | null;
+  /** Snapshot of the target before the write. Failures are logged and recorded as `null`. */
+  before?: (...args: TArgs) => Promise<unknown>;
+  /** Snapshot after the write, derived from the mutation result and arguments. */
+  after?: (result: TResult, ...args: TArgs) => unknown;
+  /** Extra context such as a reason, stored alongside the snapshots. */
+  context?: (...args: TArgs) => Record<string, unknown> | undefined;
+}
+
+const CACHED_USER_KEY = 'userData';
+const CLIENT_AUDIT_SOURCE = 'admin-app';
+
+/**
+ * True for entries written by `withAuditTrail`. REST mutations are also
+ * audited by the backend, so readers that rebuild a history from the
+ * backend's entries skip these to avoid counting a change twice.
+ */
+export const isClientAuditEntry = (entry: { metadata?: Record<string, unknown> | null }) =>
+  entry.metadata?.source === CLIENT_AUDIT_SOURCE;
+
+const resolveActor = async (): Promise<AuditActor | null> => {
+  try {
+    const cached = await AsyncStorage.getItem(CACHED_USER_KEY);
+    if (cached) {
+      const parsed = JSON.parse(cached);
+      if (parsed && typeof parsed.id === 'string') {
+        return { id: parsed.id, email: parsed.email, name: parsed.name, role: parsed.role };
+      }
+    }
+  } catch (error) {
+    console.warn('[auditTrail] Failed to read cached admin profile', error);
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const authUser = data.session?.user;
+  return authUser ? { id: authUser.id, email: authUser.email ?? undefined } : null;
+};
+
+const getDeviceInfo = () => ({
+  platform: Platform.OS,
+  osVersion: String(Platform.Version),
+  isPad: Platform.OS === 'ios' ? Platform.isPad : undefined,
+  isTV: Platform.isTV,
+});
+
+/**
+ * Selects the given columns of a single row, for use as a `before` snapshot.
+ * Returns `null` when the row does not exist.
+ */
+export const snapshotRow = async (table: string, id: string, columns: string) => {
+  const { data, error } = await supabase.from(table).select(columns).eq('id', id).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to snapshot ${table} ${id}: ${error.message}`);
+  }
+  return data ?? null;
+};
+
+export const snapshotRows = async (table: string, ids: string[], columns: string) => {
+  if (ids.length === 0) {
+    return [];
+  }
+  const { data, error } = await supabase.from(table).select(columns).in('id', ids);
+  if (error) {
+    throw new Error(`Failed to snapshot ${table}: ${error.message}`);
+  }
+  return data ?? [];
+};
+
+export const recordAuditEntry = async (entry: {
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  channel: AuditChannel;
+  before: unknown;
+  after: unknown;
+  context?: Record<string, unknown>;
+}) => {
+  const actor = await resolveActor();
+  const { error } = await supabase.from('audit_logs').insert({
+    action: entry.action,
+    admin_id: actor?.id ?? null,
+    target_type: entry.targetType,
+    target_id: entry.targetId,
+    details: {
+      ...(entry.context ?? {}),
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+    },
+    metadata: {
+      source: CLIENT_AUDIT_SOURCE,
+      channel: entry.channel,
+      actor,
+      device: getDeviceInfo(),
+    },
+    timestamp: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to record audit entry: ${error.message}`);
+  }
+};
+
+/**
+ * Wraps a service mutation so every successful call writes an audit entry
+ * with the acting admin, target, before/after snapshots and device info.
+ * Auditing never blocks the mutation: snapshot or insert failures are logged
+ * and the mutation result is returned as usual.
+ *
+ * Admin writes to users, jobs (including caregiver assignment and bulk
+ * actions), bookings, payments, refunds, disputes, payouts, children,
+ * reviews, background checks, notifications (including read state), system
+ * settings, filter presets and outgoing messages go through a wrapped service
+ * function. Reports and approvals are audited by their backend endpoints.
+ * Message read receipts, presence and typing indicators are ephemeral and
+ * deliberately not audited.
+ */
+export const withAuditTrail =
+  <TArgs extends unknown[], TResult>(
+    mutation: (...args: TArgs) => Promise<TResult>,
+    // NoInfer keeps the argument and result types anchored to the mutation itself.
+    config: NoInfer<AuditTrailConfig<TArgs, TResult>>,
+  ) =>
+  async (...args: TArgs): Promise<TResult> => {
+    let before: unknown = null;
+    if (config.before) {
+      try {
+        before = await config.before(...args);
+      } catch (error) {
+        console.warn(`[auditTrail] Failed to capture state before ${config.action}`, error);
+      }
+    }
+
+    const result = await mutation(...args);
+
+    try {
+      await recordAuditEntry({
+        action: config.action,
+        targetType: config.targetType,
+        targetId: config.resultTargetId?.(result) ?? config.targetId(...args),
+        channel: config.channel,
+        before,
+        after: config.after ? config.after(result, ...args) : result ?? null,
+        context: config.context?.(...args),
+      });
+    } catch (error) {
+      console.warn(`[auditTrail] Failed to record ${config.action}`, error);
+    }
+
+    return result;
+  };
@@ -0,0 +1,407 @@
+import { supabase } from '../config/supabase';
+import { snapshotRow, withAuditTrail } from './auditTrail';
+import { createNotification } from './notificationsService';
+import type {
+  BackgroundCheck,
+  BackgroundCheckDocument,
+  BackgroundCheckDocumentStatus,
+  BackgroundCheckStatus,
+  MaybeRelation,
+  UserReference,
+} from '../types';
+
+export const BACKGROUND_CHECK_STATUSES: BackgroundCheckStatus[] = [
+  'not_started',
+  'submitted',
+  'in_review',
+  'passed',
+  'failed',
+  'expired',
+];
+
+export const BACKGROUND_CHECK_STATUS_LABELS: Record<BackgroundCheckStatus, string> = {
+  not_started: 'Not started',
+  submitted: 'Submitted',
+  in_review: 'In review',
+  passed: 'Passed',
+  failed: 'Failed',
+  expired: 'Expired',
+};
+
+export const BACKGROUND_CHECK_STATUS_COLORS: Record<BackgroundCheckStatus, string> = {
+  not_started: '#9e9e9e',
+  submitted: '#2196f3',
+  in_review: '#ff9800',
+  passed: '#4caf50',
+  failed: '#d32f2f',
+  expired: '#795548',
+};
+
+/** Statuses an admin may move a check to from each status. */
+export const BACKGROUND_CHECK_TRANSITIONS: Record<BackgroundCheckStatus, BackgroundCheckStatus[]> = {
+  not_started: ['in_review'],
+  submitted: ['in_review', 'failed'],
+  in_review: ['passed', 'failed'],
+  passed: ['in_review', 'expired'],
+  failed: ['in_review'],
+  expired: ['in_review'],
+};
+
+/** Checks waiting on an admin, in the order they should be worked. */
+export const REVIEW_QUEUE_STATUSES: BackgroundCheckStatus[] = ['submitted', 'in_review'];
+
+export const DEFAULT_CHECK_VALIDITY_MONTHS = 12;
+export const RENEWAL_REMINDER_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_COLUMNS =
+  'id, user_id, status, provider, check_types, notes, requested_at, completed_at, verified_at, expiry_date, reminder_sent_at, updated_at, caregiver:user_id(id,name,email,role)';
+const DOCUMENT_COLUMNS = 'id, user_id, name, url, document_type, review_status, review_notes, uploaded_at, expiry_date';
+
+interface BackgroundCheckRow {
+  id: string;
+  user_id: string;
+  status: BackgroundCheckStatus;
+  provider?: string | null;
+  check_types?: string[] | null;
+  notes?: string | null;
+  requested_at?: string | null;
+  completed_at?: string | null;
+  verified_at?: string | null;
+  expiry_date?: string | null;
+  reminder_sent_at?: string | null;
+  updated_at?: string | null;
+  caregiver?: MaybeRelation<UserReference>;
+}
+
+interface BackgroundCheckDocumentRow {
+  id: string;
+  user_id: string;
+  name: string;
+  url: string;
+  document_type: string;
+  review_status?: BackgroundCheckDocumentStatus | null;
+  review_notes?: string | null;
+  uploaded_at?: string | null;
+  expiry_date?: string | null;
+}
+
+const resolveRelation = <T>(relation: MaybeRelation<T>): T | undefined => {
+  if (!relation) {
+    return undefined;
+  }
+  return Array.isArray(relation) ? relation[0] ?? undefined : relation;
+};
+
+const mapDocument = (row: BackgroundCheckDocumentRow): BackgroundCheckDocument => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  url: row.url,
+  documentType: row.document_type,
+  reviewStatus: row.review_status ?? 'pending',
+  reviewNotes: row.review_notes ?? null,
+  uploadedAt: row.uploaded_at ?? null,
+  expiryDate: row.expiry_date ?? null,
+});
+
+const mapCheck = (row: BackgroundCheckRow, documents: BackgroundCheckDocument[]): BackgroundCheck => ({
+  id: row.id,
+  userId: row.user_id,
+  caregiver: resolveRelation(row.caregiver) ?? null,
+  status: row.status,
+  provider: row.provider ?? null,
+  checkTypes: row.check_types ?? [],
+  notes: row.notes ?? null,
+  requestedAt: row.requested_at ?? null,
+  completedAt: row.completed_at ?? null,
+  verifiedAt: row.verified_at ?? null,
+  expiryDate: row.expiry_date ?? null,
+  reminderSentAt: row.reminder_sent_at ?? null,
+  updatedAt: row.updated_at ?? null,
+  documents,
+});
+
+/**
+ * Status as of `now`. A passed check past its expiry date is reported as
+ * expired even before `expire_background_checks()` has run.
+ */
+export const getEffectiveCheckStatus = (
+  check: Pick<BackgroundCheck, 'status' | 'expiryDate'> | null | undefined,
+  now: Date = new Date(),
+): BackgroundCheckStatus => {
+  if (!check) {
+    return 'not_started';
+  }
+  if (check.status === 'passed' && check.expiryDate && new Date(check.expiryDate).getTime() < now.getTime()) {
+    return 'expired';
+  }
+  return check.status;
+};
+
+export const isBackgroundCheckValid = (
+  check: Pick<BackgroundCheck, 'status' | 'expiryDate'> | null | undefined,
+  now: Date = new Date(),
+) => getEffectiveCheckStatus(check, now) === 'passed';
+
+/** Whole days until the check expires; negative once expired, `null` without an expiry date. */
+export const getDaysUntilExpiry = (check: Pick<BackgroundCheck, 'expiryDate'>, now: Date = new Date()) =>
+  check.expiryDate ? Math.ceil((new Date(check.expiryDate).getTime() - now.getTime()) / DAY_MS) : null;
+
+export const needsRenewalReminder = (check: BackgroundCheck, now: Date = new Date()) => {
+  const days = getDaysUntilExpiry(check, now);
+  return check.status === 'passed' && days !== null && days <= RENEWAL_REMINDER_WINDOW_DAYS && !check.reminderSentAt;
+};
+
+export const getDefaultExpiryDate = (from: Date = new Date()) => {
+  const expiry = new Date(from);
+  expiry.setMonth(expiry.getMonth() + DEFAULT_CHECK_VALIDITY_MONTHS);
+  return expiry.toISOString().slice(0, 10);
+};
+
+const fetchDocumentsByUser = async (userIds: string[]) => {
+  const documents = new Map<string, BackgroundCheckDocument[]>();
+  if (userIds.length === 0) {
+    return documents;
+  }
+
+  const { data, error } = await supabase
+    .from('caregiver_documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('category', 'background_check')
+    .in('user_id', userIds)
+    .order('uploaded_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch background check documents: ${error.message}`);
+  }
+
+  ((data ?? []) as BackgroundCheckDocumentRow[]).forEach(row => {
+    const list = documents.get(row.user_id) ?? [];
+    list.push(mapDocument(row));
+    documents.set(row.user_id, list);
+  });
+  return documents;
+};
+
+const withDocuments = async (rows: BackgroundCheckRow[]) => {
+  const documents = await fetchDocumentsByUser(rows.map(row => row.user_id));
+  return rows.map(row => mapCheck(row, documents.get(row.user_id) ?? []));
+};
+
+export interface FetchBackgroundChecksOptions {
+  statuses?: BackgroundCheckStatus[];
+  /** Only passed checks expiring within this many days (including already lapsed ones). */
+  expiringWithinDays?: number;
+}
+
+export const fetchBackgroundChecks = async (
+  options: FetchBackgroundChecksOptions = {},
+): Promise<BackgroundCheck[]> => {
+  let query = supabase.from('caregiver_background_checks').select(CHECK_COLUMNS);
+
+  if (options.statuses?.length) {
+    query = query.in('status', options.statuses);
+  }
+  if (options.expiringWithinDays !== undefined) {
+    const cutoff = new Date(Date.now() + options.expiringWithinDays * DAY_MS).toISOString();
+    query = query.eq('status', 'passed').not('expiry_date', 'is', null).lte('expiry_date', cutoff);
+  }
+
+  const { data, error } = await query
+    .order(options.expiringWithinDays !== undefined ? 'expiry_date' : 'requested_at', {
+      ascending: true,
+      nullsFirst: false,
+    })
+    .limit(200);
+
+  if (error) {
+    throw new Error(`Failed to fetch background checks: ${error.message}`);
+  }
+  return withDocuments((data ?? []) as unknown as BackgroundCheckRow[]);
+};
+
+export const fetchBackgroundCheckForUser = async (userId: string): Promise<BackgroundCheck | null> => {
+  const { data, error } = await supabase
+    .from('caregiver_background_checks')
+    .select(CHECK_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch background check: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+  const [check] = await withDocuments([data as unknown as BackgroundCheckRow]);
+  return check;
+};
+
+/**
+ * Throws when the caregiver cannot be assigned because background checks are
+ * required and theirs is missing or lapsed. The database enforces the same rule
+ * on bookings and jobs; this gives the admin a readable message up front.
+ */
+export const assertCaregiverAssignable = async (caregiverId: string) => {
+  const { data, error } = await supabase.rpc('caregiver_can_be_assigned', { p_caregiver_id: caregiverId });
+  if (error) {
+    throw new Error(`Failed to verify background check: ${error.message}`);
+  }
+  if (data === false) {
+    throw new Error('This caregiver does not have a valid background check, which system settings require for assignments.');
+  }
+};
+
+export interface UpdateBackgroundCheckPayload {
+  status: BackgroundCheckStatus;
+  /** `YYYY-MM-DD`; required when passing a check. */
+  expiryDate?: string;
+  notes?: string;
+}
+
+const STATUS_NOTIFICATIONS: Partial<Record<BackgroundCheckStatus, { title: string; message: string }>> = {
+  in_review: {
+    title: 'Background check in review',
+    message: 'An admin is reviewing your background check documents.',
+  },
+  passed: {
+    title: 'Background check passed',
+    message: 'Your background check has been approved. You can now be assigned to bookings.',
+  },
+  failed: {
+    title: 'Background check not approved',
+    message: 'Your background check was not approved. Please review the notes and upload new documents.',
+  },
+  expired: {
+    title: 'Background check expired',
+    message: 'Your background check has expired. Upload renewed documents to keep receiving bookings.',
+  },
+};
+
+export const updateBackgroundCheckStatus = withAuditTrail(async (
+  check: BackgroundCheck,
+  payload: UpdateBackgroundCheckPayload,
+) => {
+  if (!BACKGROUND_CHECK_TRANSITIONS[check.status].includes(payload.status)) {
+    throw new Error(
+      `Cannot move a background check from ${BACKGROUND_CHECK_STATUS_LABELS[check.status]} to ${BACKGROUND_CHECK_STATUS_LABELS[payload.status]}`,
+    );
+  }
+  if (payload.status === 'passed' && !payload.expiryDate) {
+    throw new Error('An expiry date is required to pass a background check');
+  }
+  if (payload.status === 'failed' && !payload.notes?.trim()) {
+    throw new Error('A reason is required to fail a background check');
+  }
+
+  const update: Record<string, unknown> = { status: payload.status };
+  if (payload.expiryDate) {
+    update.expiry_date = new Date(`${payload.expiryDate}T23:59:59`).toISOString();
+  }
+  if (payload.notes !== undefined) {
+    update.notes = payload.notes.trim() || null;
+  }
+  if (payload.status === 'passed' || payload.status === 'failed') {
+    // Cleared so the trigger stamps the current reviewer.
+    update.verified_by = null;
+    update.verified_at = null;
+  }
+
+  const { error } = await supabase.from('caregiver_background_checks').update(update).eq('id', check.id);
+  if (error) {
+    throw new Error(`Failed to update background check: ${error.message}`);
+  }
+
+  const notification = STATUS_NOTIFICATIONS[payload.status];
+  if (notification) {
+    try {
+      await createNotification({
+        userId: check.userId,
+        type: 'system',
+        title: notification.title,
+        message: payload.notes?.trim() ? `${notification.message}\n\n${payload.notes.trim()}` : notification.message,
+        data: { backgroundCheckId: check.id, status: payload.status },
+      });
+    } catch (notifyError) {
+      console.warn('[backgroundChecksService] Failed to notify caregiver', notifyError);
+    }
+  }
+  return update;
+}, {
+  action: 'UPDATE_BACKGROUND_CHECK',
+  targetType: 'background_check',
+  channel: 'supabase',
+  targetId: check => check.id,
+  before: check => snapshotRow('caregiver_background_checks', check.id, 'id,user_id,status,expiry_date,notes'),
+  after: (update, check) => ({ id: check.id, user_id: check.userId, ...update }),
+});
+
+export const reviewBackgroundCheckDocument = withAuditTrail(async (
+  documentId: string,
+  decision: Exclude<BackgroundCheckDocumentStatus, 'pending'>,
+  notes?: string,
+) => {
+  if (decision === 'rejected' && !notes?.trim()) {
+    throw new Error('A reason is required to reject a document');
+  }
+
+  const update = {
+    review_status: decision,
+    review_notes: notes?.trim() || null,
+    verified: decision === 'approved',
+    verified_at: decision === 'approved' ? new Date().toISOString() : null,
+  };
+
+  const { error } = await supabase.from('caregiver_documents').update(update).eq('id', documentId);
+  if (error) {
+    throw new Error(`Failed to review document: ${error.message}`);
+  }
+  return update;
+}, {
+  action: 'REVIEW_BACKGROUND_CHECK_DOCUMENT',
+  targetType: 'caregiver_document',
+  channel: 'supabase',
+  targetId: documentId => documentId,
+  before: documentId => snapshotRow('caregiver_documents', documentId, 'id,user_id,review_status,review_notes,verified'),
+  after: (update, documentId) => ({ id: documentId, ...update }),
+});
+
+/**
+ * Notifies each caregiver whose check expires within the reminder window and
+ * has not been reminded yet, then stamps `reminder_sent_at`.
+ */
+export const sendRenewalReminders = async (checks: BackgroundCheck[], now: Date = new Date()) => {
+  const due = checks.filter(check => needsRenewalReminder(check, now));
+  let sent = 0;
+  const failures: string[] = [];
+
+  for (const check of due) {
+    const days = getDaysUntilExpiry(check, now) ?? 0;
+    try {
+      await createNotification({
+        userId: check.userId,
+        type: 'system',
+        title: 'Renew your background check',
+        message:
+          days < 0
+            ? 'Your background check has expired. Upload renewed documents to keep receiving bookings.'
+            : `Your background check expires in ${days} day${days === 1 ? '' : 's'}. Upload renewed documents to avoid interruptions.`,
+        data: { backgroundCheckId: check.id, expiryDate: check.expiryDate },
+      });
+      const { error } = await supabase
+        .from('caregiver_background_checks')
+        .update({ reminder_sent_at: now.toISOString() })
+        .eq('id', check.id);
+      if (error) {
+        throw error;
+      }
+      sent += 1;
+    } catch (error) {
+      console.warn('[backgroundChecksService] Failed to send renewal reminder', error);
+      failures.push(check.caregiver?.name ?? check.userId);
+    }
+  }
+
+  return { sent, failures };
+};
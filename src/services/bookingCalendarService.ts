@@ -0,0 +1,403 @@
+import { supabase } from '../config/supabase';
+import { fetchBookings } from './bookingsService';
+import type { AvailabilityWindow, Booking, BookingConflict, BookingStatus } from '../types';
+
+export type CalendarView = 'day' | 'week';
+
+export interface ScheduledBooking {
+  booking: Booking;
+  start: Date;
+  end: Date;
+  conflicts: BookingConflict[];
+}
+
+export interface CaregiverSchedule {
+  caregiverKey: string;
+  caregiverName: string;
+  /** `undefined` when the caregiver has not published availability. */
+  availability?: AvailabilityWindow[];
+  bookings: ScheduledBooking[];
+}
+
+export interface BookingCalendar {
+  from: Date;
+  to: Date;
+  caregivers: CaregiverSchedule[];
+  /** Bookings whose date or time could not be parsed, listed so they are not silently dropped. */
+  unscheduled: Booking[];
+  conflictCount: number;
+  truncated: boolean;
+}
+
+export interface ConflictDetectionOptions {
+  /** Minimum minutes between sessions at different locations. */
+  minTravelGapMinutes?: number;
+}
+
+export const DEFAULT_TRAVEL_GAP_MINUTES = 30;
+
+const CALENDAR_PAGE_SIZE = 100;
+const MAX_CALENDAR_BOOKINGS = 500;
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Cancelled and no-show bookings no longer occupy the caregiver's time. */
+const INACTIVE_STATUSES: BookingStatus[] = ['cancelled', 'no_show'];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const parseClock = (value: string | null | undefined): number | null => {
+  const match = /^(\d{1,2}):(\d{2})/.exec((value ?? '').trim());
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const isTimestamp = (value: string | null | undefined) => !!value && /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(value);
+
+/** Parses `YYYY-MM-DD` as a local calendar day rather than UTC midnight. */
+const parseDay = (value: string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (match && !isTimestamp(value)) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const atMinutes = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Weeks start on Monday, matching how ops staff plan rosters. */
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Resolves when a booking actually runs. Rows store either full timestamps
+ * in `startTime`/`endTime` or a service date plus `HH:MM` clock times; a
+ * clock end earlier than the start means the session runs past midnight.
+ */
+export const resolveBookingInterval = (booking: Booking): { start: Date; end: Date } | null => {
+  if (isTimestamp(booking.startTime)) {
+    const start = new Date(booking.startTime as string);
+    const end = isTimestamp(booking.endTime)
+      ? new Date(booking.endTime as string)
+      : new Date(start.getTime() + Math.max(booking.totalHours, 1) * 3_600_000);
+    return Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) ? null : { start, end };
+  }
+
+  const day = parseDay(booking.serviceDate) ?? parseDay(booking.startDate);
+  if (!day) {
+    return null;
+  }
+
+  const startClock = parseClock(booking.startTime);
+  if (startClock === null) {
+    const start = day;
+    const explicitEnd = isTimestamp(booking.endDate) ? parseDay(booking.endDate) : null;
+    const end =
+      explicitEnd && explicitEnd > start
+        ? explicitEnd
+        : new Date(start.getTime() + Math.max(booking.totalHours, 1) * 3_600_000);
+    return { start, end };
+  }
+
+  const start = atMinutes(day, startClock);
+  const endClock = parseClock(booking.endTime);
+  let end =
+    endClock !== null
+      ? atMinutes(day, endClock)
+      : new Date(start.getTime() + Math.max(booking.totalHours, 1) * 3_600_000);
+  if (end <= start) {
+    end = new Date(end.getTime() + MINUTES_PER_DAY * 60_000);
+  }
+  return { start, end };
+};
+
+const caregiverKeyOf = (booking: Booking) => booking.caregiverId.id ?? booking.caregiverId.email;
+
+const normalizeLocation = (location: string) => location.trim().toLowerCase();
+
+const isWithinAvailability = (windows: AvailabilityWindow[], start: Date, end: Date) => {
+  const startMinutes = minutesOfDay(start);
+  const endMinutes = startMinutes + Math.round((end.getTime() - start.getTime()) / 60_000);
+  return windows.some(window => {
+    const windowStart = parseClock(window.start) ?? 0;
+    const windowEnd = parseClock(window.end) ?? MINUTES_PER_DAY;
+    // Schedules commonly use 23:59 to mean "until midnight".
+    const effectiveEnd = windowEnd >= MINUTES_PER_DAY - 1 ? MINUTES_PER_DAY : windowEnd;
+    return window.dayOfWeek === start.getDay() && windowStart <= startMinutes && effectiveEnd >= endMinutes;
+  });
+};
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Flags, per caregiver, bookings that overlap each other, fall outside the
+ * caregiver's published availability, or leave too little time to travel
+ * between back-to-back sessions at different locations. Conflicts are
+ * attached to every booking involved.
+ */
+export const detectBookingConflicts = (
+  bookings: Array<Omit<ScheduledBooking, 'conflicts'>>,
+  availability: Map<string, AvailabilityWindow[]>,
+  options: ConflictDetectionOptions = {},
+): Map<string, BookingConflict[]> => {
+  const minGap = options.minTravelGapMinutes ?? DEFAULT_TRAVEL_GAP_MINUTES;
+  const conflicts = new Map<string, BookingConflict[]>();
+  const add = (conflict: BookingConflict) => {
+    conflicts.set(conflict.bookingId, [...(conflicts.get(conflict.bookingId) ?? []), conflict]);
+  };
+
+  const byCaregiver = new Map<string, Array<Omit<ScheduledBooking, 'conflicts'>>>();
+  bookings
+    .filter(entry => !INACTIVE_STATUSES.includes(entry.booking.status))
+    .forEach(entry => {
+      const key = caregiverKeyOf(entry.booking);
+      byCaregiver.set(key, [...(byCaregiver.get(key) ?? []), entry]);
+    });
+
+  byCaregiver.forEach((entries, caregiverKey) => {
+    const sorted = [...entries].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const windows = availability.get(caregiverKey);
+
+    sorted.forEach((current, index) => {
+      if (windows && !isWithinAvailability(windows, current.start, current.end)) {
+        add({
+          type: 'outside_availability',
+          bookingId: current.booking.id,
+          message: `${formatClock(current.start)}–${formatClock(current.end)} is outside ${current.booking.caregiverId.name}'s availability`,
+        });
+      }
+
+      for (let nextIndex = index + 1; nextIndex < sorted.length; nextIndex += 1) {
+        const next = sorted[nextIndex];
+        if (next.start < current.end) {
+          add({
+            type: 'overlap',
+            bookingId: current.booking.id,
+            otherBookingId: next.booking.id,
+            message: `Overlaps ${next.booking.jobId.title} at ${formatClock(next.start)}`,
+          });
+          add({
+            type: 'overlap',
+            bookingId: next.booking.id,
+            otherBookingId: current.booking.id,
+            message: `Overlaps ${current.booking.jobId.title} at ${formatClock(current.start)}`,
+          });
+          continue;
+        }
+
+        // Only the first session after this one needs a travel check.
+        const gapMinutes = Math.round((next.start.getTime() - current.end.getTime()) / 60_000);
+        const sameLocation =
+          normalizeLocation(current.booking.jobId.location) === normalizeLocation(next.booking.jobId.location);
+        if (gapMinutes < minGap && !sameLocation) {
+          const message = `Only ${gapMinutes} min between ${current.booking.jobId.title} and ${next.booking.jobId.title} (needs ${minGap})`;
+          add({ type: 'travel_gap', bookingId: current.booking.id, otherBookingId: next.booking.id, message });
+          add({ type: 'travel_gap', bookingId: next.booking.id, otherBookingId: current.booking.id, message });
+        }
+        break;
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+export const toWindowsFromProfile = (value: unknown): AvailabilityWindow[] | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const availability = value as {
+    flexible?: boolean;
+    hours?: { start?: string; end?: string };
+    days?: string[];
+    weeklySchedule?: Record<string, { available?: boolean; timeSlots?: Array<Record<string, string>> }>;
+  };
+  if (availability.flexible) {
+    return undefined;
+  }
+
+  const windows: AvailabilityWindow[] = [];
+  Object.entries(availability.weeklySchedule ?? {}).forEach(([dayName, schedule]) => {
+    const dayOfWeek = WEEKDAYS.indexOf(dayName.toLowerCase());
+    if (dayOfWeek < 0 || !schedule?.available) {
+      return;
+    }
+    const slots = schedule.timeSlots?.length ? schedule.timeSlots : [{ start: '00:00', end: '23:59' }];
+    slots.forEach(slot => {
+      const start = slot.start ?? slot.startTime;
+      const end = slot.end ?? slot.endTime;
+      if (start && end) {
+        windows.push({ dayOfWeek, start, end });
+      }
+    });
+  });
+
+  if (windows.length === 0 && availability.days?.length) {
+    availability.days.forEach(dayName => {
+      const dayOfWeek = WEEKDAYS.indexOf(dayName.toLowerCase());
+      if (dayOfWeek >= 0) {
+        windows.push({
+          dayOfWeek,
+          start: availability.hours?.start ?? '00:00',
+          end: availability.hours?.end ?? '23:59',
+        });
+      }
+    });
+  }
+
+  // Profiles created with the default, all-unavailable schedule have not
+  // really published availability yet, so nothing is flagged against them.
+  return windows.length > 0 ? windows : undefined;
+};
+
+/**
+ * Loads availability windows from the `availability` table, falling back to
+ * the schedule stored on the caregiver profile. Caregivers with neither are
+ * left out of the map and never flagged as outside availability.
+ */
+export const fetchCaregiverAvailability = async (
+  caregiverIds: string[],
+): Promise<Map<string, AvailabilityWindow[]>> => {
+  const result = new Map<string, AvailabilityWindow[]>();
+  if (caregiverIds.length === 0) {
+    return result;
+  }
+
+  const { data: rows, error } = await supabase
+    .from('availability')
+    .select('caregiver_id, day_of_week, start_time, end_time, is_available')
+    .in('caregiver_id', caregiverIds);
+
+  if (error) {
+    console.warn('[bookingCalendarService] Failed to load availability table', error);
+  }
+
+  (rows ?? []).forEach(row => {
+    const windows = result.get(row.caregiver_id) ?? [];
+    if (row.is_available !== false) {
+      windows.push({ dayOfWeek: row.day_of_week, start: row.start_time, end: row.end_time });
+    }
+    result.set(row.caregiver_id, windows);
+  });
+
+  const missing = caregiverIds.filter(id => !result.has(id));
+  if (missing.length > 0) {
+    const { data: profiles, error: profileError } = await supabase
+      .from('caregiver_profiles')
+      .select('user_id, availability')
+      .in('user_id', missing);
+
+    if (profileError) {
+      console.warn('[bookingCalendarService] Failed to load profile availability', profileError);
+    }
+
+    (profiles ?? []).forEach(profile => {
+      const windows = toWindowsFromProfile(profile.availability);
+      if (windows) {
+        result.set(profile.user_id, windows);
+      }
+    });
+  }
+
+  return result;
+};
+
+export const getCalendarRange = (view: CalendarView, anchor: Date) => {
+  const from = view === 'day' ? startOfDay(anchor) : startOfWeek(anchor);
+  return { from, to: addDays(from, view === 'day' ? 1 : 7) };
+};
+
+/**
+ * Loads every booking starting in the view's range, grouped per caregiver
+ * with conflicts attached. The fetch starts a day early so sessions that
+ * run past midnight into the range are still shown and checked.
+ */
+export const fetchBookingCalendar = async (
+  view: CalendarView,
+  anchor: Date,
+  options: ConflictDetectionOptions & { caregiverId?: string } = {},
+): Promise<BookingCalendar> => {
+  const { from, to } = getCalendarRange(view, anchor);
+  const bookings: Booking[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && bookings.length < MAX_CALENDAR_BOOKINGS) {
+    const result = await fetchBookings({
+      page,
+      limit: CALENDAR_PAGE_SIZE,
+      caregiverId: options.caregiverId,
+      from: toDateKey(addDays(from, -1)),
+      to: toDateKey(addDays(to, -1)),
+    });
+    bookings.push(...result.bookings);
+    hasMore = result.pagination.hasMore;
+    page += 1;
+  }
+
+  const unscheduled: Booking[] = [];
+  const scheduled: Array<Omit<ScheduledBooking, 'conflicts'>> = [];
+  bookings.forEach(booking => {
+    const interval = resolveBookingInterval(booking);
+    if (!interval) {
+      unscheduled.push(booking);
+    } else if (interval.end > from && interval.start < to) {
+      scheduled.push({ booking, ...interval });
+    }
+  });
+
+  const caregiverIds = Array.from(
+    new Set(scheduled.map(entry => entry.booking.caregiverId.id).filter((id): id is string => !!id)),
+  );
+  const availability = await fetchCaregiverAvailability(caregiverIds);
+  const conflicts = detectBookingConflicts(scheduled, availability, options);
+
+  const schedules = new Map<string, CaregiverSchedule>();
+  scheduled
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach(entry => {
+      const key = caregiverKeyOf(entry.booking);
+      const schedule = schedules.get(key) ?? {
+        caregiverKey: key,
+        caregiverName: entry.booking.caregiverId.name,
+        availability: availability.get(key),
+        bookings: [],
+      };
+      schedule.bookings.push({ ...entry, conflicts: conflicts.get(entry.booking.id) ?? [] });
+      schedules.set(key, schedule);
+    });
+
+  const caregivers = Array.from(schedules.values()).sort((a, b) => {
+    const conflictsOf = (schedule: CaregiverSchedule) =>
+      schedule.bookings.filter(entry => entry.conflicts.length > 0).length;
+    return conflictsOf(b) - conflictsOf(a) || a.caregiverName.localeCompare(b.caregiverName);
+  });
+
+  return {
+    from,
+    to,
+    caregivers,
+    unscheduled,
+    conflictCount: caregivers.reduce(
+      (total, schedule) => total + schedule.bookings.filter(entry => entry.conflicts.length > 0).length,
+      0,
+    ),
+    truncated: hasMore,
+  };
+};
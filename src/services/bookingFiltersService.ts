@@ -0,0 +1,247 @@
+import * as Linking from 'expo-linking';
+import { supabase } from '../config/supabase';
+import { snapshotRow, withAuditTrail } from './auditTrail';
+import { BOOKING_STATUSES } from '../config/bookingStateMachine';
+import type { FetchBookingsOptions } from './bookingsService';
+import type { BookingFilterPreset, BookingFilters, BookingStatus } from '../types';
+
+const PRESET_SCOPE = 'bookings';
+const PRESET_COLUMNS = 'id, name, filters, created_at, updated_at';
+/** Path registered for the bookings tab in the navigation linking config. */
+export const BOOKINGS_LINK_PATH = 'bookings';
+
+const STRING_KEYS = [
+  'search',
+  'parentId',
+  'parentName',
+  'caregiverId',
+  'caregiverName',
+  'jobId',
+  'jobTitle',
+  'serviceDateFrom',
+  'serviceDateTo',
+] as const;
+
+const NUMBER_KEYS = ['minAmount', 'maxAmount', 'minChildren', 'maxChildren'] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidFilterDate = (value: string) =>
+  DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+/** Drops empty values so presets and links only carry filters that are set. */
+export const compactBookingFilters = (filters: BookingFilters): BookingFilters => {
+  const result: BookingFilters = {};
+  if (filters.status) {
+    result.status = filters.status;
+  }
+  STRING_KEYS.forEach(key => {
+    const value = filters[key]?.trim();
+    if (value) {
+      result[key] = value;
+    }
+  });
+  NUMBER_KEYS.forEach(key => {
+    const value = filters[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = value;
+    }
+  });
+  if (typeof filters.hasOpenReport === 'boolean') {
+    result.hasOpenReport = filters.hasOpenReport;
+  }
+  return result;
+};
+
+/** Number of filters applied, not counting the free-text search or the display names. */
+export const countActiveBookingFilters = (filters: BookingFilters) => {
+  const compact = compactBookingFilters(filters);
+  return (
+    [
+      compact.status,
+      compact.parentId,
+      compact.caregiverId,
+      compact.jobId,
+      compact.serviceDateFrom ?? compact.serviceDateTo,
+      compact.minAmount ?? compact.maxAmount,
+      compact.minChildren ?? compact.maxChildren,
+      compact.hasOpenReport,
+    ].filter(value => value !== undefined).length
+  );
+};
+
+/**
+ * Checks that ranges are well formed before a request is sent, returning a
+ * message for the first problem found.
+ */
+export const validateBookingFilters = (filters: BookingFilters): string | null => {
+  if (filters.serviceDateFrom && !isValidFilterDate(filters.serviceDateFrom)) {
+    return 'Service date "from" must be YYYY-MM-DD';
+  }
+  if (filters.serviceDateTo && !isValidFilterDate(filters.serviceDateTo)) {
+    return 'Service date "to" must be YYYY-MM-DD';
+  }
+  if (filters.serviceDateFrom && filters.serviceDateTo && filters.serviceDateFrom > filters.serviceDateTo) {
+    return 'Service date range ends before it starts';
+  }
+  if (filters.minAmount !== undefined && filters.maxAmount !== undefined && filters.minAmount > filters.maxAmount) {
+    return 'Minimum amount is greater than maximum amount';
+  }
+  if (
+    filters.minChildren !== undefined &&
+    filters.maxChildren !== undefined &&
+    filters.minChildren > filters.maxChildren
+  ) {
+    return 'Minimum children is greater than maximum children';
+  }
+  return null;
+};
+
+export const toFetchBookingsOptions = (filters: BookingFilters): FetchBookingsOptions => {
+  const compact = compactBookingFilters(filters);
+  return {
+    status: compact.status,
+    search: compact.search,
+    parentId: compact.parentId,
+    caregiverId: compact.caregiverId,
+    jobId: compact.jobId,
+    serviceDateFrom: compact.serviceDateFrom,
+    serviceDateTo: compact.serviceDateTo,
+    minAmount: compact.minAmount,
+    maxAmount: compact.maxAmount,
+    minChildren: compact.minChildren,
+    maxChildren: compact.maxChildren,
+    hasOpenReport: compact.hasOpenReport,
+  };
+};
+
+/**
+ * Reads filters back from deep-link query params. Unknown keys and values
+ * that do not parse are ignored rather than rejected, so an old or
+ * hand-edited link still opens the bookings list.
+ */
+export const parseBookingFilters = (params: Record<string, unknown> | undefined): BookingFilters => {
+  if (!params) {
+    return {};
+  }
+  const read = (key: string) => {
+    const value = params[key];
+    return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+  };
+
+  const filters: BookingFilters = {};
+  const status = read('status');
+  if (status && (BOOKING_STATUSES as string[]).includes(status)) {
+    filters.status = status as BookingStatus;
+  }
+  STRING_KEYS.forEach(key => {
+    const value = read(key);
+    if (value) {
+      filters[key] = value;
+    }
+  });
+  NUMBER_KEYS.forEach(key => {
+    const value = read(key);
+    if (value !== undefined && value !== '' && Number.isFinite(Number(value))) {
+      filters[key] = Number(value);
+    }
+  });
+  const hasOpenReport = read('hasOpenReport');
+  if (hasOpenReport === 'true' || hasOpenReport === 'false') {
+    filters.hasOpenReport = hasOpenReport === 'true';
+  }
+  return compactBookingFilters(filters);
+};
+
+export const toBookingFilterParams = (filters: BookingFilters): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(compactBookingFilters(filters)).map(([key, value]) => [key, String(value)]),
+  );
+
+/** `iyayaadmin://bookings?...` link that reopens the list with the same filters. */
+export const buildBookingFiltersLink = (filters: BookingFilters) =>
+  Linking.createURL(BOOKINGS_LINK_PATH, { queryParams: toBookingFilterParams(filters) });
+
+interface BookingFilterPresetRow {
+  id: string;
+  name: string;
+  filters: BookingFilters | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+const mapPreset = (row: BookingFilterPresetRow): BookingFilterPreset => ({
+  id: row.id,
+  name: row.name,
+  filters: parseBookingFilters(row.filters as Record<string, unknown> | undefined),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at ?? undefined,
+});
+
+export const fetchBookingFilterPresets = async (adminId: string): Promise<BookingFilterPreset[]> => {
+  const { data, error } = await supabase
+    .from('admin_filter_presets')
+    .select(PRESET_COLUMNS)
+    .eq('admin_id', adminId)
+    .eq('scope', PRESET_SCOPE)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load filter presets: ${error.message}`);
+  }
+  return (data ?? []).map(mapPreset);
+};
+
+/** Saves the filters under `name`, replacing an existing preset with the same name. */
+export const saveBookingFilterPreset = withAuditTrail(async (
+  adminId: string,
+  name: string,
+  filters: BookingFilters,
+): Promise<BookingFilterPreset> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('A preset name is required');
+  }
+
+  const { data, error } = await supabase
+    .from('admin_filter_presets')
+    .upsert(
+      {
+        admin_id: adminId,
+        scope: PRESET_SCOPE,
+        name: trimmedName,
+        filters: compactBookingFilters(filters),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'admin_id,scope,name' },
+    )
+    .select(PRESET_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save filter preset: ${error.message}`);
+  }
+  return mapPreset(data);
+}, {
+  action: 'SAVE_FILTER_PRESET',
+  targetType: 'filter_preset',
+  channel: 'supabase',
+  targetId: () => null,
+  resultTargetId: preset => preset.id,
+  after: preset => ({ id: preset.id, name: preset.name, filters: preset.filters }),
+  context: () => ({ scope: PRESET_SCOPE }),
+});
+
+export const deleteBookingFilterPreset = withAuditTrail(async (presetId: string) => {
+  const { error } = await supabase.from('admin_filter_presets').delete().eq('id', presetId);
+  if (error) {
+    throw new Error(`Failed to delete filter preset: ${error.message}`);
+  }
+}, {
+  action: 'DELETE_FILTER_PRESET',
+  targetType: 'filter_preset',
+  channel: 'supabase',
+  targetId: presetId => presetId,
+  before: presetId => snapshotRow('admin_filter_presets', presetId, PRESET_COLUMNS),
+  after: () => null,
+});
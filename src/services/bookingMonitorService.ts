@@ -0,0 +1,182 @@
+import { supabase } from '../config/supabase';
+import { fetchBookings } from './bookingsService';
+import { addDays, resolveBookingInterval, startOfDay, toDateKey } from './bookingCalendarService';
+import { messagingService } from './messagingService';
+import type { Booking, BookingAttentionItem } from '../types';
+
+export interface BookingMonitorOptions {
+  /** Minutes after the scheduled start before a confirmed booking is flagged. */
+  graceMinutes?: number;
+  now?: Date;
+}
+
+export interface BookingMonitorRunOptions extends BookingMonitorOptions {
+  /** Admin who sends any caregiver messages. */
+  adminId: string;
+  messageCaregivers?: boolean;
+  /** Bookings whose caregiver this admin has already messaged; never messaged again. */
+  alreadyMessaged?: string[];
+}
+
+export interface BookingMonitorResult {
+  items: BookingAttentionItem[];
+  messaged: string[];
+  failures: Array<{ bookingId: string; error: string }>;
+}
+
+export const BOOKING_START_GRACE_MINUTES = 15;
+/** A booking this late, or already past its end time, is treated as a likely no-show. */
+export const LIKELY_NO_SHOW_MINUTES = 60;
+
+const LATE_START_ALERT = 'booking_late_start';
+const MONITOR_PAGE_SIZE = 100;
+const MAX_MONITORED_BOOKINGS = 300;
+
+/**
+ * Admin alerts are raised by the backend's `booking-start-monitor` job so
+ * they go out even when nobody has the dashboard open; this module lists
+ * the same bookings and handles caregiver messaging.
+ *
+ * Confirmed bookings whose start time plus the grace window has passed,
+ * most overdue first. Bookings that never resolve to a start time are skipped.
+ */
+export const findBookingsNeedingAttention = (
+  bookings: Booking[],
+  options: BookingMonitorOptions = {},
+): BookingAttentionItem[] => {
+  const now = options.now ?? new Date();
+  const graceMinutes = options.graceMinutes ?? BOOKING_START_GRACE_MINUTES;
+
+  return bookings
+    .filter(booking => booking.status === 'confirmed')
+    .flatMap<BookingAttentionItem>(booking => {
+      const interval = resolveBookingInterval(booking);
+      if (!interval) {
+        return [];
+      }
+      const minutesLate = Math.floor((now.getTime() - interval.start.getTime()) / 60_000);
+      if (minutesLate < graceMinutes) {
+        return [];
+      }
+      return [
+        {
+          booking,
+          reason: minutesLate >= LIKELY_NO_SHOW_MINUTES || now >= interval.end ? 'likely_no_show' : 'late_start',
+          scheduledStart: interval.start.toISOString(),
+          minutesLate,
+        },
+      ];
+    })
+    .sort((a, b) => b.minutesLate - a.minutesLate);
+};
+
+/** Confirmed bookings starting yesterday or today that have not been started. */
+export const fetchBookingsNeedingAttention = async (
+  options: BookingMonitorOptions = {},
+): Promise<BookingAttentionItem[]> => {
+  const today = startOfDay(options.now ?? new Date());
+  const bookings: Booking[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && bookings.length < MAX_MONITORED_BOOKINGS) {
+    const result = await fetchBookings({
+      page,
+      limit: MONITOR_PAGE_SIZE,
+      status: 'confirmed',
+      from: toDateKey(addDays(today, -1)),
+      to: toDateKey(today),
+    });
+    bookings.push(...result.bookings);
+    hasMore = result.pagination.hasMore;
+    page += 1;
+  }
+
+  const items = findBookingsNeedingAttention(bookings, options);
+  const alerts = await fetchExistingAlerts(items.map(item => item.booking.id));
+  return items.map(item => ({ ...item, alertedAt: alerts.get(item.booking.id) }));
+};
+
+const fetchExistingAlerts = async (bookingIds: string[]): Promise<Map<string, string>> => {
+  const alerts = new Map<string, string>();
+  if (bookingIds.length === 0) {
+    return alerts;
+  }
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('data, created_at')
+    .contains('data', { alert: LATE_START_ALERT })
+    .gte('created_at', addDays(new Date(), -2).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.warn('[bookingMonitorService] Failed to load existing alerts', error);
+    return alerts;
+  }
+
+  (data ?? []).forEach(row => {
+    const bookingId = row.data?.bookingId;
+    if (typeof bookingId === 'string' && bookingIds.includes(bookingId) && !alerts.has(bookingId)) {
+      alerts.set(bookingId, row.created_at);
+    }
+  });
+  return alerts;
+};
+
+/**
+ * Sends the caregiver a direct message about a late start, reusing an
+ * existing conversation with the admin when there is one.
+ */
+export const messageCaregiverAboutLateStart = async (adminId: string, item: BookingAttentionItem) => {
+  const caregiverId = item.booking.caregiverId.id;
+  if (!caregiverId) {
+    throw new Error('Booking has no caregiver to message');
+  }
+
+  const conversations = await messagingService.getConversations(adminId);
+  const existing = conversations.find(
+    conversation => conversation.participant_1 === caregiverId || conversation.participant_2 === caregiverId,
+  );
+  const conversationId =
+    existing?.id ?? (await messagingService.createConversation(adminId, caregiverId, 'admin_caregiver'));
+
+  await messagingService.sendMessage(
+    conversationId,
+    adminId,
+    `Hi ${item.booking.caregiverId.name}, your booking "${item.booking.jobId.title}" was scheduled to start ` +
+      `${item.minutesLate} minutes ago but has not been started. Please start it in the app or let us know if there is a problem.`,
+  );
+};
+
+/**
+ * Lists late confirmed bookings and, when enabled, messages each caregiver
+ * once. Whether a caregiver was messaged is tracked separately from the
+ * admin alert, so turning messaging on later still reaches bookings that
+ * were already alerted. Failures are collected per booking so one bad row
+ * never stops the rest of the run.
+ */
+export const runBookingMonitor = async (options: BookingMonitorRunOptions): Promise<BookingMonitorResult> => {
+  const items = await fetchBookingsNeedingAttention(options);
+  const messaged: string[] = [];
+  const failures: BookingMonitorResult['failures'] = [];
+
+  if (!options.messageCaregivers) {
+    return { items, messaged, failures };
+  }
+
+  const alreadyMessaged = new Set(options.alreadyMessaged ?? []);
+  for (const item of items.filter(entry => entry.booking.caregiverId.id && !alreadyMessaged.has(entry.booking.id))) {
+    try {
+      await messageCaregiverAboutLateStart(options.adminId, item);
+      messaged.push(item.booking.id);
+    } catch (error) {
+      failures.push({
+        bookingId: item.booking.id,
+        error: error instanceof Error ? error.message : 'Failed to message caregiver',
+      });
+    }
+  }
+
+  return { items, messaged, failures };
+};
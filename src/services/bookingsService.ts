@@ -1,9 +1,30 @@
 import { adminApi } from "./apiService";
+import { fetchAuditLogs } from "./auditService";
+import { isClientAuditEntry, withAuditTrail } from "./auditTrail";
+import { createNotification, fetchNotifications } from "./notificationsService";
+import { fetchPayments } from "./paymentsService";
+import { fetchReports } from "./reportsService";
+import {
+  BOOKING_TRANSITIONS,
+  BookingTransitionError,
+  assertBookingTransition,
+  findBookingTransition,
+  formatBookingStatus,
+  normalizeBookingStatus,
+  type BookingAction,
+  type BookingTransition,
+} from "../config/bookingStateMachine";
 import type {
   ApiResponse,
   Booking,
   BookingRow,
+  BookingStatus,
+  BookingStatusHistoryEntry,
+  BookingTimeline,
+  BookingTimelineEvent,
+  BookingTimelineEventKind,
   JobReference,
+  PaymentRecord,
   MaybeRelation,
   UserReference,
 } from "../types";
@@ -12,6 +33,21 @@ export interface FetchBookingsOptions {
   page?: number;
   limit?: number;
   status?: string;
+  search?: string;
+  parentId?: string;
+  caregiverId?: string;
+  jobId?: string;
+  /** Inclusive `YYYY-MM-DD` bounds on the booking start date. */
+  from?: string;
+  to?: string;
+  /** Inclusive `YYYY-MM-DD` bounds on the service date. */
+  serviceDateFrom?: string;
+  serviceDateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  minChildren?: number;
+  maxChildren?: number;
+  hasOpenReport?: boolean;
 }
 
 export interface FetchBookingsResult {
@@ -201,12 +237,14 @@ const mapBookingRecord = (row: BookingRow | null | undefined): Booking => {
 
   return {
     id: row?.id ?? '',
-    status: row?.status ?? 'pending',
+    status: normalizeBookingStatus(row?.status),
     parentId: {
+      id: parent?.id ?? undefined,
       name: parent?.name ?? 'Unknown Parent',
       email: parent?.email ?? "unknown@example.com",
     },
     caregiverId: {
+      id: caregiver?.id ?? undefined,
       name: caregiver?.name ?? 'Unassigned',
       email: caregiver?.email ?? 'unassigned@example.com',
     },
@@ -249,15 +287,24 @@ export const fetchBookings = async (
   const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
   const page = Math.max(1, options.page ?? 1);
 
-  const params: Record<string, string | number | undefined> = {
+  const response = await adminApi.getBookings({
     page,
     limit,
-  };
-  if (options.status && options.status !== "all") {
-    params.status = options.status;
-  }
-
-  const response = await adminApi.getBookings(params) as ApiResponse<BookingRow[]>;
+    status: options.status && options.status !== "all" ? options.status : undefined,
+    search: options.search?.trim() || undefined,
+    parentId: options.parentId || undefined,
+    caregiverId: options.caregiverId || undefined,
+    jobId: options.jobId || undefined,
+    from: options.from || undefined,
+    to: options.to || undefined,
+    serviceDateFrom: options.serviceDateFrom || undefined,
+    serviceDateTo: options.serviceDateTo || undefined,
+    minAmount: options.minAmount,
+    maxAmount: options.maxAmount,
+    minChildren: options.minChildren,
+    maxChildren: options.maxChildren,
+    hasOpenReport: options.hasOpenReport,
+  });
 
   if (!response?.success) {
     throw new Error(response?.error || "Failed to fetch bookings");
@@ -282,43 +329,284 @@ export const fetchBookings = async (
   };
 };
 
-export const updateBookingStatus = async (
+const runTransitionEffect = (
   bookingId: string,
-  status: Booking["status"],
+  transition: BookingTransition,
+  reason?: string,
+): Promise<ApiResponse<BookingRow>> => {
+  const payload = reason ? { reason } : undefined;
+  switch (transition.effect) {
+    case "confirm":
+      return adminApi.confirmBooking(bookingId, payload);
+    case "start":
+      return adminApi.startBooking(bookingId);
+    case "complete":
+      return adminApi.completeBooking(bookingId);
+    case "cancel":
+      return adminApi.cancelBooking(bookingId, payload);
+    case "status":
+    default:
+      return adminApi.updateBookingStatus(bookingId, transition.to, reason);
+  }
+};
+
+const notifyParticipants = async (
+  booking: Pick<Booking, "id" | "parentId" | "caregiverId" | "jobId">,
+  transition: BookingTransition,
   reason?: string,
 ) => {
-  return handleBookingApiResponse(
-    adminApi.updateBookingStatus(bookingId, status, reason) as Promise<ApiResponse<BookingRow>>,
-    "Failed to update booking status",
+  if (!transition.notification) {
+    return;
+  }
+  const recipients = [booking.parentId?.id, booking.caregiverId?.id].filter(
+    (id): id is string => typeof id === "string" && id.length > 0,
+  );
+  const title = transition.notification.title;
+  const message = reason
+    ? `${booking.jobId.title}: ${transition.successMessage} Reason: ${reason}`
+    : `${booking.jobId.title}: ${transition.successMessage}`;
+
+  await Promise.all(
+    recipients.map((userId) =>
+      createNotification({
+        userId,
+        type: transition.notification!.type,
+        title,
+        message,
+        data: { bookingId: booking.id, status: transition.to },
+      }).catch((error) =>
+        console.warn("[bookingsService] Failed to notify booking participant", error),
+      ),
+    ),
   );
 };
 
-export const confirmBooking = async (bookingId: string, reason?: string) =>
-  handleBookingApiResponse(
-    adminApi.confirmBooking(bookingId, reason ? { reason } : undefined) as Promise<ApiResponse<BookingRow>>,
-    "Failed to confirm booking",
-  );
+/**
+ * Moves a booking to `status` through the booking state machine. Illegal
+ * transitions and missing reasons are rejected with a
+ * `BookingTransitionError` before any request is sent.
+ */
+export const updateBookingStatus = withAuditTrail(async (
+  booking: Pick<Booking, "id" | "status" | "parentId" | "caregiverId" | "jobId">,
+  status: BookingStatus,
+  reason?: string,
+): Promise<Booking> => {
+  const transition = findBookingTransition(booking.status, status);
+  if (!transition) {
+    throw new BookingTransitionError(
+      `Cannot move a ${formatBookingStatus(booking.status).toLowerCase()} booking to ${formatBookingStatus(status).toLowerCase()}`,
+    );
+  }
+  assertBookingTransition(booking.status, transition.action, { reason });
 
-export const startBooking = async (bookingId: string) =>
-  handleBookingApiResponse(
-    adminApi.startBooking(bookingId) as Promise<ApiResponse<BookingRow>>,
-    "Failed to start booking",
+  const trimmedReason = reason?.trim() || undefined;
+  const updated = await handleBookingApiResponse(
+    runTransitionEffect(booking.id, transition, trimmedReason),
+    "Failed to update booking status",
   );
+  await notifyParticipants(booking, transition, trimmedReason);
+  return updated;
+}, {
+  action: "UPDATE_BOOKING_STATUS",
+  targetType: "booking",
+  channel: "rest",
+  targetId: booking => booking.id,
+  before: async booking => ({ id: booking.id, status: booking.status }),
+  after: updated => ({ id: updated.id, status: updated.status }),
+  context: (_booking, status, reason) => ({ status, reason: reason?.trim() || undefined }),
+});
+
+export const runBookingAction = (
+  booking: Pick<Booking, "id" | "status" | "parentId" | "caregiverId" | "jobId">,
+  action: BookingAction,
+  reason?: string,
+) => updateBookingStatus(booking, BOOKING_TRANSITIONS[action].to, reason);
+
+const BOOKING_STATUS_AUDIT_ACTIONS = [
+  "UPDATE_BOOKING_STATUS",
+  "CONFIRM_BOOKING",
+  "START_BOOKING",
+  "COMPLETE_BOOKING",
+  "CANCEL_BOOKING",
+];
+
+/**
+ * Status history reconstructed from the audit trail the backend writes for
+ * every booking transition, oldest first, starting with creation.
+ */
+export const fetchBookingStatusHistory = async (
+  booking: Pick<Booking, "id" | "createdAt">,
+): Promise<BookingStatusHistoryEntry[]> => {
+  const { logs } = await fetchAuditLogs({ targetId: booking.id, limit: 100 });
+
+  const transitions = logs
+    .filter((log) => BOOKING_STATUS_AUDIT_ACTIONS.includes(log.action) && !isClientAuditEntry(log))
+    .map<BookingStatusHistoryEntry>((log) => {
+      const metadata = log.metadata ?? {};
+      return {
+        id: log.id,
+        from: typeof metadata.from === "string" ? normalizeBookingStatus(metadata.from) : undefined,
+        to: normalizeBookingStatus(typeof metadata.to === "string" ? metadata.to : undefined),
+        at: log.timestamp,
+        actor: log.adminId?.name ?? log.adminId?.email,
+        reason: typeof metadata.reason === "string" ? metadata.reason : null,
+      };
+    })
+    .reverse();
 
-export const completeBooking = async (bookingId: string) =>
-  handleBookingApiResponse(
-    adminApi.completeBooking(bookingId) as Promise<ApiResponse<BookingRow>>,
-    "Failed to complete booking",
-  );
+  return [
+    { id: `${booking.id}-created`, to: "pending", at: booking.createdAt, reason: null },
+    ...transitions,
+  ];
+};
 
-export const cancelBooking = async (bookingId: string, reason?: string) =>
-  handleBookingApiResponse(
-    adminApi.cancelBooking(bookingId, reason ? { reason } : undefined) as Promise<ApiResponse<BookingRow>>,
-    "Failed to cancel booking",
-  );
+const PAYMENT_AUDIT_ACTIONS = ["UPDATE_PAYMENT_STATUS", "REFUND_PAYMENT"];
+
+const formatLabel = (value: string) =>
+  value.replace(/_/g, " ").replace(/\b\w/g, (char) => char.toUpperCase());
+
+const describeAmount = (amount: number) =>
+  Number.isFinite(amount) ? `₱${amount.toLocaleString("en-US", { minimumFractionDigits: 2 })}` : undefined;
+
+const toStatusEvents = (history: BookingStatusHistoryEntry[]): BookingTimelineEvent[] =>
+  history.map((entry, index) => ({
+    id: `status-${entry.id}`,
+    kind: "status",
+    at: entry.at,
+    title: entry.from
+      ? `${formatBookingStatus(entry.from)} → ${formatBookingStatus(entry.to)}`
+      : index === 0
+        ? "Booking created"
+        : formatBookingStatus(entry.to),
+    actor: entry.actor,
+    reason: entry.reason,
+    status: entry.to,
+  }));
+
+const toPaymentEvents = async (payment: PaymentRecord): Promise<BookingTimelineEvent[]> => {
+  const events: BookingTimelineEvent[] = [
+    {
+      id: `payment-${payment.id}-created`,
+      kind: "payment",
+      at: payment.createdAt,
+      title: "Payment recorded",
+      description: describeAmount(payment.totalAmount),
+      actor: payment.parentInfo.name ?? payment.parentInfo.email,
+      paymentId: payment.id,
+    },
+  ];
+
+  (payment.proofs ?? []).forEach((proof) => {
+    events.push({
+      id: `proof-${proof.id}`,
+      kind: "proof",
+      at: proof.uploadedAt ?? payment.createdAt,
+      title: proof.suspicious ? "Payment proof uploaded (flagged)" : "Payment proof uploaded",
+      description: proof.issues?.length ? proof.issues.join(", ") : proof.paymentType ?? undefined,
+      actor: proof.uploadedByInfo?.name ?? proof.uploadedByInfo?.email ?? undefined,
+      paymentId: payment.id,
+    });
+  });
+
+  try {
+    const { logs } = await fetchAuditLogs({ targetId: payment.id, limit: 50 });
+    logs
+      .filter((log) => PAYMENT_AUDIT_ACTIONS.includes(log.action) && !isClientAuditEntry(log))
+      .forEach((log) => {
+        const metadata = log.metadata ?? {};
+        const to = typeof metadata.to === "string" ? metadata.to : payment.paymentStatus;
+        events.push({
+          id: `payment-${log.id}`,
+          kind: "payment",
+          at: log.timestamp,
+          title:
+            log.action === "REFUND_PAYMENT"
+              ? to === "partially_refunded"
+                ? `Payment partially refunded${typeof metadata.amount === "number" ? ` (₱${metadata.amount.toFixed(2)})` : ""}`
+                : "Payment refunded"
+              : `Payment marked ${formatLabel(to).toLowerCase()}`,
+          description: typeof metadata.from === "string" ? `Was ${formatLabel(metadata.from).toLowerCase()}` : undefined,
+          actor: log.adminId?.name ?? log.adminId?.email,
+          reason:
+            typeof metadata.reason === "string"
+              ? metadata.reason
+              : typeof metadata.notes === "string"
+                ? metadata.notes
+                : null,
+          paymentId: payment.id,
+        });
+      });
+  } catch (error) {
+    console.warn("[bookingsService] Failed to load payment history", error);
+  }
+
+  return events;
+};
+
+/**
+ * Everything that happened to a booking, oldest first: status changes,
+ * payments and their proofs, notifications sent about it and linked reports.
+ * Sources load independently; any that fail are listed in
+ * `unavailableSources` instead of failing the whole timeline.
+ */
+export const fetchBookingTimeline = async (
+  booking: Pick<Booking, "id" | "createdAt">,
+): Promise<BookingTimeline> => {
+  const sources: Array<[BookingTimelineEventKind[], Promise<BookingTimelineEvent[]>]> = [
+    [["status"], fetchBookingStatusHistory(booking).then(toStatusEvents)],
+    [
+      ["payment", "proof"],
+      fetchPayments({ bookingId: booking.id }).then(async ({ payments }) =>
+        (await Promise.all(payments.filter((payment) => payment.bookingId === booking.id).map(toPaymentEvents))).flat(),
+      ),
+    ],
+    [
+      ["notification"],
+      fetchNotifications({ bookingId: booking.id }).then((notifications) =>
+        notifications.map<BookingTimelineEvent>((notification) => ({
+          id: `notification-${notification.id}`,
+          kind: "notification",
+          at: notification.createdAt,
+          title: `Notified ${notification.userInfo?.name ?? notification.userInfo?.email ?? "user"}: ${notification.title}`,
+          description: notification.message,
+        })),
+      ),
+    ],
+    [
+      ["report"],
+      fetchReports({ bookingId: booking.id, limit: 50 }).then(({ reports }) =>
+        reports.map<BookingTimelineEvent>((report) => ({
+          id: `report-${report.id}`,
+          kind: "report",
+          at: report.created_at,
+          title: `${formatLabel(report.report_type)} report filed`,
+          description: `${report.title} • ${formatLabel(report.status)}`,
+          actor: report.reporter?.name ?? report.reporter?.email,
+          reportId: report.id,
+        })),
+      ),
+    ],
+  ];
+
+  const results = await Promise.allSettled(sources.map(([, promise]) => promise));
+  const events: BookingTimelineEvent[] = [];
+  const unavailableSources: BookingTimelineEventKind[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      events.push(...result.value);
+    } else {
+      console.warn("[bookingsService] Failed to load booking timeline source", sources[index][0], result.reason);
+      unavailableSources.push(...sources[index][0]);
+    }
+  });
+
+  events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  return { events, unavailableSources };
+};
 
 export const fetchBookingById = async (bookingId: string): Promise<Booking> => {
-  const response = await adminApi.getBookingById(bookingId) as ApiResponse<BookingRow>;
+  const response = await adminApi.getBookingById(bookingId);
 
   if (!response?.success) {
     throw new Error(response?.error || "Failed to fetch booking detail");
@@ -0,0 +1,362 @@
+import { supabase } from '../config/supabase';
+import { fetchBookings } from './bookingsService';
+import { resolveBookingInterval, toWindowsFromProfile } from './bookingCalendarService';
+import type { CaregiverRatingSummary } from './reviewsService';
+import { createNotification } from './notificationsService';
+import { assignJobCaregiver } from './jobsService';
+import {
+  BACKGROUND_CHECK_STATUS_LABELS,
+  assertCaregiverAssignable,
+  getEffectiveCheckStatus,
+} from './backgroundChecksService';
+import type {
+  AvailabilityWindow,
+  BackgroundCheckStatus,
+  Booking,
+  CaregiverMatch,
+  CaregiverMatchFactor,
+  CaregiverMatchFactorScore,
+  Job,
+} from '../types';
+
+export interface JobSchedule {
+  /** `YYYY-MM-DD` */
+  date?: string;
+  /** `HH:MM` */
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface MatchCandidate {
+  id: string;
+  name: string;
+  email: string;
+  location?: string;
+  hourlyRate?: number;
+}
+
+export interface MatchSignals {
+  backgroundCheck?: { status: BackgroundCheckStatus; expiryDate?: string | null };
+  rating?: CaregiverRatingSummary;
+  bookings?: { completed: number; unsuccessful: number };
+  availability?: AvailabilityWindow[];
+  /** Intervals already booked on the job's date. */
+  busy?: Array<{ start: Date; end: Date }>;
+}
+
+export const MATCH_FACTOR_WEIGHTS: Record<CaregiverMatchFactor, number> = {
+  location: 25,
+  rate: 20,
+  background_check: 20,
+  rating: 15,
+  completion: 10,
+  availability: 10,
+};
+
+export const MATCH_FACTOR_LABELS: Record<CaregiverMatchFactor, string> = {
+  location: 'Location',
+  rate: 'Rate',
+  background_check: 'Background check',
+  rating: 'Reviews',
+  completion: 'Completion',
+  availability: 'Availability',
+};
+
+const NEUTRAL_SCORE = 0.5;
+const MAX_CANDIDATES = 200;
+const LOCATION_STOP_WORDS = new Set(['city', 'of', 'the', 'metro', 'province', 'philippines', 'ph']);
+
+const factor = (name: CaregiverMatchFactor, score: number, detail: string): CaregiverMatchFactorScore => ({
+  factor: name,
+  score: Math.max(0, Math.min(1, score)),
+  weight: MATCH_FACTOR_WEIGHTS[name],
+  detail,
+});
+
+const locationTokens = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[^a-z0-9ñ]+/)
+    .filter(token => token.length > 2 && !LOCATION_STOP_WORDS.has(token));
+
+const scoreLocation = (job: Job, candidate: MatchCandidate) => {
+  if (!job.location || !candidate.location) {
+    return factor('location', NEUTRAL_SCORE, 'No location on file');
+  }
+  const jobTokens = locationTokens(job.location);
+  const candidateTokens = new Set(locationTokens(candidate.location));
+  if (jobTokens.length === 0 || candidateTokens.size === 0) {
+    return factor('location', NEUTRAL_SCORE, 'Location could not be compared');
+  }
+  // The leading part of an address is usually the most specific (barangay or city).
+  const primary = locationTokens(job.location.split(',')[0]);
+  if (primary.length > 0 && primary.every(token => candidateTokens.has(token))) {
+    return factor('location', 1, `Based in ${candidate.location}`);
+  }
+  const shared = jobTokens.filter(token => candidateTokens.has(token)).length;
+  return factor(
+    'location',
+    shared / jobTokens.length,
+    shared > 0 ? `Nearby: ${candidate.location}` : `Based elsewhere (${candidate.location})`,
+  );
+};
+
+const jobRateCeiling = (job: Job) => job.hourly_rate ?? (job.budget > 0 ? job.budget : undefined);
+
+const scoreRate = (job: Job, candidate: MatchCandidate) => {
+  const jobRate = jobRateCeiling(job);
+  if (!jobRate || !candidate.hourlyRate) {
+    return factor('rate', NEUTRAL_SCORE, 'No rate to compare');
+  }
+  if (candidate.hourlyRate <= jobRate) {
+    return factor('rate', 1, `₱${candidate.hourlyRate}/hr within ₱${jobRate}/hr`);
+  }
+  // Linear drop to zero at 50% over the job's rate.
+  const overBy = (candidate.hourlyRate - jobRate) / jobRate;
+  return factor('rate', 1 - overBy * 2, `₱${candidate.hourlyRate}/hr is ${Math.round(overBy * 100)}% over ₱${jobRate}/hr`);
+};
+
+const BACKGROUND_CHECK_SCORES: Record<BackgroundCheckStatus, number> = {
+  not_started: 0.25,
+  submitted: NEUTRAL_SCORE,
+  in_review: NEUTRAL_SCORE,
+  passed: 1,
+  failed: 0,
+  expired: 0.2,
+};
+
+const scoreBackgroundCheck = (signals: MatchSignals, now: Date) => {
+  const status = getEffectiveCheckStatus(signals.backgroundCheck, now);
+  return factor(
+    'background_check',
+    BACKGROUND_CHECK_SCORES[status],
+    `Background check: ${BACKGROUND_CHECK_STATUS_LABELS[status].toLowerCase()}`,
+  );
+};
+
+const scoreRating = (signals: MatchSignals) => {
+  const rating = signals.rating;
+  if (!rating || rating.count === 0) {
+    return factor('rating', NEUTRAL_SCORE, 'No reviews yet');
+  }
+  // Pull small samples toward neutral so one 5-star review does not top the list.
+  const confidence = Math.min(1, rating.count / 5);
+  const normalized = (rating.average - 1) / 4;
+  return factor(
+    'rating',
+    NEUTRAL_SCORE + (normalized - NEUTRAL_SCORE) * confidence,
+    `${rating.average.toFixed(1)}★ from ${rating.count} review${rating.count === 1 ? '' : 's'}`,
+  );
+};
+
+const scoreCompletion = (signals: MatchSignals) => {
+  const bookings = signals.bookings;
+  const finished = bookings ? bookings.completed + bookings.unsuccessful : 0;
+  if (!bookings || finished === 0) {
+    return factor('completion', NEUTRAL_SCORE, 'No finished bookings');
+  }
+  const rate = bookings.completed / finished;
+  return factor('completion', rate, `${Math.round(rate * 100)}% of ${finished} bookings completed`);
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const scoreAvailability = (schedule: JobSchedule, signals: MatchSignals, now: Date) => {
+  const reference = schedule.date ? new Date(`${schedule.date}T${schedule.startTime ?? '00:00'}:00`) : now;
+  const busy = signals.busy ?? [];
+
+  if (schedule.date && schedule.startTime && schedule.endTime) {
+    const start = new Date(`${schedule.date}T${schedule.startTime}:00`);
+    const end = new Date(`${schedule.date}T${schedule.endTime}:00`);
+    if (busy.some(interval => interval.start < end && start < interval.end)) {
+      return factor('availability', 0, 'Already booked at that time');
+    }
+  } else if (busy.some(interval => interval.start <= now && now < interval.end)) {
+    return factor('availability', 0.2, 'On a booking right now');
+  }
+
+  const windows = signals.availability;
+  if (!windows || windows.length === 0) {
+    return factor('availability', NEUTRAL_SCORE, 'No published availability');
+  }
+  const day = windows.filter(window => window.dayOfWeek === reference.getDay());
+  if (day.length === 0) {
+    return factor('availability', 0.1, 'Not available that day');
+  }
+  if (schedule.startTime && schedule.endTime) {
+    const start = toMinutes(schedule.startTime);
+    const end = toMinutes(schedule.endTime);
+    const covered = day.some(window => toMinutes(window.start) <= start && end <= toMinutes(window.end));
+    return covered
+      ? factor('availability', 1, 'Available for the whole job')
+      : factor('availability', 0.4, 'Available that day, not for the full hours');
+  }
+  return factor('availability', 0.9, 'Available that day');
+};
+
+/**
+ * Scores one caregiver for a job. Each factor is 0–1 and the total is their
+ * weighted sum scaled to 0–100; missing data scores neutral rather than zero
+ * so new caregivers are not buried.
+ */
+export const scoreCaregiverMatch = (
+  job: Job,
+  schedule: JobSchedule,
+  candidate: MatchCandidate,
+  signals: MatchSignals,
+  now: Date = new Date(),
+): CaregiverMatch => {
+  const factors = [
+    scoreLocation(job, candidate),
+    scoreRate(job, candidate),
+    scoreBackgroundCheck(signals, now),
+    scoreRating(signals),
+    scoreCompletion(signals),
+    scoreAvailability(schedule, signals, now),
+  ];
+  const totalWeight = factors.reduce((sum, entry) => sum + entry.weight, 0);
+  const weighted = factors.reduce((sum, entry) => sum + entry.score * entry.weight, 0);
+  return {
+    caregiver: candidate,
+    score: Math.round((weighted / totalWeight) * 100),
+    factors,
+  };
+};
+
+interface CandidateRow {
+  caregiver_id: string;
+  name: string | null;
+  email: string;
+  location: string | null;
+  hourly_rate: number | string | null;
+  background_check_status: BackgroundCheckStatus | null;
+  background_check_expiry: string | null;
+  completed_bookings: number;
+  unsuccessful_bookings: number;
+  rating_average: number | string | null;
+  rating_count: number;
+  availability: AvailabilityWindow[] | null;
+  profile_availability: unknown;
+}
+
+interface ScoredCandidate {
+  candidate: MatchCandidate;
+  signals: Omit<MatchSignals, 'busy'>;
+}
+
+/**
+ * Loads candidates with their signals in one RPC. The server drops caregivers
+ * priced out of the job and keeps the closest ones by location, in a stable
+ * order, before the limit applies.
+ */
+const fetchCandidates = async (job: Job): Promise<ScoredCandidate[]> => {
+  const { data, error } = await supabase.rpc('caregiver_match_candidates', {
+    p_location_terms: job.location ? locationTokens(job.location) : [],
+    p_max_rate: jobRateCeiling(job) ?? null,
+    p_limit: MAX_CANDIDATES,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load caregivers: ${error.message}`);
+  }
+
+  return ((data ?? []) as CandidateRow[]).map(row => {
+    const rate = Number(row.hourly_rate);
+    const ratingCount = Number(row.rating_count) || 0;
+    return {
+      candidate: {
+        id: row.caregiver_id,
+        name: row.name ?? row.email,
+        email: row.email,
+        location: row.location ?? undefined,
+        hourlyRate: Number.isFinite(rate) && rate > 0 ? rate : undefined,
+      },
+      signals: {
+        backgroundCheck: row.background_check_status
+          ? { status: row.background_check_status, expiryDate: row.background_check_expiry }
+          : undefined,
+        rating: ratingCount > 0 ? { average: Number(row.rating_average), count: ratingCount } : undefined,
+        bookings: { completed: row.completed_bookings ?? 0, unsuccessful: row.unsuccessful_bookings ?? 0 },
+        availability: row.availability ?? toWindowsFromProfile(row.profile_availability),
+      },
+    };
+  });
+};
+
+const fetchJobSchedule = async (jobId: string): Promise<JobSchedule> => {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('date, start_time, end_time')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[caregiverMatchingService] Failed to load job schedule', error);
+    return {};
+  }
+  return {
+    date: data?.date ?? undefined,
+    startTime: data?.start_time ? String(data.start_time).slice(0, 5) : undefined,
+    endTime: data?.end_time ? String(data.end_time).slice(0, 5) : undefined,
+  };
+};
+
+const fetchBusyIntervals = async (schedule: JobSchedule, now: Date) => {
+  const busy = new Map<string, Array<{ start: Date; end: Date }>>();
+  const day = schedule.date ?? now.toISOString().slice(0, 10);
+  let bookings: Booking[] = [];
+  try {
+    const result = await fetchBookings({ from: day, to: day, limit: 200 });
+    bookings = result.bookings;
+  } catch (error) {
+    console.warn('[caregiverMatchingService] Failed to load bookings for availability', error);
+  }
+  bookings
+    .filter(booking => ['pending', 'confirmed', 'in_progress'].includes(booking.status))
+    .forEach(booking => {
+      const caregiverId = booking.caregiverId.id;
+      const interval = resolveBookingInterval(booking);
+      if (caregiverId && interval) {
+        busy.set(caregiverId, [...(busy.get(caregiverId) ?? []), interval]);
+      }
+    });
+  return busy;
+};
+
+/**
+ * Ranks active caregivers for a job, best match first. A schedule or booking
+ * lookup that fails is logged and scored neutral so the panel still renders.
+ */
+export const fetchCaregiverMatches = async (job: Job, limit = 10): Promise<CaregiverMatch[]> => {
+  const now = new Date();
+  const [candidates, schedule] = await Promise.all([fetchCandidates(job), fetchJobSchedule(job.id)]);
+  if (candidates.length === 0) {
+    return [];
+  }
+  const busy = await fetchBusyIntervals(schedule, now);
+
+  return candidates
+    .map(({ candidate, signals }) =>
+      scoreCaregiverMatch(job, schedule, candidate, { ...signals, busy: busy.get(candidate.id) }, now),
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+export const assignCaregiverToJob = async (jobId: string, caregiverId: string) => {
+  await assertCaregiverAssignable(caregiverId);
+  return assignJobCaregiver(jobId, caregiverId);
+};
+
+/** Sends the caregiver an in-app invitation to apply for the job. */
+export const inviteCaregiverToJob = (job: Job, caregiver: CaregiverMatch['caregiver']) =>
+  createNotification({
+    userId: caregiver.id,
+    type: 'system',
+    title: 'You have been invited to a job',
+    message: `Hi ${caregiver.name}, you look like a great fit for "${job.title}" in ${job.location}. Open the job to apply.`,
+    data: { jobId: job.id, invite: true },
+  });
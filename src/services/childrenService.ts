@@ -1,6 +1,7 @@
 import { supabase } from '../config/supabase';
 import type { ChildProfile } from '../types';
 import { adminApi } from './apiService';
+import { snapshotRow, withAuditTrail } from './auditTrail';
 
 export interface FetchChildrenOptions {
   search?: string;
@@ -64,7 +65,7 @@ export const fetchChildren = async (options: FetchChildrenOptions = {}): Promise
   });
 };
 
-export const updateChildNotes = async (childId: string, existingContact: Record<string, any> | null, notes: string) => {
+export const updateChildNotes = withAuditTrail(async (childId: string, existingContact: Record<string, any> | null, notes: string) => {
   const trimmed = notes.trim();
   const updatedContact = {
     ...(existingContact ?? {}),
@@ -84,14 +85,34 @@ export const updateChildNotes = async (childId: string, existingContact: Record<
   }
 
   console.log('[children] updated note for', childId);
-};
+  return updatedContact;
+}, {
+  action: 'UPDATE_CHILD_NOTES',
+  targetType: 'child',
+  channel: 'supabase',
+  targetId: childId => childId,
+  before: childId => snapshotRow('children', childId, 'id,notes,emergency_contact'),
+  after: (updatedContact, childId) => ({
+    id: childId,
+    notes: (updatedContact.adminNotes as string | null) ?? null,
+    emergency_contact: updatedContact,
+  }),
+});
 
-export const deleteChildProfile = async (childId: string) => {
+export const deleteChildProfile = withAuditTrail(async (childId: string, options: { reason?: string; approvalId?: string } = {}) => {
   console.log('[children] delete request for', childId);
   try {
-    await adminApi.deleteChildProfile(childId);
+    await adminApi.deleteChildProfile(childId, options.reason, options.approvalId);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     throw new Error(`Failed to delete child profile: ${message}`);
   }
-};
+}, {
+  action: 'DELETE_CHILD_PROFILE',
+  targetType: 'child',
+  channel: 'rest',
+  targetId: childId => childId,
+  before: childId => snapshotRow('children', childId, 'id,name,parent_id,notes'),
+  after: () => null,
+  context: (_childId, options) => ({ reason: options?.reason, approvalId: options?.approvalId }),
+});
@@ -0,0 +1,64 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+/**
+ * Quotes a cell when needed. Cells that a spreadsheet would evaluate as a
+ * formula (leading `=`, `+`, `-`, `@`, tab or carriage return) are prefixed
+ * with `'` so they open as plain text.
+ */
+export const escapeCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string =>
+  [
+    columns.map(column => column.header).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(column.value(row))).join(',')),
+  ].join('\r\n');
+
+/** Timestamp safe for file names, e.g. `2026-01-31T09-15-00-000Z`. */
+export const fileStamp = (date: Date = new Date()) => date.toISOString().replace(/[:.]/g, '-');
+
+const MIME_TYPES: Record<string, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+  html: { mimeType: 'text/html', UTI: 'public.html' },
+  pdf: { mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+};
+
+/** Opens the native share sheet for a file that is already on disk. */
+export const shareFileUri = async (fileUri: string, label: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const extension = fileUri.split('.').pop()?.toLowerCase() ?? '';
+  await Sharing.shareAsync(fileUri, { ...MIME_TYPES[extension], dialogTitle: `Share ${label} export` });
+};
+
+/**
+ * Writes the export to the cache directory and shares the file itself, so
+ * recipients get an attachment rather than pasted text. Returns the file URI.
+ */
+export const shareExportFile = async (fileName: string, contents: string, label: string) => {
+  let file: File;
+  try {
+    file = new File(Paths.cache, fileName);
+    file.create({ overwrite: true });
+    file.write(contents);
+  } catch (error: any) {
+    throw new Error(`Failed to write ${label} export: ${error?.message ?? 'unknown error'}`);
+  }
+
+  await shareFileUri(file.uri, label);
+  return file.uri;
+};
@@ -0,0 +1,246 @@
+import { supabase } from '../config/supabase';
+import { approveJob, fetchJobs } from './jobsService';
+import type {
+  HourlyRateNorm,
+  Job,
+  JobModerationFlag,
+  JobModerationRule,
+  JobRiskLevel,
+  JobScreeningResult,
+} from '../types';
+
+export interface ScreenedJob {
+  job: Job;
+  screening: JobScreeningResult;
+}
+
+export interface FetchModerationQueueOptions {
+  page?: number;
+  limit?: number;
+  search?: string;
+}
+
+export interface ModerationQueueResult {
+  items: ScreenedJob[];
+  norm: HourlyRateNorm;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+export interface BulkApproveResult {
+  approved: string[];
+  failures: Array<{ jobId: string; error: string }>;
+}
+
+/** Jobs in these statuses have not been reviewed yet. */
+export const MODERATION_QUEUE_STATUSES: Job['status'][] = ['pending', 'open', 'active'];
+
+/** Scores below this are low risk and eligible for bulk approval. */
+export const LOW_RISK_MAX_SCORE = 20;
+/** Scores at or above this are high risk. */
+export const HIGH_RISK_MIN_SCORE = 50;
+
+/** Used when too few jobs publish an hourly rate to derive a norm. */
+export const DEFAULT_HOURLY_RATE_NORM: HourlyRateNorm = { median: 150, sampleSize: 0 };
+const MIN_NORM_SAMPLE = 10;
+const NORM_SAMPLE_LIMIT = 500;
+/** Rates outside these multiples of the median are flagged. */
+const LOW_RATE_RATIO = 0.4;
+const HIGH_RATE_RATIO = 3;
+
+export const MODERATION_RULE_LABELS: Record<JobModerationRule, string> = {
+  contact_info: 'Contact info',
+  off_platform_payment: 'Off-platform payment',
+  prohibited_terms: 'Prohibited terms',
+  suspicious_rate: 'Suspicious rate',
+};
+
+interface PatternRule {
+  rule: Exclude<JobModerationRule, 'suspicious_rate'>;
+  weight: number;
+  reason: string;
+  patterns: RegExp[];
+}
+
+const PATTERN_RULES: PatternRule[] = [
+  {
+    rule: 'contact_info',
+    weight: 40,
+    reason: 'Shares contact details that let users move off the platform',
+    patterns: [
+      /[\w.+-]+@[\w-]+\.[\w.]+/gi,
+      /(?:\+?63|0)9\d{2}[\s.-]?\d{3}[\s.-]?\d{4}/g,
+      /\b\d{3}[\s.-]\d{3}[\s.-]\d{4}\b/g,
+      /\b(?:whats\s?app|viber|telegram|messenger|wechat|signal)\b/gi,
+      /\b(?:facebook|fb|instagram|ig)(?:\.com)?\s*[:/@]\s*[\w.]+/gi,
+      /(?:^|\s)@[a-z0-9_.]{3,}/gi,
+    ],
+  },
+  {
+    rule: 'off_platform_payment',
+    weight: 45,
+    reason: 'Asks for payment outside the app',
+    patterns: [
+      /\b(?:g-?cash|pay-?maya|maya\s+(?:wallet|account)|palawan express|western union|remittance)\b/gi,
+      /\b(?:bank|wire)\s+transfer\b/gi,
+      /\bcash\s+(?:only|upfront|advance)\b/gi,
+      /\bpay(?:ment)?\s+(?:me\s+)?(?:directly|outside(?:\s+the\s+app)?|off[\s-]?platform)\b/gi,
+      /\b(?:crypto|bitcoin|usdt)\b/gi,
+    ],
+  },
+  {
+    rule: 'prohibited_terms',
+    weight: 60,
+    reason: 'Contains terms that are not allowed in job posts',
+    patterns: [
+      /\b(?:under the table|no questions asked|no id needed|no background check)\b/gi,
+      /\b(?:massage|escort|adult services?|nude|sexy)\b/gi,
+      /\b(?:drugs?|weed|marijuana|shabu|firearms?|guns?)\b/gi,
+      /\b(?:deposit|registration fee|processing fee)\s+(?:required|needed|first)\b/gi,
+    ],
+  },
+];
+
+const collectMatches = (text: string, patterns: RegExp[]) => {
+  const matches = new Set<string>();
+  patterns.forEach(pattern => {
+    for (const match of text.matchAll(pattern)) {
+      matches.add(match[0].trim());
+    }
+  });
+  return Array.from(matches);
+};
+
+const getHourlyRate = (job: Job) =>
+  typeof job.hourly_rate === 'number' && job.hourly_rate > 0 ? job.hourly_rate : undefined;
+
+const checkRate = (job: Job, norm: HourlyRateNorm): JobModerationFlag | null => {
+  const rate = getHourlyRate(job);
+  if (rate === undefined) {
+    return null;
+  }
+  if (rate < norm.median * LOW_RATE_RATIO) {
+    return {
+      rule: 'suspicious_rate',
+      weight: 25,
+      reason: `₱${rate}/hr is well below the typical ₱${norm.median}/hr`,
+    };
+  }
+  if (rate > norm.median * HIGH_RATE_RATIO) {
+    return {
+      rule: 'suspicious_rate',
+      weight: 30,
+      reason: `₱${rate}/hr is far above the typical ₱${norm.median}/hr, a common lure in scam posts`,
+    };
+  }
+  return null;
+};
+
+export const getRiskLevel = (score: number): JobRiskLevel =>
+  score >= HIGH_RISK_MIN_SCORE ? 'high' : score >= LOW_RISK_MAX_SCORE ? 'medium' : 'low';
+
+/**
+ * Runs the local rules over a job's title and description and its hourly
+ * rate. This only ranks the queue; admins still make every decision.
+ */
+export const screenJob = (job: Job, norm: HourlyRateNorm = DEFAULT_HOURLY_RATE_NORM): JobScreeningResult => {
+  const text = `${job.title}\n${job.description}`;
+  const flags: JobModerationFlag[] = [];
+
+  PATTERN_RULES.forEach(({ rule, weight, reason, patterns }) => {
+    const matches = collectMatches(text, patterns);
+    if (matches.length > 0) {
+      flags.push({ rule, weight, reason, matches });
+    }
+  });
+
+  const rateFlag = checkRate(job, norm);
+  if (rateFlag) {
+    flags.push(rateFlag);
+  }
+
+  const score = Math.min(
+    100,
+    flags.reduce((total, flag) => total + flag.weight, 0),
+  );
+  return { jobId: job.id, score, level: getRiskLevel(score), flags };
+};
+
+/** Median published hourly rate across recent jobs. */
+export const fetchHourlyRateNorm = async (): Promise<HourlyRateNorm> => {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('hourly_rate')
+    .gt('hourly_rate', 0)
+    .order('created_at', { ascending: false })
+    .limit(NORM_SAMPLE_LIMIT);
+
+  if (error) {
+    console.warn('[jobModerationService] Failed to load hourly rates, using default norm', error);
+    return DEFAULT_HOURLY_RATE_NORM;
+  }
+
+  const rates = (data ?? [])
+    .map(row => Number(row.hourly_rate))
+    .filter(rate => Number.isFinite(rate) && rate > 0)
+    .sort((a, b) => a - b);
+
+  if (rates.length < MIN_NORM_SAMPLE) {
+    return DEFAULT_HOURLY_RATE_NORM;
+  }
+
+  const middle = Math.floor(rates.length / 2);
+  const median = rates.length % 2 === 0 ? (rates[middle - 1] + rates[middle]) / 2 : rates[middle];
+  return { median: Math.round(median), sampleSize: rates.length };
+};
+
+/** Unreviewed jobs, screened and sorted riskiest first within the page. */
+export const fetchModerationQueue = async (
+  options: FetchModerationQueueOptions = {},
+): Promise<ModerationQueueResult> => {
+  const [result, norm] = await Promise.all([
+    fetchJobs({
+      page: options.page,
+      limit: options.limit,
+      search: options.search,
+      statuses: MODERATION_QUEUE_STATUSES,
+    }),
+    fetchHourlyRateNorm(),
+  ]);
+
+  const items = result.jobs
+    .map(job => ({ job, screening: screenJob(job, norm) }))
+    .sort((a, b) => b.screening.score - a.screening.score);
+
+  return { items, norm, pagination: result.pagination };
+};
+
+/**
+ * Approves the low-risk items one at a time; anything flagged medium or high
+ * is skipped. Failures are collected per job so one bad row never stops the
+ * rest.
+ */
+export const bulkApproveLowRiskJobs = async (
+  items: ScreenedJob[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<BulkApproveResult> => {
+  const eligible = items.filter(item => item.screening.level === 'low');
+  const approved: string[] = [];
+  const failures: BulkApproveResult['failures'] = [];
+
+  for (const [index, { job, screening }] of eligible.entries()) {
+    try {
+      await approveJob(job.id, `Bulk approved after automated screening (score ${screening.score})`);
+      approved.push(job.id);
+    } catch (error) {
+      failures.push({ jobId: job.id, error: error instanceof Error ? error.message : 'Failed to approve job' });
+    }
+    onProgress?.(index + 1, eligible.length);
+  }
+
+  return { approved, failures };
+};
@@ -1,11 +1,26 @@
+import * as Crypto from "expo-crypto";
 import { supabase } from "../config/supabase";
 import { adminApi } from "./apiService";
-import type { ApiResponse, Job, JobReference, JobRow, MaybeRelation, UserReference } from "../types";
+import { snapshotRow, snapshotRows, withAuditTrail } from "./auditTrail";
+import type {
+  ApiResponse,
+  FieldDiff,
+  Job,
+  JobReference,
+  JobRevision,
+  JobRevisionField,
+  JobRevisionSnapshot,
+  JobRow,
+  MaybeRelation,
+  UserReference,
+} from "../types";
 
 export interface FetchJobsOptions {
   page?: number;
   limit?: number;
   status?: string;
+  /** Matches any of these statuses; combined with `status` when both are set. */
+  statuses?: Job["status"][];
   search?: string;
 }
 
@@ -26,6 +41,37 @@ export interface FetchJobsResult {
   };
 }
 
+export type BulkJobAction = "approve" | "reject" | "cancel" | "delete";
+
+export interface BulkJobActionPayload {
+  jobIds: string[];
+  action: BulkJobAction;
+  reason: string;
+}
+
+export interface BulkJobActionResult {
+  succeeded: string[];
+  failures: Array<{ jobId: string; error: string }>;
+}
+
+// Mirrors JOB_ACTION_SOURCE_STATUSES in iyaya-backend/controllers/adminController.js.
+export const BULK_JOB_ACTION_SOURCE_STATUSES: Record<BulkJobAction, Job["status"][]> = {
+  approve: ["pending", "open", "active"],
+  reject: ["pending", "open", "active"],
+  cancel: ["open", "confirmed", "pending", "active"],
+  delete: ["pending", "open", "active", "cancelled", "completed", "inactive"],
+};
+
+/** Bulk actions the backend accepts for every one of the given job statuses. */
+export const getBulkJobActions = (statuses: Job["status"][]): BulkJobAction[] =>
+  statuses.length === 0
+    ? []
+    : (Object.keys(BULK_JOB_ACTION_SOURCE_STATUSES) as BulkJobAction[]).filter((action) =>
+        statuses.every((status) => BULK_JOB_ACTION_SOURCE_STATUSES[action].includes(status)),
+      );
+
+const BULK_JOB_CHUNK_SIZE = 10;
+
 const DEFAULT_PAGE_SIZE = 20;
 
 const sanitizeSearchTerm = (term: string) =>
@@ -43,6 +89,7 @@ const resolveRelation = <T>(relation: MaybeRelation<T>): T | undefined => {
 
 const applyFilters = <T extends {
   eq(column: string, value: unknown): T;
+  in(column: string, values: readonly unknown[]): T;
   or(filters: string): T;
 }>(query: T, options: FetchJobsOptions): T => {
   let next = query;
@@ -51,6 +98,10 @@ const applyFilters = <T extends {
     next = next.eq("status", options.status);
   }
 
+  if (options.statuses && options.statuses.length > 0) {
+    next = next.in("status", options.statuses);
+  }
+
   if (options.search && options.search.trim()) {
     const sanitized = sanitizeSearchTerm(options.search);
     const orClause = ["title", "description", "location"]
@@ -134,6 +185,7 @@ const mapJobRecord = (row: JobRow | null | undefined): Job => {
       // Default to 0 only if nothing is available
       return 0;
     })(),
+    hourly_rate: typeof row.hourly_rate === "number" ? row.hourly_rate : undefined,
     parentId: {
       name: parentSource?.name ?? "Unknown Parent",
       email: parentSource?.email ?? "unknown@example.com",
@@ -150,7 +202,7 @@ const mapJobRecord = (row: JobRow | null | undefined): Job => {
 };
 
 const handleJobApiResponse = async (
-  promise: Promise<ApiResponse<JobRow>>,
+  promise: Promise<ApiResponse<JobRow | undefined>>,
   defaultError: string,
 ): Promise<Job> => {
   const response = await promise;
@@ -249,48 +301,110 @@ export const fetchJobs = async (
   };
 };
 
-export const updateJobStatus = async (
+const JOB_AUDIT_COLUMNS = "id,title,description,location,budget,hourly_rate,status,parent_id,caregiver_id";
+
+const snapshotJob = (jobId: string) => snapshotRow("jobs", jobId, JOB_AUDIT_COLUMNS);
+
+const toJobAuditSnapshot = (job: Job) => ({
+  id: job.id,
+  title: job.title,
+  description: job.description,
+  location: job.location,
+  budget: job.budget,
+  hourly_rate: job.hourly_rate ?? null,
+  status: job.status,
+});
+
+const reasonContext = (reason?: string) => (reason ? { reason } : undefined);
+
+export const updateJobStatus = withAuditTrail(async (
   jobId: string,
   status: Job["status"],
   reason?: string,
 ) => {
   return handleJobApiResponse(
-    adminApi.updateJobStatus(jobId, status, reason) as Promise<ApiResponse<JobRow>>,
+    adminApi.updateJobStatus(jobId, status, reason),
     "Failed to update job status",
   );
-};
-
-export const approveJob = async (jobId: string, reason?: string) =>
+}, {
+  action: "UPDATE_JOB_STATUS",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+  context: (_jobId, _status, reason) => reasonContext(reason),
+});
+
+export const approveJob = withAuditTrail(async (jobId: string, reason?: string) =>
   handleJobApiResponse(
-    adminApi.approveJob(jobId, reason ? { reason } : undefined) as Promise<ApiResponse<JobRow>>,
+    adminApi.approveJob(jobId, reason ? { reason } : undefined),
     "Failed to approve job",
-  );
-
-export const rejectJob = async (jobId: string, reason?: string) =>
+  ), {
+  action: "APPROVE_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+  context: (_jobId, reason) => reasonContext(reason),
+});
+
+export const rejectJob = withAuditTrail(async (jobId: string, reason?: string) =>
   handleJobApiResponse(
-    adminApi.rejectJob(jobId, reason ? { reason } : undefined) as Promise<ApiResponse<JobRow>>,
+    adminApi.rejectJob(jobId, reason ? { reason } : undefined),
     "Failed to reject job",
-  );
-
-export const cancelJob = async (jobId: string, reason?: string) =>
+  ), {
+  action: "REJECT_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+  context: (_jobId, reason) => reasonContext(reason),
+});
+
+export const cancelJob = withAuditTrail(async (jobId: string, reason?: string) =>
   handleJobApiResponse(
-    adminApi.cancelJob(jobId, reason ? { reason } : undefined) as Promise<ApiResponse<JobRow>>,
+    adminApi.cancelJob(jobId, reason ? { reason } : undefined),
     "Failed to cancel job",
-  );
-
-export const completeJob = async (jobId: string) =>
+  ), {
+  action: "CANCEL_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+  context: (_jobId, reason) => reasonContext(reason),
+});
+
+export const completeJob = withAuditTrail(async (jobId: string) =>
   handleJobApiResponse(
-    adminApi.completeJob(jobId) as Promise<ApiResponse<JobRow>>,
+    adminApi.completeJob(jobId),
     "Failed to complete job",
-  );
-
-export const reopenJob = async (jobId: string) =>
+  ), {
+  action: "COMPLETE_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+});
+
+export const reopenJob = withAuditTrail(async (jobId: string) =>
   handleJobApiResponse(
-    adminApi.reopenJob(jobId) as Promise<ApiResponse<JobRow>>,
+    adminApi.reopenJob(jobId),
     "Failed to reopen job",
-  );
-
-export const createJob = async (jobData: {
+  ), {
+  action: "REOPEN_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+});
+
+export const createJob = withAuditTrail(async (jobData: {
   title: string;
   description: string;
   location: string;
@@ -300,39 +414,217 @@ export const createJob = async (jobData: {
   caregiver_id?: string;
 }) => {
   return handleJobApiResponse(
-    adminApi.createJob(jobData) as Promise<ApiResponse<JobRow>>,
+    adminApi.createJob(jobData),
     "Failed to create job",
   );
+}, {
+  action: "CREATE_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: () => null,
+  resultTargetId: job => job.id || null,
+  after: toJobAuditSnapshot,
+});
+
+type JobUpdates = {
+  title?: string;
+  description?: string;
+  location?: string;
+  budget?: number;
+  hourly_rate?: number;
+  parent_id?: string;
+  caregiver_id?: string;
+  /** Stored on the job revision this edit creates. */
+  revision_note?: string;
 };
 
-export const updateJob = async (
-  jobId: string,
-  updates: {
-    title?: string;
-    description?: string;
-    location?: string;
-    budget?: number;
-    hourly_rate?: number;
-    parent_id?: string;
-    caregiver_id?: string;
-  },
-) => {
-  return handleJobApiResponse(
-    adminApi.updateJob(jobId, updates) as Promise<ApiResponse<JobRow>>,
+const saveJobUpdates = (jobId: string, updates: JobUpdates) =>
+  handleJobApiResponse(
+    adminApi.updateJob(jobId, updates),
     "Failed to update job",
   );
-};
 
-export const deleteJob = async (jobId: string, reason?: string) => {
+export const updateJob = withAuditTrail(saveJobUpdates, {
+  action: "UPDATE_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: toJobAuditSnapshot,
+  context: (_jobId, updates) => (updates.revision_note ? { revisionNote: updates.revision_note } : undefined),
+});
+
+/** Assigns a caregiver to the job; callers check eligibility first. */
+export const assignJobCaregiver = withAuditTrail(
+  (jobId: string, caregiverId: string) => saveJobUpdates(jobId, { caregiver_id: caregiverId }),
+  {
+    action: "ASSIGN_JOB_CAREGIVER",
+    targetType: "job",
+    channel: "rest",
+    targetId: jobId => jobId,
+    before: jobId => snapshotRow("jobs", jobId, "id,caregiver_id,status"),
+    after: (job, jobId, caregiverId) => ({ id: jobId, caregiver_id: caregiverId, status: job.status }),
+  },
+);
+
+export const deleteJob = withAuditTrail(async (jobId: string, reason?: string) => {
   return handleJobApiResponse(
-    adminApi.deleteJob(jobId, reason ? { reason } : undefined) as Promise<ApiResponse<JobRow>>,
+    adminApi.deleteJob(jobId, reason ? { reason } : undefined),
     "Failed to delete job",
   );
-};
+}, {
+  action: "DELETE_JOB",
+  targetType: "job",
+  channel: "rest",
+  targetId: jobId => jobId,
+  before: snapshotJob,
+  after: () => null,
+  context: (_jobId, reason) => reasonContext(reason),
+});
 
 export const fetchJobById = async (jobId: string): Promise<Job | null> => {
   return handleJobApiResponse(
-    adminApi.getJobById(jobId) as Promise<ApiResponse<JobRow>>,
+    adminApi.getJobById(jobId),
     "Failed to fetch job",
   );
 };
+
+/**
+ * Applies one action with a shared, required reason to every job, sending
+ * the jobs in small chunks so `onProgress` can report how many have been
+ * processed. Jobs that fail, including a chunk that could not be sent, are
+ * reported rather than aborting the batch. Every chunk carries the same
+ * `batchId`, which groups the backend's audit entries for the batch.
+ */
+export const bulkJobAction = withAuditTrail(async (
+  payload: BulkJobActionPayload,
+  onProgress?: (processed: number, total: number) => void,
+): Promise<BulkJobActionResult> => {
+  const reason = payload.reason.trim();
+  if (!reason) {
+    throw new Error("A reason is required for bulk actions");
+  }
+
+  const jobIds = [...new Set(payload.jobIds)];
+  const batchId = Crypto.randomUUID();
+  const result: BulkJobActionResult = { succeeded: [], failures: [] };
+  onProgress?.(0, jobIds.length);
+
+  for (let start = 0; start < jobIds.length; start += BULK_JOB_CHUNK_SIZE) {
+    const chunk = jobIds.slice(start, start + BULK_JOB_CHUNK_SIZE);
+    try {
+      const response = await adminApi.bulkJobAction({ jobIds: chunk, action: payload.action, reason, batchId });
+      if (!response?.success || !response.data) {
+        throw new Error(response?.error || `Failed to ${payload.action} jobs`);
+      }
+      result.succeeded.push(...response.data.succeeded);
+      result.failures.push(...response.data.failures);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to ${payload.action} jobs`;
+      result.failures.push(...chunk.map((jobId) => ({ jobId, error: message })));
+    }
+    onProgress?.(Math.min(start + chunk.length, jobIds.length), jobIds.length);
+  }
+
+  return result;
+}, {
+  action: "BULK_UPDATE_JOBS",
+  targetType: "job",
+  channel: "rest",
+  targetId: () => null,
+  before: payload => snapshotRows("jobs", payload.jobIds, "id,status"),
+  after: result => result,
+  context: payload => ({ bulkAction: payload.action, jobIds: payload.jobIds, reason: payload.reason }),
+});
+
+export const JOB_REVISION_FIELDS: JobRevisionField[] = ["title", "description", "location", "budget", "hourly_rate"];
+
+export const JOB_REVISION_FIELD_LABELS: Record<JobRevisionField, string> = {
+  title: "Title",
+  description: "Description",
+  location: "Location",
+  budget: "Budget",
+  hourly_rate: "Hourly rate",
+};
+
+interface JobRevisionRow {
+  id: string;
+  job_id: string;
+  revision_number: number;
+  note: string | null;
+  caregiver_id: string | null;
+  changed_fields: string[] | null;
+  before: JobRevisionSnapshot | null;
+  after: JobRevisionSnapshot | null;
+  created_at: string;
+  author: MaybeRelation<{ id: string; name: string | null; email: string | null; role: string | null }>;
+}
+
+const mapJobRevision = (row: JobRevisionRow): JobRevision => {
+  const author = resolveRelation(row.author);
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    revisionNumber: row.revision_number,
+    author: author
+      ? {
+          id: author.id,
+          name: author.name ?? author.email ?? "Unknown user",
+          email: author.email ?? undefined,
+          role: author.role ?? undefined,
+        }
+      : undefined,
+    note: row.note ?? undefined,
+    caregiverAssigned: Boolean(row.caregiver_id),
+    changedFields: (row.changed_fields ?? []).filter((field): field is JobRevisionField =>
+      (JOB_REVISION_FIELDS as string[]).includes(field),
+    ),
+    before: row.before ?? {},
+    after: row.after ?? {},
+    createdAt: row.created_at,
+  };
+};
+
+/** Edits to a job's listing fields, newest first. */
+export const fetchJobRevisions = async (jobId: string): Promise<JobRevision[]> => {
+  const { data, error } = await supabase
+    .from("job_revisions")
+    .select(
+      "id, job_id, revision_number, note, caregiver_id, changed_fields, before, after, created_at, author:author_id(id,name,email,role)",
+    )
+    .eq("job_id", jobId)
+    .order("revision_number", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch job revisions: ${error.message}`);
+  }
+  return (data ?? []).map((row) => mapJobRevision(row as unknown as JobRevisionRow));
+};
+
+export const getJobRevisionDiff = (revision: JobRevision): FieldDiff[] =>
+  revision.changedFields.map((field) => ({
+    field: JOB_REVISION_FIELD_LABELS[field],
+    before: revision.before[field] ?? null,
+    after: revision.after[field] ?? null,
+  }));
+
+/**
+ * Restores the listing fields to how they were before `revision`, undoing it
+ * and every later edit. The restore is itself saved as a new revision.
+ * Empty values cannot be written back through the admin API, so fields that
+ * were blank before the revision are left as they are.
+ */
+export const revertJobToRevision = async (jobId: string, revision: JobRevision) => {
+  const { before } = revision;
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value : undefined);
+  const amount = (value: unknown) => (typeof value === "number" ? value : undefined);
+
+  return updateJob(jobId, {
+    title: text(before.title),
+    description: text(before.description),
+    location: text(before.location),
+    budget: amount(before.budget),
+    hourly_rate: amount(before.hourly_rate),
+    revision_note: `Reverted to the version before revision #${revision.revisionNumber}`,
+  });
+};
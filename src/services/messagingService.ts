@@ -1,5 +1,6 @@
 import { supabase } from '../config/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { withAuditTrail } from './auditTrail';
 
 export interface Message {
   id: string;
@@ -26,7 +27,7 @@ class MessagingService {
   private channels: Map<string, RealtimeChannel> = new Map();
 
   // Conversation Management
-  async createConversation(participant1: string, participant2: string, type: Conversation['type'] = 'admin_user'): Promise<string> {
+  createConversation = withAuditTrail(async (participant1: string, participant2: string, type: Conversation['type'] = 'admin_user'): Promise<string> => {
     const { data, error } = await supabase
       .from('conversations')
       .insert({
@@ -42,7 +43,18 @@ class MessagingService {
     }
 
     return data.id;
-  }
+  }, {
+    action: 'CREATE_CONVERSATION',
+    targetType: 'conversation',
+    channel: 'supabase',
+    targetId: () => null,
+    resultTargetId: conversationId => conversationId,
+    after: (conversationId, participant1, participant2, type) => ({
+      id: conversationId,
+      participants: [participant1, participant2],
+      type: type ?? 'admin_user',
+    }),
+  });
 
   async getConversations(userId: string): Promise<Conversation[]> {
     const { data, error } = await supabase
@@ -60,7 +72,7 @@ class MessagingService {
   }
 
   // Message Management
-  async sendMessage(conversationId: string, senderId: string, content: string, messageType: Message['message_type'] = 'text'): Promise<string> {
+  sendMessage = withAuditTrail(async (conversationId: string, senderId: string, content: string, messageType: Message['message_type'] = 'text'): Promise<string> => {
     // Get conversation to find recipient
     const { data: conversation, error: convError } = await supabase
       .from('conversations')
@@ -99,7 +111,20 @@ class MessagingService {
       .eq('id', conversationId);
 
     return data.id;
-  }
+  }, {
+    action: 'SEND_MESSAGE',
+    targetType: 'message',
+    channel: 'supabase',
+    targetId: () => null,
+    resultTargetId: messageId => messageId,
+    // The message body stays in the messages table; the audit entry records who sent what kind of message where.
+    after: (messageId, conversationId, _senderId, content, messageType) => ({
+      id: messageId,
+      conversationId,
+      messageType: messageType ?? 'text',
+      length: content.length,
+    }),
+  });
 
   async getMessages(conversationId: string, limit = 50): Promise<Message[]> {
     const { data, error } = await supabase
@@ -1,8 +1,11 @@
 import { supabase } from '../config/supabase';
+import { snapshotRow, withAuditTrail } from './auditTrail';
 import type { NotificationItem, NotificationType, MaybeRelation, UserReference } from '../types';
 
 export interface FetchNotificationsOptions {
   type?: NotificationType;
+  /** Matches notifications whose `data.bookingId` points at this booking. */
+  bookingId?: string;
   search?: string;
 }
 
@@ -96,6 +99,10 @@ export const fetchNotifications = async (options: FetchNotificationsOptions = {}
     query = query.eq('type', options.type);
   }
 
+  if (options.bookingId) {
+    query = query.contains('data', { bookingId: options.bookingId });
+  }
+
   if (options.search && options.search.trim()) {
     const sanitized = sanitizeSearchTerm(options.search);
     const orClause = ['title', 'message', 'user_id.name', 'user_id.email']
@@ -154,7 +161,7 @@ interface NotificationInsertPayload {
   data: Record<string, unknown> | null;
 }
 
-export const createNotification = async (payload: CreateNotificationPayload) => {
+export const createNotification = withAuditTrail(async (payload: CreateNotificationPayload) => {
   const insertPayload: NotificationInsertPayload = {
     type: payload.type,
     title: payload.title,
@@ -166,13 +173,22 @@ export const createNotification = async (payload: CreateNotificationPayload) =>
     insertPayload.user_id = payload.userId;
   }
 
-  const { error } = await supabase.from('notifications').insert(insertPayload);
+  const { data, error } = await supabase.from('notifications').insert(insertPayload).select('id').maybeSingle();
   if (error) {
     throw new Error(`Failed to send notification: ${error.message}`);
   }
-};
-
-export const toggleNotificationRead = async (notificationId: string, read: boolean) => {
+  return { id: (data?.id as string | undefined) ?? null, ...insertPayload };
+}, {
+  action: 'CREATE_NOTIFICATION',
+  targetType: 'notification',
+  channel: 'supabase',
+  targetId: () => null,
+  resultTargetId: notification => notification.id,
+  after: notification => notification,
+  context: payload => ({ recipient: payload.userId ?? 'broadcast' }),
+});
+
+export const toggleNotificationRead = withAuditTrail(async (notificationId: string, read: boolean) => {
   const { error } = await supabase
     .from('notifications')
     .update({ read })
@@ -181,15 +197,29 @@ export const toggleNotificationRead = async (notificationId: string, read: boole
   if (error) {
     throw new Error(`Failed to update notification status: ${error.message}`);
   }
-};
-
-export const deleteNotification = async (notificationId: string) => {
+}, {
+  action: 'UPDATE_NOTIFICATION_READ',
+  targetType: 'notification',
+  channel: 'supabase',
+  targetId: notificationId => notificationId,
+  before: notificationId => snapshotRow('notifications', notificationId, 'id,read'),
+  after: (_result, notificationId, read) => ({ id: notificationId, read }),
+});
+
+export const deleteNotification = withAuditTrail(async (notificationId: string) => {
   const { error } = await supabase.from('notifications').delete().eq('id', notificationId);
 
   if (error) {
     throw new Error(`Failed to delete notification: ${error.message}`);
   }
-};
+}, {
+  action: 'DELETE_NOTIFICATION',
+  targetType: 'notification',
+  channel: 'supabase',
+  targetId: notificationId => notificationId,
+  before: notificationId => snapshotRow('notifications', notificationId, 'id,user_id,type,title,message'),
+  after: () => null,
+});
 
 const initializePerType = (): Record<NotificationType, number> => {
   return NOTIFICATION_TYPES.reduce((acc, type) => {
@@ -0,0 +1,271 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AppState, type AppStateStatus } from 'react-native';
+
+export type QueuedMutationMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type QueuedMutationStatus = 'pending' | 'failed' | 'conflict';
+
+export interface QueuedMutation {
+  id: string;
+  idempotencyKey: string;
+  method: QueuedMutationMethod;
+  endpoint: string;
+  data?: unknown;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  status: QueuedMutationStatus;
+  lastError?: string | null;
+}
+
+/**
+ * Result reported by the executor for a single replay attempt.
+ * `retry` keeps the mutation pending with backoff, `conflict` and `failed`
+ * park it for an admin to resolve from the sync queue screen.
+ */
+export type ReplayOutcome =
+  | { type: 'success' }
+  | { type: 'retry'; error: string }
+  | { type: 'conflict'; error: string }
+  | { type: 'failed'; error: string };
+
+export type MutationExecutor = (mutation: QueuedMutation) => Promise<ReplayOutcome>;
+
+type QueueListener = (mutations: QueuedMutation[]) => void;
+
+const QUEUE_STORAGE_KEY = 'offlineQueue:mutations';
+const BASE_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+const MAX_ATTEMPTS = 8;
+
+export const QUEUEABLE_METHODS: QueuedMutationMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+export const isQueueableMethod = (method: string): method is QueuedMutationMethod =>
+  QUEUEABLE_METHODS.includes(method.toUpperCase() as QueuedMutationMethod);
+
+/**
+ * A fresh key for one user action. It is sent with the first attempt and
+ * stored on the queued entry, so only a replay of that same entry reuses it;
+ * repeating the action later is a new request with a new key.
+ */
+export const createIdempotencyKey = () => Crypto.randomUUID();
+
+const computeRetryDelay = (attempts: number) => {
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(MAX_RETRY_DELAY_MS, exponential + jitter);
+};
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+class OfflineQueue {
+  private mutations: QueuedMutation[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<QueueListener>();
+  private executor: MutationExecutor | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  setExecutor(executor: MutationExecutor) {
+    this.executor = executor;
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+        if (state === 'active') {
+          void this.flush();
+        }
+      });
+    }
+    void this.load().then(() => this.flush());
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    void this.load().then(() => listener(this.snapshot()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async list(): Promise<QueuedMutation[]> {
+    await this.load();
+    return this.snapshot();
+  }
+
+  /**
+   * Adds a mutation to the queue. Returns the existing entry when a pending
+   * mutation with the same idempotency key is already waiting, i.e. the same
+   * action was queued twice; failed and conflicting entries do not absorb a
+   * deliberate retry.
+   */
+  async enqueue(input: {
+    method: QueuedMutationMethod;
+    endpoint: string;
+    data?: unknown;
+    idempotencyKey: string;
+    error?: string;
+  }): Promise<QueuedMutation> {
+    await this.load();
+
+    const existing = this.mutations.find(
+      item => item.status === 'pending' && item.idempotencyKey === input.idempotencyKey,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const mutation: QueuedMutation = {
+      id: generateId(),
+      idempotencyKey: input.idempotencyKey,
+      method: input.method,
+      endpoint: input.endpoint,
+      data: input.data,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: Date.now() + BASE_RETRY_DELAY_MS,
+      status: 'pending',
+      lastError: input.error ?? null,
+    };
+
+    this.mutations = [...this.mutations, mutation];
+    await this.persist();
+    this.scheduleRetry();
+    return mutation;
+  }
+
+  async retry(id: string) {
+    await this.load();
+    this.mutations = this.mutations.map(item =>
+      item.id === id ? { ...item, status: 'pending', attempts: 0, nextAttemptAt: Date.now() } : item,
+    );
+    await this.persist();
+    await this.flush({ force: true });
+  }
+
+  async discard(id: string) {
+    await this.load();
+    this.mutations = this.mutations.filter(item => item.id !== id);
+    await this.persist();
+  }
+
+  async clear() {
+    await this.load();
+    this.mutations = [];
+    await this.persist();
+  }
+
+  /**
+   * Replays every pending mutation whose backoff window has elapsed, oldest
+   * first. Concurrent callers share the same in-flight flush.
+   */
+  flush(options: { force?: boolean } = {}): Promise<void> {
+    if (this.flushPromise) {
+      return this.flushPromise;
+    }
+
+    this.flushPromise = this.runFlush(options.force ?? false).finally(() => {
+      this.flushPromise = null;
+      this.scheduleRetry();
+    });
+    return this.flushPromise;
+  }
+
+  private async runFlush(force: boolean) {
+    await this.load();
+    const executor = this.executor;
+    if (!executor) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = this.mutations.filter(
+      item => item.status === 'pending' && (force || item.nextAttemptAt <= now),
+    );
+
+    for (const mutation of due) {
+      let outcome: ReplayOutcome;
+      try {
+        outcome = await executor(mutation);
+      } catch (error) {
+        outcome = { type: 'retry', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      if (outcome.type === 'success') {
+        this.mutations = this.mutations.filter(item => item.id !== mutation.id);
+      } else {
+        const attempts = mutation.attempts + 1;
+        const exhausted = outcome.type === 'retry' && attempts >= MAX_ATTEMPTS;
+        const status: QueuedMutationStatus =
+          outcome.type === 'retry' ? (exhausted ? 'failed' : 'pending') : outcome.type;
+
+        this.mutations = this.mutations.map(item =>
+          item.id === mutation.id
+            ? {
+                ...item,
+                attempts,
+                status,
+                lastError: outcome.error,
+                nextAttemptAt: Date.now() + computeRetryDelay(attempts),
+              }
+            : item,
+        );
+      }
+      await this.persist();
+
+      if (outcome.type === 'retry') {
+        // Still offline; leave the remaining entries for the next backoff tick.
+        break;
+      }
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const pending = this.mutations.filter(item => item.status === 'pending');
+    if (pending.length === 0 || !this.executor) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...pending.map(item => item.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private snapshot() {
+    return this.mutations.map(item => ({ ...item }));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+          const parsed = stored ? JSON.parse(stored) : [];
+          this.mutations = Array.isArray(parsed) ? (parsed as QueuedMutation[]) : [];
+        } catch (error) {
+          console.warn('[offlineQueue] Failed to restore queued mutations', error);
+          this.mutations = [];
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(this.mutations));
+    } catch (error) {
+      console.warn('[offlineQueue] Failed to persist queued mutations', error);
+    }
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,509 @@
+import { supabase } from '../config/supabase';
+import { snapshotRow, withAuditTrail } from './auditTrail';
+import { createNotification } from './notificationsService';
+import { getRefundableAmount, updatePaymentStatus } from './paymentsService';
+import { requestRefundApproval } from './approvalsService';
+import type {
+  MaybeRelation,
+  PaymentDispute,
+  PaymentDisputeOutcome,
+  PaymentDisputeParty,
+  PaymentDisputeStatement,
+  PaymentDisputeStatus,
+  PaymentProofInfo,
+  PaymentRecord,
+  PaymentStatus,
+  UserReference,
+} from '../types';
+
+export const PAYMENT_DISPUTE_STATUS_LABELS: Record<PaymentDisputeStatus, string> = {
+  open: 'Awaiting statements',
+  under_review: 'Under review',
+  resolved: 'Resolved',
+};
+
+export const PAYMENT_DISPUTE_STATUS_COLORS: Record<PaymentDisputeStatus, string> = {
+  open: '#ff9800',
+  under_review: '#3f51b5',
+  resolved: '#4caf50',
+};
+
+export const PAYMENT_DISPUTE_OUTCOME_LABELS: Record<PaymentDisputeOutcome, string> = {
+  refund: 'Full refund to parent',
+  partial_refund: 'Partial refund to parent',
+  release_to_caregiver: 'Release to caregiver',
+};
+
+export const PAYMENT_DISPUTE_PARTY_LABELS: Record<PaymentDisputeParty, string> = {
+  parent: 'Parent',
+  caregiver: 'Caregiver',
+  admin: 'Admin',
+};
+
+export const ACTIVE_DISPUTE_STATUSES: PaymentDisputeStatus[] = ['open', 'under_review'];
+
+export const DEFAULT_EVIDENCE_WINDOW_DAYS = 3;
+export const DEFAULT_RESOLUTION_WINDOW_DAYS = 7;
+
+const DISPUTE_COLUMNS = `id, payment_id, booking_id, reason, payment_status_before, status, evidence_due_at, resolve_by, outcome, outcome_amount,
+  resolution_notes, refund_approval_id, resolved_at, created_at, updated_at,
+  parent:parent_id(id,name,email), caregiver:caregiver_id(id,name,email),
+  opener:opened_by(id,name,email), resolver:resolved_by(id,name,email)`;
+const STATEMENT_COLUMNS = 'id, dispute_id, party, body, created_at, author:author_id(id,name,email)';
+const EVIDENCE_COLUMNS =
+  'id, booking_id, storage_path, public_url, mime_type, uploaded_by, uploaded_at, payment_type, uploaded_by_user:uploaded_by(id,name,email)';
+
+interface DisputeRow {
+  id: string;
+  payment_id: string;
+  booking_id?: string | null;
+  reason: string;
+  payment_status_before?: PaymentStatus | null;
+  status: PaymentDisputeStatus;
+  evidence_due_at: string;
+  resolve_by: string;
+  outcome?: PaymentDisputeOutcome | null;
+  outcome_amount?: number | string | null;
+  resolution_notes?: string | null;
+  refund_approval_id?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+  parent?: MaybeRelation<UserReference>;
+  caregiver?: MaybeRelation<UserReference>;
+  opener?: MaybeRelation<UserReference>;
+  resolver?: MaybeRelation<UserReference>;
+}
+
+interface StatementRow {
+  id: string;
+  dispute_id: string;
+  party: PaymentDisputeParty;
+  body: string;
+  created_at: string;
+  author?: MaybeRelation<UserReference>;
+}
+
+interface EvidenceRow {
+  id: string;
+  booking_id: string;
+  storage_path?: string | null;
+  public_url?: string | null;
+  mime_type?: string | null;
+  uploaded_by?: string | null;
+  uploaded_at?: string | null;
+  payment_type?: string | null;
+  uploaded_by_user?: MaybeRelation<UserReference>;
+}
+
+const resolveRelation = <T>(relation: MaybeRelation<T>): T | undefined => {
+  if (!relation) {
+    return undefined;
+  }
+  return Array.isArray(relation) ? relation[0] ?? undefined : relation;
+};
+
+const mapStatement = (row: StatementRow): PaymentDisputeStatement => ({
+  id: row.id,
+  disputeId: row.dispute_id,
+  party: row.party,
+  author: resolveRelation(row.author) ?? null,
+  body: row.body,
+  createdAt: row.created_at,
+});
+
+const mapEvidence = (row: EvidenceRow): PaymentProofInfo => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  storagePath: row.storage_path ?? null,
+  publicUrl: row.public_url ?? null,
+  mimeType: row.mime_type ?? null,
+  uploadedBy: row.uploaded_by ?? null,
+  uploadedAt: row.uploaded_at ?? null,
+  paymentType: row.payment_type ?? 'evidence',
+  uploadedByInfo: resolveRelation(row.uploaded_by_user) ?? null,
+});
+
+const mapDispute = (
+  row: DisputeRow,
+  statements: PaymentDisputeStatement[] = [],
+  evidence: PaymentProofInfo[] = [],
+): PaymentDispute => ({
+  id: row.id,
+  paymentId: row.payment_id,
+  bookingId: row.booking_id ?? null,
+  parent: resolveRelation(row.parent) ?? null,
+  caregiver: resolveRelation(row.caregiver) ?? null,
+  openedBy: resolveRelation(row.opener) ?? null,
+  reason: row.reason,
+  paymentStatusBefore: row.payment_status_before ?? null,
+  status: row.status,
+  evidenceDueAt: row.evidence_due_at,
+  resolveBy: row.resolve_by,
+  outcome: row.outcome ?? null,
+  outcomeAmount: row.outcome_amount === null || row.outcome_amount === undefined ? null : Number(row.outcome_amount),
+  resolutionNotes: row.resolution_notes ?? null,
+  refundApprovalId: row.refund_approval_id ?? null,
+  resolvedBy: resolveRelation(row.resolver) ?? null,
+  resolvedAt: row.resolved_at ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at ?? null,
+  statements,
+  evidence,
+});
+
+export const isDisputeActive = (dispute: Pick<PaymentDispute, 'status'>) =>
+  ACTIVE_DISPUTE_STATUSES.includes(dispute.status);
+
+/** Which of the dispute's deadlines have passed as of `now`. Inactive disputes are never overdue. */
+export const getDisputeDeadlines = (
+  dispute: Pick<PaymentDispute, 'status' | 'evidenceDueAt' | 'resolveBy'>,
+  now: Date = new Date(),
+) => {
+  const active = isDisputeActive(dispute);
+  return {
+    evidenceClosed: new Date(dispute.evidenceDueAt).getTime() < now.getTime(),
+    resolutionOverdue: active && new Date(dispute.resolveBy).getTime() < now.getTime(),
+  };
+};
+
+/** Latest dispute per payment, without statements or evidence. */
+export const fetchDisputesForPayments = async (paymentIds: string[]): Promise<Map<string, PaymentDispute>> => {
+  const disputes = new Map<string, PaymentDispute>();
+  if (paymentIds.length === 0) {
+    return disputes;
+  }
+
+  const { data, error } = await supabase
+    .from('payment_disputes')
+    .select(DISPUTE_COLUMNS)
+    .in('payment_id', paymentIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch payment disputes: ${error.message}`);
+  }
+
+  ((data ?? []) as unknown as DisputeRow[]).forEach(row => {
+    if (!disputes.has(row.payment_id)) {
+      disputes.set(row.payment_id, mapDispute(row));
+    }
+  });
+  return disputes;
+};
+
+/** The payment's most recent dispute with its statements and evidence, or `null` if it has none. */
+export const fetchDisputeForPayment = async (paymentId: string): Promise<PaymentDispute | null> => {
+  const { data, error } = await supabase
+    .from('payment_disputes')
+    .select(DISPUTE_COLUMNS)
+    .eq('payment_id', paymentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch payment dispute: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const row = data as unknown as DisputeRow;
+  const [statementsResult, evidenceResult] = await Promise.all([
+    supabase
+      .from('payment_dispute_statements')
+      .select(STATEMENT_COLUMNS)
+      .eq('dispute_id', row.id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('payment_proofs')
+      .select(EVIDENCE_COLUMNS)
+      .eq('dispute_id', row.id)
+      .order('uploaded_at', { ascending: true }),
+  ]);
+
+  if (statementsResult.error) {
+    throw new Error(`Failed to fetch dispute statements: ${statementsResult.error.message}`);
+  }
+  if (evidenceResult.error) {
+    throw new Error(`Failed to fetch dispute evidence: ${evidenceResult.error.message}`);
+  }
+
+  return mapDispute(
+    row,
+    ((statementsResult.data ?? []) as unknown as StatementRow[]).map(mapStatement),
+    ((evidenceResult.data ?? []) as unknown as EvidenceRow[]).map(mapEvidence),
+  );
+};
+
+const formatDeadline = (value: string) => new Date(value).toLocaleString();
+
+/** Notifies the parent and caregiver; failures are logged so they never block the dispute update. */
+const notifyParties = async (
+  recipients: Array<string | null | undefined>,
+  title: string,
+  message: string,
+  data: Record<string, unknown>,
+) => {
+  const userIds = [...new Set(recipients.filter((id): id is string => Boolean(id)))];
+  const results = await Promise.allSettled(
+    userIds.map(userId => createNotification({ userId, type: 'payment', title, message, data })),
+  );
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.warn('[paymentDisputesService] Failed to notify dispute party', result.reason);
+    }
+  });
+};
+
+export interface OpenPaymentDisputePayload {
+  reason: string;
+  evidenceDueAt: string;
+  resolveBy: string;
+}
+
+/**
+ * Opens a dispute case, moves the payment to disputed and asks both parties
+ * for their statements and evidence before the evidence deadline.
+ */
+export const openPaymentDispute = withAuditTrail(async (payment: PaymentRecord, payload: OpenPaymentDisputePayload) => {
+  const reason = payload.reason.trim();
+  if (!reason) {
+    throw new Error('A reason is required to open a dispute');
+  }
+  if (new Date(payload.resolveBy).getTime() < new Date(payload.evidenceDueAt).getTime()) {
+    throw new Error('The resolution deadline must be after the evidence deadline');
+  }
+
+  const { data: authData } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('payment_disputes')
+    .insert({
+      payment_id: payment.id,
+      booking_id: payment.bookingId,
+      parent_id: payment.parentInfo.id ?? null,
+      caregiver_id: payment.caregiverInfo.id ?? null,
+      opened_by: authData.user?.id ?? null,
+      reason,
+      payment_status_before: payment.paymentStatus,
+      evidence_due_at: payload.evidenceDueAt,
+      resolve_by: payload.resolveBy,
+    })
+    .select('id, payment_id, status, reason, evidence_due_at, resolve_by')
+    .single();
+
+  if (error) {
+    throw new Error(
+      error.code === '23505' ? 'This payment already has an active dispute' : `Failed to open dispute: ${error.message}`,
+    );
+  }
+
+  if (payment.paymentStatus !== 'disputed') {
+    await updatePaymentStatus(payment.id, 'disputed', `Dispute opened: ${reason}`);
+  }
+
+  await notifyParties(
+    [payment.parentInfo.id, payment.caregiverInfo.id],
+    'Payment dispute opened',
+    `A dispute was opened on the payment for booking ${payment.bookingId}: ${reason}\n\nPlease submit your statement and any evidence by ${formatDeadline(payload.evidenceDueAt)}.`,
+    { paymentId: payment.id, bookingId: payment.bookingId, disputeId: data.id, evidenceDueAt: payload.evidenceDueAt },
+  );
+
+  return data;
+}, {
+  action: 'OPEN_PAYMENT_DISPUTE',
+  targetType: 'payment_dispute',
+  channel: 'supabase',
+  targetId: () => null,
+  resultTargetId: dispute => dispute.id,
+  after: dispute => dispute,
+  context: payment => ({ paymentId: payment.id, bookingId: payment.bookingId }),
+});
+
+/** Records a statement, typically one a party sent in outside the app. */
+export const addDisputeStatement = withAuditTrail(async (
+  dispute: PaymentDispute,
+  party: PaymentDisputeParty,
+  body: string,
+) => {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw new Error('The statement cannot be empty');
+  }
+  if (!isDisputeActive(dispute)) {
+    throw new Error('Statements can only be added to an active dispute');
+  }
+
+  const { data: authData } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('payment_dispute_statements')
+    .insert({ dispute_id: dispute.id, party, body: trimmed, author_id: authData.user?.id ?? null })
+    .select(STATEMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add statement: ${error.message}`);
+  }
+  return mapStatement(data as unknown as StatementRow);
+}, {
+  action: 'ADD_PAYMENT_DISPUTE_STATEMENT',
+  targetType: 'payment_dispute',
+  channel: 'supabase',
+  targetId: dispute => dispute.id,
+  after: statement => ({ id: statement.id, party: statement.party, body: statement.body }),
+});
+
+export const updateDisputeDeadlines = withAuditTrail(async (
+  dispute: PaymentDispute,
+  deadlines: { evidenceDueAt: string; resolveBy: string },
+) => {
+  if (!isDisputeActive(dispute)) {
+    throw new Error('Deadlines can only be changed on an active dispute');
+  }
+  if (new Date(deadlines.resolveBy).getTime() < new Date(deadlines.evidenceDueAt).getTime()) {
+    throw new Error('The resolution deadline must be after the evidence deadline');
+  }
+
+  const update = { evidence_due_at: deadlines.evidenceDueAt, resolve_by: deadlines.resolveBy };
+  const { error } = await supabase.from('payment_disputes').update(update).eq('id', dispute.id);
+  if (error) {
+    throw new Error(`Failed to update dispute deadlines: ${error.message}`);
+  }
+
+  if (deadlines.evidenceDueAt !== dispute.evidenceDueAt) {
+    await notifyParties(
+      [dispute.parent?.id, dispute.caregiver?.id],
+      'Dispute deadline changed',
+      `Statements and evidence for your payment dispute are now due by ${formatDeadline(deadlines.evidenceDueAt)}.`,
+      { paymentId: dispute.paymentId, disputeId: dispute.id, evidenceDueAt: deadlines.evidenceDueAt },
+    );
+  }
+  return update;
+}, {
+  action: 'UPDATE_PAYMENT_DISPUTE_DEADLINES',
+  targetType: 'payment_dispute',
+  channel: 'supabase',
+  targetId: dispute => dispute.id,
+  before: dispute => snapshotRow('payment_disputes', dispute.id, 'id,evidence_due_at,resolve_by'),
+  after: (update, dispute) => ({ id: dispute.id, ...update }),
+});
+
+export const startDisputeReview = withAuditTrail(async (dispute: PaymentDispute) => {
+  if (dispute.status !== 'open') {
+    throw new Error('Only disputes awaiting statements can be moved to review');
+  }
+
+  const { error } = await supabase.from('payment_disputes').update({ status: 'under_review' }).eq('id', dispute.id);
+  if (error) {
+    throw new Error(`Failed to start dispute review: ${error.message}`);
+  }
+
+  await notifyParties(
+    [dispute.parent?.id, dispute.caregiver?.id],
+    'Payment dispute under review',
+    `An admin is now reviewing the dispute. A decision is expected by ${formatDeadline(dispute.resolveBy)}.`,
+    { paymentId: dispute.paymentId, disputeId: dispute.id },
+  );
+  return { status: 'under_review' as const };
+}, {
+  action: 'REVIEW_PAYMENT_DISPUTE',
+  targetType: 'payment_dispute',
+  channel: 'supabase',
+  targetId: dispute => dispute.id,
+  before: dispute => snapshotRow('payment_disputes', dispute.id, 'id,status'),
+  after: (update, dispute) => ({ id: dispute.id, ...update }),
+});
+
+export interface ResolvePaymentDisputePayload {
+  outcome: PaymentDisputeOutcome;
+  /** Required for partial refunds. */
+  amount?: number;
+  notes: string;
+}
+
+const OUTCOME_MESSAGES: Record<PaymentDisputeOutcome, (amount: string) => string> = {
+  refund: amount => `The dispute was resolved with a full refund of ${amount} to the parent, pending final approval.`,
+  partial_refund: amount => `The dispute was resolved with a partial refund of ${amount} to the parent, pending final approval.`,
+  release_to_caregiver: () => 'The dispute was resolved in the caregiver’s favour and the payment has been released.',
+};
+
+/** Status a released payment returns to: whatever it was before the dispute, or paid for older disputes. */
+export const getReleasedPaymentStatus = (dispute: Pick<PaymentDispute, 'paymentStatusBefore'>): PaymentStatus =>
+  dispute.paymentStatusBefore && dispute.paymentStatusBefore !== 'disputed' ? dispute.paymentStatusBefore : 'paid';
+
+/** A refund decision has been made and is waiting on the approval inbox. */
+export const isAwaitingRefundApproval = (dispute: Pick<PaymentDispute, 'status' | 'refundApprovalId'>) =>
+  isDisputeActive(dispute) && Boolean(dispute.refundApprovalId);
+
+/**
+ * Decides the dispute. Releasing restores the payment's pre-dispute status and
+ * resolves the dispute straight away. Refund outcomes raise a refund approval
+ * request and leave the dispute under review; it is resolved once a second
+ * admin's approval executes the refund, or reopened if the approval is
+ * rejected or expires.
+ */
+export const resolvePaymentDispute = withAuditTrail(async (
+  dispute: PaymentDispute,
+  payment: PaymentRecord,
+  payload: ResolvePaymentDisputePayload,
+) => {
+  const notes = payload.notes.trim();
+  if (!isDisputeActive(dispute)) {
+    throw new Error('This dispute has already been closed');
+  }
+  if (!notes) {
+    throw new Error('Resolution notes are required');
+  }
+  if (isAwaitingRefundApproval(dispute)) {
+    throw new Error('A refund decision is already awaiting approval');
+  }
+
+  const refundable = getRefundableAmount(payment);
+  let amount: number | null = null;
+  let refundApprovalId: string | null = null;
+
+  if (payload.outcome === 'release_to_caregiver') {
+    await updatePaymentStatus(payment.id, getReleasedPaymentStatus(dispute), `Dispute resolved: ${notes}`);
+  } else {
+    amount = payload.outcome === 'refund' ? refundable : Math.round((payload.amount ?? 0) * 100) / 100;
+    if (amount <= 0 || amount > refundable) {
+      throw new Error(`Refund amount must be greater than ₱0.00 and no more than ₱${refundable.toFixed(2)}`);
+    }
+    if (payload.outcome === 'partial_refund' && amount === refundable) {
+      throw new Error('A partial refund must be less than the remaining balance; choose a full refund instead');
+    }
+    const approval = await requestRefundApproval(payment, `Dispute resolution: ${notes}`, amount);
+    refundApprovalId = approval.id;
+  }
+
+  const { data: authData } = await supabase.auth.getUser();
+  const update = {
+    status: refundApprovalId ? ('under_review' as const) : ('resolved' as const),
+    outcome: payload.outcome,
+    outcome_amount: amount,
+    resolution_notes: notes,
+    refund_approval_id: refundApprovalId,
+    resolved_by: authData.user?.id ?? null,
+  };
+  const { error } = await supabase.from('payment_disputes').update(update).eq('id', dispute.id);
+  if (error) {
+    throw new Error(`Failed to resolve dispute: ${error.message}`);
+  }
+
+  await notifyParties(
+    [dispute.parent?.id, dispute.caregiver?.id],
+    refundApprovalId ? 'Payment dispute decided' : 'Payment dispute resolved',
+    `${OUTCOME_MESSAGES[payload.outcome](`₱${(amount ?? 0).toFixed(2)}`)}\n\n${notes}`,
+    { paymentId: dispute.paymentId, disputeId: dispute.id, outcome: payload.outcome, amount },
+  );
+  return update;
+}, {
+  action: 'RESOLVE_PAYMENT_DISPUTE',
+  targetType: 'payment_dispute',
+  channel: 'supabase',
+  targetId: dispute => dispute.id,
+  before: dispute => snapshotRow('payment_disputes', dispute.id, 'id,status,outcome,outcome_amount'),
+  after: (update, dispute) => ({ id: dispute.id, ...update }),
+  context: (_dispute, payment) => ({ paymentId: payment.id, paymentStatus: payment.paymentStatus }),
+});
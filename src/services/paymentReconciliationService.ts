@@ -0,0 +1,219 @@
+import { fetchBookings } from './bookingsService';
+import { fetchPayments } from './paymentsService';
+import type {
+  Booking,
+  PaymentRecord,
+  ReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationReport,
+  ReconciliationSeverity,
+} from '../types';
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  amount_mismatch: 'Amount mismatch',
+  booking_total_mismatch: 'Booking total mismatch',
+  duplicate_payment: 'Duplicate payment',
+  missing_payment: 'Missing payment',
+  cancelled_booking_payment: 'Paid on cancelled booking',
+};
+
+export const RECONCILIATION_SEVERITY_COLORS: Record<ReconciliationSeverity, string> = {
+  high: '#d32f2f',
+  medium: '#f57c00',
+  low: '#9e9e9e',
+};
+
+/** Differences at or below this many pesos are treated as rounding. */
+export const AMOUNT_TOLERANCE = 1;
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+/** Matches the backend cap on booking IDs per payments request. */
+const BOOKING_ID_BATCH_SIZE = 100;
+
+const SEVERITY_ORDER: ReconciliationSeverity[] = ['high', 'medium', 'low'];
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export const formatPeso = (value: number) =>
+  `₱${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Amount the booking should cost from its hours and hourly rate, falling back
+ * to the stored total when either is missing.
+ */
+export const getExpectedBookingAmount = (booking: Pick<Booking, 'totalHours' | 'hourlyRate' | 'totalAmount'>) =>
+  booking.totalHours > 0 && booking.hourlyRate > 0
+    ? roundAmount(booking.totalHours * booking.hourlyRate)
+    : roundAmount(booking.totalAmount);
+
+const amountsDiffer = (a: number, b: number) => Math.abs(a - b) > AMOUNT_TOLERANCE;
+
+/** Payments that still count towards what the parent paid. */
+const isActivePayment = (payment: PaymentRecord) => payment.paymentStatus !== 'refunded';
+
+const isCollected = (payment: PaymentRecord) =>
+  payment.paymentStatus === 'paid' || payment.paymentStatus === 'partially_refunded';
+
+/** What the payment is still worth once partial refunds are taken off. */
+const getNetAmount = (payment: PaymentRecord) => roundAmount(payment.totalAmount - (payment.refundedAmount ?? 0));
+
+const getRefundedAmount = (payment: PaymentRecord) =>
+  payment.refundedAmount ?? (payment.paymentStatus === 'refunded' ? payment.totalAmount : 0);
+
+/**
+ * Compares each booking with the payments recorded against it. Pure so the
+ * rules can be reasoned about without the network.
+ */
+export const reconcile = (bookings: Booking[], payments: PaymentRecord[]) => {
+  const paymentsByBooking = new Map<string, PaymentRecord[]>();
+  payments.forEach(payment => {
+    const list = paymentsByBooking.get(payment.bookingId) ?? [];
+    list.push(payment);
+    paymentsByBooking.set(payment.bookingId, list);
+  });
+
+  const issues: ReconciliationIssue[] = [];
+  let reconciledCount = 0;
+
+  bookings.forEach(booking => {
+    const bookingPayments = paymentsByBooking.get(booking.id) ?? [];
+    const active = bookingPayments.filter(isActivePayment);
+    const paid = active.filter(isCollected);
+    const activeTotal = roundAmount(active.reduce((sum, payment) => sum + getNetAmount(payment), 0));
+    const expectedAmount = getExpectedBookingAmount(booking);
+    const before = issues.length;
+
+    const addIssue = (
+      type: ReconciliationIssueType,
+      severity: ReconciliationSeverity,
+      actualAmount: number,
+      message: string,
+      involved: PaymentRecord[] = active,
+    ) =>
+      issues.push({
+        id: `${type}:${booking.id}`,
+        type,
+        severity,
+        bookingId: booking.id,
+        booking,
+        payments: involved,
+        expectedAmount,
+        actualAmount,
+        message,
+      });
+
+    if (booking.totalHours > 0 && booking.hourlyRate > 0 && amountsDiffer(booking.totalAmount, expectedAmount)) {
+      addIssue(
+        'booking_total_mismatch',
+        'medium',
+        booking.totalAmount,
+        `Booking total ${formatPeso(booking.totalAmount)} does not match ${booking.totalHours}h × ${formatPeso(booking.hourlyRate)} = ${formatPeso(expectedAmount)}`,
+        [],
+      );
+    }
+
+    if (booking.status === 'cancelled') {
+      if (active.length > 0) {
+        addIssue(
+          'cancelled_booking_payment',
+          paid.length > 0 ? 'high' : 'medium',
+          activeTotal,
+          `${active.length} unrefunded payment${active.length === 1 ? '' : 's'} totalling ${formatPeso(activeTotal)} on a cancelled booking`,
+        );
+      }
+    } else {
+      if (active.length > 1) {
+        addIssue(
+          'duplicate_payment',
+          paid.length > 1 ? 'high' : 'medium',
+          activeTotal,
+          `${active.length} payments recorded for one booking (${paid.length} paid)`,
+        );
+      }
+
+      if (booking.status === 'completed' && active.length === 0) {
+        addIssue('missing_payment', 'high', 0, `Completed booking has no payment for ${formatPeso(expectedAmount)}`, []);
+      } else if (active.length > 0 && amountsDiffer(activeTotal, expectedAmount)) {
+        const difference = roundAmount(activeTotal - expectedAmount);
+        addIssue(
+          'amount_mismatch',
+          Math.abs(difference) >= expectedAmount * 0.1 ? 'high' : 'low',
+          activeTotal,
+          `Payments total ${formatPeso(activeTotal)}, expected ${formatPeso(expectedAmount)} (${difference > 0 ? 'over' : 'under'} by ${formatPeso(Math.abs(difference))})`,
+        );
+      }
+    }
+
+    if (issues.length === before) {
+      reconciledCount += 1;
+    }
+  });
+
+  issues.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      Math.abs(b.actualAmount - b.expectedAmount) - Math.abs(a.actualAmount - a.expectedAmount),
+  );
+
+  return { issues, reconciledCount };
+};
+
+const fetchAllBookings = async (from: string, to: string) => {
+  const bookings: Booking[] = [];
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const result = await fetchBookings({ from, to, page, limit: PAGE_SIZE });
+    bookings.push(...result.bookings);
+    if (!result.pagination.hasMore) {
+      return { bookings, truncated: false };
+    }
+  }
+  return { bookings, truncated: true };
+};
+
+/** Loads the payments for the given bookings, a batch of booking IDs per request. */
+const fetchPaymentsForBookings = async (bookingIds: string[]) => {
+  const payments: PaymentRecord[] = [];
+  let truncated = false;
+  for (let offset = 0; offset < bookingIds.length; offset += BOOKING_ID_BATCH_SIZE) {
+    const batch = bookingIds.slice(offset, offset + BOOKING_ID_BATCH_SIZE);
+    let hasMore = true;
+    for (let page = 1; hasMore && page <= MAX_PAGES; page += 1) {
+      const result = await fetchPayments({ bookingIds: batch, page, limit: PAGE_SIZE });
+      payments.push(...result.payments);
+      hasMore = result.hasMore && result.payments.length > 0;
+    }
+    truncated = truncated || hasMore;
+  }
+  return { payments, truncated };
+};
+
+/** Reconciles bookings starting between `from` and `to` (inclusive, `YYYY-MM-DD`). */
+export const fetchReconciliationReport = async (from: string, to: string): Promise<ReconciliationReport> => {
+  const bookingResult = await fetchAllBookings(from, to);
+  const paymentResult = await fetchPaymentsForBookings(bookingResult.bookings.map(booking => booking.id));
+  const payments = paymentResult.payments;
+  const { issues, reconciledCount } = reconcile(bookingResult.bookings, payments);
+
+  const totals = {
+    expected: roundAmount(
+      bookingResult.bookings
+        .filter(booking => booking.status === 'completed')
+        .reduce((sum, booking) => sum + getExpectedBookingAmount(booking), 0),
+    ),
+    collected: roundAmount(payments.filter(isCollected).reduce((sum, payment) => sum + getNetAmount(payment), 0)),
+    refunded: roundAmount(payments.reduce((sum, payment) => sum + getRefundedAmount(payment), 0)),
+  };
+
+  return {
+    generatedAt: new Date().toISOString(),
+    from,
+    to,
+    bookingsChecked: bookingResult.bookings.length,
+    paymentsChecked: payments.length,
+    reconciledCount,
+    totals,
+    issues,
+    truncated: bookingResult.truncated || paymentResult.truncated,
+  };
+};
@@ -0,0 +1,90 @@
+import { fetchPayments, getRefundableAmount, type FetchPaymentsOptions } from './paymentsService';
+import { buildCsv, fileStamp, shareExportFile, type CsvColumn } from './exportFiles';
+import type { PaymentLedgerEntry, PaymentRecord } from '../types';
+
+export type PaymentsExportFilters = Omit<FetchPaymentsOptions, 'page' | 'limit'>;
+
+export interface PaymentsExportResult {
+  paymentCount: number;
+  rowCount: number;
+  truncated: boolean;
+  fileUri?: string;
+}
+
+const EXPORT_PAGE_SIZE = 100;
+export const MAX_EXPORT_PAYMENTS = 2000;
+
+/** One row per ledger entry; payments without a ledger get a single row with the entry columns blank. */
+interface PaymentExportRow {
+  payment: PaymentRecord;
+  entry?: PaymentLedgerEntry;
+}
+
+const CSV_COLUMNS: CsvColumn<PaymentExportRow>[] = [
+  { header: 'payment_id', value: row => row.payment.id },
+  { header: 'booking_id', value: row => row.payment.bookingId },
+  { header: 'payment_status', value: row => row.payment.paymentStatus },
+  { header: 'parent_name', value: row => row.payment.parentInfo.name },
+  { header: 'parent_email', value: row => row.payment.parentInfo.email },
+  { header: 'caregiver_name', value: row => row.payment.caregiverInfo.name },
+  { header: 'caregiver_email', value: row => row.payment.caregiverInfo.email },
+  { header: 'total_amount', value: row => row.payment.totalAmount.toFixed(2) },
+  { header: 'refunded_amount', value: row => (row.payment.refundedAmount ?? 0).toFixed(2) },
+  { header: 'refundable_amount', value: row => getRefundableAmount(row.payment).toFixed(2) },
+  { header: 'payment_created_at', value: row => row.payment.createdAt },
+  { header: 'ledger_entry_id', value: row => row.entry?.id },
+  { header: 'ledger_entry_type', value: row => row.entry?.entryType },
+  { header: 'ledger_amount', value: row => row.entry?.amount.toFixed(2) },
+  { header: 'ledger_balance_after', value: row => row.entry?.balanceAfter.toFixed(2) },
+  { header: 'ledger_reason', value: row => row.entry?.reason },
+  { header: 'ledger_created_by', value: row => row.entry?.createdBy?.email ?? row.entry?.createdBy?.name },
+  { header: 'ledger_created_at', value: row => row.entry?.createdAt },
+];
+
+const toExportRows = (payments: PaymentRecord[]) =>
+  payments.flatMap<PaymentExportRow>(payment =>
+    payment.ledger?.length ? payment.ledger.map(entry => ({ payment, entry })) : [{ payment }],
+  );
+
+export const buildPaymentsCsv = (payments: PaymentRecord[]): string => buildCsv(CSV_COLUMNS, toExportRows(payments));
+
+/** Pages through every payment matching the filters, newest first. */
+export const fetchPaymentsForExport = async (
+  filters: PaymentsExportFilters,
+): Promise<{ payments: PaymentRecord[]; truncated: boolean }> => {
+  const payments: PaymentRecord[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && payments.length < MAX_EXPORT_PAYMENTS) {
+    const result = await fetchPayments({ ...filters, page, limit: EXPORT_PAGE_SIZE });
+    payments.push(...result.payments);
+    hasMore = result.hasMore && result.payments.length > 0;
+    page += 1;
+  }
+
+  return {
+    payments: payments.slice(0, MAX_EXPORT_PAYMENTS),
+    truncated: hasMore || payments.length > MAX_EXPORT_PAYMENTS,
+  };
+};
+
+export const exportPaymentsCsv = async (filters: PaymentsExportFilters): Promise<PaymentsExportResult> => {
+  const { payments, truncated } = await fetchPaymentsForExport(filters);
+  if (payments.length === 0) {
+    throw new Error('No payments match the current filters');
+  }
+
+  const rows = toExportRows(payments);
+  const contents = buildCsv(CSV_COLUMNS, rows);
+  const scope = filters.bookingId ? `booking-${filters.bookingId}` : filters.status && filters.status !== 'all' ? filters.status : 'all';
+  const fileName = `payments-${scope.replace(/[^a-zA-Z0-9_-]/g, '')}-${fileStamp()}.csv`;
+  const fileUri = await shareExportFile(fileName, contents, 'CSV');
+
+  return {
+    paymentCount: payments.length,
+    rowCount: rows.length,
+    truncated,
+    fileUri,
+  };
+};
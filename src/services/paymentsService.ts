@@ -1,14 +1,21 @@
 import { adminApi } from './apiService';
+import { withAuditTrail } from './auditTrail';
 import type { ApiResponse, PaymentProofSummary, PaymentRecord, PaymentStatus } from '../types';
 
 export interface FetchPaymentsOptions {
   status?: PaymentStatus | 'all';
+  bookingId?: string;
+  /** At most 100 per request. */
+  bookingIds?: string[];
   search?: string;
+  page?: number;
+  limit?: number;
 }
 
 export interface FetchPaymentsResult {
   payments: PaymentRecord[];
   proofSummary?: PaymentProofSummary;
+  hasMore: boolean;
 }
 
 const extractResponseData = <T>(response: ApiResponse<T>): T => {
@@ -26,44 +33,78 @@ const extractResponseData = <T>(response: ApiResponse<T>): T => {
 export const fetchPayments = async (options: FetchPaymentsOptions = {}): Promise<FetchPaymentsResult> => {
   const response = await adminApi.getPayments({
     status: options.status === 'all' ? undefined : options.status,
+    bookingId: options.bookingId,
+    bookingIds: options.bookingIds?.length ? options.bookingIds.join(',') : undefined,
     search: options.search,
+    page: options.page,
+    limit: options.limit,
   });
 
-  const data = extractResponseData<PaymentRecord[] | { payments: PaymentRecord[] }>(response);
-  const payments = Array.isArray((data as any).payments)
-    ? (data as any).payments
-    : Array.isArray(data)
-    ? (data as PaymentRecord[])
-    : [];
-
-  const proofSummary = response.proofSummary ?? (response.data as any)?.proofSummary;
-  return { payments, proofSummary: proofSummary ?? undefined };
+  const payments = extractResponseData(response);
+  const totalPages = response.pagination?.totalPages ?? response.totalPages ?? 1;
+  const currentPage = response.pagination?.page ?? response.currentPage ?? options.page ?? 1;
+  return { payments, proofSummary: response.proofSummary ?? undefined, hasMore: currentPage < totalPages };
 };
 
 export const getPaymentById = async (paymentId: string): Promise<PaymentRecord> => {
   const response = await adminApi.getPaymentById(paymentId);
-  return extractResponseData<PaymentRecord>(response);
+  return extractResponseData(response);
 };
 
-export const updatePaymentStatus = async (
+const toPaymentSnapshot = (payment: PaymentRecord) => ({
+  id: payment.id,
+  paymentStatus: payment.paymentStatus,
+  totalAmount: payment.totalAmount,
+  refundedAmount: payment.refundedAmount ?? 0,
+});
+
+const snapshotPayment = async (paymentId: string) => toPaymentSnapshot(await getPaymentById(paymentId));
+
+export const updatePaymentStatus = withAuditTrail(async (
   paymentId: string,
   status: PaymentStatus,
   note: string,
 ): Promise<{ payment: PaymentRecord; warnings?: string[] }> => {
   const response = await adminApi.updatePaymentStatus(paymentId, status, note);
   return {
-    payment: extractResponseData<PaymentRecord>(response as unknown as ApiResponse<PaymentRecord>),
+    payment: extractResponseData(response),
     warnings: response.warnings,
   };
+}, {
+  action: 'UPDATE_PAYMENT_STATUS',
+  targetType: 'payment',
+  channel: 'rest',
+  targetId: paymentId => paymentId,
+  before: snapshotPayment,
+  after: result => toPaymentSnapshot(result.payment),
+  context: (_paymentId, status, note) => ({ status, note }),
+});
+
+/** What can still be refunded: the total less refunds already recorded. */
+export const getRefundableAmount = (payment: Pick<PaymentRecord, 'totalAmount' | 'refundedAmount' | 'paymentStatus'>) => {
+  if (payment.paymentStatus === 'refunded') {
+    return 0;
+  }
+  return Math.max(0, Math.round((payment.totalAmount - (payment.refundedAmount ?? 0)) * 100) / 100);
 };
 
-export const refundPayment = async (
+/** Refunds `amount`, or the whole remaining balance when it is omitted. */
+export const refundPayment = withAuditTrail(async (
   paymentId: string,
   reason: string,
+  options: { approvalId?: string; amount?: number } = {},
 ): Promise<{ payment: PaymentRecord; warnings?: string[] }> => {
-  const response = await adminApi.refundPayment(paymentId, reason);
+  const response = await adminApi.refundPayment(paymentId, reason, options.approvalId, options.amount);
   return {
-    payment: extractResponseData<PaymentRecord>(response as unknown as ApiResponse<PaymentRecord>),
+    payment: extractResponseData(response),
     warnings: response.warnings,
   };
-};
+}, {
+  action: 'REFUND_PAYMENT',
+  targetType: 'payment',
+  channel: 'rest',
+  targetId: paymentId => paymentId,
+  before: snapshotPayment,
+  after: result => toPaymentSnapshot(result.payment),
+  context: (_paymentId, reason, options = {}) => ({ reason, amount: options.amount ?? null, approvalId: options.approvalId }),
+});
@@ -0,0 +1,160 @@
+import * as Print from 'expo-print';
+import { File, Paths } from 'expo-file-system';
+import { buildCsv, fileStamp, shareExportFile, shareFileUri, type CsvColumn } from './exportFiles';
+import { formatPayoutPeriod, PAYOUT_STATUS_LABELS } from './payoutsService';
+import type { CaregiverPayout, PayoutLine, PayoutStatement } from '../types';
+
+export type PayoutStatementFormat = 'csv' | 'pdf';
+
+const isPayout = (statement: PayoutStatement | CaregiverPayout): statement is CaregiverPayout => 'id' in statement;
+
+const formatPeso = (value: number) =>
+  `₱${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatRate = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+const CSV_COLUMNS: CsvColumn<PayoutLine>[] = [
+  { header: 'service_date', value: line => line.serviceDate },
+  { header: 'booking_id', value: line => line.bookingId },
+  { header: 'payment_id', value: line => line.paymentId },
+  { header: 'gross_amount', value: line => line.grossAmount.toFixed(2) },
+  { header: 'refunded_amount', value: line => line.refundedAmount.toFixed(2) },
+  { header: 'platform_fee', value: line => line.feeAmount.toFixed(2) },
+  { header: 'net_amount', value: line => line.netAmount.toFixed(2) },
+];
+
+/** Statement details as `label,value` rows, followed by one row per payment. */
+export const buildPayoutStatementCsv = (statement: PayoutStatement | CaregiverPayout): string => {
+  const summary: Array<[string, unknown]> = [
+    ['caregiver_name', statement.caregiver.name],
+    ['caregiver_email', statement.caregiver.email],
+    ['period_start', statement.period.start],
+    ['period_end', statement.period.end],
+    ['payout_id', isPayout(statement) ? statement.id : 'draft'],
+    ['payout_status', isPayout(statement) ? statement.status : 'draft'],
+    ['scheduled_for', isPayout(statement) ? statement.scheduledFor : null],
+    ['reference', isPayout(statement) ? statement.reference : null],
+    ['booking_count', statement.bookingCount],
+    ['gross_amount', statement.grossAmount.toFixed(2)],
+    ['refunded_amount', statement.refundedAmount.toFixed(2)],
+    ['platform_fee_rate', statement.feeRate],
+    ['platform_fee', statement.feeAmount.toFixed(2)],
+    ['net_amount', statement.netAmount.toFixed(2)],
+  ];
+  const summaryCsv = buildCsv<[string, unknown]>(
+    [
+      { header: 'field', value: row => row[0] },
+      { header: 'value', value: row => row[1] },
+    ],
+    summary,
+  );
+  return `${summaryCsv}\r\n\r\n${buildCsv(CSV_COLUMNS, statement.lines)}`;
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/** Self-contained HTML for the statement, rendered to PDF by `exportPayoutStatement`. */
+export const buildPayoutStatementHtml = (statement: PayoutStatement | CaregiverPayout): string => {
+  const payout = isPayout(statement) ? statement : null;
+  const caregiverName = statement.caregiver.name ?? statement.caregiver.email ?? 'Caregiver';
+  const rows = statement.lines
+    .map(
+      line => `<tr>
+        <td>${escapeHtml(line.serviceDate ? new Date(`${line.serviceDate}T00:00:00`).toLocaleDateString() : '—')}</td>
+        <td class="mono">${escapeHtml(line.bookingId ?? line.paymentId)}</td>
+        <td class="num">${escapeHtml(formatPeso(line.grossAmount))}</td>
+        <td class="num">${line.refundedAmount ? escapeHtml(`-${formatPeso(line.refundedAmount)}`) : '—'}</td>
+        <td class="num">-${escapeHtml(formatPeso(line.feeAmount))}</td>
+        <td class="num">${escapeHtml(formatPeso(line.netAmount))}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>Payout statement – ${escapeHtml(caregiverName)} – ${escapeHtml(formatPayoutPeriod(statement.period))}</title>
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #212121; margin: 32px; }
+  h1 { color: #3f51b5; margin-bottom: 4px; }
+  .muted { color: #666; }
+  .meta { margin: 16px 0 24px; }
+  .meta div { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e0e0e0; text-align: left; }
+  th { background: #f5f5f5; }
+  .num { text-align: right; white-space: nowrap; }
+  .mono { font-family: Menlo, Consolas, monospace; font-size: 11px; }
+  .totals { width: 50%; margin: 24px 0 0 auto; }
+  .totals td { border-bottom: none; }
+  .footer { margin-top: 32px; }
+  .net td { font-weight: bold; font-size: 15px; border-top: 2px solid #212121; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+  <h1>Payout statement</h1>
+  <div class="muted">${escapeHtml(formatPayoutPeriod(statement.period))}</div>
+  <div class="meta">
+    <div><strong>${escapeHtml(caregiverName)}</strong>${statement.caregiver.email ? ` &lt;${escapeHtml(statement.caregiver.email)}&gt;` : ''}</div>
+    <div>Status: ${escapeHtml(payout ? PAYOUT_STATUS_LABELS[payout.status] : 'Draft – not yet scheduled')}</div>
+    ${payout ? `<div>Scheduled for: ${escapeHtml(new Date(`${payout.scheduledFor}T00:00:00`).toLocaleDateString())}</div>` : ''}
+    ${payout?.reference ? `<div>Reference: ${escapeHtml(payout.reference)}</div>` : ''}
+    ${payout ? `<div class="muted mono">Payout ${escapeHtml(payout.id)}</div>` : ''}
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Service date</th>
+        <th>Booking</th>
+        <th class="num">Paid</th>
+        <th class="num">Refunded</th>
+        <th class="num">Platform fee</th>
+        <th class="num">Earnings</th>
+      </tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Bookings</td><td class="num">${statement.bookingCount}</td></tr>
+    <tr><td>Paid by parents</td><td class="num">${escapeHtml(formatPeso(statement.grossAmount))}</td></tr>
+    <tr><td>Refunds</td><td class="num">-${escapeHtml(formatPeso(statement.refundedAmount))}</td></tr>
+    <tr><td>Platform fee (${escapeHtml(formatRate(statement.feeRate))})</td><td class="num">-${escapeHtml(formatPeso(statement.feeAmount))}</td></tr>
+    <tr class="net"><td>Amount due</td><td class="num">${escapeHtml(formatPeso(statement.netAmount))}</td></tr>
+  </table>
+  <p class="muted footer">Generated ${escapeHtml(new Date().toLocaleString())}</p>
+</body>
+</html>`;
+};
+
+export const exportPayoutStatement = async (
+  statement: PayoutStatement | CaregiverPayout,
+  format: PayoutStatementFormat,
+) => {
+  const caregiver = (statement.caregiver.name ?? statement.caregiver.id ?? 'caregiver').replace(/[^a-zA-Z0-9_-]/g, '');
+  const fileName = `payout-${caregiver}-${statement.period.start}-${fileStamp()}.${format}`;
+  if (format === 'csv') {
+    return shareExportFile(fileName, buildPayoutStatementCsv(statement), 'CSV');
+  }
+
+  // printToFileAsync picks a random file name; rename it so the shared attachment is recognisable.
+  let file: File;
+  try {
+    const { uri } = await Print.printToFileAsync({ html: buildPayoutStatementHtml(statement) });
+    file = new File(uri);
+    file.move(new File(Paths.cache, fileName));
+  } catch (error: any) {
+    throw new Error(`Failed to create statement PDF: ${error?.message ?? 'unknown error'}`);
+  }
+
+  await shareFileUri(file.uri, 'statement');
+  return file.uri;
+};
@@ -0,0 +1,474 @@
+import { supabase } from '../config/supabase';
+import { snapshotRow, withAuditTrail } from './auditTrail';
+import { createNotification } from './notificationsService';
+import type {
+  CaregiverPayout,
+  CaregiverPayoutStatus,
+  MaybeRelation,
+  PayoutLine,
+  PayoutPeriod,
+  PayoutStatement,
+  UserReference,
+} from '../types';
+
+export const PAYOUT_STATUS_LABELS: Record<CaregiverPayoutStatus, string> = {
+  scheduled: 'Scheduled',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+export const PAYOUT_STATUS_COLORS: Record<CaregiverPayoutStatus, string> = {
+  scheduled: '#3f51b5',
+  sent: '#4caf50',
+  failed: '#d32f2f',
+};
+
+const PAYOUT_COLUMNS = `id, caregiver_id, period_start, period_end, booking_count, gross_amount, refunded_amount, fee_rate,
+  fee_amount, net_amount, status, scheduled_for, reference, failure_reason, sent_at, failed_at, created_at, updated_at,
+  caregiver:caregiver_id(id,name,email), creator:created_by(id,name,email),
+  items:caregiver_payout_items(payment_id, booking_id, service_date, gross_amount, refunded_amount, fee_amount, net_amount)`;
+
+type Amount = number | string | null | undefined;
+
+interface PayoutItemRow {
+  payment_id: string;
+  booking_id?: string | null;
+  service_date?: string | null;
+  gross_amount: Amount;
+  refunded_amount: Amount;
+  fee_amount: Amount;
+  net_amount: Amount;
+}
+
+interface PayoutRow {
+  id: string;
+  caregiver_id: string;
+  period_start: string;
+  period_end: string;
+  booking_count: number;
+  gross_amount: Amount;
+  refunded_amount: Amount;
+  fee_rate: Amount;
+  fee_amount: Amount;
+  net_amount: Amount;
+  status: CaregiverPayoutStatus;
+  scheduled_for: string;
+  reference?: string | null;
+  failure_reason?: string | null;
+  sent_at?: string | null;
+  failed_at?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+  caregiver?: MaybeRelation<UserReference>;
+  creator?: MaybeRelation<UserReference>;
+  items?: PayoutItemRow[] | null;
+}
+
+interface CandidateRow {
+  payment_id: string;
+  booking_id?: string | null;
+  caregiver_id: string;
+  caregiver_name?: string | null;
+  caregiver_email?: string | null;
+  service_date?: string | null;
+  gross_amount: Amount;
+  refunded_amount: Amount;
+}
+
+const resolveRelation = <T>(relation: MaybeRelation<T>): T | undefined => {
+  if (!relation) {
+    return undefined;
+  }
+  return Array.isArray(relation) ? relation[0] ?? undefined : relation;
+};
+
+const toAmount = (value: Amount) => Number(value ?? 0);
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Share of what the parent paid (after refunds) that the platform keeps, as
+ * set in system settings. `create_caregiver_payout` reads the same setting, so
+ * drafts and scheduled payouts always agree.
+ */
+export const fetchPlatformFeeRate = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('platform_fee_rate');
+  if (error) {
+    throw new Error(`Failed to fetch platform fee: ${error.message}`);
+  }
+  return toAmount(data as Amount);
+};
+
+/** Mirrors `create_caregiver_payout`: the fee is charged on what is left after refunds. */
+export const calculatePayoutLine = (
+  line: Pick<PayoutLine, 'paymentId' | 'bookingId' | 'serviceDate' | 'grossAmount' | 'refundedAmount'>,
+  feeRate: number,
+): PayoutLine => {
+  const collected = roundAmount(line.grossAmount - line.refundedAmount);
+  const feeAmount = roundAmount(collected * feeRate);
+  return { ...line, feeAmount, netAmount: roundAmount(collected - feeAmount) };
+};
+
+const sumLines = (lines: PayoutLine[], key: 'grossAmount' | 'refundedAmount' | 'feeAmount' | 'netAmount') =>
+  roundAmount(lines.reduce((total, line) => total + line[key], 0));
+
+const toStatement = (caregiver: UserReference, period: PayoutPeriod, feeRate: number, lines: PayoutLine[]): PayoutStatement => ({
+  caregiver,
+  period,
+  feeRate,
+  bookingCount: new Set(lines.map(line => line.bookingId ?? line.paymentId)).size,
+  grossAmount: sumLines(lines, 'grossAmount'),
+  refundedAmount: sumLines(lines, 'refundedAmount'),
+  feeAmount: sumLines(lines, 'feeAmount'),
+  netAmount: sumLines(lines, 'netAmount'),
+  lines,
+});
+
+const mapPayout = (row: PayoutRow): CaregiverPayout => ({
+  id: row.id,
+  caregiver: resolveRelation(row.caregiver) ?? { id: row.caregiver_id },
+  period: { start: row.period_start, end: row.period_end },
+  feeRate: toAmount(row.fee_rate),
+  bookingCount: row.booking_count,
+  grossAmount: toAmount(row.gross_amount),
+  refundedAmount: toAmount(row.refunded_amount),
+  feeAmount: toAmount(row.fee_amount),
+  netAmount: toAmount(row.net_amount),
+  lines: (row.items ?? [])
+    .map(item => ({
+      paymentId: item.payment_id,
+      bookingId: item.booking_id ?? null,
+      serviceDate: item.service_date ?? null,
+      grossAmount: toAmount(item.gross_amount),
+      refundedAmount: toAmount(item.refunded_amount),
+      feeAmount: toAmount(item.fee_amount),
+      netAmount: toAmount(item.net_amount),
+    }))
+    .sort((a, b) => (a.serviceDate ?? '').localeCompare(b.serviceDate ?? '')),
+  status: row.status,
+  scheduledFor: row.scheduled_for,
+  reference: row.reference ?? null,
+  failureReason: row.failure_reason ?? null,
+  sentAt: row.sent_at ?? null,
+  failedAt: row.failed_at ?? null,
+  createdBy: resolveRelation(row.creator) ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at ?? null,
+});
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** The calendar month `offset` months from `from` (0 is the current month, -1 the previous one). */
+export const getMonthPeriod = (offset = 0, from: Date = new Date()): PayoutPeriod => {
+  const start = new Date(from.getFullYear(), from.getMonth() + offset, 1);
+  const end = new Date(from.getFullYear(), from.getMonth() + offset + 1, 0);
+  return { start: toDateString(start), end: toDateString(end) };
+};
+
+export const formatPayoutPeriod = (period: PayoutPeriod) => {
+  const start = new Date(`${period.start}T00:00:00`);
+  const end = new Date(`${period.end}T00:00:00`);
+  const monthPeriod = getMonthPeriod(0, start);
+  if (period.start === monthPeriod.start && period.end === monthPeriod.end) {
+    return start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  return `${start.toLocaleDateString()} – ${end.toLocaleDateString()}`;
+};
+
+/**
+ * Groups collected payments into one statement per caregiver, largest payout
+ * first. Pure so the arithmetic can be checked without the network.
+ */
+export const buildPayoutStatements = (
+  candidates: CandidateRow[],
+  period: PayoutPeriod,
+  feeRate: number,
+): PayoutStatement[] => {
+  const byCaregiver = new Map<string, { caregiver: UserReference; lines: PayoutLine[] }>();
+  candidates.forEach(row => {
+    const group = byCaregiver.get(row.caregiver_id) ?? {
+      caregiver: { id: row.caregiver_id, name: row.caregiver_name ?? null, email: row.caregiver_email ?? null },
+      lines: [],
+    };
+    group.lines.push(
+      calculatePayoutLine(
+        {
+          paymentId: row.payment_id,
+          bookingId: row.booking_id ?? null,
+          serviceDate: row.service_date ?? null,
+          grossAmount: toAmount(row.gross_amount),
+          refundedAmount: toAmount(row.refunded_amount),
+        },
+        feeRate,
+      ),
+    );
+    byCaregiver.set(row.caregiver_id, group);
+  });
+
+  return [...byCaregiver.values()]
+    .map(group => toStatement(group.caregiver, period, feeRate, group.lines))
+    .filter(statement => statement.netAmount > 0)
+    .sort((a, b) => b.netAmount - a.netAmount);
+};
+
+/**
+ * Collected payments in the period that have not been paid out yet, as draft
+ * statements at the platform fee from settings unless `feeRate` is given.
+ */
+export const fetchPayoutStatements = async (
+  period: PayoutPeriod,
+  feeRate?: number,
+  caregiverId?: string,
+): Promise<PayoutStatement[]> => {
+  const [{ data, error }, rate] = await Promise.all([
+    supabase.rpc('caregiver_payout_candidates', {
+      p_period_start: period.start,
+      p_period_end: period.end,
+      p_caregiver_id: caregiverId ?? null,
+    }),
+    feeRate ?? fetchPlatformFeeRate(),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch unpaid earnings: ${error.message}`);
+  }
+  return buildPayoutStatements((data ?? []) as CandidateRow[], period, rate);
+};
+
+/**
+ * Whether the payment is part of a sent payout; such payments can no longer be
+ * refunded. Refunding a payment in a scheduled or failed payout takes it out
+ * of that payout instead.
+ */
+export const isPaymentPaidOut = async (paymentId: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('caregiver_payout_items')
+    .select('id, payout:payout_id!inner(status)', { count: 'exact', head: true })
+    .eq('payment_id', paymentId)
+    .eq('payout.status', 'sent');
+
+  if (error) {
+    throw new Error(`Failed to check payout status: ${error.message}`);
+  }
+  return (count ?? 0) > 0;
+};
+
+export interface FetchPayoutsOptions {
+  period?: PayoutPeriod;
+  caregiverId?: string;
+  status?: CaregiverPayoutStatus;
+}
+
+/** Newest period first. */
+export const fetchPayouts = async (options: FetchPayoutsOptions = {}): Promise<CaregiverPayout[]> => {
+  let query = supabase
+    .from('caregiver_payouts')
+    .select(PAYOUT_COLUMNS)
+    .order('period_start', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (options.period) {
+    query = query.eq('period_start', options.period.start).eq('period_end', options.period.end);
+  }
+  if (options.caregiverId) {
+    query = query.eq('caregiver_id', options.caregiverId);
+  }
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch payouts: ${error.message}`);
+  }
+  return ((data ?? []) as unknown as PayoutRow[]).map(mapPayout);
+};
+
+const fetchPayoutById = async (payoutId: string): Promise<CaregiverPayout> => {
+  const { data, error } = await supabase.from('caregiver_payouts').select(PAYOUT_COLUMNS).eq('id', payoutId).single();
+  if (error) {
+    throw new Error(`Failed to fetch payout: ${error.message}`);
+  }
+  return mapPayout(data as unknown as PayoutRow);
+};
+
+const formatPeso = (value: number) =>
+  `₱${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Failures are logged so a notification problem never blocks the payout update. */
+const notifyCaregiver = async (payout: CaregiverPayout, title: string, message: string) => {
+  if (!payout.caregiver.id) {
+    return;
+  }
+  try {
+    await createNotification({
+      userId: payout.caregiver.id,
+      type: 'payment',
+      title,
+      message,
+      data: { payoutId: payout.id, periodStart: payout.period.start, periodEnd: payout.period.end },
+    });
+  } catch (error) {
+    console.warn('[payoutsService] Failed to notify caregiver about payout', error);
+  }
+};
+
+/**
+ * Freezes a draft statement into a scheduled payout. The database recomputes
+ * the amounts from the payments themselves at the current platform fee and
+ * rejects any that were paid out or refunded in the meantime.
+ */
+export const schedulePayout = withAuditTrail(async (statement: PayoutStatement, scheduledFor: string) => {
+  if (!statement.caregiver.id) {
+    throw new Error('The statement has no caregiver');
+  }
+
+  const { data, error } = await supabase.rpc('create_caregiver_payout', {
+    p_caregiver_id: statement.caregiver.id,
+    p_period_start: statement.period.start,
+    p_period_end: statement.period.end,
+    p_payment_ids: statement.lines.map(line => line.paymentId),
+    p_scheduled_for: scheduledFor,
+  });
+
+  if (error) {
+    throw new Error(`Failed to schedule payout: ${error.message}`);
+  }
+
+  const payout = await fetchPayoutById((data as PayoutRow).id);
+  await notifyCaregiver(
+    payout,
+    'Payout scheduled',
+    `Your earnings for ${formatPayoutPeriod(payout.period)} (${formatPeso(payout.netAmount)}) are scheduled to be paid on ${new Date(`${payout.scheduledFor}T00:00:00`).toLocaleDateString()}.`,
+  );
+  return payout;
+}, {
+  action: 'SCHEDULE_CAREGIVER_PAYOUT',
+  targetType: 'caregiver_payout',
+  channel: 'supabase',
+  targetId: () => null,
+  resultTargetId: payout => payout.id,
+  after: payout => ({
+    id: payout.id,
+    caregiverId: payout.caregiver.id,
+    period: payout.period,
+    netAmount: payout.netAmount,
+    feeAmount: payout.feeAmount,
+    paymentIds: payout.lines.map(line => line.paymentId),
+  }),
+});
+
+const updatePayoutStatus = async (payout: CaregiverPayout, update: Record<string, unknown>) => {
+  const { error } = await supabase.from('caregiver_payouts').update(update).eq('id', payout.id);
+  if (error) {
+    throw new Error(`Failed to update payout: ${error.message}`);
+  }
+  return fetchPayoutById(payout.id);
+};
+
+export const markPayoutSent = withAuditTrail(async (payout: CaregiverPayout, reference: string) => {
+  if (payout.status !== 'scheduled') {
+    throw new Error('Only scheduled payouts can be marked as sent');
+  }
+
+  const updated = await updatePayoutStatus(payout, { status: 'sent', reference: reference.trim() || null });
+  await notifyCaregiver(
+    updated,
+    'Payout sent',
+    `${formatPeso(updated.netAmount)} for ${formatPayoutPeriod(updated.period)} has been sent to you.${updated.reference ? ` Reference: ${updated.reference}` : ''}`,
+  );
+  return updated;
+}, {
+  action: 'SEND_CAREGIVER_PAYOUT',
+  targetType: 'caregiver_payout',
+  channel: 'supabase',
+  targetId: payout => payout.id,
+  before: payout => snapshotRow('caregiver_payouts', payout.id, 'id,status,reference'),
+  after: payout => ({ id: payout.id, status: payout.status, reference: payout.reference }),
+});
+
+export const markPayoutFailed = withAuditTrail(async (payout: CaregiverPayout, reason: string) => {
+  const failureReason = reason.trim();
+  if (payout.status !== 'scheduled') {
+    throw new Error('Only scheduled payouts can be marked as failed');
+  }
+  if (!failureReason) {
+    throw new Error('Explain why the payout failed');
+  }
+
+  const updated = await updatePayoutStatus(payout, { status: 'failed', failure_reason: failureReason });
+  await notifyCaregiver(
+    updated,
+    'Payout failed',
+    `We could not send your payout for ${formatPayoutPeriod(updated.period)}: ${failureReason}. We will retry once the issue is fixed.`,
+  );
+  return updated;
+}, {
+  action: 'FAIL_CAREGIVER_PAYOUT',
+  targetType: 'caregiver_payout',
+  channel: 'supabase',
+  targetId: payout => payout.id,
+  before: payout => snapshotRow('caregiver_payouts', payout.id, 'id,status,failure_reason'),
+  after: payout => ({ id: payout.id, status: payout.status, failureReason: payout.failureReason }),
+});
+
+/** Puts a failed payout back on the schedule; the statement itself is unchanged. */
+export const retryPayout = withAuditTrail(async (payout: CaregiverPayout, scheduledFor: string) => {
+  if (payout.status !== 'failed') {
+    throw new Error('Only failed payouts can be retried');
+  }
+  return updatePayoutStatus(payout, { status: 'scheduled', scheduled_for: scheduledFor });
+}, {
+  action: 'RETRY_CAREGIVER_PAYOUT',
+  targetType: 'caregiver_payout',
+  channel: 'supabase',
+  targetId: payout => payout.id,
+  before: payout => snapshotRow('caregiver_payouts', payout.id, 'id,status,scheduled_for,failure_reason'),
+  after: payout => ({ id: payout.id, status: payout.status, scheduledFor: payout.scheduledFor }),
+});
+
+export interface CaregiverEarnings {
+  payouts: CaregiverPayout[];
+  /** Collected payments not in any payout yet, or null when there are none. */
+  unpaid: PayoutStatement | null;
+  totals: {
+    sent: number;
+    scheduled: number;
+    failed: number;
+    unpaid: number;
+    fees: number;
+  };
+}
+
+export const fetchCaregiverEarnings = async (caregiverId: string): Promise<CaregiverEarnings> => {
+  const [payouts, candidates, feeRate] = await Promise.all([
+    fetchPayouts({ caregiverId }),
+    supabase.rpc('caregiver_payout_candidates', { p_caregiver_id: caregiverId }),
+    fetchPlatformFeeRate(),
+  ]);
+
+  if (candidates.error) {
+    throw new Error(`Failed to fetch unpaid earnings: ${candidates.error.message}`);
+  }
+
+  const rows = (candidates.data ?? []) as CandidateRow[];
+  const dates = rows.map(row => row.service_date).filter((date): date is string => Boolean(date)).sort();
+  const period = { start: dates[0] ?? '', end: dates[dates.length - 1] ?? '' };
+  const [unpaid] = buildPayoutStatements(rows, period, feeRate);
+
+  const totalFor = (status: CaregiverPayoutStatus) =>
+    roundAmount(payouts.filter(payout => payout.status === status).reduce((total, payout) => total + payout.netAmount, 0));
+
+  return {
+    payouts,
+    unpaid: unpaid ?? null,
+    totals: {
+      sent: totalFor('sent'),
+      scheduled: totalFor('scheduled'),
+      failed: totalFor('failed'),
+      unpaid: unpaid?.netAmount ?? 0,
+      fees: roundAmount(payouts.reduce((total, payout) => total + payout.feeAmount, 0)),
+    },
+  };
+};
@@ -1,85 +1,230 @@
-import { adminApi } from './apiService';
+import { adminApi, authApi } from './apiService';
+import { fetchUsers, updateUserStatus } from './usersService';
+import type {
+  ApiResponse,
+  Report,
+  ReportComment,
+  ReportSeverity,
+  ReportStats,
+  ReportStatus,
+  ReportType,
+  User,
+} from '../types';
 
-export interface Report {
-  id: string;
-  reporter_id: string;
+export interface FetchReportsOptions {
+  page?: number;
+  limit?: number;
+  status?: ReportStatus | 'all';
+  reportType?: ReportType | 'all';
+  severity?: ReportSeverity | 'all';
+  /** Admin id, or `unassigned` for reports nobody has picked up yet. */
+  assignedTo?: string;
+  bookingId?: string;
+  search?: string;
+}
+
+export interface FetchReportsResult {
+  reports: Report[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+export interface UpdateReportStatusPayload {
+  status: ReportStatus;
+  adminNotes?: string;
+  resolution?: string;
+}
+
+export interface CreateReportPayload {
   reported_user_id: string;
-  report_type: 'caregiver_misconduct' | 'parent_maltreatment' | 'inappropriate_behavior' | 'safety_concern' | 'payment_dispute' | 'other';
-  category?: string;
+  report_type: ReportType;
   title: string;
   description: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'pending' | 'under_review' | 'resolved' | 'dismissed';
+  severity?: ReportSeverity;
+  category?: string;
   evidence_urls?: string[];
   booking_id?: string;
   job_id?: string;
-  admin_notes?: string;
-  reviewed_by?: string;
-  reviewed_at?: string;
-  resolution?: string;
-  created_at: string;
-  updated_at: string;
-  reporter?: { id: string; name: string; email: string; role: string };
-  reported_user?: { id: string; name: string; email: string; role: string };
-  reviewer?: { id: string; name: string; email: string };
 }
 
-export interface ReportStats {
-  total: number;
-  byStatus: Record<string, number>;
-  bySeverity: Record<string, number>;
-  byType: Record<string, number>;
+export interface ReportSla {
+  dueAt: Date;
+  remainingMs: number;
+  overdue: boolean;
 }
 
-export const reportsService = {
-  async getReports(params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    reportType?: string;
-    severity?: string;
-    search?: string;
-  }) {
-    const response = await adminApi.get('/admin/reports', params);
-    return response.data;
-  },
-
-  async getReportById(id: string) {
-    const response = await adminApi.get(`/admin/reports/${id}`);
-    return response.data;
-  },
-
-  async createReport(data: {
-    reported_user_id: string;
-    report_type: string;
-    title: string;
-    description: string;
-    severity?: string;
-    category?: string;
-    evidence_urls?: string[];
-    booking_id?: string;
-    job_id?: string;
-  }) {
-    const response = await adminApi.post('/auth/reports', data);
-    return response.data;
-  },
-
-  async updateReportStatus(id: string, data: {
-    status: string;
-    adminNotes?: string;
-    resolution?: string;
-  }) {
-    const response = await adminApi.patch(`/admin/reports/${id}/status`, data);
-    return response.data;
-  },
-
-  async getReportStats() {
-    const response = await adminApi.get('/admin/reports/stats');
-    return response.data;
-  },
-
-  async getMyReports(params?: { page?: number; limit?: number }) {
-    const response = await adminApi.get('/auth/reports/my', params);
-    return response.data;
-  },
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Time allowed to act on a report before the backend's scheduled job
+ * escalates it, by severity. Mirrors REPORT_SLA_MINUTES in reportService.js.
+ */
+export const REPORT_SLA_MINUTES: Record<ReportSeverity, number> = {
+  critical: 60,
+  high: 4 * 60,
+  medium: 24 * 60,
+  low: 72 * 60,
+};
+
+const OPEN_REPORT_STATUSES: ReportStatus[] = ['pending', 'under_review'];
+
+export const isReportOpen = (report: Pick<Report, 'status'>) => OPEN_REPORT_STATUSES.includes(report.status);
+
+/**
+ * Deadline for a report, measured from when it was filed. Closed reports
+ * return null because the clock stops once they are resolved or dismissed.
+ */
+export const getReportSla = (
+  report: Pick<Report, 'severity' | 'status' | 'created_at'>,
+  now: Date = new Date(),
+): ReportSla | null => {
+  if (!isReportOpen(report)) {
+    return null;
+  }
+  const createdAt = new Date(report.created_at);
+  if (Number.isNaN(createdAt.getTime())) {
+    return null;
+  }
+  const dueAt = new Date(createdAt.getTime() + REPORT_SLA_MINUTES[report.severity] * 60_000);
+  const remainingMs = dueAt.getTime() - now.getTime();
+  return { dueAt, remainingMs, overdue: remainingMs < 0 };
+};
+
+export const formatSlaRemaining = (sla: ReportSla) => {
+  const totalMinutes = Math.floor(Math.abs(sla.remainingMs) / 60_000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  const parts = days > 0 ? [`${days}d`, `${hours}h`] : hours > 0 ? [`${hours}h`, `${minutes}m`] : [`${minutes}m`];
+  return sla.overdue ? `Overdue by ${parts.join(' ')}` : `${parts.join(' ')} left`;
+};
+
+const sanitizeFilter = <T extends string>(value?: T | 'all') => (value && value !== 'all' ? value : undefined);
+
+const extractReport = (response: ApiResponse<Report>, defaultError: string): Report => {
+  if (!response.success) {
+    throw new Error(response.error || defaultError);
+  }
+  if (!response.data) {
+    throw new Error(`${defaultError}: report missing from response`);
+  }
+  return response.data;
+};
+
+const toReportsResult = (response: ApiResponse<Report[]>, page: number, limit: number, defaultError: string) => {
+  if (!response.success) {
+    throw new Error(response.error || defaultError);
+  }
+
+  const reports = Array.isArray(response.data) ? response.data : [];
+  const total = response.pagination?.total ?? reports.length;
+  const currentPage = response.pagination?.page ?? page;
+  const totalPages = response.pagination?.totalPages ?? Math.max(1, Math.ceil(total / limit));
+
+  return {
+    reports,
+    pagination: {
+      page: currentPage,
+      limit,
+      total,
+      hasMore: currentPage < totalPages,
+    },
+  } satisfies FetchReportsResult;
+};
+
+export const fetchReports = async (options: FetchReportsOptions = {}): Promise<FetchReportsResult> => {
+  const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+  const page = Math.max(1, options.page ?? 1);
+
+  const response = await adminApi.getReports({
+    page,
+    limit,
+    status: sanitizeFilter(options.status),
+    reportType: sanitizeFilter(options.reportType),
+    severity: sanitizeFilter(options.severity),
+    assignedTo: options.assignedTo || undefined,
+    bookingId: options.bookingId || undefined,
+    search: options.search?.trim() ? options.search.trim() : undefined,
+  });
+
+  return toReportsResult(response, page, limit, 'Failed to fetch reports');
+};
+
+export const fetchReportById = async (reportId: string): Promise<Report> =>
+  extractReport(await adminApi.getReportById(reportId), 'Failed to fetch report');
+
+export const updateReportStatus = async (
+  reportId: string,
+  payload: UpdateReportStatusPayload,
+): Promise<Report> =>
+  extractReport(await adminApi.updateReportStatus(reportId, payload), 'Failed to update report status');
+
+export const fetchReportStats = async (): Promise<ReportStats> => {
+  const response = await adminApi.getReportStats();
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch report statistics');
+  }
+  return response.data;
+};
+
+export const createReport = async (payload: CreateReportPayload): Promise<Report> =>
+  extractReport(await authApi.createReport(payload), 'Failed to create report');
+
+export const fetchMyReports = async (options: { page?: number; limit?: number } = {}): Promise<FetchReportsResult> => {
+  const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+  const page = Math.max(1, options.page ?? 1);
+  const response = await authApi.getMyReports({ page, limit });
+  return toReportsResult(response, page, limit, 'Failed to fetch your reports');
+};
+
+export const assignReport = async (reportId: string, assigneeId: string | null): Promise<Report> =>
+  extractReport(await adminApi.assignReport(reportId, assigneeId), 'Failed to assign report');
+
+export const escalateReport = async (reportId: string, reason?: string): Promise<Report> =>
+  extractReport(await adminApi.escalateReport(reportId, reason), 'Failed to escalate report');
+
+export const fetchReportComments = async (reportId: string): Promise<ReportComment[]> => {
+  const response = await adminApi.getReportComments(reportId);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to fetch report comments');
+  }
+  return Array.isArray(response.data) ? response.data : [];
+};
+
+export const addReportComment = async (
+  reportId: string,
+  payload: { body: string; kind?: 'comment' | 'action'; metadata?: Record<string, unknown> },
+): Promise<ReportComment> => {
+  const response = await adminApi.addReportComment(reportId, payload);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to add report comment');
+  }
+  return response.data;
+};
+
+export const fetchAssignableAdmins = async (): Promise<User[]> => {
+  const [admins, superadmins] = await Promise.all([
+    fetchUsers({ userType: 'admin', limit: 100 }),
+    fetchUsers({ userType: 'superadmin', limit: 100 }),
+  ]);
+  return [...admins.users, ...superadmins.users].filter(user => user.status === 'active');
+};
+
+/**
+ * Suspends the reported user and records the action on the report's thread
+ * so the case history shows who acted and why.
+ */
+export const suspendReportedUser = async (report: Report, reason: string) => {
+  const trimmed = reason.trim();
+  const user = await updateUserStatus(report.reported_user_id, 'suspended', trimmed);
+  const comment = await addReportComment(report.id, {
+    kind: 'action',
+    body: `Suspended ${report.reported_user?.name ?? 'reported user'}: ${trimmed}`,
+    metadata: { action: 'user_suspended', userId: report.reported_user_id, reason: trimmed },
+  });
+  return { user, comment };
 };
@@ -1,10 +1,17 @@
 import { supabase } from '../config/supabase';
+import { snapshotRow, withAuditTrail } from './auditTrail';
 import type { Review, MaybeRelation, UserReference } from '../types';
 
 export interface FetchReviewsOptions {
   status?: 'published' | 'hidden';
   rating?: number;
   search?: string;
+  caregiverIds?: string[];
+}
+
+export interface CaregiverRatingSummary {
+  average: number;
+  count: number;
 }
 
 const sanitizeSearchTerm = (term: string) =>
@@ -89,6 +96,10 @@ export const fetchReviews = async (options: FetchReviewsOptions = {}): Promise<R
 
   query = applyFilters(query, options);
 
+  if (options.caregiverIds && options.caregiverIds.length > 0) {
+    query = query.in('caregiver_id', options.caregiverIds);
+  }
+
   const { data, error } = await query;
   if (error) {
     throw new Error(`Failed to fetch reviews: ${error.message}`);
@@ -132,12 +143,36 @@ export const fetchReviews = async (options: FetchReviewsOptions = {}): Promise<R
   });
 };
 
+/** Average published rating per caregiver; hidden reviews are left out. */
+export const fetchCaregiverRatingSummaries = async (
+  caregiverIds: string[],
+): Promise<Map<string, CaregiverRatingSummary>> => {
+  const summaries = new Map<string, CaregiverRatingSummary>();
+  if (caregiverIds.length === 0) {
+    return summaries;
+  }
+
+  const reviews = await fetchReviews({ status: 'published', caregiverIds });
+  reviews.forEach(review => {
+    if (!review.caregiverId || !review.rating) {
+      return;
+    }
+    const current = summaries.get(review.caregiverId) ?? { average: 0, count: 0 };
+    const count = current.count + 1;
+    summaries.set(review.caregiverId, {
+      average: current.average + (review.rating - current.average) / count,
+      count,
+    });
+  });
+  return summaries;
+};
+
 interface UpdateReviewPayload {
   status: 'published' | 'hidden';
   moderation_note?: string | null;
 }
 
-export const updateReviewStatus = async (
+export const updateReviewStatus = withAuditTrail(async (
   reviewId: string,
   status: 'published' | 'hidden',
   note?: string,
@@ -155,9 +190,17 @@ export const updateReviewStatus = async (
   if (error) {
     throw new Error(`Failed to update review status: ${error.message}`);
   }
-};
-
-export const deleteReview = async (reviewId: string) => {
+  return payload;
+}, {
+  action: 'UPDATE_REVIEW_STATUS',
+  targetType: 'review',
+  channel: 'supabase',
+  targetId: reviewId => reviewId,
+  before: reviewId => snapshotRow('reviews', reviewId, 'id,status,moderation_note'),
+  after: (payload, reviewId) => ({ id: reviewId, ...payload }),
+});
+
+export const deleteReview = withAuditTrail(async (reviewId: string) => {
   const { error } = await supabase
     .from('reviews')
     .delete()
@@ -166,4 +209,11 @@ export const deleteReview = async (reviewId: string) => {
   if (error) {
     throw new Error(`Failed to delete review: ${error.message}`);
   }
-};
+}, {
+  action: 'DELETE_REVIEW',
+  targetType: 'review',
+  channel: 'supabase',
+  targetId: reviewId => reviewId,
+  before: reviewId => snapshotRow('reviews', reviewId, 'id,booking_id,reviewer_id,rating,comment,status'),
+  after: () => null,
+});
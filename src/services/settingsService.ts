@@ -0,0 +1,25 @@
+import { adminApi } from './apiService';
+import { withAuditTrail } from './auditTrail';
+import type { SystemSettings } from '../types';
+
+export const fetchSystemSettings = async (): Promise<Partial<SystemSettings>> => {
+  const response = await adminApi.getSettings();
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load settings');
+  }
+  return response.data as Partial<SystemSettings>;
+};
+
+export const updateSystemSettings = withAuditTrail(async (settings: SystemSettings): Promise<Partial<SystemSettings>> => {
+  const response = await adminApi.updateSettings(settings);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update settings');
+  }
+  return response.data as Partial<SystemSettings>;
+}, {
+  action: 'UPDATE_SYSTEM_SETTINGS',
+  targetType: 'settings',
+  channel: 'rest',
+  targetId: () => null,
+  before: fetchSystemSettings,
+});
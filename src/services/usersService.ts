@@ -1,5 +1,6 @@
 import { adminApi } from './apiService';
-import type { ApiResponse, CaregiverProfile, User } from '../types';
+import { snapshotRow, snapshotRows, withAuditTrail } from './auditTrail';
+import type { CaregiverProfile, User } from '../types';
 
 export interface FetchUsersOptions {
   page?: number;
@@ -48,6 +49,7 @@ export interface BulkUpdateUserStatusPayload {
   userIds: string[];
   status: string;
   reason?: string;
+  approvalId?: string;
 }
 
 const DEFAULT_PAGE_SIZE = 20;
@@ -117,7 +119,7 @@ export const fetchUsers = async (options: FetchUsersOptions = {}): Promise<Fetch
     search: sanitizeParam(options.search)
   };
 
-  const response = await adminApi.getUsers(params) as ApiResponse<UserRow[]>;
+  const response = await adminApi.getUsers(params);
 
   if (!response.success) {
     throw new Error(response.error || 'Failed to fetch users');
@@ -151,8 +153,22 @@ export const fetchUsers = async (options: FetchUsersOptions = {}): Promise<Fetch
   };
 };
 
-export const updateUserStatus = async (userId: string, status: string, reason?: string) => {
-  const response = await adminApi.updateUserStatus(userId, status, reason) as ApiResponse<UserRow>;
+const USER_AUDIT_COLUMNS = 'id,name,email,role,status,phone,permissions';
+
+const toAuditSnapshot = (user: User) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  status: user.status,
+  phone: user.phone ?? null,
+  permissions: user.permissions ?? [],
+});
+
+const snapshotUser = (userId: string) => snapshotRow('users', userId, USER_AUDIT_COLUMNS);
+
+export const updateUserStatus = withAuditTrail(async (userId: string, status: string, reason?: string) => {
+  const response = await adminApi.updateUserStatus(userId, status, reason);
 
   if (!response.success) {
     throw new Error(response.error || 'Failed to update user status');
@@ -163,10 +179,18 @@ export const updateUserStatus = async (userId: string, status: string, reason?:
   }
 
   return normalizeUser(response.data);
-};
+}, {
+  action: 'UPDATE_USER_STATUS',
+  targetType: 'user',
+  channel: 'rest',
+  targetId: userId => userId,
+  before: snapshotUser,
+  after: toAuditSnapshot,
+  context: (_userId, _status, reason) => (reason ? { reason } : undefined),
+});
 
-export const bulkUpdateUserStatus = async (payload: BulkUpdateUserStatusPayload) => {
-  const response = await adminApi.bulkUpdateUserStatus(payload) as ApiResponse<UserRow[]>;
+export const bulkUpdateUserStatus = withAuditTrail(async (payload: BulkUpdateUserStatusPayload) => {
+  const response = await adminApi.bulkUpdateUserStatus(payload);
 
   if (!response.success) {
     throw new Error(response.error || 'Failed to update user statuses');
@@ -174,10 +198,18 @@ export const bulkUpdateUserStatus = async (payload: BulkUpdateUserStatusPayload)
 
   const rows: UserRow[] = Array.isArray(response.data) ? response.data : [];
   return rows.map(normalizeUser);
-};
+}, {
+  action: 'BULK_UPDATE_USER_STATUS',
+  targetType: 'user',
+  channel: 'rest',
+  targetId: () => null,
+  before: payload => snapshotRows('users', payload.userIds, 'id,status'),
+  after: users => users.map(user => ({ id: user.id, status: user.status })),
+  context: payload => ({ userIds: payload.userIds, reason: payload.reason, approvalId: payload.approvalId }),
+});
 
-export const createUser = async (payload: CreateUserPayload) => {
-  const response = await adminApi.createUser(payload) as ApiResponse<UserRow>;
+export const createUser = withAuditTrail(async (payload: CreateUserPayload) => {
+  const response = await adminApi.createUser(payload);
 
   if (!response.success) {
     throw new Error(response.error || 'Failed to create user');
@@ -188,10 +220,17 @@ export const createUser = async (payload: CreateUserPayload) => {
   }
 
   return normalizeUser(response.data);
-};
+}, {
+  action: 'CREATE_USER',
+  targetType: 'user',
+  channel: 'rest',
+  targetId: () => null,
+  resultTargetId: user => user.id,
+  after: toAuditSnapshot,
+});
 
-export const updateUser = async (userId: string, payload: UpdateUserPayload) => {
-  const response = await adminApi.updateUser(userId, payload) as ApiResponse<UserRow>;
+export const updateUser = withAuditTrail(async (userId: string, payload: UpdateUserPayload) => {
+  const response = await adminApi.updateUser(userId, payload);
 
   if (!response.success) {
     throw new Error(response.error || 'Failed to update user');
@@ -202,12 +241,49 @@ export const updateUser = async (userId: string, payload: UpdateUserPayload) =>
   }
 
   return normalizeUser(response.data);
-};
+}, {
+  action: 'UPDATE_USER',
+  targetType: 'user',
+  channel: 'rest',
+  targetId: userId => userId,
+  before: snapshotUser,
+  after: toAuditSnapshot,
+  context: (_userId, payload) => (payload.password ? { passwordChanged: true } : undefined),
+});
 
-export const deleteUser = async (userId: string) => {
-  const response = await adminApi.deleteUser(userId) as ApiResponse<null>;
+export const deleteUser = withAuditTrail(async (userId: string, options: { approvalId?: string } = {}) => {
+  const response = await adminApi.deleteUser(userId, options.approvalId);
 
   if (!response.success) {
     throw new Error(response.error || 'Failed to delete user');
   }
-};
+}, {
+  action: 'DELETE_USER',
+  targetType: 'user',
+  channel: 'rest',
+  targetId: userId => userId,
+  before: snapshotUser,
+  after: () => null,
+  context: (_userId, options) => (options?.approvalId ? { approvalId: options.approvalId } : undefined),
+});
+
+export const updateUserPermissions = withAuditTrail(async (userId: string, permissions: string[]) => {
+  const response = await adminApi.updateUserPermissions(userId, Array.from(new Set(permissions)));
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to update permissions');
+  }
+
+  if (!response.data) {
+    throw new Error('User payload missing from updateUserPermissions response');
+  }
+
+  return normalizeUser(response.data);
+}, {
+  action: 'UPDATE_USER_PERMISSIONS',
+  targetType: 'user',
+  channel: 'rest',
+  targetId: userId => userId,
+  before: userId => snapshotRow('users', userId, 'id,permissions'),
+  after: user => ({ id: user.id, permissions: user.permissions ?? [] }),
+});
@@ -1,9 +1,41 @@
+export type BackgroundCheckStatus = 'not_started' | 'submitted' | 'in_review' | 'passed' | 'failed' | 'expired';
+export type BackgroundCheckDocumentStatus = 'pending' | 'approved' | 'rejected';
+
 export interface CaregiverProfile {
   hourly_rate?: number | null;
-  background_check_status?: string | null;
+  background_check_status?: BackgroundCheckStatus | null;
   [key: string]: unknown;
 }
 
+export interface BackgroundCheckDocument {
+  id: string;
+  userId: string;
+  name: string;
+  url: string;
+  documentType: string;
+  reviewStatus: BackgroundCheckDocumentStatus;
+  reviewNotes?: string | null;
+  uploadedAt?: string | null;
+  expiryDate?: string | null;
+}
+
+export interface BackgroundCheck {
+  id: string;
+  userId: string;
+  caregiver?: UserReference | null;
+  status: BackgroundCheckStatus;
+  provider?: string | null;
+  checkTypes: string[];
+  notes?: string | null;
+  requestedAt?: string | null;
+  completedAt?: string | null;
+  verifiedAt?: string | null;
+  expiryDate?: string | null;
+  reminderSentAt?: string | null;
+  updatedAt?: string | null;
+  documents: BackgroundCheckDocument[];
+}
+
 export interface User {
   id: string;
   email: string;
@@ -74,6 +106,9 @@ export interface ApiResponse<T> {
   message?: string;
   warnings?: string[];
   proofSummary?: PaymentProofSummary;
+  /** Set when the response was served from the offline cache instead of the network. */
+  stale?: boolean;
+  cachedAt?: string;
 }
 
 export interface Job {
@@ -108,14 +143,90 @@ export interface JobListFilters {
   search?: string;
 }
 
+export type JobRevisionField = 'title' | 'description' | 'location' | 'budget' | 'hourly_rate';
+
+export type JobRevisionSnapshot = Partial<Record<JobRevisionField, string | number | null>>;
+
+export interface JobRevision {
+  id: string;
+  jobId: string;
+  revisionNumber: number;
+  author?: {
+    id: string;
+    name: string;
+    email?: string;
+    role?: string;
+  };
+  note?: string;
+  /** Whether a caregiver was already assigned when the edit was made. */
+  caregiverAssigned: boolean;
+  changedFields: JobRevisionField[];
+  before: JobRevisionSnapshot;
+  after: JobRevisionSnapshot;
+  createdAt: string;
+}
+
+export type CaregiverMatchFactor = 'location' | 'rate' | 'background_check' | 'rating' | 'completion' | 'availability';
+
+export interface CaregiverMatchFactorScore {
+  factor: CaregiverMatchFactor;
+  /** 0–1; factors with no data score 0.5 so they neither help nor hurt. */
+  score: number;
+  weight: number;
+  detail: string;
+}
+
+export interface CaregiverMatch {
+  caregiver: {
+    id: string;
+    name: string;
+    email: string;
+    location?: string;
+    hourlyRate?: number;
+  };
+  /** 0–100 weighted total of the factor scores. */
+  score: number;
+  factors: CaregiverMatchFactorScore[];
+}
+
+export type JobModerationRule = 'contact_info' | 'off_platform_payment' | 'prohibited_terms' | 'suspicious_rate';
+
+export type JobRiskLevel = 'low' | 'medium' | 'high';
+
+export interface JobModerationFlag {
+  rule: JobModerationRule;
+  /** Points this flag adds to the job's risk score. */
+  weight: number;
+  reason: string;
+  /** Text that triggered the flag, when the rule matched content. */
+  matches?: string[];
+}
+
+export interface JobScreeningResult {
+  jobId: string;
+  /** 0–100, the capped sum of flag weights. */
+  score: number;
+  level: JobRiskLevel;
+  flags: JobModerationFlag[];
+}
+
+export interface HourlyRateNorm {
+  median: number;
+  sampleSize: number;
+}
+
+export type BookingStatus = 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
+
 export interface Booking {
   id: string;
-  status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show' | 'in-progress';
+  status: BookingStatus;
   parentId: {
+    id?: string;
     name: string;
     email: string;
   };
   caregiverId: {
+    id?: string;
     name: string;
     email: string;
   };
@@ -150,6 +261,97 @@ export interface Booking {
   timeDisplay?: string | null;
 }
 
+export interface BookingStatusHistoryEntry {
+  id: string;
+  from?: BookingStatus;
+  to: BookingStatus;
+  at: string;
+  actor?: string;
+  reason?: string | null;
+}
+
+export type BookingTimelineEventKind = 'status' | 'payment' | 'proof' | 'notification' | 'report';
+
+export interface BookingTimelineEvent {
+  id: string;
+  kind: BookingTimelineEventKind;
+  at: string;
+  title: string;
+  description?: string;
+  actor?: string;
+  reason?: string | null;
+  /** Status the event moved its subject to, used to colour status events. */
+  status?: BookingStatus;
+  paymentId?: string;
+  reportId?: string;
+}
+
+export interface BookingTimeline {
+  events: BookingTimelineEvent[];
+  /** Sources that failed to load, so the screen can flag the timeline as partial. */
+  unavailableSources: BookingTimelineEventKind[];
+}
+
+/**
+ * Structured filters for the bookings list. Display names travel with the
+ * IDs so presets and deep links can label their chips without a lookup.
+ */
+export interface BookingFilters {
+  status?: BookingStatus;
+  search?: string;
+  parentId?: string;
+  parentName?: string;
+  caregiverId?: string;
+  caregiverName?: string;
+  jobId?: string;
+  jobTitle?: string;
+  /** `YYYY-MM-DD`, inclusive. */
+  serviceDateFrom?: string;
+  serviceDateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  minChildren?: number;
+  maxChildren?: number;
+  hasOpenReport?: boolean;
+}
+
+export interface BookingFilterPreset {
+  id: string;
+  name: string;
+  filters: BookingFilters;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type BookingConflictType = 'overlap' | 'outside_availability' | 'travel_gap';
+
+export interface BookingConflict {
+  type: BookingConflictType;
+  bookingId: string;
+  /** The other booking involved in an overlap or travel-gap conflict. */
+  otherBookingId?: string;
+  message: string;
+}
+
+export type BookingAttentionReason = 'late_start' | 'likely_no_show';
+
+export interface BookingAttentionItem {
+  booking: Booking;
+  reason: BookingAttentionReason;
+  scheduledStart: string;
+  minutesLate: number;
+  /** When an admin alert was first raised for this booking, if one has been. */
+  alertedAt?: string;
+}
+
+export interface AvailabilityWindow {
+  /** 0 = Sunday, matching `Date#getDay` and the `availability.day_of_week` column. */
+  dayOfWeek: number;
+  /** `HH:MM`, 24-hour clock. */
+  start: string;
+  end: string;
+}
+
 export interface ChildProfile {
   id: string;
   parentId: string;
@@ -223,11 +425,44 @@ export interface SystemSettings {
   registrationEnabled: boolean;
   emailVerificationRequired: boolean;
   backgroundCheckRequired: boolean;
+  /** Share of each payment kept by the platform when a caregiver payout is created (0.1 = 10%). */
+  platformFeeRate: number;
 }
 
-export type PaymentStatus = 'pending' | 'paid' | 'refunded' | 'disputed';
+export type PaymentStatus = 'pending' | 'paid' | 'partially_refunded' | 'refunded' | 'disputed';
 export type ProofStatus = 'ok' | 'needs_review';
 
+export type PaymentProofFindingType =
+  | 'missing_file'
+  | 'unknown_mime'
+  | 'unexpected_mime'
+  | 'mime_mismatch'
+  | 'hash_failed'
+  | 'uploaded_before_booking'
+  | 'uploaded_late'
+  | 'duplicate_file'
+  | 'similar_image';
+
+/** An earlier proof on another booking that the proof duplicates or resembles. */
+export interface PaymentProofMatch {
+  proofId: string;
+  bookingId: string;
+  publicUrl?: string | null;
+  uploadedAt?: string | null;
+  uploadedByInfo?: UserReference | null;
+  /** Differing bits between the two 64-bit perceptual hashes; 0 for identical files. */
+  distance: number;
+  identical: boolean;
+  sameUploader: boolean;
+}
+
+export interface PaymentProofFinding {
+  type: PaymentProofFindingType;
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  match?: PaymentProofMatch;
+}
+
 export interface PaymentProofInfo {
   id: string;
   bookingId: string;
@@ -238,14 +473,73 @@ export interface PaymentProofInfo {
   uploadedAt?: string | null;
   paymentType?: string | null;
   uploadedByInfo?: UserReference | null;
+  perceptualHash?: string | null;
+  detectedMimeType?: string | null;
+  findings?: PaymentProofFinding[];
   suspicious?: boolean;
   issues?: string[];
 }
 
+export type ReconciliationIssueType =
+  | 'amount_mismatch'
+  | 'booking_total_mismatch'
+  | 'duplicate_payment'
+  | 'missing_payment'
+  | 'cancelled_booking_payment';
+
+export type ReconciliationSeverity = 'high' | 'medium' | 'low';
+
+export interface ReconciliationIssue {
+  id: string;
+  type: ReconciliationIssueType;
+  severity: ReconciliationSeverity;
+  bookingId: string;
+  booking: Booking;
+  payments: PaymentRecord[];
+  /** Recomputed from the booking's hours and rate. */
+  expectedAmount: number;
+  /** What the issue compares against: the booking total or the sum of active payments. */
+  actualAmount: number;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  /** Inclusive `YYYY-MM-DD` bounds on the booking start date. */
+  from: string;
+  to: string;
+  bookingsChecked: number;
+  paymentsChecked: number;
+  reconciledCount: number;
+  totals: {
+    expected: number;
+    collected: number;
+    refunded: number;
+  };
+  issues: ReconciliationIssue[];
+  /** Set when the booking or payment list hit the fetch cap. */
+  truncated: boolean;
+}
+
 export interface PaymentProofSummary {
   suspiciousCount: number;
 }
 
+export type PaymentLedgerEntryType = 'charge' | 'refund' | 'adjustment';
+
+/** One movement on a payment. Refunds are negative; adjustments may be either. */
+export interface PaymentLedgerEntry {
+  id: string;
+  paymentId: string;
+  entryType: PaymentLedgerEntryType;
+  amount: number;
+  /** Running balance once this entry is applied. */
+  balanceAfter: number;
+  reason?: string | null;
+  createdBy?: UserReference | null;
+  createdAt: string;
+}
+
 export interface PaymentRecord {
   id: string;
   bookingId: string;
@@ -260,6 +554,8 @@ export interface PaymentRecord {
     email?: string;
   };
   totalAmount: number;
+  /** Sum of refunds recorded in the ledger. */
+  refundedAmount?: number;
   paymentStatus: PaymentStatus;
   paymentProof?: string | null;
   createdAt: string;
@@ -269,6 +565,97 @@ export interface PaymentRecord {
   proofs?: PaymentProofInfo[];
   proofIssues?: string[];
   proofStatus?: ProofStatus;
+  /** Oldest first. */
+  ledger?: PaymentLedgerEntry[];
+}
+
+export type PaymentDisputeStatus = 'open' | 'under_review' | 'resolved';
+export type PaymentDisputeOutcome = 'refund' | 'partial_refund' | 'release_to_caregiver';
+export type PaymentDisputeParty = 'parent' | 'caregiver' | 'admin';
+
+export interface PaymentDisputeStatement {
+  id: string;
+  disputeId: string;
+  party: PaymentDisputeParty;
+  author?: UserReference | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface PaymentDispute {
+  id: string;
+  paymentId: string;
+  bookingId?: string | null;
+  parent?: UserReference | null;
+  caregiver?: UserReference | null;
+  openedBy?: UserReference | null;
+  reason: string;
+  /** The payment's status when the dispute was opened; releasing restores it. */
+  paymentStatusBefore?: PaymentStatus | null;
+  status: PaymentDisputeStatus;
+  /** Parties submit statements and evidence until this time. */
+  evidenceDueAt: string;
+  /** Admins are expected to decide the outcome by this time. */
+  resolveBy: string;
+  outcome?: PaymentDisputeOutcome | null;
+  outcomeAmount?: number | null;
+  resolutionNotes?: string | null;
+  /**
+   * Set for refund outcomes, which still need a second admin's approval. The
+   * dispute stays under review until that approval executes.
+   */
+  refundApprovalId?: string | null;
+  resolvedBy?: UserReference | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+  /** Oldest first; only loaded for a single dispute. */
+  statements: PaymentDisputeStatement[];
+  evidence: PaymentProofInfo[];
+}
+
+export type CaregiverPayoutStatus = 'scheduled' | 'sent' | 'failed';
+
+/** Inclusive `YYYY-MM-DD` bounds on the booking service date. */
+export interface PayoutPeriod {
+  start: string;
+  end: string;
+}
+
+export interface PayoutLine {
+  paymentId: string;
+  bookingId: string | null;
+  serviceDate: string | null;
+  grossAmount: number;
+  refundedAmount: number;
+  feeAmount: number;
+  netAmount: number;
+}
+
+/** What a caregiver is owed for a period, before or after it is scheduled. */
+export interface PayoutStatement {
+  caregiver: UserReference;
+  period: PayoutPeriod;
+  feeRate: number;
+  bookingCount: number;
+  grossAmount: number;
+  refundedAmount: number;
+  feeAmount: number;
+  netAmount: number;
+  lines: PayoutLine[];
+}
+
+export interface CaregiverPayout extends PayoutStatement {
+  id: string;
+  status: CaregiverPayoutStatus;
+  scheduledFor: string;
+  reference?: string | null;
+  failureReason?: string | null;
+  sentAt?: string | null;
+  failedAt?: string | null;
+  createdBy?: UserReference | null;
+  createdAt: string;
+  updatedAt?: string | null;
 }
 
 export interface AnalyticsMetric {
@@ -314,10 +701,141 @@ export interface AuditLog {
     email?: string;
   };
   targetId: string;
+  targetType?: string;
   details: Record<string, unknown>;
   metadata?: Record<string, unknown>;
   timestamp: string;
   ip?: string;
+  chainSeq?: number;
+  hash?: string;
+  prevHash?: string;
+}
+
+export type AuditChainIssueType = 'hash_mismatch' | 'broken_link' | 'sequence_gap';
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  chainSeq: number;
+  entryId?: string;
+  expected?: string;
+  actual?: string;
+  detail?: string;
+}
+
+export interface AuditChainVerification {
+  from?: string;
+  to?: string;
+  verifiedAt: string;
+  checked: number;
+  firstSeq?: number;
+  lastSeq?: number;
+  headHash?: string;
+  issues: AuditChainIssue[];
+  valid: boolean;
+}
+
+export type ReportType =
+  | 'caregiver_misconduct'
+  | 'parent_maltreatment'
+  | 'inappropriate_behavior'
+  | 'safety_concern'
+  | 'payment_dispute'
+  | 'other';
+
+export type ReportSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type ReportStatus = 'pending' | 'under_review' | 'resolved' | 'dismissed';
+
+export interface ReportUserInfo {
+  id: string;
+  name: string;
+  email: string;
+  role?: string;
+  profile_image?: string | null;
+}
+
+export interface Report {
+  id: string;
+  reporter_id: string;
+  reported_user_id: string;
+  report_type: ReportType;
+  category?: string;
+  title: string;
+  description: string;
+  severity: ReportSeverity;
+  status: ReportStatus;
+  evidence_urls?: string[];
+  booking_id?: string;
+  job_id?: string;
+  admin_notes?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  resolution?: string;
+  created_at: string;
+  updated_at: string;
+  reporter?: ReportUserInfo;
+  reported_user?: ReportUserInfo;
+  reviewer?: ReportUserInfo;
+  assigned_to?: string | null;
+  assigned_at?: string | null;
+  assignee?: ReportUserInfo | null;
+  escalated_at?: string | null;
+  escalation_level?: number;
+  booking?: { id: string; status?: string; start_date?: string; end_date?: string } | null;
+  job?: { id: string; title?: string; status?: string } | null;
+}
+
+export type ReportCommentKind = 'comment' | 'assignment' | 'escalation' | 'action' | 'status';
+
+export interface ReportComment {
+  id: string;
+  report_id: string;
+  author_id?: string | null;
+  author?: ReportUserInfo | null;
+  kind: ReportCommentKind;
+  body: string;
+  metadata?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ReportStats {
+  total: number;
+  byStatus: Record<string, number>;
+  bySeverity: Record<string, number>;
+  byType: Record<string, number>;
+}
+
+export type ApprovalActionType = 'delete_user' | 'refund_payment' | 'delete_child_profile' | 'bulk_ban_users';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executing' | 'executed';
+
+export interface FieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  action_type: ApprovalActionType;
+  target_type: string;
+  target_id?: string | null;
+  summary: string;
+  reason: string;
+  payload: Record<string, unknown>;
+  diff: FieldDiff[];
+  status: ApprovalStatus;
+  requested_by: string;
+  requester?: ReportUserInfo | null;
+  reviewed_by?: string | null;
+  reviewer?: ReportUserInfo | null;
+  review_note?: string | null;
+  executed_by?: string | null;
+  executor?: ReportUserInfo | null;
+  created_at: string;
+  expires_at: string;
+  reviewed_at?: string | null;
+  executed_at?: string | null;
 }
 
 export type MaybeRelation<T> = T | T[] | null | undefined;
@@ -362,7 +880,8 @@ export interface JobRow {
 
 export interface BookingRow {
   id: string;
-  status?: Booking['status'] | null;
+  /** Raw value; older rows use the legacy `in-progress` spelling. */
+  status?: BookingStatus | 'in-progress' | null;
   parentId?: MaybeRelation<UserReference>;
   parent?: MaybeRelation<UserReference>;
   parent_id?: MaybeRelation<UserReference>;